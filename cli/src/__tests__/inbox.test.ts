@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const mockEnsureServer = vi.fn();
+vi.mock("@diffprism/core", () => ({
+  ensureServer: (...args: unknown[]) => mockEnsureServer(...args),
+  serverFetch: (...args: Parameters<typeof fetch>) => fetch(...args),
+}));
+
+// Opening an entry goes through the review command's PR flow
+const mockReview = vi.fn();
+vi.mock("../commands/review.js", () => ({
+  review: (...args: unknown[]) => mockReview(...args),
+}));
+
+import { inbox } from "../commands/inbox.js";
+
+const entry = {
+  owner: "acme",
+  repo: "app",
+  number: 42,
+  title: "Fix bug",
+  author: "dev",
+  url: "https://github.com/acme/app/pull/42",
+  draft: false,
+  reasons: ["review_requested", "local_repo"],
+  ci: "failure",
+  additions: 12,
+  deletions: 3,
+  changedFiles: 1,
+  createdAt: new Date(Date.now() - 3 * 24 * 3_600_000).toISOString(),
+  updatedAt: new Date().toISOString(),
+};
+
+function stubInbox(body: unknown, ok = true) {
+  const mockFetch = vi.fn().mockResolvedValue({ ok, json: () => Promise.resolve(body) });
+  vi.stubGlobal("fetch", mockFetch);
+  return mockFetch;
+}
+
+describe("inbox command", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnsureServer.mockResolvedValue({ httpPort: 24680, wsPort: 24681, pid: 1234, startedAt: Date.now() });
+    vi.spyOn(process, "exit").mockImplementation((() => {}) as never);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("lists entries with CI status, size, age and reasons", async () => {
+    const mockFetch = stubInbox({ entries: [entry], errors: ["github.example.com: token not found"] });
+
+    await inbox({});
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      `http://localhost:24680/api/inbox?cwd=${encodeURIComponent(process.cwd())}`,
+    );
+    const output = vi.mocked(console.log).mock.calls.map(([line]) => line).join("\n");
+    expect(output).toContain("1. acme/app#42  Fix bug");
+    expect(output).toContain("dev · CI failing · +12 -3 in 1 file · opened 3d ago · review requested, local clone");
+    expect(console.error).toHaveBeenCalledWith("Warning: github.example.com: token not found");
+  });
+
+  it("opens the chosen entry through the PR review flow", async () => {
+    stubInbox({ entries: [entry], errors: [] });
+
+    await inbox({ open: "1" });
+
+    expect(mockReview).toHaveBeenCalledWith("https://github.com/acme/app/pull/42", { dev: undefined });
+  });
+
+  it("exits 1 for an entry number outside the inbox", async () => {
+    stubInbox({ entries: [entry], errors: [] });
+
+    await inbox({ open: "5" });
+
+    expect(mockReview).not.toHaveBeenCalled();
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it("exits 1 when the server fails to load the inbox", async () => {
+    stubInbox({ error: "Failed to load inbox" }, false);
+
+    await inbox({});
+
+    expect(console.error).toHaveBeenCalledWith("Error: Failed to load inbox");
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import path from "node:path";
+
+const mockReadRepoRegistry = vi.fn();
+const mockRegisterRepo = vi.fn();
+const mockUnregisterRepo = vi.fn();
+const mockFindRepoRoot = vi.fn();
+vi.mock("@diffprism/core", () => ({
+  readRepoRegistry: (...args: unknown[]) => mockReadRepoRegistry(...args),
+  registerRepo: (...args: unknown[]) => mockRegisterRepo(...args),
+  unregisterRepo: (...args: unknown[]) => mockUnregisterRepo(...args),
+  findRepoRoot: (...args: unknown[]) => mockFindRepoRoot(...args),
+}));
+
+import { reposAdd, reposList, reposRemove } from "../commands/repos.js";
+
+describe("repos command", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(process, "exit").mockImplementation((() => {}) as never);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("lists registered clones and flags missing ones", () => {
+    mockReadRepoRegistry.mockReturnValue([process.cwd(), "/nonexistent/diffprism-repo"]);
+
+    reposList({});
+
+    const output = vi.mocked(console.log).mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain(`  ${process.cwd()}\n`);
+    expect(output).toContain("/nonexistent/diffprism-repo  (missing)");
+  });
+
+  it("registers the checkout containing the current directory", () => {
+    mockFindRepoRoot.mockReturnValue("/srv/app");
+    mockRegisterRepo.mockReturnValue(true);
+
+    reposAdd(undefined);
+
+    expect(mockFindRepoRoot).toHaveBeenCalledWith(process.cwd());
+    expect(mockRegisterRepo).toHaveBeenCalledWith("/srv/app");
+    expect(console.log).toHaveBeenCalledWith("Registered /srv/app");
+  });
+
+  it("refuses paths outside a git repository", () => {
+    mockFindRepoRoot.mockReturnValue(null);
+
+    reposAdd("notes");
+
+    expect(mockRegisterRepo).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(`Error: Not a git repository: ${path.resolve("notes")}`);
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it("fails to remove a clone that is not registered", () => {
+    mockUnregisterRepo.mockReturnValue(false);
+
+    reposRemove("/srv/app");
+
+    expect(mockUnregisterRepo).toHaveBeenCalledWith("/srv/app");
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -7,14 +7,20 @@ vi.mock("@diffprism/core", () => ({
   ensureServer: (...args: unknown[]) => mockEnsureServer(...args),
   submitReviewToServer: (...args: unknown[]) =>
     mockSubmitReviewToServer(...args),
+  serverFetch: (...args: Parameters<typeof fetch>) => fetch(...args),
 }));
 
 // Mock @diffprism/github
-const mockIsPrRef = vi.fn();
-const mockParsePrRef = vi.fn();
+const mockFindProvider = vi.fn();
+const mockParseRef = vi.fn();
+const mockProvider = {
+  name: "GitHub",
+  parseRef: (...args: unknown[]) => mockParseRef(...args),
+  formatRef: ({ owner, repo, number }: { owner: string; repo: string; number: number }) =>
+    `${owner}/${repo}#${number}`,
+};
 vi.mock("@diffprism/github", () => ({
-  isPrRef: (...args: unknown[]) => mockIsPrRef(...args),
-  parsePrRef: (...args: unknown[]) => mockParsePrRef(...args),
+  findProvider: (...args: unknown[]) => mockFindProvider(...args),
 }));
 
 import { review } from "../commands/review.js";
@@ -31,7 +37,7 @@ describe("review command", () => {
     vi.clearAllMocks();
     mockEnsureServer.mockResolvedValue(defaultServerInfo);
     // Default: not a PR ref (existing tests stay on local path)
-    mockIsPrRef.mockReturnValue(false);
+    mockFindProvider.mockReturnValue(null);
     // Prevent actual process.exit
     vi.spyOn(process, "exit").mockImplementation((() => {}) as never);
     vi.spyOn(console, "log").mockImplementation(() => {});
@@ -170,9 +176,9 @@ describe("review command", () => {
   });
 
   describe("PR detection routing", () => {
-    it("routes to PR flow when isPrRef returns true", async () => {
-      mockIsPrRef.mockReturnValue(true);
-      mockParsePrRef.mockReturnValue({ owner: "acme", repo: "app", number: 42 });
+    it("routes to PR flow when a provider recognizes the ref", async () => {
+      mockFindProvider.mockReturnValue(mockProvider);
+      mockParseRef.mockReturnValue({ owner: "acme", repo: "app", number: 42 });
 
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
@@ -187,8 +193,8 @@ describe("review command", () => {
 
       await review("acme/app#42", {});
 
-      expect(mockIsPrRef).toHaveBeenCalledWith("acme/app#42");
-      expect(mockParsePrRef).toHaveBeenCalledWith("acme/app#42");
+      expect(mockFindProvider).toHaveBeenCalledWith("acme/app#42");
+      expect(mockParseRef).toHaveBeenCalledWith("acme/app#42");
       expect(mockFetch).toHaveBeenCalledWith(
         `http://localhost:${defaultServerInfo.httpPort}/api/pr/open`,
         expect.objectContaining({ method: "POST" }),
@@ -197,9 +203,36 @@ describe("review command", () => {
       vi.unstubAllGlobals();
     });
 
+    it("asks the server to check the PR out with --checkout", async () => {
+      mockFindProvider.mockReturnValue(mockProvider);
+      mockParseRef.mockReturnValue({ owner: "acme", repo: "app", number: 42 });
+
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          sessionId: "session-pr-42",
+          fileCount: 1,
+          localRepoPath: null,
+          worktreePath: "/home/dev/.diffprism/worktrees/session-pr-42/app",
+          pr: { title: "Fix bug", author: "dev", url: "https://github.com/acme/app/pull/42", baseBranch: "main", headBranch: "fix-bug" },
+        }),
+      });
+      vi.stubGlobal("fetch", mockFetch);
+
+      await review("acme/app#42", { checkout: true });
+
+      const [, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(init.body as string)).toEqual({ prUrl: "acme/app#42", checkout: true });
+      expect(console.log).toHaveBeenCalledWith(
+        "Checked out to: /home/dev/.diffprism/worktrees/session-pr-42/app",
+      );
+
+      vi.unstubAllGlobals();
+    });
+
     it("exits 1 when server returns error", async () => {
-      mockIsPrRef.mockReturnValue(true);
-      mockParsePrRef.mockReturnValue({ owner: "acme", repo: "app", number: 42 });
+      mockFindProvider.mockReturnValue(mockProvider);
+      mockParseRef.mockReturnValue({ owner: "acme", repo: "app", number: 42 });
 
       const mockFetch = vi.fn().mockResolvedValue({
         ok: false,
@@ -216,8 +249,8 @@ describe("review command", () => {
     });
 
     it("handles server connection failure", async () => {
-      mockIsPrRef.mockReturnValue(true);
-      mockParsePrRef.mockReturnValue({ owner: "acme", repo: "app", number: 1 });
+      mockFindProvider.mockReturnValue(mockProvider);
+      mockParseRef.mockReturnValue({ owner: "acme", repo: "app", number: 1 });
 
       const mockFetch = vi.fn().mockRejectedValue(new Error("Connection refused"));
       vi.stubGlobal("fetch", mockFetch);
@@ -231,7 +264,7 @@ describe("review command", () => {
     });
 
     it("does not route to PR flow for local refs", async () => {
-      mockIsPrRef.mockReturnValue(false);
+      mockFindProvider.mockReturnValue(null);
       mockSubmitReviewToServer.mockResolvedValue({
         result: { decision: "approved", comments: [] },
         sessionId: "session-1",
@@ -239,7 +272,7 @@ describe("review command", () => {
 
       await review("HEAD~3..HEAD", {});
 
-      expect(mockParsePrRef).not.toHaveBeenCalled();
+      expect(mockParseRef).not.toHaveBeenCalled();
       expect(mockSubmitReviewToServer).toHaveBeenCalledWith(
         defaultServerInfo,
         "HEAD~3..HEAD",
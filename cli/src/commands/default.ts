@@ -1,5 +1,5 @@
 import open from "open";
-import { isServerAlive, ensureServer } from "@diffprism/core";
+import { isServerAlive, ensureServer, serverFetch } from "@diffprism/core";
 
 declare const DIFFPRISM_VERSION: string;
 
@@ -20,7 +20,7 @@ interface StatusResponse {
 }
 
 async function fetchStatus(httpPort: number): Promise<StatusResponse> {
-  const response = await fetch(`http://localhost:${httpPort}/api/status`, {
+  const response = await serverFetch(`http://localhost:${httpPort}/api/status`, {
     signal: AbortSignal.timeout(2000),
   });
   return (await response.json()) as StatusResponse;
@@ -0,0 +1,85 @@
+import { ensureServer, serverFetch } from "@diffprism/core";
+import type { CiStatus, InboxEntry, InboxPayload, InboxReason } from "@diffprism/core";
+import { review } from "./review.js";
+
+interface InboxFlags {
+  open?: string;
+  json?: boolean;
+  dev?: boolean;
+}
+
+const REASON_LABELS: Record<InboxReason, string> = {
+  review_requested: "review requested",
+  authored: "your PR",
+  local_repo: "local clone",
+};
+
+const CI_LABELS: Record<CiStatus, string> = {
+  success: "CI passing",
+  failure: "CI failing",
+  pending: "CI running",
+  none: "no CI",
+};
+
+function formatAge(iso: string, now = Date.now()): string {
+  const hours = Math.floor((now - new Date(iso).getTime()) / 3_600_000);
+  if (hours < 1) return "just now";
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function formatEntry(entry: InboxEntry, index: number): string {
+  const ref = `${entry.host ? `${entry.host}/` : ""}${entry.owner}/${entry.repo}#${entry.number}`;
+  const reasons = entry.reasons.map((reason) => REASON_LABELS[reason]).join(", ");
+  const size = `+${entry.additions} -${entry.deletions} in ${entry.changedFiles} file${entry.changedFiles !== 1 ? "s" : ""}`;
+  return [
+    `  ${String(index + 1).padStart(2)}. ${ref}  ${entry.draft ? "[draft] " : ""}${entry.title}`,
+    `      ${entry.author} · ${CI_LABELS[entry.ci]} · ${size} · opened ${formatAge(entry.createdAt)} · ${reasons}`,
+  ].join("\n");
+}
+
+export async function inbox(flags: InboxFlags): Promise<void> {
+  try {
+    const serverInfo = await ensureServer({ dev: flags.dev });
+
+    const response = await serverFetch(
+      `http://localhost:${serverInfo.httpPort}/api/inbox?cwd=${encodeURIComponent(process.cwd())}`,
+    );
+    const data = (await response.json()) as InboxPayload & { error?: string };
+    if (!response.ok) {
+      throw new Error(data.error ?? "Failed to load inbox");
+    }
+
+    if (flags.open !== undefined) {
+      const index = parseInt(flags.open, 10) - 1;
+      const entry = data.entries[index];
+      if (!entry) {
+        throw new Error(`No inbox entry ${flags.open} — the inbox has ${data.entries.length}`);
+      }
+      await review(entry.url, { dev: flags.dev });
+      return;
+    }
+
+    if (flags.json) {
+      console.log(JSON.stringify(data, null, 2));
+      return;
+    }
+
+    for (const error of data.errors) {
+      console.error(`Warning: ${error}`);
+    }
+
+    if (data.entries.length === 0) {
+      console.log("Inbox is empty — no PRs waiting on you.");
+      return;
+    }
+
+    console.log(`Review inbox (${data.entries.length})\n`);
+    data.entries.forEach((entry, index) => console.log(formatEntry(entry, index)));
+    console.log(`\nOpen one with: diffprism inbox --open <number>`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+}
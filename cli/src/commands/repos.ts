@@ -0,0 +1,52 @@
+import fs from "node:fs";
+import path from "node:path";
+import { findRepoRoot, readRepoRegistry, registerRepo, unregisterRepo } from "@diffprism/core";
+
+interface ReposFlags {
+  json?: boolean;
+}
+
+export function reposList(flags: ReposFlags): void {
+  const repos = readRepoRegistry();
+
+  if (flags.json) {
+    console.log(JSON.stringify(repos.map((repo) => ({ path: repo, exists: fs.existsSync(repo) })), null, 2));
+    return;
+  }
+
+  if (repos.length === 0) {
+    console.log("No local clones registered. Add one with: diffprism repos add [path]");
+    return;
+  }
+
+  console.log(`Local clones (${repos.length})\n`);
+  for (const repo of repos) {
+    console.log(`  ${repo}${fs.existsSync(repo) ? "" : "  (missing)"}`);
+  }
+}
+
+export function reposAdd(repoPath: string | undefined): void {
+  const target = path.resolve(repoPath ?? process.cwd());
+  const root = findRepoRoot(target);
+  if (!root) {
+    console.error(`Error: Not a git repository: ${target}`);
+    process.exit(1);
+    return;
+  }
+
+  if (registerRepo(root)) {
+    console.log(`Registered ${root}`);
+  } else {
+    console.log(`Already registered: ${root}`);
+  }
+}
+
+export function reposRemove(repoPath: string): void {
+  const target = path.resolve(repoPath);
+  if (!unregisterRepo(target)) {
+    console.error(`Error: Not registered: ${target}`);
+    process.exit(1);
+    return;
+  }
+  console.log(`Removed ${target}`);
+}
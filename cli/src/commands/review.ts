@@ -1,5 +1,5 @@
-import { ensureServer, submitReviewToServer } from "@diffprism/core";
-import { isPrRef, parsePrRef } from "@diffprism/github";
+import { ensureServer, submitReviewToServer, serverFetch } from "@diffprism/core";
+import { findProvider } from "@diffprism/github";
 
 interface ReviewFlags {
   staged?: boolean;
@@ -8,6 +8,7 @@ interface ReviewFlags {
   reasoning?: string;
   dev?: boolean;
   postToGithub?: boolean;
+  checkout?: boolean;
 }
 
 export async function review(
@@ -28,7 +29,7 @@ export async function review(
   }
 
   try {
-    if (isPrRef(diffRef)) {
+    if (findProvider(diffRef)) {
       await reviewPrFlow(diffRef, flags);
     } else {
       await reviewLocalFlow(diffRef, flags);
@@ -63,19 +64,20 @@ async function reviewPrFlow(
   pr: string,
   flags: ReviewFlags,
 ): Promise<void> {
-  const { owner, repo, number } = parsePrRef(pr);
-  console.log(`Fetching PR #${number} from ${owner}/${repo}...`);
+  const provider = findProvider(pr)!;
+  const ref = provider.parseRef(pr);
+  console.log(`Fetching ${provider.formatRef(ref)} from ${provider.name}...`);
 
   // Auto-start server if needed
   const serverInfo = await ensureServer({ dev: flags.dev });
 
-  // Use /api/pr/open — handles GitHub fetch + local repo auto-detection
-  const response = await fetch(
+  // Use /api/pr/open — handles the GitHub / GitLab fetch + local repo auto-detection
+  const response = await serverFetch(
     `http://localhost:${serverInfo.httpPort}/api/pr/open`,
     {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ prUrl: pr }),
+      body: JSON.stringify({ prUrl: pr, checkout: flags.checkout }),
     },
   );
 
@@ -83,6 +85,8 @@ async function reviewPrFlow(
     sessionId?: string;
     fileCount?: number;
     localRepoPath?: string | null;
+    worktreePath?: string | null;
+    checkoutError?: string;
     pr?: { title: string; author: string; url: string; baseBranch: string; headBranch: string };
     error?: string;
   };
@@ -92,13 +96,17 @@ async function reviewPrFlow(
     process.exit(1);
   }
 
-  console.log(`${data.pr?.title ?? `PR #${number}`}`);
+  console.log(`${data.pr?.title ?? provider.formatRef(ref)}`);
   console.log(`${data.fileCount} file${data.fileCount !== 1 ? "s" : ""} changed`);
 
   if (data.localRepoPath) {
     console.log(`Local repo: ${data.localRepoPath}`);
+  } else if (data.worktreePath) {
+    console.log(`Checked out to: ${data.worktreePath}`);
+  } else if (data.checkoutError) {
+    console.log(`Could not check out the PR (${data.checkoutError}) — file context unavailable`);
   } else {
-    console.log("No local clone detected — file context unavailable");
+    console.log("No local clone detected — file context unavailable. Rerun with --checkout to review in a worktree.");
   }
 
   console.log(`\nReview open in browser. Use Claude Code to ask questions about this PR.`);
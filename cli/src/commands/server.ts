@@ -2,7 +2,7 @@ import { spawn } from "node:child_process";
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
-import { startGlobalServer, readServerFile, isServerAlive } from "@diffprism/core";
+import { startGlobalServer, readServerFile, isServerAlive, serverFetch } from "@diffprism/core";
 import { setup, isGlobalSetupDone } from "./setup.js";
 
 interface ServerFlags {
@@ -10,6 +10,9 @@ interface ServerFlags {
   wsPort?: string;
   dev?: boolean;
   background?: boolean;
+  executePostReviewActions?: boolean;
+  analysisWorker?: boolean;
+  poll?: boolean;
   _daemon?: boolean;
 }
 
@@ -54,6 +57,9 @@ export async function server(flags: ServerFlags): Promise<void> {
       dev: flags.dev,
       silent: isDaemon,
       openBrowser: !isDaemon,
+      executePostReviewActions: flags.executePostReviewActions,
+      analysisWorker: flags.analysisWorker,
+      changeDetection: flags.poll ? "poll" : "watch",
     });
 
     // Graceful shutdown on SIGINT/SIGTERM
@@ -138,7 +144,7 @@ export async function serverStatus(): Promise<void> {
   }
 
   try {
-    const response = await fetch(`http://localhost:${info.httpPort}/api/status`, {
+    const response = await serverFetch(`http://localhost:${info.httpPort}/api/status`, {
       signal: AbortSignal.timeout(2000),
     });
     const status = (await response.json()) as {
@@ -157,7 +163,7 @@ export async function serverStatus(): Promise<void> {
 
     // List sessions if any
     if (status.sessions > 0) {
-      const sessionsResponse = await fetch(
+      const sessionsResponse = await serverFetch(
         `http://localhost:${info.httpPort}/api/reviews`,
         { signal: AbortSignal.timeout(2000) },
       );
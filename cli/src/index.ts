@@ -2,6 +2,8 @@
 
 import { Command } from "commander";
 import { review } from "./commands/review.js";
+import { inbox } from "./commands/inbox.js";
+import { reposList, reposAdd, reposRemove } from "./commands/repos.js";
 import { serve } from "./commands/serve.js";
 import { setup } from "./commands/setup.js";
 import { teardown } from "./commands/teardown.js";
@@ -35,6 +37,7 @@ program
   .option("--reasoning <text>", "Agent reasoning about the changes")
   .option("--dev", "Use Vite dev server with HMR instead of static files")
   .option("--post-to-github", "Automatically post review back to GitHub without prompting")
+  .option("--checkout", "Check the PR out into a worktree when no local clone matches")
   .action(review);
 
 // Hidden alias for backwards compatibility
@@ -42,6 +45,30 @@ program
   .command("review-pr <pr>", { hidden: true })
   .action((pr: string, flags: Record<string, unknown>) => review(pr, flags));
 
+program
+  .command("inbox")
+  .description("List PRs awaiting your review, your PRs with new activity, and PRs in repos cloned locally")
+  .option("--open <number>", "Open the inbox entry with this number for review")
+  .option("--json", "Print the inbox as JSON")
+  .option("--dev", "Use Vite dev server with HMR instead of static files")
+  .action(inbox);
+
+const reposCmd = program
+  .command("repos")
+  .description("List the local clones PRs are matched against")
+  .option("--json", "Print the registry as JSON")
+  .action(reposList);
+
+reposCmd
+  .command("add [path]")
+  .description("Register the git checkout at path (default: current directory)")
+  .action(reposAdd);
+
+reposCmd
+  .command("remove <path>")
+  .description("Forget a registered clone")
+  .action(reposRemove);
+
 program
   .command("serve")
   .description("Start the MCP server for Claude Code integration")
@@ -70,6 +97,9 @@ const serverCmd = program
   .option("--ws-port <port>", "WebSocket port (default: 24681)")
   .option("--dev", "Use Vite dev server with HMR instead of static files")
   .option("--background", "Start server as a background daemon")
+  .option("--execute-post-review-actions", "Commit (and open a PR) when an approved review requests it")
+  .option("--analysis-worker", "Compute and analyze diffs in a worker thread")
+  .option("--poll", "Detect file changes by polling instead of filesystem events")
   .option("--_daemon", "Internal: run as spawned daemon (do not use directly)")
   .action(server);
 
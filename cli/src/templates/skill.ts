@@ -5,7 +5,7 @@ description: Open current code changes in DiffPrism's browser-based review UI fo
 
 # DiffPrism Review
 
-You have 14 DiffPrism MCP tools available. Use them proactively — don't wait for the user to ask.
+You have 22 DiffPrism MCP tools available. Use them proactively — don't wait for the user to ask.
 
 ## Workflow 1: Self-Review Before Human Review
 
@@ -18,6 +18,7 @@ After making multi-file changes, **proactively self-review before requesting hum
    - **High complexity scores** — functions or files with elevated complexity
 3. **Fix any issues found** — remove debug logs, add missing tests, simplify complex code
 4. Only then open a human review with \`mcp__diffprism__open_review\`
+5. Call \`mcp__diffprism__run_verification\` on the new session to run tests, typecheck and lint — results show up in the reviewer's briefing. Fix failures before waiting for the review.
 
 This should happen automatically after significant changes. You don't need the user to ask.
 
@@ -37,12 +38,14 @@ When opening a review, help the reviewer by flagging what matters:
    - Anything the reviewer should look at closely
 3. After opening, use \`mcp__diffprism__flag_for_attention\` to highlight files that need careful review (e.g. auth logic, data migrations, public API changes)
 4. Use \`mcp__diffprism__add_annotation\` to post additional findings about specific lines if you discover issues while the review is open
+5. When you know the exact fix, use \`mcp__diffprism__suggest_change\` instead — the reviewer can apply it to the working tree with one click
 
 Handle the review result:
 - **\`approved\`** — Proceed with the task.
 - **\`changes_requested\`** — Read comments, make fixes, offer to re-review.
 - If \`postReviewAction\` is \`"commit"\` — commit the changes.
 - If \`postReviewAction\` is \`"commit_and_pr"\` — commit and open a PR.
+- If the result includes \`postReviewActionRun\`, the server is already doing this — don't commit yourself; report its \`status\`, \`commitSha\` and \`pullRequest\` (or \`error\`) instead.
 
 ## Workflow 3: PR Super Review
 
@@ -58,7 +61,11 @@ When the user opens a GitHub PR for review (via \`diffprism review <PR URL>\` or
 
 ### Leaving findings
 5. Call \`mcp__diffprism__add_review_comment\` to post findings directly to the browser UI. Comments appear as inline annotations on the diff in real-time. Use this to flag issues, suggest improvements, or answer the user's questions visually.
-6. Call \`mcp__diffprism__get_review_comments\` to see what's already been noted before adding your own.
+6. Call \`mcp__diffprism__get_review_comments\` to see what's already been noted before adding your own — including discussion other reviewers already left on the PR (\`githubThreads\`).
+
+### Discussing findings
+7. When the reviewer asks a question in a comment, answer in the thread with \`mcp__diffprism__reply_to_comment\` rather than in chat.
+8. Call \`mcp__diffprism__get_replies\` with \`wait: true\` to wait for the reviewer's response, then keep the conversation going in the same thread.
 
 ### Key principle
 The user sees the diff in the browser. You see it through MCP tools. Work together — they spot visual patterns, you analyze logic and context.
@@ -77,6 +84,7 @@ The user sees the diff in the browser. You see it through MCP tools. Work togeth
 |------|---------|
 | \`analyze_diff\` | Returns analysis JSON (patterns, complexity, test gaps) without opening a browser. |
 | \`get_diff\` | Returns structured diff JSON (file-level and hunk-level changes). |
+| \`run_verification\` | Run the project's test/typecheck/lint commands for a session and report exit status, duration and output. |
 
 ### PR Super Review
 | Tool | Purpose |
@@ -90,7 +98,14 @@ The user sees the diff in the browser. You see it through MCP tools. Work togeth
 | Tool | Purpose |
 |------|---------|
 | \`add_review_comment\` | Post a comment that appears inline in the browser diff. |
-| \`get_review_comments\` | Read all comments and annotations on the session. |
+| \`get_review_comments\` | Read all comments and annotations on the session, with their reply threads, plus review threads already on the GitHub PR. |
+| \`reply_to_comment\` | Reply to an annotation or a reviewer's inline comment. |
+| \`get_replies\` | Read (or wait for) the reviewer's replies to comment threads. |
+| \`suggest_change\` | Suggest a line-range replacement the reviewer can apply to the working tree. |
+| \`reply_to_github_thread\` | Reply to an existing GitHub PR review thread (by its \`id\` from \`get_review_comments\`). |
+| \`resolve_github_thread\` | Resolve or unresolve a GitHub PR review thread once it's addressed. |
+| \`edit_github_comment\` | Edit one of your own GitHub PR review comments. |
+| \`delete_github_comment\` | Delete one of your own GitHub PR review comments. |
 | \`add_annotation\` | Post a structured finding (finding/suggestion/question/warning). |
 | \`flag_for_attention\` | Mark files for human attention with warning annotations. |
 | \`get_review_state\` | Get current state of a review session including all annotations. |
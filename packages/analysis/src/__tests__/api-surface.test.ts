@@ -0,0 +1,346 @@
+import { describe, it, expect } from "vitest";
+import type { DiffFile, DiffSet, SourceReader } from "@diffprism/core";
+import { analyze } from "../index.js";
+import {
+  extractExports,
+  compareExports,
+  detectApiChanges,
+  sourceRequestsFor,
+} from "../api-surface.js";
+
+function makeFile(overrides: Partial<DiffFile> = {}): DiffFile {
+  return {
+    path: "src/client.ts",
+    status: "modified",
+    hunks: [],
+    language: "typescript",
+    binary: false,
+    additions: 1,
+    deletions: 1,
+    ...overrides,
+  };
+}
+
+function readerFor(sources: Record<string, { base?: string; head?: string }>): SourceReader {
+  return (path, side) => sources[path]?.[side] ?? null;
+}
+
+function changesBetween(base: string, head: string): string[] {
+  return compareExports("src/mod.ts", extractExports(base), extractExports(head)).map(
+    (c) => c.description,
+  );
+}
+
+describe("extractExports", () => {
+  it("collects exported declarations of every kind", () => {
+    const source = `
+import { x } from "./x.js";
+
+export function parsePrRef(input: string): PrRef {
+  return { owner: "", repo: "", number: 1 };
+}
+export async function load<T>(id: number, opts?: Options): Promise<T> { return null!; }
+export const VERSION = "1.0";
+export const handler = (req: Request): Response => new Response();
+export class Client {}
+export interface PrRef {
+  owner: string;
+  repo: string;
+  number?: number;
+}
+export type Side = "left" | "right";
+export enum Mode { A, B = 2 }
+export { helper, other as renamed } from "./helpers.js";
+export * from "./types.js";
+export default function main() {}
+function internal() {}
+`;
+    const symbols = extractExports(source);
+
+    expect([...symbols.keys()].sort()).toEqual([
+      "* from \"./types.js\"",
+      "Client",
+      "Mode",
+      "PrRef",
+      "Side",
+      "VERSION",
+      "default",
+      "handler",
+      "helper",
+      "load",
+      "parsePrRef",
+      "renamed",
+    ]);
+    expect(symbols.get("parsePrRef")).toMatchObject({
+      kind: "function",
+      signature: "(input: string): PrRef",
+    });
+    expect(symbols.get("load")?.signature).toBe("<T>(id: number, opts?: Options): Promise<T>");
+    expect(symbols.get("handler")).toMatchObject({ kind: "function", signature: "(req: Request): Response" });
+    expect(symbols.get("Side")?.signature).toBe('"left" | "right"');
+    expect([...symbols.get("PrRef")!.members!.keys()]).toEqual(["owner", "repo", "number"]);
+    expect(symbols.get("PrRef")!.members!.get("number")!.optional).toBe(true);
+    expect([...symbols.get("Mode")!.members!.keys()]).toEqual(["A", "B"]);
+  });
+
+  it("ignores exports inside comments, strings and nested blocks", () => {
+    const source = `
+// export function commented() {}
+/* export const blocked = 1; */
+const text = "export const fake = 1";
+namespace Inner {
+  export const nested = 1;
+}
+export const real = 1;
+`;
+    expect([...extractExports(source).keys()]).toEqual(["real"]);
+  });
+
+  it("does not read quotes inside regular expressions as strings", () => {
+    const source = `
+export function first(a: string): void {}
+export const second = 1;
+const QUOTE = /'/g;
+const DOUBLE = /"[^"]*/;
+const CLASS = /[/'"]/;
+export const ratio = (a: number, b: number): number => a / b / 2;
+export const third = 3;
+`;
+    expect([...extractExports(source).keys()]).toEqual(["first", "second", "ratio", "third"]);
+    // Adding the regexes to a module changes nothing about its exports
+    expect(changesBetween(source.replace(/^const .*\n/gm, ""), source)).toEqual([]);
+  });
+
+  it("steps over quotes and backticks inside template substitutions", () => {
+    const source = `
+export const greeting = \`it's \${name ?? "a \\\`guest\\\`"} and \${\`nested \${"}"}\`}\`;
+const tick = \`\${"\`"}\`;
+const label = \`"\`;
+export function after(): void {}
+`;
+    expect([...extractExports(source).keys()]).toEqual(["greeting", "after"]);
+  });
+
+  it("keeps JSX closing tags from starting a regular expression", () => {
+    const source = `
+export function List() {
+  return <ul>{items.map((i) => <li key={i}>{i}</li>)}</ul>;
+}
+export const after = 1;
+`;
+    expect([...extractExports(source).keys()]).toEqual(["List", "after"]);
+  });
+
+  it("handles multi-line type aliases and signatures", () => {
+    const source = `
+export type Status =
+  | "pending"
+  | "done";
+export function build(
+  a: string,
+  b: number,
+): void {}
+`;
+    const symbols = extractExports(source);
+    expect(symbols.get("Status")?.signature).toBe('"pending" | "done"');
+    expect(symbols.get("build")?.signature).toBe("(a: string, b: number): void");
+  });
+});
+
+describe("compareExports", () => {
+  it("reports removed exports as breaking", () => {
+    expect(
+      changesBetween("export function parsePrRef() {}\nexport function keep() {}", "export function keep() {}"),
+    ).toEqual(["removed export `parsePrRef` from src/mod.ts"]);
+  });
+
+  it("reports changed function signatures", () => {
+    const changes = compareExports(
+      "src/mod.ts",
+      extractExports("export function f(a: string): void {}"),
+      extractExports("export function f(a: string, b: number): void {}"),
+    );
+    expect(changes).toEqual([
+      expect.objectContaining({ description: "changed signature of `f` in src/mod.ts", breaking: true }),
+    ]);
+  });
+
+  it("treats appended optional parameters as non-breaking", () => {
+    const changes = compareExports(
+      "src/mod.ts",
+      extractExports("export function f(a: string): void {}"),
+      extractExports("export function f(a: string, b?: number): void {}"),
+    );
+    expect(changes).toHaveLength(1);
+    expect(changes[0].breaking).toBe(false);
+  });
+
+  it("detects narrowed and widened union types", () => {
+    expect(
+      changesBetween('export type Side = "left" | "right";', 'export type Side = "left";'),
+    ).toEqual(['narrowed type `Side` (removed `"right"`) in src/mod.ts']);
+
+    const widened = compareExports(
+      "src/mod.ts",
+      extractExports('export type Side = "left";'),
+      extractExports('export type Side = "left" | "right";'),
+    );
+    expect(widened[0].description).toContain("widened type `Side`");
+    expect(widened[0].breaking).toBe(false);
+  });
+
+  it("detects renamed interface fields", () => {
+    expect(
+      changesBetween(
+        "export interface Opts {\n  cwd: string;\n  silent?: boolean;\n}",
+        "export interface Opts {\n  workingDir: string;\n  silent?: boolean;\n}",
+      ),
+    ).toEqual(["renamed field `cwd` → `workingDir` in `Opts` in src/mod.ts"]);
+  });
+
+  it("distinguishes optional from required added fields", () => {
+    const changes = compareExports(
+      "src/mod.ts",
+      extractExports("export interface Opts {\n  a: string;\n}"),
+      extractExports("export interface Opts {\n  a: string;\n  b?: string;\n  c: number;\n}"),
+    );
+    expect(changes.map((c) => [c.description, c.breaking])).toEqual([
+      ["added field `b` to `Opts` in src/mod.ts", false],
+      ["added required field `c` to `Opts` in src/mod.ts", true],
+    ]);
+  });
+
+  it("reports new exports as non-breaking", () => {
+    const changes = compareExports("src/mod.ts", new Map(), extractExports("export const x = 1;"));
+    expect(changes).toEqual([
+      { file: "src/mod.ts", symbol: "x", description: "added export `x` to src/mod.ts", breaking: false },
+    ]);
+  });
+});
+
+describe("detectApiChanges", () => {
+  it("compares full sources when a reader is provided", () => {
+    const files = [makeFile({ path: "packages/github/src/client.ts" })];
+    const readSource = readerFor({
+      "packages/github/src/client.ts": {
+        base: "export function parsePrRef() {}\nexport function isPrRef() {}",
+        head: "export function isPrRef() {}",
+      },
+    });
+
+    const changes = detectApiChanges(files, readSource);
+
+    expect(changes.map((c) => c.description)).toEqual([
+      "removed export `parsePrRef` from packages/github/src/client.ts",
+    ]);
+  });
+
+  it("falls back to hunk contents without a reader", () => {
+    const files = [
+      makeFile({
+        hunks: [
+          {
+            oldStart: 1, oldLines: 1, newStart: 1, newLines: 1,
+            changes: [
+              { type: "delete", lineNumber: 1, content: "export function load(id: string): void {" },
+              { type: "add", lineNumber: 1, content: "export function load(id: number): void {" },
+              { type: "context", lineNumber: 2, content: "}" },
+            ],
+          },
+        ],
+      }),
+    ];
+
+    const changes = detectApiChanges(files);
+
+    expect(changes).toEqual([
+      expect.objectContaining({ description: "changed signature of `load` in src/client.ts", breaking: true }),
+    ]);
+  });
+
+  it("treats every export of a deleted file as removed", () => {
+    const files = [makeFile({ path: "src/old.ts", status: "deleted" })];
+    const readSource = readerFor({ "src/old.ts": { base: "export const a = 1;" } });
+
+    expect(detectApiChanges(files, readSource).map((c) => c.description)).toEqual([
+      "removed export `a` from src/old.ts",
+    ]);
+  });
+
+  it("skips test files and non-TypeScript files", () => {
+    const files = [
+      makeFile({ path: "src/__tests__/client.test.ts", status: "deleted" }),
+      makeFile({ path: "src/script.js", status: "deleted" }),
+    ];
+    const readSource = readerFor({
+      "src/__tests__/client.test.ts": { base: "export const a = 1;" },
+      "src/script.js": { base: "export const b = 1;" },
+    });
+
+    expect(detectApiChanges(files, readSource)).toEqual([]);
+  });
+});
+
+describe("sourceRequestsFor", () => {
+  it("lists the sides detectApiChanges reads", () => {
+    const files = [
+      makeFile({ path: "src/client.ts" }),
+      makeFile({ path: "src/new.ts", status: "added" }),
+      makeFile({ path: "src/old.ts", status: "deleted" }),
+      makeFile({ path: "src/moved.ts", oldPath: "src/orig.ts", status: "renamed" }),
+      makeFile({ path: "src/client.test.ts" }),
+      makeFile({ path: "README.md", language: "markdown" }),
+      // Staged and unstaged entries of the same file
+      makeFile({ path: "src/client.ts", stage: "unstaged" }),
+    ];
+
+    expect(sourceRequestsFor(files)).toEqual([
+      { path: "src/client.ts", side: "base" },
+      { path: "src/client.ts", side: "head" },
+      { path: "src/new.ts", side: "head" },
+      { path: "src/old.ts", side: "base" },
+      { path: "src/orig.ts", side: "base" },
+      { path: "src/moved.ts", side: "head" },
+    ]);
+  });
+});
+
+describe("analyze with API changes", () => {
+  it("fills publicApiChanges and breakingChanges and marks the file critical", () => {
+    const diffSet: DiffSet = {
+      baseRef: "HEAD",
+      headRef: "working tree",
+      files: [makeFile({ path: "packages/github/src/client.ts" })],
+    };
+    const readSource = readerFor({
+      "packages/github/src/client.ts": {
+        base: "export function parsePrRef() {}",
+        head: "export const other = 1;",
+      },
+    });
+
+    const briefing = analyze(diffSet, { readSource });
+
+    expect(briefing.impact.publicApiChanges).toBe(true);
+    expect(briefing.impact.breakingChanges).toEqual([
+      "removed export `parsePrRef` from packages/github/src/client.ts",
+    ]);
+    expect(briefing.triage.critical).toHaveLength(1);
+    expect(briefing.triage.critical[0].reason).toContain("breaking API changes: parsePrRef");
+  });
+
+  it("reports public API changes without breaking changes for additions", () => {
+    const diffSet: DiffSet = {
+      baseRef: "HEAD",
+      headRef: "working tree",
+      files: [makeFile({ path: "src/lib.ts", status: "added" })],
+    };
+    const readSource = readerFor({ "src/lib.ts": { head: "export const x = 1;" } });
+
+    const briefing = analyze(diffSet, { readSource });
+
+    expect(briefing.impact.publicApiChanges).toBe(true);
+    expect(briefing.impact.breakingChanges).toEqual([]);
+    expect(briefing.triage.critical).toHaveLength(0);
+  });
+});
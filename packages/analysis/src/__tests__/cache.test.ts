@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from "vitest";
+import type { DiffFile, DiffSet, Hunk } from "@diffprism/core";
+import { analyze, createAnalysisCache } from "../index.js";
+
+function makeHunk(lines: string[]): Hunk {
+  return {
+    oldStart: 1,
+    oldLines: 0,
+    newStart: 1,
+    newLines: lines.length,
+    changes: lines.map((content, i) => ({ type: "add" as const, lineNumber: i + 1, content })),
+  };
+}
+
+function makeFile(path: string, lines: string[], overrides: Partial<DiffFile> = {}): DiffFile {
+  return {
+    path,
+    status: "modified",
+    hunks: [makeHunk(lines)],
+    language: "typescript",
+    binary: false,
+    additions: lines.length,
+    deletions: 0,
+    ...overrides,
+  };
+}
+
+function makeDiffSet(files: DiffFile[]): DiffSet {
+  return { baseRef: "HEAD", headRef: "working tree", files };
+}
+
+const files = [
+  makeFile("src/a.ts", ["// TODO: remove", "console.log(a);"]),
+  makeFile("src/b.ts", ["const html = el.innerHTML;", "eval(code);"]),
+  makeFile("src/c.ts", ["if (a && b) {", "  return c || d;", "}"]),
+  makeFile("src/index.ts", ["export function run(): void {}"]),
+  makeFile("src/b.ts", ["const url = \"http://example.com\";"], { stage: "unstaged" }),
+];
+
+describe("analyze with a cache", () => {
+  it("produces the same briefing as a full analysis", () => {
+    const diffSet = makeDiffSet(files);
+    const cache = createAnalysisCache();
+
+    expect(analyze(diffSet, { cache })).toEqual(analyze(diffSet));
+    // A fully cached run is identical too
+    expect(analyze(diffSet, { cache })).toEqual(analyze(diffSet));
+  });
+
+  it("only re-analyzes files whose hunks changed", () => {
+    const cache = createAnalysisCache();
+    analyze(makeDiffSet(files), { cache });
+    expect(cache.lastRun).toEqual({ reused: 0, computed: 5 });
+
+    const edited = [...files];
+    edited[2] = makeFile("src/c.ts", ["if (a) {", "}"]);
+    const briefing = analyze(makeDiffSet(edited), { cache });
+
+    expect(cache.lastRun).toEqual({ reused: 4, computed: 1 });
+    expect(briefing).toEqual(analyze(makeDiffSet(edited)));
+  });
+
+  it("drops entries for files that left the diff", () => {
+    const cache = createAnalysisCache();
+    analyze(makeDiffSet(files), { cache });
+
+    analyze(makeDiffSet(files.slice(0, 2)), { cache });
+
+    expect(cache.size).toBe(2);
+  });
+
+  it("keeps results computed with and without full sources apart", () => {
+    const cache = createAnalysisCache();
+    const diffSet = makeDiffSet([makeFile("src/index.ts", ["export const x = 1;"])]);
+    analyze(diffSet, { cache });
+
+    const readSource = vi.fn().mockReturnValue("export const x = 1;");
+    analyze(diffSet, { cache, readSource });
+
+    expect(readSource).toHaveBeenCalled();
+    expect(cache.lastRun).toEqual({ reused: 0, computed: 1 });
+  });
+});
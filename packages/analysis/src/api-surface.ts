@@ -0,0 +1,892 @@
+import type { DiffFile, SourceReader, SourceRequest } from "@diffprism/core";
+
+// ─── Exported Symbol Extraction ───
+
+export type ExportKind =
+  | "function"
+  | "variable"
+  | "class"
+  | "interface"
+  | "type"
+  | "enum"
+  | "namespace"
+  | "reexport";
+
+export interface ExportedSymbol {
+  name: string;
+  kind: ExportKind;
+  /** Normalized signature text (params + return type, declared type, alias body). */
+  signature?: string;
+  /** Interface fields or enum members, keyed by name. */
+  members?: Map<string, MemberInfo>;
+}
+
+export interface MemberInfo {
+  optional: boolean;
+  type: string;
+}
+
+export interface ApiChange {
+  file: string;
+  symbol: string;
+  description: string;
+  breaking: boolean;
+}
+
+const TS_EXTENSIONS = /\.(ts|tsx|mts|cts)$/;
+
+const TEST_FILE_PATTERNS = [
+  /\.test\./,
+  /\.spec\./,
+  /\/__tests__\//,
+  /\/test\//,
+];
+
+/**
+ * Whether a file participates in public API detection: TypeScript sources
+ * that are not tests.
+ */
+export function isTypeScriptSource(path: string): boolean {
+  return TS_EXTENSIONS.test(path) && !TEST_FILE_PATTERNS.some((re) => re.test(path));
+}
+
+// Keywords after which a `/` starts a regular expression, not a division
+const REGEX_PRECEDING_KEYWORDS = /\b(?:return|typeof|instanceof|in|of|new|delete|void|throw|case|do|else|yield|await)$/;
+
+/**
+ * Whether a `/` following `before` (the output so far) starts a regular
+ * expression literal rather than a division.
+ */
+function startsRegex(before: string): boolean {
+  let end = before.length;
+  while (end > 0 && /\s/.test(before[end - 1])) end--;
+  if (end === 0) return true;
+  const tail = before.slice(Math.max(0, end - 12), end);
+  if (REGEX_PRECEDING_KEYWORDS.test(tail)) return true;
+  // `</` closes a JSX element
+  return !/[\w$)\]}<]$/.test(tail);
+}
+
+/**
+ * Index just past the regular expression literal starting at `start`, or -1
+ * when it does not close on its line (so it was not a regex after all).
+ */
+function readRegex(source: string, start: number): number {
+  let i = start + 1;
+  let inClass = false;
+  while (i < source.length && source[i] !== "\n") {
+    const ch = source[i];
+    if (ch === "\\") {
+      i += 2;
+      continue;
+    }
+    if (ch === "[") inClass = true;
+    else if (ch === "]") inClass = false;
+    else if (ch === "/" && !inClass) break;
+    i++;
+  }
+  if (source[i] !== "/") return -1;
+  i++;
+  while (/[a-z]/i.test(source[i] ?? "")) i++;
+  return i;
+}
+
+/** Index just past the string literal starting at `start`. */
+function readQuoted(source: string, start: number): number {
+  const quote = source[start];
+  let i = start + 1;
+  while (i < source.length && source[i] !== quote) {
+    if (source[i] === "\\") i++;
+    i++;
+  }
+  return i + 1;
+}
+
+/**
+ * Index just past the template literal starting at `start`, stepping over
+ * `${...}` substitutions and any strings or templates inside them.
+ */
+function readTemplate(source: string, start: number): number {
+  let i = start + 1;
+  while (i < source.length && source[i] !== "`") {
+    if (source[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (source[i] === "$" && source[i + 1] === "{") {
+      i += 2;
+      let depth = 1;
+      while (i < source.length && depth > 0) {
+        const ch = source[i];
+        if (ch === '"' || ch === "'") {
+          i = readQuoted(source, i);
+        } else if (ch === "`") {
+          i = readTemplate(source, i);
+        } else {
+          if (ch === "{") depth++;
+          else if (ch === "}") depth--;
+          i++;
+        }
+      }
+      continue;
+    }
+    i++;
+  }
+  return i + 1;
+}
+
+/**
+ * Remove comments while keeping string and template literals intact, so the
+ * scanner below never mistakes a brace inside a comment for structure.
+ * Regular expressions and templates with substitutions can hold unbalanced
+ * quotes, so they are rewritten as plain string literals.
+ */
+function stripComments(source: string): string {
+  let out = "";
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    const next = source[i + 1];
+
+    if (ch === "/" && next === "/") {
+      while (i < source.length && source[i] !== "\n") i++;
+      continue;
+    }
+    if (ch === "/" && next === "*") {
+      i += 2;
+      while (i < source.length && !(source[i] === "*" && source[i + 1] === "/")) i++;
+      i += 2;
+      out += " ";
+      continue;
+    }
+    if (ch === "/" && startsRegex(out)) {
+      const end = readRegex(source, i);
+      if (end !== -1) {
+        out += JSON.stringify(source.slice(i, end));
+        i = end;
+        continue;
+      }
+    }
+    if (ch === "`") {
+      const end = readTemplate(source, i);
+      const literal = source.slice(i, end);
+      out += literal.includes("${") ? JSON.stringify(literal) : literal;
+      i = end;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      const end = readQuoted(source, i);
+      out += source.slice(i, end);
+      i = end;
+      continue;
+    }
+    out += ch;
+    i++;
+  }
+  return out;
+}
+
+const OPENERS: Record<string, string> = { "(": ")", "{": "}", "[": "]", "<": ">" };
+
+/**
+ * Read a balanced group starting at `start` (which must be an opener) and
+ * return the index just past its closer. Angle brackets are only balanced
+ * against each other; `=>` inside a group is not treated as a closer.
+ */
+function readBalanced(text: string, start: number): number {
+  const stack: string[] = [];
+  let i = start;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'" || ch === "`") {
+      i++;
+      while (i < text.length && text[i] !== ch) {
+        if (text[i] === "\\") i++;
+        i++;
+      }
+      i++;
+      continue;
+    }
+    if (ch === "=" && text[i + 1] === ">") {
+      i += 2;
+      continue;
+    }
+    // A `;` inside an angle group means the `<` was a comparison, not generics
+    if (ch === ";" && stack[stack.length - 1] === ">") return start + 1;
+    if (ch in OPENERS && (ch !== "<" || stack.length === 0 || stack[stack.length - 1] === ">")) {
+      stack.push(OPENERS[ch]);
+    } else if (ch === stack[stack.length - 1]) {
+      stack.pop();
+      if (stack.length === 0) return i + 1;
+    }
+    i++;
+  }
+  return text.length;
+}
+
+/**
+ * Scan forward from `start` until one of `stops` appears at bracket depth 0.
+ * Returns the index of the stop character (or text length).
+ */
+function scanUntil(text: string, start: number, stops: (text: string, i: number) => boolean): number {
+  let i = start;
+  while (i < text.length) {
+    const ch = text[i];
+    if (stops(text, i)) return i;
+    if (ch === '"' || ch === "'" || ch === "`" || ch === "(" || ch === "{" || ch === "[") {
+      i = ch in OPENERS ? readBalanced(text, i) : skipString(text, i);
+      continue;
+    }
+    if (ch === "<" && /[\w${[(]/.test(text[i + 1] ?? "") && /[\w$]/.test(text[i - 1] ?? "")) {
+      i = readBalanced(text, i);
+      continue;
+    }
+    i++;
+  }
+  return text.length;
+}
+
+function skipString(text: string, start: number): number {
+  const quote = text[start];
+  let i = start + 1;
+  while (i < text.length && text[i] !== quote) {
+    if (text[i] === "\\") i++;
+    i++;
+  }
+  return i + 1;
+}
+
+/**
+ * Collapse formatting so that reflowed declarations compare equal.
+ */
+function normalize(text: string): string {
+  return text
+    .replace(/\s+/g, " ")
+    .replace(/([([{<]) /g, "$1")
+    .replace(/[,;]? ([)\]}>])/g, "$1")
+    .replace(/,([)\]}>])/g, "$1")
+    .replace(/[;,]\s*$/, "")
+    .trim();
+}
+
+/**
+ * Split a parameter or member list at depth-0 separators.
+ */
+function splitTopLevel(text: string, separators: RegExp): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch in OPENERS && ch !== "<") {
+      const end = readBalanced(text, i);
+      current += text.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (ch === "<") {
+      const end = readBalanced(text, i);
+      current += text.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (ch === '"' || ch === "'" || ch === "`") {
+      const end = skipString(text, i);
+      current += text.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (separators.test(ch)) {
+      if (current.trim()) parts.push(current.trim());
+      current = "";
+      i++;
+      continue;
+    }
+    current += ch;
+    i++;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Find the end of a statement that has no body of its own (type alias,
+ * variable): a depth-0 `;`, or a depth-0 newline that is not followed by a
+ * continuation token.
+ */
+function statementEnd(text: string, start: number): number {
+  return scanUntil(text, start, (t, i) => {
+    if (t[i] === ";") return true;
+    if (t[i] !== "\n") return false;
+    const before = t.slice(start, i).trimEnd();
+    if (/(=|=>|,|\||&|\?|:|\+|-|\*|\/|\.|extends|keyof|typeof)$/.test(before)) return false;
+    const after = t.slice(i + 1).trimStart();
+    return !/^(\||&|\?|:|\.|=>|extends\b|as\b|satisfies\b)/.test(after);
+  });
+}
+
+function parseMembers(body: string): Map<string, MemberInfo> {
+  const members = new Map<string, MemberInfo>();
+  for (const part of splitTopLevel(body, /[;,\n]/)) {
+    const match = part.match(/^(?:readonly\s+)?([\w$]+|"[^"]+"|'[^']+')(\?)?\s*(?::\s*([\s\S]*)|(\([\s\S]*))$/);
+    if (match) {
+      const name = match[1].replace(/^["']|["']$/g, "");
+      members.set(name, {
+        optional: match[2] === "?",
+        type: normalize(match[3] ?? match[4] ?? ""),
+      });
+      continue;
+    }
+    // Enum members: `Name` or `Name = value`
+    const enumMatch = part.match(/^([\w$]+)\s*(?:=\s*([\s\S]+))?$/);
+    if (enumMatch) {
+      members.set(enumMatch[1], { optional: false, type: normalize(enumMatch[2] ?? "") });
+    }
+  }
+  return members;
+}
+
+/**
+ * Read a function-like signature starting at `start`: optional generics,
+ * the parameter list, and an optional return type.
+ */
+function readSignature(text: string, start: number): { signature: string; end: number } | null {
+  let i = start;
+  while (/\s/.test(text[i] ?? "")) i++;
+  let generics = "";
+  if (text[i] === "<") {
+    const end = readBalanced(text, i);
+    generics = text.slice(i, end);
+    i = end;
+    while (/\s/.test(text[i] ?? "")) i++;
+  }
+  if (text[i] !== "(") return null;
+  const paramsEnd = readBalanced(text, i);
+  const params = text.slice(i, paramsEnd);
+  i = paramsEnd;
+  while (/\s/.test(text[i] ?? "")) i++;
+  let returnType = "";
+  if (text[i] === ":") {
+    const retEnd = scanUntil(text, i + 1, (t, j) =>
+      t[j] === "{" || t[j] === ";" || (t[j] === "=" && t[j + 1] === ">") || t[j] === "\n",
+    );
+    returnType = text.slice(i + 1, retEnd);
+    i = retEnd;
+  }
+  const signature = normalize(`${generics}${params}${returnType ? `: ${normalize(returnType)}` : ""}`);
+  return { signature, end: i };
+}
+
+function addSymbol(symbols: Map<string, ExportedSymbol>, symbol: ExportedSymbol): void {
+  const existing = symbols.get(symbol.name);
+  // Function overloads accumulate into one combined signature
+  if (existing && existing.kind === "function" && symbol.kind === "function") {
+    existing.signature = [existing.signature, symbol.signature].filter(Boolean).join(" & ");
+    return;
+  }
+  symbols.set(symbol.name, symbol);
+}
+
+/**
+ * Extract the exported symbols of a TypeScript module using a lightweight
+ * declaration scanner. Only top-level `export` statements are considered.
+ */
+export function extractExports(source: string): Map<string, ExportedSymbol> {
+  const text = stripComments(source);
+  const symbols = new Map<string, ExportedSymbol>();
+
+  let depth = 0;
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'" || ch === "`") {
+      i = skipString(text, i);
+      continue;
+    }
+    if (ch === "{" || ch === "(" || ch === "[") depth++;
+    else if (ch === "}" || ch === ")" || ch === "]") depth = Math.max(0, depth - 1);
+
+    const atWordStart = i === 0 || !/[\w$.]/.test(text[i - 1]);
+    if (depth !== 0 || !atWordStart || !text.startsWith("export", i) || /[\w$]/.test(text[i + 6] ?? "")) {
+      i++;
+      continue;
+    }
+
+    i = parseExport(text, i + 6, symbols);
+  }
+
+  return symbols;
+}
+
+/**
+ * Parse a single export statement beginning right after the `export`
+ * keyword. Returns the index to resume scanning from.
+ */
+function parseExport(text: string, start: number, symbols: Map<string, ExportedSymbol>): number {
+  const rest = text.slice(start);
+  let m: RegExpMatchArray | null;
+
+  // export * from "x" / export * as ns from "x"
+  if ((m = rest.match(/^\s*\*\s*(?:as\s+([\w$]+)\s+)?from\s*(["'])([^"']+)\2/))) {
+    const name = m[1] ?? `* from "${m[3]}"`;
+    addSymbol(symbols, { name, kind: m[1] ? "namespace" : "reexport" });
+    return start + m[0].length;
+  }
+
+  // export { a, b as c } [from "x"]
+  if ((m = rest.match(/^\s*(?:type\s+)?\{/))) {
+    const open = start + m[0].length - 1;
+    const close = readBalanced(text, open);
+    for (const spec of splitTopLevel(text.slice(open + 1, close - 1), /,/)) {
+      const parts = spec.replace(/^type\s+/, "").split(/\s+as\s+/);
+      const name = (parts[1] ?? parts[0]).trim();
+      if (name) addSymbol(symbols, { name, kind: "reexport" });
+    }
+    return close;
+  }
+
+  // export default ...
+  if ((m = rest.match(/^\s*default\b/))) {
+    const after = rest.slice(m[0].length);
+    const fn = after.match(/^\s*(?:async\s+)?function\s*\*?\s*([\w$]*)/);
+    if (fn) {
+      const sig = readSignature(text, start + m[0].length + fn[0].length);
+      addSymbol(symbols, { name: "default", kind: "function", signature: sig?.signature });
+      return sig?.end ?? start + m[0].length;
+    }
+    addSymbol(symbols, { name: "default", kind: /^\s*(?:abstract\s+)?class\b/.test(after) ? "class" : "variable" });
+    return start + m[0].length;
+  }
+
+  const modifiers = rest.match(/^\s*(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?/)![0];
+  const declStart = start + modifiers.length;
+  const decl = text.slice(declStart);
+
+  // export function name(...)
+  if ((m = decl.match(/^function\s*\*?\s*([\w$]+)/))) {
+    const sig = readSignature(text, declStart + m[0].length);
+    addSymbol(symbols, { name: m[1], kind: "function", signature: sig?.signature });
+    return sig?.end ?? declStart + m[0].length;
+  }
+
+  // export class Name
+  if ((m = decl.match(/^class\s+([\w$]+)/))) {
+    addSymbol(symbols, { name: m[1], kind: "class" });
+    return declStart + m[0].length;
+  }
+
+  // export interface Name<T> extends X { ... }
+  if ((m = decl.match(/^interface\s+([\w$]+)/))) {
+    const open = scanUntil(text, declStart + m[0].length, (t, j) => t[j] === "{");
+    const close = readBalanced(text, open);
+    const heading = normalize(text.slice(declStart + m[0].length, open));
+    addSymbol(symbols, {
+      name: m[1],
+      kind: "interface",
+      signature: heading,
+      members: parseMembers(text.slice(open + 1, close - 1)),
+    });
+    return close;
+  }
+
+  // export [const] enum Name { ... }
+  if ((m = decl.match(/^(?:const\s+)?enum\s+([\w$]+)\s*\{/))) {
+    const open = declStart + m[0].length - 1;
+    const close = readBalanced(text, open);
+    addSymbol(symbols, {
+      name: m[1],
+      kind: "enum",
+      members: parseMembers(text.slice(open + 1, close - 1)),
+    });
+    return close;
+  }
+
+  // export type Name<T> = ...
+  if ((m = decl.match(/^type\s+([\w$]+)/))) {
+    let i = declStart + m[0].length;
+    let generics = "";
+    while (/\s/.test(text[i] ?? "")) i++;
+    if (text[i] === "<") {
+      const end = readBalanced(text, i);
+      generics = normalize(text.slice(i, end));
+      i = end;
+    }
+    const eq = text.indexOf("=", i);
+    if (eq === -1) return i;
+    const end = statementEnd(text, eq + 1);
+    addSymbol(symbols, {
+      name: m[1],
+      kind: "type",
+      signature: `${generics}${generics ? " " : ""}${normalize(text.slice(eq + 1, end)).replace(/^\|\s*/, "")}`,
+    });
+    return end;
+  }
+
+  // export namespace / module Name
+  if ((m = decl.match(/^(?:namespace|module)\s+([\w$.]+)/))) {
+    addSymbol(symbols, { name: m[1], kind: "namespace" });
+    return declStart + m[0].length;
+  }
+
+  // export const name: Type = ... / export const name = (...) => ...
+  if ((m = decl.match(/^(?:const|let|var)\s+([\w$]+)/))) {
+    let i = declStart + m[0].length;
+    while (/\s/.test(text[i] ?? "")) i++;
+    const end = statementEnd(text, i);
+    let signature: string | undefined;
+    let kind: ExportKind = "variable";
+
+    if (text[i] === ":") {
+      const annotationEnd = scanUntil(text, i + 1, (t, j) =>
+        t[j] === "=" && t[j + 1] !== ">" && t[j - 1] !== "=" && t[j - 1] !== "!",
+      );
+      signature = normalize(text.slice(i + 1, Math.min(annotationEnd, end)));
+    } else if (text[i] === "=") {
+      let valueStart = i + 1;
+      const value = text.slice(valueStart);
+      const asyncPrefix = value.match(/^\s*(?:async\s+)?(?:function\s*\*?\s*[\w$]*)?/)![0];
+      valueStart += asyncPrefix.length;
+      const sig = readSignature(text, valueStart);
+      if (sig && (/function/.test(asyncPrefix) || /^\s*=>/.test(text.slice(sig.end)))) {
+        kind = "function";
+        signature = sig.signature;
+      }
+    }
+
+    addSymbol(symbols, { name: m[1], kind, signature });
+    return end;
+  }
+
+  return start;
+}
+
+// ─── API Comparison ───
+
+interface ParamInfo {
+  name: string;
+  optional: boolean;
+  type: string;
+}
+
+function parseParams(signature: string): { params: ParamInfo[]; returnType: string } | null {
+  const open = signature.indexOf("(");
+  if (open === -1) return null;
+  const close = readBalanced(signature, open);
+  const params = splitTopLevel(signature.slice(open + 1, close - 1), /,/).map((p) => {
+    const rest = p.startsWith("...");
+    const match = p.replace(/^\.\.\./, "").match(/^([\w$]+|\{[\s\S]*\}|\[[\s\S]*\])(\?)?\s*(?::\s*([\s\S]*?))?\s*(=[\s\S]*)?$/);
+    return {
+      name: match?.[1] ?? p,
+      optional: rest || match?.[2] === "?" || !!match?.[4],
+      type: normalize(match?.[3] ?? ""),
+    };
+  });
+  const returnType = normalize(signature.slice(close).replace(/^\s*:/, ""));
+  return { params, returnType };
+}
+
+/**
+ * Adding trailing optional parameters is the only signature change that
+ * cannot break existing callers.
+ */
+function isCompatibleSignatureChange(before: string, after: string): boolean {
+  if (before.includes(" & ") || after.includes(" & ")) return false;
+  const a = parseParams(before);
+  const b = parseParams(after);
+  if (!a || !b) return false;
+  if (a.returnType !== b.returnType) return false;
+  if (b.params.length < a.params.length) return false;
+  for (let i = 0; i < a.params.length; i++) {
+    if (a.params[i].type !== b.params[i].type) return false;
+    if (a.params[i].optional && !b.params[i].optional) return false;
+  }
+  return b.params.slice(a.params.length).every((p) => p.optional);
+}
+
+function unionMembers(type: string): string[] {
+  return splitTopLevel(type, /\|/).map((t) => normalize(t));
+}
+
+function compareMembers(
+  file: string,
+  name: string,
+  label: string,
+  before: Map<string, MemberInfo>,
+  after: Map<string, MemberInfo>,
+  changes: ApiChange[],
+): void {
+  const removed = [...before.keys()].filter((k) => !after.has(k));
+  const added = [...after.keys()].filter((k) => !before.has(k));
+
+  // A single removed + single added member with the same type reads as a rename
+  if (removed.length === 1 && added.length === 1 && before.get(removed[0])!.type === after.get(added[0])!.type) {
+    changes.push({
+      file,
+      symbol: name,
+      description: `renamed ${label} \`${removed[0]}\` → \`${added[0]}\` in \`${name}\` in ${file}`,
+      breaking: true,
+    });
+    return;
+  }
+
+  for (const key of removed) {
+    changes.push({
+      file,
+      symbol: name,
+      description: `removed ${label} \`${key}\` from \`${name}\` in ${file}`,
+      breaking: true,
+    });
+  }
+
+  for (const key of added) {
+    const member = after.get(key)!;
+    const breaking = label === "field" && !member.optional;
+    changes.push({
+      file,
+      symbol: name,
+      description: `added ${breaking ? "required " : ""}${label} \`${key}\` to \`${name}\` in ${file}`,
+      breaking,
+    });
+  }
+
+  for (const [key, prev] of before) {
+    const next = after.get(key);
+    if (!next) continue;
+    if (prev.type !== next.type) {
+      changes.push({
+        file,
+        symbol: name,
+        description: `changed type of ${label} \`${key}\` in \`${name}\` in ${file}`,
+        breaking: true,
+      });
+    } else if (prev.optional && !next.optional) {
+      changes.push({
+        file,
+        symbol: name,
+        description: `made ${label} \`${key}\` required in \`${name}\` in ${file}`,
+        breaking: true,
+      });
+    }
+  }
+}
+
+function compareSymbol(
+  file: string,
+  before: ExportedSymbol,
+  after: ExportedSymbol,
+  changes: ApiChange[],
+): void {
+  const { name } = before;
+
+  if (before.kind !== after.kind) {
+    changes.push({
+      file,
+      symbol: name,
+      description: `changed \`${name}\` from ${before.kind} to ${after.kind} in ${file}`,
+      breaking: true,
+    });
+    return;
+  }
+
+  if (before.members && after.members) {
+    compareMembers(file, name, before.kind === "enum" ? "member" : "field", before.members, after.members, changes);
+    if (before.kind === "interface" && before.signature !== after.signature) {
+      changes.push({
+        file,
+        symbol: name,
+        description: `changed declaration of \`${name}\` in ${file}`,
+        breaking: true,
+      });
+    }
+    return;
+  }
+
+  if (before.signature === after.signature) return;
+
+  if (before.kind === "function") {
+    const compatible = !!before.signature && !!after.signature &&
+      isCompatibleSignatureChange(before.signature, after.signature);
+    changes.push({
+      file,
+      symbol: name,
+      description: `changed signature of \`${name}\` in ${file}`,
+      breaking: !compatible,
+    });
+    return;
+  }
+
+  if (before.kind === "type" && before.signature && after.signature) {
+    const prev = unionMembers(before.signature);
+    const next = unionMembers(after.signature);
+    if (prev.length > 1 || next.length > 1) {
+      const dropped = prev.filter((t) => !next.includes(t));
+      const gained = next.filter((t) => !prev.includes(t));
+      if (dropped.length > 0 && gained.length === 0) {
+        changes.push({
+          file,
+          symbol: name,
+          description: `narrowed type \`${name}\` (removed ${dropped.map((t) => `\`${t}\``).join(", ")}) in ${file}`,
+          breaking: true,
+        });
+        return;
+      }
+      if (gained.length > 0 && dropped.length === 0) {
+        changes.push({
+          file,
+          symbol: name,
+          description: `widened type \`${name}\` (added ${gained.map((t) => `\`${t}\``).join(", ")}) in ${file}`,
+          breaking: false,
+        });
+        return;
+      }
+    }
+  }
+
+  changes.push({
+    file,
+    symbol: name,
+    description: `changed type of \`${name}\` in ${file}`,
+    breaking: true,
+  });
+}
+
+/**
+ * Compare the exported symbols of a module before and after a change.
+ */
+export function compareExports(
+  file: string,
+  before: Map<string, ExportedSymbol>,
+  after: Map<string, ExportedSymbol>,
+): ApiChange[] {
+  const changes: ApiChange[] = [];
+
+  for (const [name, prev] of before) {
+    const next = after.get(name);
+    if (!next) {
+      changes.push({
+        file,
+        symbol: name,
+        description: `removed export \`${name}\` from ${file}`,
+        breaking: true,
+      });
+      continue;
+    }
+    compareSymbol(file, prev, next, changes);
+  }
+
+  for (const name of after.keys()) {
+    if (!before.has(name)) {
+      changes.push({
+        file,
+        symbol: name,
+        description: `added export \`${name}\` to ${file}`,
+        breaking: false,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Rebuild a partial view of one side of a file from its hunks. Used when the
+ * full sources are unavailable (e.g. GitHub PRs without a local clone).
+ */
+function reconstructFromHunks(file: DiffFile, side: "base" | "head"): string {
+  const skip = side === "base" ? "add" : "delete";
+  return file.hunks
+    .map((hunk) =>
+      hunk.changes
+        .filter((c) => c.type !== skip)
+        .map((c) => c.content)
+        .join("\n"),
+    )
+    .join("\n");
+}
+
+function readSide(
+  file: DiffFile,
+  side: "base" | "head",
+  readSource: SourceReader | undefined,
+): string | null {
+  if (side === "base" && file.status === "added") return "";
+  if (side === "head" && file.status === "deleted") return "";
+
+  if (readSource) {
+    const sourcePath = side === "base" ? file.oldPath ?? file.path : file.path;
+    try {
+      const content = readSource(sourcePath, side);
+      if (content !== null) return content;
+    } catch {
+      // Fall through to the hunk reconstruction
+    }
+  }
+
+  return reconstructFromHunks(file, side);
+}
+
+/**
+ * The file sides `detectApiChanges` reads for these files, so a caller can
+ * load them ahead of time (e.g. asynchronously) and serve them from memory.
+ */
+export function sourceRequestsFor(files: DiffFile[]): SourceRequest[] {
+  const requests = new Map<string, SourceRequest>();
+  for (const file of files) {
+    if (file.binary || !isTypeScriptSource(file.path)) continue;
+    if (file.status !== "added") {
+      const basePath = file.oldPath ?? file.path;
+      requests.set(`base:${basePath}`, { path: basePath, side: "base" });
+    }
+    if (file.status !== "deleted") {
+      requests.set(`head:${file.path}`, { path: file.path, side: "head" });
+    }
+  }
+  return [...requests.values()];
+}
+
+/**
+ * Detect changes to the exported surface of TypeScript files in the diff.
+ *
+ * With a source reader, full base/head contents are compared. Without one,
+ * each side is reconstructed from the hunks, which catches changes to
+ * declarations that appear in the diff itself.
+ */
+export function detectApiChanges(
+  files: DiffFile[],
+  readSource?: SourceReader,
+): ApiChange[] {
+  const changes: ApiChange[] = [];
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    if (file.binary || !isTypeScriptSource(file.path)) continue;
+    // Staged and unstaged entries of the same path compare the same sources
+    if (readSource && seen.has(file.path)) continue;
+    seen.add(file.path);
+
+    const baseSource = readSide(file, "base", readSource);
+    const headSource = readSide(file, "head", readSource);
+    if (baseSource === null || headSource === null) continue;
+
+    const before = extractExports(baseSource);
+    const after = extractExports(headSource);
+
+    if (file.status === "renamed" && file.oldPath && before.size > 0) {
+      changes.push({
+        file: file.path,
+        symbol: "*",
+        description: `moved module ${file.oldPath} → ${file.path}`,
+        breaking: true,
+      });
+    }
+
+    changes.push(...compareExports(file.path, before, after));
+  }
+
+  // Deduplicate identical descriptions (e.g. same file in staged + unstaged hunks)
+  const unique = new Map<string, ApiChange>();
+  for (const change of changes) {
+    if (!unique.has(change.description)) unique.set(change.description, change);
+  }
+  return [...unique.values()];
+}
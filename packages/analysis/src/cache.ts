@@ -0,0 +1,194 @@
+import { createHash } from "node:crypto";
+import type {
+  DiffFile,
+  AnnotatedChange,
+  ComplexityScore,
+  PatternFlag,
+  SourceReader,
+} from "@diffprism/core";
+
+import {
+  computeComplexityScores,
+  detectPatterns,
+  detectSecurityPatterns,
+  triageFile,
+} from "./deterministic.js";
+import type { FileTriage, TriageBucket } from "./deterministic.js";
+import { detectApiChanges } from "./api-surface.js";
+import type { ApiChange } from "./api-surface.js";
+
+/**
+ * Everything `analyze()` derives from a single file of the diff.
+ */
+export interface FileAnalysis {
+  complexity: ComplexityScore;
+  patterns: PatternFlag[];
+  securityPatterns: PatternFlag[];
+  apiChanges: ApiChange[];
+  triage: { bucket: TriageBucket; change: AnnotatedChange };
+}
+
+/**
+ * Per-file analysis results keyed by a hash of the file's diff. Pass the
+ * same cache to successive `analyze()` calls on an evolving diff and only
+ * files whose hunks changed are analyzed again.
+ */
+export interface AnalysisCache {
+  get: (key: string) => FileAnalysis | undefined;
+  set: (key: string, analysis: FileAnalysis) => void;
+  /** Drop every entry not in `keys`, so the cache only holds the latest diff. */
+  retain: (keys: Set<string>) => void;
+  readonly size: number;
+  /** How many files the most recent `analyze()` call reused and recomputed. */
+  lastRun: { reused: number; computed: number };
+}
+
+export function createAnalysisCache(): AnalysisCache {
+  const entries = new Map<string, FileAnalysis>();
+
+  return {
+    get: (key) => entries.get(key),
+    set: (key, analysis) => {
+      entries.set(key, analysis);
+    },
+    retain(keys) {
+      for (const key of entries.keys()) {
+        if (!keys.has(key)) entries.delete(key);
+      }
+    },
+    get size() {
+      return entries.size;
+    },
+    lastRun: { reused: 0, computed: 0 },
+  };
+}
+
+/**
+ * Cache key of a file: its path, status and hunks, plus whether API changes
+ * were computed from full sources or from the hunks alone.
+ */
+export function fileAnalysisKey(file: DiffFile, withSource: boolean): string {
+  return createHash("sha256")
+    .update(withSource ? "source\0" : "hunks\0")
+    .update(JSON.stringify(file))
+    .digest("hex");
+}
+
+function analyzeFile(file: DiffFile, readSource: SourceReader | undefined): FileAnalysis {
+  const [complexity] = computeComplexityScores([file]);
+  const securityPatterns = detectSecurityPatterns([file]);
+  const apiChanges = detectApiChanges([file], readSource);
+  const breaking = apiChanges.filter((c) => c.breaking).map((c) => c.symbol);
+
+  return {
+    complexity,
+    patterns: detectPatterns([file]),
+    securityPatterns,
+    apiChanges,
+    triage: triageFile(file, securityPatterns, complexity, breaking.length > 0 ? breaking : undefined),
+  };
+}
+
+/**
+ * The per-file parts of a briefing, reassembled from cached file analyses
+ * in the same order the whole-diff functions produce them.
+ */
+export interface IncrementalAnalysis {
+  apiChanges: ApiChange[];
+  triage: FileTriage;
+  complexity: ComplexityScore[];
+  codePatterns: PatternFlag[];
+  securityPatterns: PatternFlag[];
+}
+
+export function analyzeFilesIncrementally(
+  files: DiffFile[],
+  readSource: SourceReader | undefined,
+  cache: AnalysisCache,
+): IncrementalAnalysis {
+  const keys = new Set<string>();
+  let reused = 0;
+  const analyses = files.map((file) => {
+    const key = fileAnalysisKey(file, readSource !== undefined);
+    keys.add(key);
+    const cached = cache.get(key);
+    if (cached) {
+      reused++;
+      return cached;
+    }
+    const analysis = analyzeFile(file, readSource);
+    cache.set(key, analysis);
+    return analysis;
+  });
+  cache.retain(keys);
+  cache.lastRun = { reused, computed: files.length - reused };
+
+  // Deduplicate identical descriptions (e.g. same file in staged + unstaged hunks)
+  const apiChanges = new Map<string, ApiChange>();
+  for (const change of analyses.flatMap((a) => a.apiChanges)) {
+    if (!apiChanges.has(change.description)) apiChanges.set(change.description, change);
+  }
+
+  const complexity = analyses.map((a) => a.complexity);
+  complexity.sort((a, b) => b.score - a.score);
+
+  const codePatterns = analyses.flatMap((a) => a.patterns);
+  codePatterns.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+
+  const securityPatterns = analyses.flatMap((a) => a.securityPatterns);
+  const severityOrder = { critical: 0, warning: 1 };
+  securityPatterns.sort(
+    (a, b) =>
+      severityOrder[a.severity!] - severityOrder[b.severity!] ||
+      a.file.localeCompare(b.file) ||
+      a.line - b.line,
+  );
+
+  return {
+    apiChanges: [...apiChanges.values()],
+    triage: assembleTriage(files, analyses, [...apiChanges.values()], complexity, securityPatterns),
+    complexity,
+    codePatterns,
+    securityPatterns,
+  };
+}
+
+/**
+ * Collect cached per-file triage. A path that appears twice (staged and
+ * unstaged entries) is triaged from the flags of both, as categorizeFiles does.
+ */
+function assembleTriage(
+  files: DiffFile[],
+  analyses: FileAnalysis[],
+  apiChanges: ApiChange[],
+  complexity: ComplexityScore[],
+  securityPatterns: PatternFlag[],
+): FileTriage {
+  const pathCounts = new Map<string, number>();
+  for (const file of files) {
+    pathCounts.set(file.path, (pathCounts.get(file.path) ?? 0) + 1);
+  }
+
+  const triage: FileTriage = { critical: [], notable: [], mechanical: [] };
+  files.forEach((file, i) => {
+    if (pathCounts.get(file.path) === 1) {
+      const { bucket, change } = analyses[i].triage;
+      triage[bucket].push(change);
+      return;
+    }
+
+    const breaking = apiChanges
+      .filter((c) => c.breaking && c.file === file.path)
+      .map((c) => c.symbol);
+    const { bucket, change } = triageFile(
+      file,
+      securityPatterns.filter((f) => f.file === file.path),
+      // The last score in sorted order wins, matching categorizeFiles
+      complexity.filter((c) => c.path === file.path).pop(),
+      breaking.length > 0 ? breaking : undefined,
+    );
+    triage[bucket].push(change);
+  });
+
+  return triage;
+}
@@ -6,6 +6,7 @@ import type {
   PatternFlag,
   SecuritySeverity,
 } from "@diffprism/core";
+import type { ApiChange } from "./api-surface.js";
 
 // ─── File Categorization ───
 
@@ -111,14 +112,16 @@ function isApiSurface(file: DiffFile): boolean {
 /**
  * Categorize files into critical / notable / mechanical buckets.
  *
- * Critical: security patterns, high complexity (>= 8), or public API surface.
+ * Critical: security patterns, high complexity (>= 8), public API surface,
+ * or breaking changes to exported symbols (when `apiChanges` is provided).
  * Mechanical: pure renames, formatting-only, config files, import-only changes.
  * Notable: everything else.
  */
-export function categorizeFiles(files: DiffFile[]): FileTriage {
-  const critical: AnnotatedChange[] = [];
-  const notable: AnnotatedChange[] = [];
-  const mechanical: AnnotatedChange[] = [];
+export function categorizeFiles(
+  files: DiffFile[],
+  apiChanges: ApiChange[] = [],
+): FileTriage {
+  const triage: FileTriage = { critical: [], notable: [], mechanical: [] };
 
   // Pre-compute security patterns and complexity scores for all files
   const securityFlags = detectSecurityPatterns(files);
@@ -137,86 +140,91 @@ export function categorizeFiles(files: DiffFile[]): FileTriage {
     complexityByFile.set(score.path, score);
   }
 
+  const breakingByFile = new Map<string, string[]>();
+  for (const change of apiChanges) {
+    if (!change.breaking) continue;
+    const existing = breakingByFile.get(change.file) || [];
+    existing.push(change.symbol);
+    breakingByFile.set(change.file, existing);
+  }
+
   for (const file of files) {
-    const description = `${file.status} (${file.language || "unknown"}) +${file.additions} -${file.deletions}`;
-    const fileSecurityFlags = securityByFile.get(file.path);
-    const fileComplexity = complexityByFile.get(file.path);
+    const { bucket, change } = triageFile(
+      file,
+      securityByFile.get(file.path),
+      complexityByFile.get(file.path),
+      breakingByFile.get(file.path),
+    );
+    triage[bucket].push(change);
+  }
 
-    // ── Critical checks ──
-    const criticalReasons: string[] = [];
+  return triage;
+}
 
-    if (fileSecurityFlags && fileSecurityFlags.length > 0) {
-      const patterns = fileSecurityFlags.map((f) => f.pattern);
-      const unique = [...new Set(patterns)];
-      criticalReasons.push(`security patterns detected: ${unique.join(", ")}`);
-    }
+export type TriageBucket = keyof FileTriage;
 
-    if (fileComplexity && fileComplexity.score >= 8) {
-      criticalReasons.push(`high complexity score (${fileComplexity.score}/10)`);
-    }
+/**
+ * Triage a single file given the security flags, complexity score and
+ * breaking API symbols found for its path. See `categorizeFiles`.
+ */
+export function triageFile(
+  file: DiffFile,
+  securityFlags: PatternFlag[] | undefined,
+  complexity: ComplexityScore | undefined,
+  breakingSymbols: string[] | undefined,
+): { bucket: TriageBucket; change: AnnotatedChange } {
+  const description = `${file.status} (${file.language || "unknown"}) +${file.additions} -${file.deletions}`;
+  const entry = (bucket: TriageBucket, reason: string) => ({
+    bucket,
+    change: { file: file.path, description, reason },
+  });
 
-    if (isApiSurface(file)) {
-      criticalReasons.push("modifies public API surface");
-    }
+  // ── Critical checks ──
+  const criticalReasons: string[] = [];
 
-    if (criticalReasons.length > 0) {
-      critical.push({
-        file: file.path,
-        description,
-        reason: `Critical: ${criticalReasons.join("; ")}`,
-      });
-      continue;
-    }
+  if (securityFlags && securityFlags.length > 0) {
+    const patterns = securityFlags.map((f) => f.pattern);
+    const unique = [...new Set(patterns)];
+    criticalReasons.push(`security patterns detected: ${unique.join(", ")}`);
+  }
 
-    // ── Mechanical checks ──
-    const isPureRename =
-      file.status === "renamed" && file.additions === 0 && file.deletions === 0;
+  if (complexity && complexity.score >= 8) {
+    criticalReasons.push(`high complexity score (${complexity.score}/10)`);
+  }
 
-    if (isPureRename) {
-      mechanical.push({
-        file: file.path,
-        description,
-        reason: "Mechanical: pure rename with no content changes",
-      });
-      continue;
-    }
+  if (breakingSymbols) {
+    const unique = [...new Set(breakingSymbols)];
+    criticalReasons.push(`breaking API changes: ${unique.join(", ")}`);
+  } else if (isApiSurface(file)) {
+    criticalReasons.push("modifies public API surface");
+  }
 
-    if (isFormattingOnly(file)) {
-      mechanical.push({
-        file: file.path,
-        description,
-        reason: "Mechanical: formatting/whitespace-only changes",
-      });
-      continue;
-    }
+  if (criticalReasons.length > 0) {
+    return entry("critical", `Critical: ${criticalReasons.join("; ")}`);
+  }
 
-    if (isMechanicalConfigFile(file.path)) {
-      mechanical.push({
-        file: file.path,
-        description,
-        reason: "Mechanical: config file change",
-      });
-      continue;
-    }
+  // ── Mechanical checks ──
+  const isPureRename =
+    file.status === "renamed" && file.additions === 0 && file.deletions === 0;
 
-    if (file.hunks.length > 0 && isImportOnly(file)) {
-      mechanical.push({
-        file: file.path,
-        description,
-        reason: "Mechanical: import/require-only changes",
-      });
-      continue;
-    }
+  if (isPureRename) {
+    return entry("mechanical", "Mechanical: pure rename with no content changes");
+  }
 
-    // ── Notable (default) ──
-    notable.push({
-      file: file.path,
-      description,
-      reason: "Notable: requires review",
-    });
+  if (isFormattingOnly(file)) {
+    return entry("mechanical", "Mechanical: formatting/whitespace-only changes");
+  }
+
+  if (isMechanicalConfigFile(file.path)) {
+    return entry("mechanical", "Mechanical: config file change");
+  }
+
+  if (file.hunks.length > 0 && isImportOnly(file)) {
+    return entry("mechanical", "Mechanical: import/require-only changes");
   }
 
-  return { critical, notable, mechanical };
+  // ── Notable (default) ──
+  return entry("notable", "Notable: requires review");
 }
 
 // ─── File Stats ───
@@ -1,4 +1,4 @@
-import type { DiffSet, ReviewBriefing } from "@diffprism/core";
+import type { DiffSet, ReviewBriefing, SourceReader } from "@diffprism/core";
 
 import {
   categorizeFiles,
@@ -12,6 +12,9 @@ import {
   detectPatterns,
   detectSecurityPatterns,
 } from "./deterministic.js";
+import { detectApiChanges } from "./api-surface.js";
+import { analyzeFilesIncrementally } from "./cache.js";
+import type { AnalysisCache } from "./cache.js";
 
 export {
   categorizeFiles,
@@ -25,23 +28,51 @@ export {
   detectPatterns,
   detectSecurityPatterns,
 } from "./deterministic.js";
+export {
+  detectApiChanges,
+  extractExports,
+  compareExports,
+  sourceRequestsFor,
+} from "./api-surface.js";
+export type { ApiChange, ExportedSymbol } from "./api-surface.js";
+export { createAnalysisCache, fileAnalysisKey } from "./cache.js";
+export type { AnalysisCache, FileAnalysis } from "./cache.js";
+
+export interface AnalyzeOptions {
+  /**
+   * Reads full file contents at the diff's base and head. Enables exact
+   * public API comparison; without it, API changes are detected from the
+   * hunks alone.
+   */
+  readSource?: SourceReader;
+  /**
+   * Per-file results from previous calls. Files whose diff is unchanged are
+   * reused instead of re-analyzed; the cache is pruned to the current diff.
+   */
+  cache?: AnalysisCache;
+}
 
 /**
  * Produce a ReviewBriefing from a DiffSet using deterministic analysis only.
  */
-export function analyze(diffSet: DiffSet): ReviewBriefing {
+export function analyze(diffSet: DiffSet, options: AnalyzeOptions = {}): ReviewBriefing {
   const { files } = diffSet;
 
-  const triage = categorizeFiles(files);
+  const perFile = options.cache
+    ? analyzeFilesIncrementally(files, options.readSource, options.cache)
+    : null;
+
+  const apiChanges = perFile?.apiChanges ?? detectApiChanges(files, options.readSource);
+  const triage = perFile?.triage ?? categorizeFiles(files, apiChanges);
   const fileStats = computeFileStats(files);
   const affectedModules = detectAffectedModules(files);
   const affectedTests = detectAffectedTests(files);
   const newDependencies = detectNewDependencies(files);
   const summary = generateSummary(files);
-  const complexity = computeComplexityScores(files);
+  const complexity = perFile?.complexity ?? computeComplexityScores(files);
   const testCoverage = detectTestCoverageGaps(files);
-  const codePatterns = detectPatterns(files);
-  const securityPatterns = detectSecurityPatterns(files);
+  const codePatterns = perFile?.codePatterns ?? detectPatterns(files);
+  const securityPatterns = perFile?.securityPatterns ?? detectSecurityPatterns(files);
   const patterns = [...securityPatterns, ...codePatterns];
 
   return {
@@ -50,8 +81,10 @@ export function analyze(diffSet: DiffSet): ReviewBriefing {
     impact: {
       affectedModules,
       affectedTests,
-      publicApiChanges: false,
-      breakingChanges: [],
+      publicApiChanges: apiChanges.length > 0,
+      breakingChanges: apiChanges
+        .filter((c) => c.breaking)
+        .map((c) => c.description),
       newDependencies,
     },
     verification: {
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import type { Annotation, Change, DiffFile, DiffSet } from "../types.js";
+import { reanchorAnnotations } from "../annotation-anchors.js";
+
+function makeFile(path: string, newStart: number, lines: string[]): DiffFile {
+  const changes: Change[] = lines.map((content, i) => ({
+    type: i === 0 ? "context" : "add",
+    lineNumber: newStart + i,
+    content,
+  }));
+  return {
+    path,
+    status: "modified",
+    hunks: [{ oldStart: newStart, oldLines: 1, newStart, newLines: lines.length, changes }],
+    language: "typescript",
+    binary: false,
+    additions: lines.length - 1,
+    deletions: 0,
+  };
+}
+
+function makeDiffSet(files: DiffFile[]): DiffSet {
+  return { baseRef: "main", headRef: "feature", files };
+}
+
+function makeAnnotation(file: string, line: number, overrides: Partial<Annotation> = {}): Annotation {
+  return {
+    id: `ann-${file}-${line}`,
+    sessionId: "session-1",
+    file,
+    line,
+    body: "Check this",
+    type: "finding",
+    confidence: 1,
+    category: "correctness",
+    source: { agent: "reviewer", tool: "add_annotation" },
+    createdAt: 1,
+    ...overrides,
+  };
+}
+
+const before = makeDiffSet([
+  makeFile("src/a.ts", 10, ["function a() {", "  return compute();", "}"]),
+  makeFile("src/b.ts", 1, ["import x;", "x();"]),
+]);
+
+describe("reanchorAnnotations", () => {
+  it("moves an annotation to where its line went", () => {
+    const after = makeDiffSet([
+      makeFile("src/a.ts", 14, ["function a() {", "  return compute();", "}"]),
+      before.files[1],
+    ]);
+    const annotation = makeAnnotation("src/a.ts", 11);
+
+    const changed = reanchorAnnotations([annotation], before, after);
+
+    expect(changed).toEqual([annotation]);
+    expect(annotation.line).toBe(15);
+    expect(annotation.outdated).toBeUndefined();
+  });
+
+  it("marks an annotation outdated when its line is gone", () => {
+    const after = makeDiffSet([
+      makeFile("src/a.ts", 10, ["function a() {", "  return computeFast();", "}"]),
+    ]);
+    const annotation = makeAnnotation("src/a.ts", 11);
+
+    reanchorAnnotations([annotation], before, after);
+
+    expect(annotation.outdated).toBe(true);
+    expect(annotation.line).toBe(11);
+  });
+
+  it("marks annotations on files that left the diff outdated", () => {
+    const after = makeDiffSet([before.files[0]]);
+    const annotation = makeAnnotation("src/b.ts", 2);
+
+    expect(reanchorAnnotations([annotation], before, after)).toEqual([annotation]);
+    expect(annotation.outdated).toBe(true);
+  });
+
+  it("leaves annotations on unchanged files and dismissed ones alone", () => {
+    const after = makeDiffSet([makeFile("src/a.ts", 20, ["other"]), before.files[1]]);
+    const onUnchanged = makeAnnotation("src/b.ts", 2);
+    const dismissed = makeAnnotation("src/a.ts", 11, { dismissed: true });
+
+    expect(reanchorAnnotations([onUnchanged, dismissed], before, after)).toEqual([]);
+    expect(onUnchanged.outdated).toBeUndefined();
+    expect(dismissed.outdated).toBeUndefined();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { execFileSync } from "node:child_process";
+import { watchProjectChanges } from "../change-watcher.js";
+import type { ChangeWatcher } from "../change-watcher.js";
+
+let tmpDir: string;
+let watcher: ChangeWatcher | null = null;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "diffprism-watch-"));
+  fs.mkdirSync(path.join(tmpDir, "src"));
+  fs.mkdirSync(path.join(tmpDir, "node_modules"));
+});
+
+afterEach(() => {
+  watcher?.close();
+  watcher = null;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("watchProjectChanges", () => {
+  it("reports a burst of edits once, after the debounce period", async () => {
+    const onChange = vi.fn();
+    watcher = await watchProjectChanges({ cwd: tmpDir, onChange, debounceMs: 50 });
+
+    for (let i = 0; i < 5; i++) {
+      fs.writeFileSync(path.join(tmpDir, "src", "a.ts"), `export const a = ${i};\n`);
+      await sleep(5);
+    }
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled());
+    await sleep(100);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores changes inside node_modules", async () => {
+    const onChange = vi.fn();
+    watcher = await watchProjectChanges({ cwd: tmpDir, onChange, debounceMs: 20 });
+
+    fs.writeFileSync(path.join(tmpDir, "node_modules", "dep.js"), "module.exports = 1;\n");
+    await sleep(150);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("never watches node_modules, the git object store or git-ignored output", async () => {
+    execFileSync("git", ["init", "-q"], { cwd: tmpDir });
+    fs.writeFileSync(path.join(tmpDir, ".gitignore"), "dist/\n");
+    fs.mkdirSync(path.join(tmpDir, "dist", "chunks"), { recursive: true });
+    fs.mkdirSync(path.join(tmpDir, "node_modules", "dep"));
+    const watchSpy = vi.spyOn(fs, "watch");
+
+    try {
+      watcher = await watchProjectChanges({ cwd: tmpDir, onChange: vi.fn() });
+
+      const watched = watchSpy.mock.calls.map(([dir]) => path.relative(tmpDir, dir.toString()));
+      expect(watched).toEqual(expect.arrayContaining(["", "src", ".git", path.join(".git", "refs")]));
+      expect(watched.filter((dir) => /node_modules|dist|objects/.test(dir))).toEqual([]);
+    } finally {
+      watchSpy.mockRestore();
+    }
+  });
+
+  it("watches directories created after it started", async () => {
+    const onChange = vi.fn();
+    watcher = await watchProjectChanges({ cwd: tmpDir, onChange, debounceMs: 20 });
+
+    fs.mkdirSync(path.join(tmpDir, "src", "lib"));
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled());
+    await sleep(100);
+    onChange.mockClear();
+
+    fs.writeFileSync(path.join(tmpDir, "src", "lib", "c.ts"), "export const c = 1;\n");
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled());
+  });
+
+  it("stops reporting once closed", async () => {
+    const onChange = vi.fn();
+    watcher = await watchProjectChanges({ cwd: tmpDir, onChange, debounceMs: 20 });
+    watcher.close();
+
+    fs.writeFileSync(path.join(tmpDir, "src", "b.ts"), "export const b = 1;\n");
+    await sleep(150);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("throws when the directory cannot be watched", async () => {
+    await expect(
+      watchProjectChanges({ cwd: path.join(tmpDir, "missing"), onChange: vi.fn() }),
+    ).rejects.toThrow();
+  });
+
+  it("throws when there are more directories than it will watch", async () => {
+    for (const name of ["a", "b", "c"]) {
+      fs.mkdirSync(path.join(tmpDir, "src", name));
+    }
+
+    await expect(
+      watchProjectChanges({ cwd: tmpDir, onChange: vi.fn(), maxWatchedDirs: 3 }),
+    ).rejects.toThrow("More than 3 directories to watch");
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fs from "node:fs";
+
+vi.mock("@diffprism/git", async (importOriginal) => ({
+  GitError: (await importOriginal<typeof import("@diffprism/git")>()).GitError,
+  getDiffAsync: vi.fn().mockResolvedValue({
+    diffSet: { baseRef: "HEAD", headRef: "working tree", files: [] },
+    rawDiff: "diff --git a/a.ts b/a.ts\n",
+  }),
+  preloadSources: async () => () => null,
+}));
+
+vi.mock("@diffprism/analysis", () => ({
+  analyze: vi.fn().mockReturnValue({ summary: "Mock analysis" }),
+  createAnalysisCache: () => ({ get: () => undefined }),
+  fileAnalysisKey: () => "key",
+  sourceRequestsFor: () => [],
+}));
+
+const { runDiffPipeline, stopDiffWorker } = await import("../diff-pipeline.js");
+
+describe("runDiffPipeline", () => {
+  afterEach(async () => {
+    await stopDiffWorker();
+    vi.restoreAllMocks();
+  });
+
+  it("warns once and runs in-process when the worker entry is missing", async () => {
+    const realExistsSync = fs.existsSync;
+    vi.spyOn(fs, "existsSync").mockImplementation((p) =>
+      String(p).includes("diff-worker") ? false : realExistsSync(p),
+    );
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const first = await runDiffPipeline({ diffRef: "working-copy", cwd: "/repo" }, { worker: true });
+    await stopDiffWorker();
+    await runDiffPipeline({ diffRef: "working-copy", cwd: "/repo" }, { worker: true });
+
+    expect(first).toMatchObject({ changed: true, briefing: { summary: "Mock analysis" } });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain("diff-worker.ts not found");
+  });
+});
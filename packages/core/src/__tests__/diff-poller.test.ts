@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { DiffSet, DiffUpdatePayload } from "../types.js";
+
+vi.mock("@diffprism/git", async (importOriginal) => ({
+  GitError: (await importOriginal<typeof import("@diffprism/git")>()).GitError,
+  getDiffAsync: vi.fn(),
+  runGitAsync: vi.fn().mockResolvedValue(""),
+  preloadSources: async () => () => null,
+}));
+
+vi.mock("@diffprism/analysis", () => ({
+  analyze: vi.fn().mockReturnValue({ summary: "Mock analysis" }),
+  createAnalysisCache: () => ({ get: () => undefined }),
+  fileAnalysisKey: () => "key",
+  sourceRequestsFor: () => [],
+}));
+
+const { createDiffPoller } = await import("../diff-poller.js");
+const git = await import("@diffprism/git");
+
+function makeDiff(path: string): { diffSet: DiffSet; rawDiff: string } {
+  return {
+    diffSet: {
+      baseRef: "HEAD",
+      headRef: "working tree",
+      files: [
+        {
+          path,
+          status: "modified",
+          hunks: [],
+          language: "typescript",
+          binary: false,
+          additions: 1,
+          deletions: 0,
+        },
+      ],
+    },
+    rawDiff: `diff --git a/${path} b/${path}\n`,
+  };
+}
+
+/** A getDiffAsync result that resolves only when the test says so. */
+function deferredDiff() {
+  let resolve!: (value: { diffSet: DiffSet; rawDiff: string }) => void;
+  const promise = new Promise<{ diffSet: DiffSet; rawDiff: string }>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe("createDiffPoller", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(git.getDiffAsync).mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("records a baseline first and reports only later changes", async () => {
+    const updates: DiffUpdatePayload[] = [];
+    vi.mocked(git.getDiffAsync)
+      .mockResolvedValueOnce(makeDiff("a.ts"))
+      .mockResolvedValueOnce(makeDiff("a.ts"))
+      .mockResolvedValue(makeDiff("b.ts"));
+
+    const poller = createDiffPoller({
+      diffRef: "working-copy",
+      cwd: "/repo",
+      pollInterval: 1000,
+      onDiffChanged: (payload) => updates.push(payload),
+    });
+    poller.start();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(updates).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(updates).toHaveLength(1);
+    expect(updates[0].changedFiles.sort()).toEqual(["a.ts", "b.ts"]);
+    poller.stop();
+  });
+
+  it("coalesces refreshes made while a poll is in flight into one follow-up poll", async () => {
+    const updates: DiffUpdatePayload[] = [];
+    const slow = deferredDiff();
+    vi.mocked(git.getDiffAsync)
+      .mockReturnValueOnce(slow.promise)
+      .mockResolvedValue(makeDiff("b.ts"));
+
+    const poller = createDiffPoller({
+      diffRef: "working-copy",
+      cwd: "/repo",
+      pollInterval: 1000,
+      initialDiff: { hash: "old", diffSet: makeDiff("a.ts").diffSet },
+      onDiffChanged: (payload) => updates.push(payload),
+    });
+    poller.start();
+
+    const first = poller.refresh();
+    const second = poller.refresh();
+    const third = poller.refresh();
+    // Interval ticks while the poll is running are skipped
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(git.getDiffAsync).toHaveBeenCalledTimes(1);
+
+    slow.resolve(makeDiff("a.ts"));
+    await Promise.all([first, second, third]);
+
+    expect(git.getDiffAsync).toHaveBeenCalledTimes(2);
+    expect(updates.map((u) => u.diffSet.files[0].path)).toEqual(["a.ts", "b.ts"]);
+    poller.stop();
+  });
+
+  it("drops a result computed for a ref that has since changed", async () => {
+    const updates: DiffUpdatePayload[] = [];
+    const slow = deferredDiff();
+    vi.mocked(git.getDiffAsync)
+      .mockReturnValueOnce(slow.promise)
+      .mockResolvedValue(makeDiff("main.ts"));
+
+    const poller = createDiffPoller({
+      diffRef: "working-copy",
+      cwd: "/repo",
+      pollInterval: 1000,
+      initialDiff: { hash: "old", diffSet: makeDiff("a.ts").diffSet },
+      onDiffChanged: (payload) => updates.push(payload),
+    });
+    poller.start();
+
+    const pending = poller.refresh();
+    poller.setDiffRef("main");
+    slow.resolve(makeDiff("stale.ts"));
+    await pending;
+    expect(updates).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(updates.map((u) => u.diffSet.files[0].path)).toEqual(["main.ts"]);
+    expect(git.getDiffAsync).toHaveBeenLastCalledWith("main", { cwd: "/repo" });
+    poller.stop();
+  });
+
+  it("falls back to polling when the project cannot be watched", async () => {
+    const updates: DiffUpdatePayload[] = [];
+    vi.mocked(git.getDiffAsync)
+      .mockResolvedValueOnce(makeDiff("a.ts"))
+      .mockResolvedValue(makeDiff("b.ts"));
+
+    const poller = createDiffPoller({
+      diffRef: "working-copy",
+      cwd: "/nonexistent/project",
+      pollInterval: 1000,
+      changeDetection: "watch",
+      onDiffChanged: (payload) => updates.push(payload),
+    });
+    poller.start();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(updates.map((u) => u.diffSet.files[0].path)).toEqual(["b.ts"]);
+    poller.stop();
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { fileKey, hashDiff, detectChangedFiles } from "../diff-utils.js";
+import { fileKey, hashDiff, detectChangedFiles, splitRawDiff, computeDiffDelta } from "../diff-utils.js";
 import type { DiffFile, DiffSet } from "../types.js";
 
 function makeFile(overrides: Partial<DiffFile> = {}): DiffFile {
@@ -132,3 +132,53 @@ describe("detectChangedFiles", () => {
     expect(changed).not.toContain("staged:a.ts");
   });
 });
+
+function rawSection(path: string, line: string): string {
+  return `diff --git a/${path} b/${path}\n--- a/${path}\n+++ b/${path}\n@@ -1 +1 @@\n+${line}\n`;
+}
+
+describe("splitRawDiff", () => {
+  it("pairs each file with its section of the raw diff", () => {
+    const diffSet = makeDiffSet([makeFile({ path: "a.ts" }), makeFile({ path: "b.ts" })]);
+    const rawDiff = rawSection("a.ts", "one") + rawSection("b.ts", "two");
+
+    const sections = splitRawDiff(rawDiff, diffSet);
+    expect(sections?.get("a.ts")).toBe(rawSection("a.ts", "one"));
+    expect(sections?.get("b.ts")).toBe(rawSection("b.ts", "two"));
+  });
+
+  it("returns null when sections and files do not line up", () => {
+    const diffSet = makeDiffSet([makeFile({ path: "a.ts" }), makeFile({ path: "b.ts" })]);
+
+    expect(splitRawDiff(rawSection("a.ts", "one"), diffSet)).toBeNull();
+  });
+});
+
+describe("computeDiffDelta", () => {
+  it("returns add, replace and remove operations for changed files only", () => {
+    const oldDiff = {
+      diffSet: makeDiffSet([makeFile({ path: "a.ts" }), makeFile({ path: "b.ts" }), makeFile({ path: "c.ts" })]),
+      rawDiff: rawSection("a.ts", "one") + rawSection("b.ts", "two") + rawSection("c.ts", "three"),
+    };
+    const newB = makeFile({ path: "b.ts", additions: 11 });
+    const newD = makeFile({ path: "d.ts" });
+    const newDiff = {
+      diffSet: makeDiffSet([makeFile({ path: "a.ts" }), newB, newD]),
+      rawDiff: rawSection("a.ts", "one") + rawSection("b.ts", "TWO") + rawSection("d.ts", "four"),
+    };
+
+    expect(computeDiffDelta(oldDiff, newDiff)).toEqual([
+      { op: "replace", key: "b.ts", file: newB, rawDiff: rawSection("b.ts", "TWO") },
+      { op: "add", key: "d.ts", file: newD, rawDiff: rawSection("d.ts", "four") },
+      { op: "remove", key: "c.ts" },
+    ]);
+  });
+
+  it("returns null when a raw diff cannot be split", () => {
+    const diffSet = makeDiffSet([makeFile({ path: "a.ts" })]);
+
+    expect(
+      computeDiffDelta({ diffSet, rawDiff: "" }, { diffSet, rawDiff: rawSection("a.ts", "one") }),
+    ).toBeNull();
+  });
+});
@@ -12,6 +12,14 @@ import type {
   ServerMessage,
   SessionSummary,
   Annotation,
+  VerificationRun,
+  VerificationUpdatePayload,
+  PostReviewActionRun,
+  GitHubReviewThread,
+  ReviewerState,
+  ReviewRound,
+  ReviewRoundSummary,
+  Interdiff,
 } from "../types.js";
 
 // ─── Mocks ───
@@ -36,9 +44,13 @@ vi.mock("open", () => ({
   default: vi.fn().mockResolvedValue(undefined),
 }));
 
-// Mock @diffprism/git — watcher uses getDiff
-vi.mock("@diffprism/git", () => ({
-  getDiff: vi.fn().mockReturnValue({
+// Mock @diffprism/git — watcher uses getDiffAsync
+vi.mock("@diffprism/git", async (importOriginal) => ({
+  GitError: (await importOriginal<typeof import("@diffprism/git")>()).GitError,
+  parseDiff: (await importOriginal<typeof import("@diffprism/git")>()).parseDiff,
+  runGit: vi.fn().mockReturnValue(""),
+  runGitAsync: vi.fn().mockResolvedValue(""),
+  getDiffAsync: vi.fn().mockResolvedValue({
     diffSet: {
       baseRef: "HEAD",
       headRef: "working-copy",
@@ -47,11 +59,18 @@ vi.mock("@diffprism/git", () => ({
     rawDiff: "",
   }),
   getCurrentBranch: vi.fn().mockReturnValue("main"),
-  listBranches: vi.fn().mockReturnValue({
+  preloadSources: async () => () => null,
+  applyHunk: vi.fn().mockResolvedValue(undefined),
+  commitChanges: vi.fn(),
+  pushBranch: vi.fn(),
+  getRemoteUrl: vi.fn(),
+  snapshotDiffTree: vi.fn().mockResolvedValue("a".repeat(40)),
+  getTreeDiffAsync: vi.fn(),
+  listBranchesAsync: vi.fn().mockResolvedValue({
     local: ["main", "feature-branch"],
     remote: ["origin/main", "origin/develop"],
   }),
-  listCommits: vi.fn().mockReturnValue([
+  listCommitsAsync: vi.fn().mockResolvedValue([
     {
       hash: "abc123full",
       shortHash: "abc123",
@@ -62,8 +81,40 @@ vi.mock("@diffprism/git", () => ({
   ]),
 }));
 
+// Mock @diffprism/github — PR thread routes talk to GitHub
+vi.mock("@diffprism/github", () => ({
+  resolveGitHubToken: vi.fn(),
+  resolveGitHubApiUrl: vi.fn(),
+  createGitHubClient: vi.fn(),
+  fetchPullRequest: vi.fn(),
+  fetchPullRequestDiff: vi.fn(),
+  fetchCompareDiff: vi.fn(),
+  checkPullRequest: vi.fn(),
+  findProvider: vi.fn(),
+  isLocalClone: vi.fn(),
+  normalizePr: vi.fn(),
+  fetchReviewThreads: vi.fn(),
+  findLocalRepos: vi.fn(),
+  loadReviewInbox: vi.fn(),
+  replyToReviewComment: vi.fn(),
+  setReviewThreadResolved: vi.fn(),
+  updateReviewComment: vi.fn(),
+  deleteReviewComment: vi.fn(),
+}));
+
+// Mock PR worktrees — checkouts would need a real code host
+vi.mock("../pr-worktree.js", async (importOriginal) => ({
+  getWorktreesDir: (await importOriginal<typeof import("../pr-worktree.js")>()).getWorktreesDir,
+  checkoutPrWorktree: vi.fn(),
+  updatePrWorktree: vi.fn(),
+  removePrWorktree: vi.fn(),
+}));
+
 // Mock @diffprism/analysis — watcher uses analyze
 vi.mock("@diffprism/analysis", () => ({
+  createAnalysisCache: () => ({ get: () => undefined }),
+  fileAnalysisKey: () => "key",
+  sourceRequestsFor: () => [],
   analyze: vi.fn().mockReturnValue({
     summary: "Mock analysis",
     triage: { critical: [], notable: [], mechanical: [] },
@@ -82,7 +133,12 @@ vi.mock("@diffprism/analysis", () => ({
 // ─── Import after mocks ───
 
 const { startGlobalServer } = await import("../global-server.js");
+const { serverFetch, serverAuthHeaders } = await import("../server-file.js");
+const { readHistory } = await import("../review-history.js");
+const { readRepoRegistry, registerRepo } = await import("../repo-registry.js");
+const prWorktree = await import("../pr-worktree.js");
 const git = await import("@diffprism/git");
+const github = await import("@diffprism/github");
 
 // ─── Helpers ───
 
@@ -166,7 +222,7 @@ describe("global-server", () => {
     it("responds to GET /api/status", async () => {
       handle = await startGlobalServer({ silent: true });
 
-      const response = await fetch(`http://localhost:${handle.httpPort}/api/status`);
+      const response = await serverFetch(`http://localhost:${handle.httpPort}/api/status`);
       expect(response.ok).toBe(true);
 
       const data = (await response.json()) as {
@@ -180,11 +236,68 @@ describe("global-server", () => {
     });
   });
 
+  describe("authentication", () => {
+    it("rejects API requests without the token", async () => {
+      handle = await startGlobalServer({ silent: true });
+
+      const response = await fetch(`http://localhost:${handle.httpPort}/api/reviews`);
+      expect(response.status).toBe(401);
+
+      const wrongToken = await fetch(`http://localhost:${handle.httpPort}/api/reviews`, {
+        headers: { Authorization: "Bearer not-the-token" },
+      });
+      expect(wrongToken.status).toBe(401);
+    });
+
+    it("only allows the server's own UI origin", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const status = (await (await serverFetch(`${baseUrl}/api/status`)).json()) as {
+        uiUrl: string;
+      };
+      const uiUrl = new URL(status.uiUrl);
+      expect(uiUrl.searchParams.get("token")).toBe(serverAuthHeaders().Authorization.slice(7));
+
+      const foreign = await serverFetch(`${baseUrl}/api/reviews`, {
+        headers: { Origin: "https://evil.example" },
+      });
+      expect(foreign.status).toBe(403);
+      expect(foreign.headers.get("access-control-allow-origin")).toBeNull();
+
+      const own = await serverFetch(`${baseUrl}/api/reviews`, {
+        headers: { Origin: uiUrl.origin },
+      });
+      expect(own.status).toBe(200);
+      expect(own.headers.get("access-control-allow-origin")).toBe(uiUrl.origin);
+    });
+
+    it("rejects WebSocket connections without the token", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const { WebSocket } = await import("ws");
+
+      const rejected = new WebSocket(`ws://localhost:${handle.wsPort}`);
+      const statusCode = await new Promise<number | undefined>((resolve) => {
+        rejected.on("unexpected-response", (_req, res) => resolve(res.statusCode));
+        rejected.on("open", () => resolve(undefined));
+      });
+      expect(statusCode).toBe(401);
+
+      const token = serverAuthHeaders().Authorization.slice(7);
+      const accepted = new WebSocket(`ws://localhost:${handle.wsPort}?token=${token}`);
+      await new Promise<void>((resolve, reject) => {
+        accepted.on("open", () => resolve());
+        accepted.on("error", reject);
+      });
+      accepted.close();
+    });
+  });
+
   describe("session management", () => {
     it("creates a session via POST /api/reviews", async () => {
       handle = await startGlobalServer({ silent: true });
 
-      const response = await fetch(
+      const response = await serverFetch(
         `http://localhost:${handle.httpPort}/api/reviews`,
         {
           method: "POST",
@@ -206,7 +319,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create two sessions
-      await fetch(`${baseUrl}/api/reviews`, {
+      await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -215,7 +328,7 @@ describe("global-server", () => {
         }),
       });
 
-      await fetch(`${baseUrl}/api/reviews`, {
+      await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -224,7 +337,7 @@ describe("global-server", () => {
         }),
       });
 
-      const response = await fetch(`${baseUrl}/api/reviews`);
+      const response = await serverFetch(`${baseUrl}/api/reviews`);
       expect(response.ok).toBe(true);
 
       const data = (await response.json()) as {
@@ -248,7 +361,7 @@ describe("global-server", () => {
       handle = await startGlobalServer({ silent: true });
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -259,7 +372,7 @@ describe("global-server", () => {
 
       const { sessionId } = (await createResponse.json()) as { sessionId: string };
 
-      const response = await fetch(`${baseUrl}/api/reviews/${sessionId}`);
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}`);
       expect(response.ok).toBe(true);
 
       const data = (await response.json()) as {
@@ -275,7 +388,7 @@ describe("global-server", () => {
     it("returns 404 for non-existent session", async () => {
       handle = await startGlobalServer({ silent: true });
 
-      const response = await fetch(
+      const response = await serverFetch(
         `http://localhost:${handle.httpPort}/api/reviews/nonexistent`,
       );
       expect(response.status).toBe(404);
@@ -288,7 +401,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -299,12 +412,12 @@ describe("global-server", () => {
       const { sessionId } = (await createResponse.json()) as { sessionId: string };
 
       // Verify initial status is pending
-      const beforeResponse = await fetch(`${baseUrl}/api/reviews/${sessionId}`);
+      const beforeResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}`);
       const beforeData = (await beforeResponse.json()) as { status: string };
       expect(beforeData.status).toBe("pending");
 
       // Submit result
-      await fetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -314,7 +427,7 @@ describe("global-server", () => {
       });
 
       // Verify status changed to submitted
-      const afterResponse = await fetch(`${baseUrl}/api/reviews/${sessionId}`);
+      const afterResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}`);
       const afterData = (await afterResponse.json()) as { status: string };
       expect(afterData.status).toBe("submitted");
     });
@@ -324,7 +437,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -335,7 +448,7 @@ describe("global-server", () => {
       const { sessionId } = (await createResponse.json()) as { sessionId: string };
 
       // No result yet
-      const noResultResponse = await fetch(
+      const noResultResponse = await serverFetch(
         `${baseUrl}/api/reviews/${sessionId}/result`,
       );
       const noResultData = (await noResultResponse.json()) as {
@@ -352,7 +465,7 @@ describe("global-server", () => {
         summary: "LGTM",
       };
 
-      const submitResponse = await fetch(
+      const submitResponse = await serverFetch(
         `${baseUrl}/api/reviews/${sessionId}/result`,
         {
           method: "POST",
@@ -363,7 +476,7 @@ describe("global-server", () => {
       expect(submitResponse.ok).toBe(true);
 
       // Retrieve result
-      const resultResponse = await fetch(
+      const resultResponse = await serverFetch(
         `${baseUrl}/api/reviews/${sessionId}/result`,
       );
       const resultData = (await resultResponse.json()) as {
@@ -382,7 +495,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -398,7 +511,7 @@ describe("global-server", () => {
         reasoning: "New reasoning",
       };
 
-      const updateResponse = await fetch(
+      const updateResponse = await serverFetch(
         `${baseUrl}/api/reviews/${sessionId}/context`,
         {
           method: "POST",
@@ -416,7 +529,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -432,14 +545,14 @@ describe("global-server", () => {
         comments: [{ file: "src/index.ts", line: 5, body: "Fix this", type: "must_fix" }],
       };
 
-      await fetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(result),
       });
 
       // Verify decision appears in GET /api/reviews/:id
-      const response = await fetch(`${baseUrl}/api/reviews/${sessionId}`);
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}`);
       const data = (await response.json()) as SessionSummary;
       expect(data.decision).toBe("changes_requested");
       expect(data.status).toBe("submitted");
@@ -450,7 +563,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -462,7 +575,7 @@ describe("global-server", () => {
 
       // Connect WS client (without sessionId — server mode)
       const { WebSocket } = await import("ws");
-      const ws = new WebSocket(`ws://localhost:${handle.wsPort}`);
+      const ws = new WebSocket(`ws://localhost:${handle.wsPort}`, { headers: serverAuthHeaders() });
 
       const messages: ServerMessage[] = [];
       await new Promise<void>((resolve) => {
@@ -482,7 +595,7 @@ describe("global-server", () => {
         summary: "LGTM",
       };
 
-      await fetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(result),
@@ -507,7 +620,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create two sessions so auto-select doesn't trigger
-      await fetch(`${baseUrl}/api/reviews`, {
+      await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -516,7 +629,7 @@ describe("global-server", () => {
         }),
       });
 
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -528,7 +641,7 @@ describe("global-server", () => {
 
       // Connect WS client without sessionId (server mode)
       const { WebSocket } = await import("ws");
-      const ws = new WebSocket(`ws://localhost:${handle.wsPort}`);
+      const ws = new WebSocket(`ws://localhost:${handle.wsPort}`, { headers: serverAuthHeaders() });
 
       const messages: ServerMessage[] = [];
       await new Promise<void>((resolve) => {
@@ -563,7 +676,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -574,25 +687,252 @@ describe("global-server", () => {
       const { sessionId } = (await createResponse.json()) as { sessionId: string };
 
       // Delete
-      const deleteResponse = await fetch(
+      const deleteResponse = await serverFetch(
         `${baseUrl}/api/reviews/${sessionId}`,
         { method: "DELETE" },
       );
       expect(deleteResponse.ok).toBe(true);
 
       // Verify it's gone
-      const getResponse = await fetch(`${baseUrl}/api/reviews/${sessionId}`);
+      const getResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}`);
       expect(getResponse.status).toBe(404);
     });
   });
 
+  describe("diff resync", () => {
+    it("answers diff:resync with a full diff:update at the current sequence number", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload: makePayload(), projectPath: "/test" }),
+      });
+      const { sessionId } = (await createResponse.json()) as { sessionId: string };
+
+      const { WebSocket } = await import("ws");
+      const ws = new WebSocket(`ws://localhost:${handle.wsPort}?sessionId=${sessionId}`, { headers: serverAuthHeaders() });
+      const messages: ServerMessage[] = [];
+      ws.on("message", (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+      await new Promise<void>((resolve) => {
+        ws.on("open", () => resolve());
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      ws.send(JSON.stringify({ type: "diff:resync" }));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      ws.close();
+
+      const init = messages.find((m) => m.type === "review:init");
+      const update = messages.find((m) => m.type === "diff:update");
+      expect(init?.type === "review:init" && init.payload.diffSeq).toBe(0);
+      expect(update?.type === "diff:update" && update.payload.seq).toBe(0);
+      expect(update?.type === "diff:update" && update.payload.diffSet).toEqual(makePayload().diffSet);
+    });
+  });
+
+  describe("reviewer state", () => {
+    async function createSession(baseUrl: string): Promise<string> {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload: makePayload(), projectPath: "/test" }),
+      });
+      const { sessionId } = (await createResponse.json()) as { sessionId: string };
+      return sessionId;
+    }
+
+    function postState(baseUrl: string, sessionId: string, update: unknown): Promise<Response> {
+      return serverFetch(`${baseUrl}/api/reviews/${sessionId}/state`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+    }
+
+    it("merges updates and returns the state with human comments", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl);
+
+      await postState(baseUrl, sessionId, { fileStatuses: { "src/a.ts": "approved" }, selectedFile: "src/a.ts" });
+      await postState(baseUrl, sessionId, {
+        fileStatuses: { "src/b.ts": "needs_changes" },
+        draftComment: { body: "Why?", type: "question", file: "src/b.ts", line: 3 },
+      });
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: "c1", file: "src/a.ts", line: 1, body: "Nice", type: "nitpick" }),
+      });
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/state`);
+      expect(response.status).toBe(200);
+      const state = (await response.json()) as ReviewerState;
+      expect(state.fileStatuses).toEqual({ "src/a.ts": "approved", "src/b.ts": "needs_changes" });
+      expect(state.selectedFile).toBe("src/a.ts");
+      expect(state.draftComment).toEqual({ body: "Why?", type: "question", file: "src/b.ts", line: 3 });
+      expect(state.comments.map((c) => c.id)).toEqual(["c1"]);
+    });
+
+    it("rejects unknown file statuses", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl);
+
+      const response = await postState(baseUrl, sessionId, { fileStatuses: { "src/a.ts": "done" } });
+      expect(response.status).toBe(400);
+    });
+
+    it("restores progress in review:init and syncs updates to other tabs", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl);
+      await postState(baseUrl, sessionId, { fileStatuses: { "src/a.ts": "reviewed" } });
+
+      const { WebSocket } = await import("ws");
+      const ws = new WebSocket(`ws://localhost:${handle.wsPort}?sessionId=${sessionId}`, { headers: serverAuthHeaders() });
+      const messages: ServerMessage[] = [];
+      ws.on("message", (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+      await new Promise<void>((resolve) => {
+        ws.on("open", () => resolve());
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      await postState(baseUrl, sessionId, { fileStatuses: { "src/b.ts": "approved" }, clientId: "tab-1" });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      ws.close();
+
+      const init = messages.find((m) => m.type === "review:init");
+      expect(init?.type === "review:init" && init.payload.reviewerState?.fileStatuses).toEqual({
+        "src/a.ts": "reviewed",
+      });
+
+      const update = messages.find((m) => m.type === "reviewer:state");
+      expect(update?.type === "reviewer:state" && update.payload).toMatchObject({
+        sessionId,
+        origin: "tab-1",
+        state: { fileStatuses: { "src/a.ts": "reviewed", "src/b.ts": "approved" } },
+      });
+    });
+  });
+
+  describe("review rounds", () => {
+    async function createSession(baseUrl: string, payload: ReviewInitPayload): Promise<string> {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload, projectPath: "/test" }),
+      });
+      const { sessionId } = (await createResponse.json()) as { sessionId: string };
+      return sessionId;
+    }
+
+    async function requestChanges(baseUrl: string, sessionId: string): Promise<void> {
+      const result: ReviewResult = {
+        decision: "changes_requested",
+        comments: [{ id: "c1", file: "src/index.ts", line: 3, body: "Rename this", type: "must_fix" }],
+      };
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(result),
+      });
+    }
+
+    it("records a round for each changes_requested submission", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl, makePayload());
+      await requestChanges(baseUrl, sessionId);
+
+      const listResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/rounds`);
+      const { rounds } = (await listResponse.json()) as { rounds: ReviewRoundSummary[] };
+      expect(rounds).toEqual([
+        expect.objectContaining({ number: 1, fileCount: 1, commentCount: 1 }),
+      ]);
+
+      const roundResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/rounds/1`);
+      expect(roundResponse.status).toBe(200);
+      const round = (await roundResponse.json()) as ReviewRound;
+      expect(round.rawDiff).toBe(makePayload().rawDiff);
+
+      const missing = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/rounds/2`);
+      expect(missing.status).toBe(404);
+    });
+
+    it("does not record approvals as rounds", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl, makePayload());
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision: "approved", comments: [] }),
+      });
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/rounds`);
+      expect(await response.json()).toEqual({ rounds: [] });
+    });
+
+    it("serves an interdiff with the round's comments carried forward", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl, makePayload());
+      await requestChanges(baseUrl, sessionId);
+
+      const unchanged = (await (
+        await serverFetch(`${baseUrl}/api/reviews/${sessionId}/rounds/1/interdiff`)
+      ).json()) as Interdiff;
+      expect(unchanged.diffSet.files).toEqual([]);
+      expect(unchanged.comments).toEqual([expect.objectContaining({ id: "c1", round: 1, state: "outstanding" })]);
+
+      // The agent addresses the feedback and updates the review
+      await createSession(baseUrl, makePayload({ rawDiff: "diff --git a/src/index.ts b/src/index.ts\n+renamed\n" }));
+
+      const changed = (await (
+        await serverFetch(`${baseUrl}/api/reviews/${sessionId}/rounds/1/interdiff`)
+      ).json()) as Interdiff;
+      expect(changed.exact).toBe(false);
+      expect(changed.diffSet.files.map((f) => f.path)).toEqual(["src/index.ts"]);
+      expect(changed.comments[0].state).toBe("addressed");
+    });
+
+    it("includes round summaries in review:init", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl, makePayload());
+      await requestChanges(baseUrl, sessionId);
+
+      const { WebSocket } = await import("ws");
+      const ws = new WebSocket(`ws://localhost:${handle.wsPort}?sessionId=${sessionId}`, { headers: serverAuthHeaders() });
+      const messages: ServerMessage[] = [];
+      ws.on("message", (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+      await new Promise<void>((resolve) => {
+        ws.on("open", () => resolve());
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      ws.close();
+
+      const init = messages.find((m) => m.type === "review:init");
+      expect(init?.type === "review:init" && init.payload.rounds?.map((r) => r.number)).toEqual([1]);
+    });
+  });
+
   describe("dismiss behavior", () => {
     it("session:close stores dismissed result for MCP polling", async () => {
       handle = await startGlobalServer({ silent: true });
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -604,7 +944,7 @@ describe("global-server", () => {
 
       // Connect WS client and select the session
       const { WebSocket } = await import("ws");
-      const ws = new WebSocket(`ws://localhost:${handle.wsPort}`);
+      const ws = new WebSocket(`ws://localhost:${handle.wsPort}`, { headers: serverAuthHeaders() });
 
       await new Promise<void>((resolve) => {
         ws.on("open", () => resolve());
@@ -624,7 +964,7 @@ describe("global-server", () => {
       ws.close();
 
       // MCP should still be able to poll the dismissed result
-      const resultResponse = await fetch(`${baseUrl}/api/reviews/${sessionId}/result`);
+      const resultResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`);
       const resultData = (await resultResponse.json()) as {
         result: ReviewResult;
         status: string;
@@ -639,7 +979,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create two sessions so auto-select doesn't trigger
-      await fetch(`${baseUrl}/api/reviews`, {
+      await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -648,7 +988,7 @@ describe("global-server", () => {
         }),
       });
 
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -660,7 +1000,7 @@ describe("global-server", () => {
 
       // Connect WS client
       const { WebSocket } = await import("ws");
-      const ws = new WebSocket(`ws://localhost:${handle.wsPort}`);
+      const ws = new WebSocket(`ws://localhost:${handle.wsPort}`, { headers: serverAuthHeaders() });
 
       const messages: ServerMessage[] = [];
       await new Promise<void>((resolve) => {
@@ -705,7 +1045,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -717,7 +1057,7 @@ describe("global-server", () => {
 
       // Connect WS client
       const { WebSocket } = await import("ws");
-      const ws = new WebSocket(`ws://localhost:${handle.wsPort}`);
+      const ws = new WebSocket(`ws://localhost:${handle.wsPort}`, { headers: serverAuthHeaders() });
 
       const messages: ServerMessage[] = [];
       await new Promise<void>((resolve) => {
@@ -732,7 +1072,7 @@ describe("global-server", () => {
       messages.length = 0;
 
       // Submit dismissed result via HTTP
-      await fetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ decision: "dismissed", comments: [] }),
@@ -748,7 +1088,7 @@ describe("global-server", () => {
       expect((removedMsg!.payload as { sessionId: string }).sessionId).toBe(sessionId);
 
       // MCP can still poll the result
-      const resultResponse = await fetch(`${baseUrl}/api/reviews/${sessionId}/result`);
+      const resultResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`);
       const resultData = (await resultResponse.json()) as {
         result: ReviewResult;
         status: string;
@@ -762,7 +1102,7 @@ describe("global-server", () => {
       handle = await startGlobalServer({ silent: true });
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
-      const firstResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const firstResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -774,7 +1114,7 @@ describe("global-server", () => {
       expect(firstResponse.status).toBe(201);
       const { sessionId: firstId } = (await firstResponse.json()) as { sessionId: string };
 
-      const secondResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const secondResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -790,7 +1130,7 @@ describe("global-server", () => {
       expect(secondId).toBe(firstId);
 
       // Only one session in the list
-      const listResponse = await fetch(`${baseUrl}/api/reviews`);
+      const listResponse = await serverFetch(`${baseUrl}/api/reviews`);
       const listData = (await listResponse.json()) as { sessions: SessionSummary[] };
       expect(listData.sessions).toHaveLength(1);
       expect(listData.sessions[0].title).toBe("Second review");
@@ -801,7 +1141,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -812,7 +1152,7 @@ describe("global-server", () => {
       const { sessionId } = (await createResponse.json()) as { sessionId: string };
 
       // Submit a result
-      await fetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -822,12 +1162,12 @@ describe("global-server", () => {
       });
 
       // Verify submitted
-      const afterSubmit = await fetch(`${baseUrl}/api/reviews/${sessionId}`);
+      const afterSubmit = await serverFetch(`${baseUrl}/api/reviews/${sessionId}`);
       const afterSubmitData = (await afterSubmit.json()) as SessionSummary;
       expect(afterSubmitData.status).toBe("submitted");
 
       // Post again with same projectPath
-      const secondResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const secondResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -841,13 +1181,13 @@ describe("global-server", () => {
       expect(secondId).toBe(sessionId);
 
       // Status reset to pending, result cleared
-      const afterReset = await fetch(`${baseUrl}/api/reviews/${sessionId}`);
+      const afterReset = await serverFetch(`${baseUrl}/api/reviews/${sessionId}`);
       const afterResetData = (await afterReset.json()) as SessionSummary;
       expect(afterResetData.status).toBe("pending");
       expect(afterResetData.decision).toBeUndefined();
 
       // Result endpoint also shows pending
-      const resultResponse = await fetch(`${baseUrl}/api/reviews/${sessionId}/result`);
+      const resultResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`);
       const resultData = (await resultResponse.json()) as { result: null; status: string };
       expect(resultData.result).toBeNull();
       expect(resultData.status).toBe("pending");
@@ -857,7 +1197,7 @@ describe("global-server", () => {
       handle = await startGlobalServer({ silent: true });
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
-      const firstResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const firstResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -867,7 +1207,7 @@ describe("global-server", () => {
       });
       const { sessionId: firstId } = (await firstResponse.json()) as { sessionId: string };
 
-      const secondResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const secondResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -881,7 +1221,7 @@ describe("global-server", () => {
       expect(secondId).not.toBe(firstId);
 
       // Two sessions in the list
-      const listResponse = await fetch(`${baseUrl}/api/reviews`);
+      const listResponse = await serverFetch(`${baseUrl}/api/reviews`);
       const listData = (await listResponse.json()) as { sessions: SessionSummary[] };
       expect(listData.sessions).toHaveLength(2);
     });
@@ -890,11 +1230,11 @@ describe("global-server", () => {
   describe("git refs endpoint", () => {
     it("returns branches and commits for a session via GET /api/reviews/:id/refs", async () => {
       // Re-establish mock return values (vi.restoreAllMocks clears them between tests)
-      vi.mocked(git.listBranches).mockReturnValue({
+      vi.mocked(git.listBranchesAsync).mockResolvedValue({
         local: ["main", "feature-branch"],
         remote: ["origin/main", "origin/develop"],
       });
-      vi.mocked(git.listCommits).mockReturnValue([
+      vi.mocked(git.listCommitsAsync).mockResolvedValue([
         {
           hash: "abc123full",
           shortHash: "abc123",
@@ -909,7 +1249,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -919,7 +1259,7 @@ describe("global-server", () => {
       });
       const { sessionId } = (await createResponse.json()) as { sessionId: string };
 
-      const response = await fetch(`${baseUrl}/api/reviews/${sessionId}/refs`);
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/refs`);
       expect(response.status).toBe(200);
 
       const data = (await response.json()) as {
@@ -936,7 +1276,7 @@ describe("global-server", () => {
     it("returns 404 for refs of non-existent session", async () => {
       handle = await startGlobalServer({ silent: true });
 
-      const response = await fetch(
+      const response = await serverFetch(
         `http://localhost:${handle.httpPort}/api/reviews/nonexistent/refs`,
       );
       expect(response.status).toBe(404);
@@ -946,7 +1286,7 @@ describe("global-server", () => {
   describe("compare endpoint", () => {
     it("recomputes diff for a new ref via POST /api/reviews/:id/compare", async () => {
       // Re-establish mock return values (vi.restoreAllMocks clears them between tests)
-      vi.mocked(git.getDiff).mockReturnValue({
+      vi.mocked(git.getDiffAsync).mockResolvedValue({
         diffSet: {
           baseRef: "HEAD",
           headRef: "main",
@@ -969,7 +1309,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -980,7 +1320,7 @@ describe("global-server", () => {
       });
       const { sessionId } = (await createResponse.json()) as { sessionId: string };
 
-      const response = await fetch(`${baseUrl}/api/reviews/${sessionId}/compare`, {
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/compare`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ ref: "main" }),
@@ -995,7 +1335,7 @@ describe("global-server", () => {
     it("returns 404 for compare on non-existent session", async () => {
       handle = await startGlobalServer({ silent: true });
 
-      const response = await fetch(
+      const response = await serverFetch(
         `http://localhost:${handle.httpPort}/api/reviews/nonexistent/compare`,
         {
           method: "POST",
@@ -1010,7 +1350,7 @@ describe("global-server", () => {
       handle = await startGlobalServer({ silent: true });
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -1020,13 +1360,40 @@ describe("global-server", () => {
       });
       const { sessionId } = (await createResponse.json()) as { sessionId: string };
 
-      const response = await fetch(`${baseUrl}/api/reviews/${sessionId}/compare`, {
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/compare`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({}),
       });
       expect(response.status).toBe(400);
     });
+
+    it("returns git's error for a ref that does not resolve", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payload: makePayload(),
+          projectPath: "/test/project",
+        }),
+      });
+      const { sessionId } = (await createResponse.json()) as { sessionId: string };
+
+      vi.mocked(git.getDiffAsync).mockRejectedValueOnce(
+        new git.GitError("invalid_ref", 'Invalid git ref: "--output=/tmp/x"'),
+      );
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/compare`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ref: "--output=/tmp/x" }),
+      });
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Invalid git ref: "--output=/tmp/x"' });
+    });
   });
 
   describe("annotations", () => {
@@ -1035,7 +1402,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -1046,7 +1413,7 @@ describe("global-server", () => {
       const { sessionId } = (await createResponse.json()) as { sessionId: string };
 
       // Post annotation
-      const response = await fetch(`${baseUrl}/api/reviews/${sessionId}/annotations`, {
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -1071,7 +1438,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -1082,7 +1449,7 @@ describe("global-server", () => {
       const { sessionId } = (await createResponse.json()) as { sessionId: string };
 
       // Post two annotations
-      await fetch(`${baseUrl}/api/reviews/${sessionId}/annotations`, {
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -1094,7 +1461,7 @@ describe("global-server", () => {
         }),
       });
 
-      await fetch(`${baseUrl}/api/reviews/${sessionId}/annotations`, {
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -1108,7 +1475,7 @@ describe("global-server", () => {
       });
 
       // Get annotations
-      const response = await fetch(`${baseUrl}/api/reviews/${sessionId}/annotations`);
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`);
       expect(response.status).toBe(200);
 
       const data = (await response.json()) as {
@@ -1143,7 +1510,7 @@ describe("global-server", () => {
     it("returns 404 when posting annotation to non-existent session", async () => {
       handle = await startGlobalServer({ silent: true });
 
-      const response = await fetch(
+      const response = await serverFetch(
         `http://localhost:${handle.httpPort}/api/reviews/nonexistent/annotations`,
         {
           method: "POST",
@@ -1164,7 +1531,7 @@ describe("global-server", () => {
     it("returns 404 when getting annotations for non-existent session", async () => {
       handle = await startGlobalServer({ silent: true });
 
-      const response = await fetch(
+      const response = await serverFetch(
         `http://localhost:${handle.httpPort}/api/reviews/nonexistent/annotations`,
       );
 
@@ -1176,7 +1543,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -1187,7 +1554,7 @@ describe("global-server", () => {
       const { sessionId } = (await createResponse.json()) as { sessionId: string };
 
       // Post annotation
-      const annotationResponse = await fetch(
+      const annotationResponse = await serverFetch(
         `${baseUrl}/api/reviews/${sessionId}/annotations`,
         {
           method: "POST",
@@ -1205,14 +1572,14 @@ describe("global-server", () => {
       const { annotationId } = (await annotationResponse.json()) as { annotationId: string };
 
       // Dismiss annotation
-      const dismissResponse = await fetch(
+      const dismissResponse = await serverFetch(
         `${baseUrl}/api/reviews/${sessionId}/annotations/${annotationId}/dismiss`,
         { method: "POST" },
       );
       expect(dismissResponse.status).toBe(200);
 
       // Verify dismissed flag
-      const getResponse = await fetch(`${baseUrl}/api/reviews/${sessionId}/annotations`);
+      const getResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`);
       const data = (await getResponse.json()) as {
         annotations: Array<{ id: string; dismissed?: boolean }>;
       };
@@ -1226,7 +1593,7 @@ describe("global-server", () => {
       const baseUrl = `http://localhost:${handle.httpPort}`;
 
       // Create session
-      const createResponse = await fetch(`${baseUrl}/api/reviews`, {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -1237,7 +1604,7 @@ describe("global-server", () => {
       const { sessionId } = (await createResponse.json()) as { sessionId: string };
 
       // Try to dismiss non-existent annotation
-      const response = await fetch(
+      const response = await serverFetch(
         `${baseUrl}/api/reviews/${sessionId}/annotations/nonexistent-id/dismiss`,
         { method: "POST" },
       );
@@ -1247,7 +1614,7 @@ describe("global-server", () => {
     it("returns 404 when dismissing annotation on non-existent session", async () => {
       handle = await startGlobalServer({ silent: true });
 
-      const response = await fetch(
+      const response = await serverFetch(
         `http://localhost:${handle.httpPort}/api/reviews/nonexistent/annotations/some-id/dismiss`,
         { method: "POST" },
       );
@@ -1255,94 +1622,507 @@ describe("global-server", () => {
     });
   });
 
-  describe("live diff watching", () => {
-    it("stores diffRef when provided in POST /api/reviews", async () => {
-      handle = await startGlobalServer({ silent: true });
-      const baseUrl = `http://localhost:${handle.httpPort}`;
-
-      const response = await fetch(`${baseUrl}/api/reviews`, {
+  describe("threads", () => {
+    async function createSession(baseUrl: string): Promise<string> {
+      const response = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           payload: makePayload(),
           projectPath: "/test/project",
-          diffRef: "working-copy",
         }),
       });
-
-      expect(response.status).toBe(201);
       const { sessionId } = (await response.json()) as { sessionId: string };
+      return sessionId;
+    }
 
-      // Verify session has hasNewChanges: false initially
-      const getResponse = await fetch(`${baseUrl}/api/reviews/${sessionId}`);
-      const data = (await getResponse.json()) as SessionSummary;
-      expect(data.hasNewChanges).toBe(false);
-    });
-
-    it("sets watchMode on payload when diffRef is provided", async () => {
+    it("stores human comments and keeps server-side replies on update", async () => {
       handle = await startGlobalServer({ silent: true });
       const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl);
 
-      // Create session with diffRef
-      const response = await fetch(`${baseUrl}/api/reviews`, {
+      const comment = { id: "c1", file: "src/index.ts", line: 3, body: "Why?", type: "question" };
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/comments`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          payload: makePayload(),
-          projectPath: "/test/project",
-          diffRef: "staged",
-        }),
+        body: JSON.stringify(comment),
       });
 
-      expect(response.status).toBe(201);
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/threads/c1/replies`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: "To avoid a race", author: { kind: "agent", name: "claude" } }),
+      });
+
+      // The UI re-sends the edited comment without replies
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...comment, body: "Why this order?" }),
+      });
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/comments`);
+      const { comments } = (await response.json()) as {
+        comments: Array<{ body: string; replies: Array<{ body: string }> }>;
+      };
+      expect(comments).toHaveLength(1);
+      expect(comments[0].body).toBe("Why this order?");
+      expect(comments[0].replies.map((r) => r.body)).toEqual(["To avoid a race"]);
+
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/comments/c1`, { method: "DELETE" });
+      const afterDelete = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/comments`);
+      expect(((await afterDelete.json()) as { comments: unknown[] }).comments).toHaveLength(0);
     });
 
-    it("session without diffRef has hasNewChanges false", async () => {
+    it("keeps ranges and suggestions and skips the sending tab's echo", async () => {
       handle = await startGlobalServer({ silent: true });
       const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl);
+
+      const { WebSocket } = await import("ws");
+      const ws = new WebSocket(`ws://localhost:${handle.wsPort}?sessionId=${sessionId}`, { headers: serverAuthHeaders() });
+      const messages: ServerMessage[] = [];
+      ws.on("message", (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+      await new Promise<void>((resolve) => {
+        ws.on("open", () => resolve());
+      });
 
-      const response = await fetch(`${baseUrl}/api/reviews`, {
+      const comment = {
+        id: "c1",
+        file: "src/index.ts",
+        line: 4,
+        startLine: 2,
+        side: "RIGHT",
+        suggestion: "const total = sum(items);",
+        body: "Simpler",
+        type: "suggestion",
+      };
+      const postResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/comments`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          payload: makePayload(),
-          projectPath: "/test/project",
-        }),
+        body: JSON.stringify({ ...comment, clientId: "tab-1" }),
       });
+      expect(postResponse.status).toBe(200);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      ws.close();
 
-      const { sessionId } = (await response.json()) as { sessionId: string };
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/comments`);
+      const { comments } = (await response.json()) as { comments: unknown[] };
+      expect(comments).toEqual([{ ...comment, replies: [] }]);
 
-      const getResponse = await fetch(`${baseUrl}/api/reviews/${sessionId}`);
-      const data = (await getResponse.json()) as SessionSummary;
-      expect(data.hasNewChanges).toBe(false);
+      const update = messages.find((m) => m.type === "reviewer:state");
+      expect(update?.type === "reviewer:state" && update.payload).toMatchObject({
+        origin: "tab-1",
+        state: { comments: [{ ...comment, replies: [] }] },
+      });
+
+      const invalid = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...comment, side: "BOTH" }),
+      });
+      expect(invalid.status).toBe(400);
     });
 
-    it("includes hasNewChanges in session list", async () => {
+    it("returns imported GitHub review threads with the comments", async () => {
       handle = await startGlobalServer({ silent: true });
       const baseUrl = `http://localhost:${handle.httpPort}`;
-
-      // Create two sessions
-      await fetch(`${baseUrl}/api/reviews`, {
+      const thread = {
+        id: "PRRT_1",
+        path: "src/index.ts",
+        line: 3,
+        originalLine: 3,
+        startLine: null,
+        side: "RIGHT",
+        isResolved: true,
+        isOutdated: false,
+        comments: [
+          {
+            id: "PRRC_1",
+            databaseId: 11,
+            author: "octocat",
+            body: "Nit: rename",
+            createdAt: 1,
+            url: "https://github.com/owner/repo/pull/1#discussion_r11",
+            viewerDidAuthor: false,
+          },
+        ],
+      };
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          payload: makePayload({ metadata: { title: "With diff" } }),
-          projectPath: "/project-a",
-          diffRef: "working-copy",
+          payload: makePayload({ githubThreads: [thread] as ReviewInitPayload["githubThreads"] }),
+          projectPath: "github:owner/repo#1",
         }),
       });
+      const { sessionId } = (await createResponse.json()) as { sessionId: string };
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/comments`);
+      const data = (await response.json()) as { comments: unknown[]; githubThreads: unknown[] };
+      expect(data.comments).toEqual([]);
+      expect(data.githubThreads).toEqual([thread]);
+    });
+
+    it("replies to annotations and filters replies by author and time", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl);
 
-      await fetch(`${baseUrl}/api/reviews`, {
+      const annotationResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          payload: makePayload({ metadata: { title: "Without diff" } }),
-          projectPath: "/project-b",
+          file: "src/index.ts",
+          line: 10,
+          body: "Missing null check",
+          type: "finding",
+          source: { agent: "correctness-agent" },
         }),
       });
+      const { annotationId } = (await annotationResponse.json()) as { annotationId: string };
 
-      const response = await fetch(`${baseUrl}/api/reviews`);
-      const data = (await response.json()) as { sessions: SessionSummary[] };
+      const humanResponse = await serverFetch(
+        `${baseUrl}/api/reviews/${sessionId}/threads/${annotationId}/replies`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ body: "It can't be null here", author: { kind: "human" } }),
+        },
+      );
+      expect(humanResponse.status).toBe(201);
+      const { reply } = (await humanResponse.json()) as {
+        reply: { id: string; targetId: string; author: { kind: string; name: string }; createdAt: number };
+      };
+      expect(reply.targetId).toBe(annotationId);
+      expect(reply.author).toEqual({ kind: "human", name: "reviewer" });
+
+      const humanOnly = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/replies?author=human`);
+      expect(((await humanOnly.json()) as { replies: unknown[] }).replies).toHaveLength(1);
+
+      const newer = await serverFetch(
+        `${baseUrl}/api/reviews/${sessionId}/replies?since=${reply.createdAt}`,
+      );
+      expect(((await newer.json()) as { replies: unknown[] }).replies).toHaveLength(0);
+
+      const annotations = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`);
+      const data = (await annotations.json()) as { annotations: Array<{ replies: unknown[] }> };
+      expect(data.annotations[0].replies).toHaveLength(1);
+    });
+
+    it("rejects replies to unknown threads and without a body", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl);
+
+      const unknown = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/threads/nope/replies`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: "hello", author: { kind: "agent" } }),
+      });
+      expect(unknown.status).toBe(404);
+
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: "c1", file: "a.ts", line: 1, body: "x", type: "nitpick" }),
+      });
+      const empty = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/threads/c1/replies`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: "  ", author: { kind: "agent" } }),
+      });
+      expect(empty.status).toBe(400);
+    });
+  });
+
+  describe("suggested changes", () => {
+    async function postSuggestion(baseUrl: string, projectPath: string): Promise<{ sessionId: string; annotationId: string }> {
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload: makePayload(), projectPath }),
+      });
+      const { sessionId } = (await createResponse.json()) as { sessionId: string };
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          file: "src/index.ts",
+          line: 2,
+          body: "Use const",
+          type: "suggestion",
+          source: { agent: "style-agent" },
+          suggestedChange: { startLine: 2, replacement: "const b = 2;" },
+        }),
+      });
+      const { annotationId } = (await response.json()) as { annotationId: string };
+      return { sessionId, annotationId };
+    }
+
+    it("records the original lines and patches the file on apply", async () => {
+      const projectPath = path.join(tmpDir, "project");
+      fs.mkdirSync(path.join(projectPath, "src"), { recursive: true });
+      fs.writeFileSync(path.join(projectPath, "src/index.ts"), "const a = 1;\nlet b = 2;\n");
+
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const { sessionId, annotationId } = await postSuggestion(baseUrl, projectPath);
+
+      const list = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`);
+      const { annotations } = (await list.json()) as { annotations: Annotation[] };
+      expect(annotations[0].suggestedChange).toMatchObject({
+        startLine: 2,
+        endLine: 2,
+        original: "let b = 2;",
+      });
+
+      const apply = await serverFetch(
+        `${baseUrl}/api/reviews/${sessionId}/annotations/${annotationId}/apply`,
+        { method: "POST" },
+      );
+      expect(apply.status).toBe(200);
+      const { annotation } = (await apply.json()) as { annotation: Annotation };
+      expect(annotation.suggestedChange?.appliedAt).toBeTypeOf("number");
+      expect(fs.readFileSync(path.join(projectPath, "src/index.ts"), "utf-8")).toBe(
+        "const a = 1;\nconst b = 2;\n",
+      );
+
+      const again = await serverFetch(
+        `${baseUrl}/api/reviews/${sessionId}/annotations/${annotationId}/apply`,
+        { method: "POST" },
+      );
+      expect(again.status).toBe(409);
+    });
+
+    it("refuses to apply when the lines changed since the suggestion", async () => {
+      const projectPath = path.join(tmpDir, "project");
+      fs.mkdirSync(path.join(projectPath, "src"), { recursive: true });
+      fs.writeFileSync(path.join(projectPath, "src/index.ts"), "const a = 1;\nlet b = 2;\n");
+
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const { sessionId, annotationId } = await postSuggestion(baseUrl, projectPath);
+
+      fs.writeFileSync(path.join(projectPath, "src/index.ts"), "const a = 1;\nlet b = 3;\n");
+
+      const apply = await serverFetch(
+        `${baseUrl}/api/reviews/${sessionId}/annotations/${annotationId}/apply`,
+        { method: "POST" },
+      );
+      expect(apply.status).toBe(409);
+      expect(fs.readFileSync(path.join(projectPath, "src/index.ts"), "utf-8")).toContain("let b = 3;");
+    });
+  });
+
+  describe("hunk actions", () => {
+    const hunk = {
+      oldStart: 3,
+      oldLines: 1,
+      newStart: 3,
+      newLines: 1,
+      changes: [
+        { type: "delete" as const, lineNumber: 3, content: "let a = 1;" },
+        { type: "add" as const, lineNumber: 3, content: "const a = 1;" },
+      ],
+    };
+
+    async function createSession(baseUrl: string, diffRef: string): Promise<string> {
+      const payload = makePayload();
+      payload.diffSet.files = [
+        { ...payload.diffSet.files[0], stage: "staged", hunks: [hunk] },
+        { ...payload.diffSet.files[0], stage: "unstaged", hunks: [hunk] },
+      ];
+      vi.mocked(git.getDiffAsync).mockResolvedValue({ diffSet: payload.diffSet, rawDiff: payload.rawDiff });
+
+      const response = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload, projectPath: tmpDir, diffRef }),
+      });
+      const { sessionId } = (await response.json()) as { sessionId: string };
+      return sessionId;
+    }
+
+    function postHunk(baseUrl: string, sessionId: string, action: string, body: Record<string, unknown>) {
+      return serverFetch(`${baseUrl}/api/reviews/${sessionId}/hunks/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it("applies the matching hunk in the session's project", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl, "working-copy");
+
+      const response = await postHunk(baseUrl, sessionId, "stage", {
+        file: "src/index.ts",
+        stage: "unstaged",
+        oldStart: 3,
+        newStart: 3,
+      });
+
+      expect(response.status).toBe(200);
+      expect(git.applyHunk).toHaveBeenCalledWith(
+        expect.objectContaining({ path: "src/index.ts", stage: "unstaged" }),
+        hunk,
+        "stage",
+        { cwd: tmpDir },
+      );
+    });
+
+    it("rejects actions that don't fit the hunk's stage", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl, "working-copy");
+
+      const response = await postHunk(baseUrl, sessionId, "discard", {
+        file: "src/index.ts",
+        stage: "staged",
+        oldStart: 3,
+        newStart: 3,
+      });
+      expect(response.status).toBe(400);
+    });
+
+    it("returns 409 when the hunk is no longer in the diff", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl, "working-copy");
+
+      const response = await postHunk(baseUrl, sessionId, "unstage", {
+        file: "src/index.ts",
+        stage: "staged",
+        oldStart: 40,
+        newStart: 40,
+      });
+      expect(response.status).toBe(409);
+    });
+
+    it("returns 409 with git's error when the patch no longer applies", async () => {
+      vi.mocked(git.applyHunk).mockRejectedValueOnce(new Error("git apply failed: patch does not apply"));
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl, "working-copy");
+
+      const response = await postHunk(baseUrl, sessionId, "stage", {
+        file: "src/index.ts",
+        stage: "unstaged",
+        oldStart: 3,
+        newStart: 3,
+      });
+
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({ error: "git apply failed: patch does not apply" });
+    });
+
+    it("is unavailable for commit range reviews", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createSession(baseUrl, "HEAD~1..HEAD");
+
+      const response = await postHunk(baseUrl, sessionId, "stage", {
+        file: "src/index.ts",
+        oldStart: 3,
+        newStart: 3,
+      });
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("live diff watching", () => {
+    it("stores diffRef when provided in POST /api/reviews", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const response = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payload: makePayload(),
+          projectPath: "/test/project",
+          diffRef: "working-copy",
+        }),
+      });
+
+      expect(response.status).toBe(201);
+      const { sessionId } = (await response.json()) as { sessionId: string };
+
+      // Verify session has hasNewChanges: false initially
+      const getResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}`);
+      const data = (await getResponse.json()) as SessionSummary;
+      expect(data.hasNewChanges).toBe(false);
+    });
+
+    it("sets watchMode on payload when diffRef is provided", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      // Create session with diffRef
+      const response = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payload: makePayload(),
+          projectPath: "/test/project",
+          diffRef: "staged",
+        }),
+      });
+
+      expect(response.status).toBe(201);
+    });
+
+    it("session without diffRef has hasNewChanges false", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const response = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payload: makePayload(),
+          projectPath: "/test/project",
+        }),
+      });
+
+      const { sessionId } = (await response.json()) as { sessionId: string };
+
+      const getResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}`);
+      const data = (await getResponse.json()) as SessionSummary;
+      expect(data.hasNewChanges).toBe(false);
+    });
+
+    it("includes hasNewChanges in session list", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      // Create two sessions
+      await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payload: makePayload({ metadata: { title: "With diff" } }),
+          projectPath: "/project-a",
+          diffRef: "working-copy",
+        }),
+      });
+
+      await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payload: makePayload({ metadata: { title: "Without diff" } }),
+          projectPath: "/project-b",
+        }),
+      });
+
+      const response = await serverFetch(`${baseUrl}/api/reviews`);
+      const data = (await response.json()) as { sessions: SessionSummary[] };
 
       expect(data.sessions).toHaveLength(2);
       for (const session of data.sessions) {
@@ -1350,4 +2130,1135 @@ describe("global-server", () => {
       }
     });
   });
+
+  describe("verification", () => {
+    async function createProjectSession(baseUrl: string): Promise<string> {
+      const projectPath = path.join(tmpDir, "project");
+      fs.mkdirSync(path.join(projectPath, ".diffprism"), { recursive: true });
+      fs.writeFileSync(
+        path.join(projectPath, ".diffprism", "config.json"),
+        JSON.stringify({
+          verification: { test: "echo tests ok", typecheck: "exit 1", lint: null },
+        }),
+      );
+
+      const response = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload: makePayload(), projectPath }),
+      });
+      const { sessionId } = (await response.json()) as { sessionId: string };
+      return sessionId;
+    }
+
+    async function waitForCompletion(baseUrl: string, sessionId: string): Promise<VerificationRun> {
+      for (let i = 0; i < 100; i++) {
+        const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/verification`);
+        const { verification } = (await response.json()) as { verification: VerificationRun | null };
+        if (verification && verification.status !== "running") return verification;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      throw new Error("Verification did not finish");
+    }
+
+    it("runs checks and fills in the briefing", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createProjectSession(baseUrl);
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/verify`, { method: "POST" });
+      expect(response.status).toBe(202);
+
+      const run = await waitForCompletion(baseUrl, sessionId);
+      expect(run.checks.map((c) => [c.name, c.status])).toEqual([
+        ["test", "passed"],
+        ["typecheck", "failed"],
+        ["lint", "skipped"],
+      ]);
+      expect(run.checks[0].output).toContain("tests ok");
+
+      const payloadResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/payload`);
+      const { payload } = (await payloadResponse.json()) as { payload: ReviewInitPayload };
+      expect(payload.briefing.verification).toEqual({
+        testsPass: true,
+        typeCheck: false,
+        lintClean: null,
+      });
+    });
+
+    it("pushes verification:update to session clients", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createProjectSession(baseUrl);
+
+      const { WebSocket } = await import("ws");
+      const ws = new WebSocket(`ws://localhost:${handle.wsPort}?sessionId=${sessionId}`, { headers: serverAuthHeaders() });
+      const messages: ServerMessage[] = [];
+      ws.on("message", (data) => {
+        messages.push(JSON.parse(data.toString()) as ServerMessage);
+      });
+      await new Promise<void>((resolve) => {
+        ws.on("open", () => resolve());
+      });
+
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/verify`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ checks: ["test"] }),
+      });
+      await waitForCompletion(baseUrl, sessionId);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      ws.close();
+
+      const updates = messages.filter((m) => m.type === "verification:update");
+      expect(updates.length).toBeGreaterThan(0);
+      const last = updates[updates.length - 1].payload as VerificationUpdatePayload;
+      expect(last.sessionId).toBe(sessionId);
+      expect(last.run.status).toBe("completed");
+      expect(last.run.checks.map((c) => c.name)).toEqual(["test"]);
+      expect(last.briefingVerification).toEqual({ testsPass: true, typeCheck: null, lintClean: null });
+    });
+
+    it("rejects unknown checks", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createProjectSession(baseUrl);
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/verify`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ checks: ["format"] }),
+      });
+      expect(response.status).toBe(400);
+    });
+
+    it("returns null before any run and 404 for unknown sessions", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createProjectSession(baseUrl);
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/verification`);
+      expect(await response.json()).toEqual({ verification: null });
+
+      const missing = await serverFetch(`${baseUrl}/api/reviews/nonexistent/verify`, { method: "POST" });
+      expect(missing.status).toBe(404);
+    });
+  });
+
+  describe("session persistence", () => {
+    const storePath = () => path.join(tmpDir, ".diffprism", "sessions.json");
+
+    it("restores sessions and annotations after a restart", async () => {
+      handle = await startGlobalServer({ silent: true });
+      let baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload: makePayload(), projectPath: "/test/project" }),
+      });
+      const { sessionId } = (await createResponse.json()) as { sessionId: string };
+
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          file: "src/index.ts",
+          line: 3,
+          body: "Check this",
+          type: "finding",
+          source: { agent: "test" },
+        }),
+      });
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/focus`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ file: "src/index.ts" }),
+      });
+
+      await handle.stop();
+      handle = await startGlobalServer({ silent: true });
+      baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const sessionResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}`);
+      expect(sessionResponse.status).toBe(200);
+      const summary = (await sessionResponse.json()) as SessionSummary;
+      expect(summary.title).toBe("Test review");
+
+      const annotationsResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`);
+      const { annotations } = (await annotationsResponse.json()) as { annotations: Annotation[] };
+      expect(annotations).toHaveLength(1);
+      expect(annotations[0].body).toBe("Check this");
+
+      const focusResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/focus`);
+      const { focus } = (await focusResponse.json()) as { focus: { file: string } | null };
+      expect(focus?.file).toBe("src/index.ts");
+    });
+
+    it("keeps submitted results across restarts", async () => {
+      handle = await startGlobalServer({ silent: true });
+      let baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload: makePayload(), projectPath: "/test/project" }),
+      });
+      const { sessionId } = (await createResponse.json()) as { sessionId: string };
+
+      const result: ReviewResult = {
+        decision: "changes_requested",
+        comments: [{ file: "src/index.ts", line: 1, body: "Fix", type: "must_fix" }],
+        fileStatuses: { "src/index.ts": "needs_changes" },
+      };
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(result),
+      });
+
+      await handle.stop();
+      handle = await startGlobalServer({ silent: true });
+      baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const resultResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`);
+      const data = (await resultResponse.json()) as { result: ReviewResult; status: string };
+      expect(data.status).toBe("submitted");
+      expect(data.result).toEqual(result);
+    });
+
+    it("drops persisted sessions that have outlived their TTL", async () => {
+      const payload = makePayload();
+      const base = {
+        payload,
+        projectPath: "/test/project",
+        source: "agent",
+        result: null,
+        hasNewChanges: false,
+        annotations: [],
+      };
+      fs.mkdirSync(path.dirname(storePath()), { recursive: true });
+      fs.writeFileSync(
+        storePath(),
+        JSON.stringify({
+          version: 1,
+          sessions: [
+            { ...base, id: "session-old", status: "pending", createdAt: Date.now() - 2 * 60 * 60 * 1000 },
+            { ...base, id: "session-done", status: "submitted", createdAt: Date.now() - 10 * 60 * 1000 },
+            { ...base, id: "session-fresh", status: "pending", createdAt: Date.now() },
+            { ...base, id: "session-manual", source: "manual", status: "pending", createdAt: 0 },
+          ],
+        }),
+      );
+
+      handle = await startGlobalServer({ silent: true });
+
+      const response = await serverFetch(`http://localhost:${handle.httpPort}/api/reviews`);
+      const data = (await response.json()) as { sessions: SessionSummary[] };
+      expect(data.sessions.map((s) => s.id).sort()).toEqual(["session-fresh", "session-manual"]);
+    });
+
+    it("resumes diff watching and reports changes made while the server was down", async () => {
+      const payload = makePayload({ rawDiff: "diff --git a/old b/old\n" });
+      fs.mkdirSync(path.dirname(storePath()), { recursive: true });
+      fs.writeFileSync(
+        storePath(),
+        JSON.stringify({
+          version: 1,
+          sessions: [
+            {
+              id: "session-watch",
+              payload,
+              projectPath: tmpDir,
+              source: "agent",
+              status: "pending",
+              result: null,
+              createdAt: Date.now(),
+              diffRef: "working-copy",
+              hasNewChanges: false,
+              annotations: [],
+            },
+          ],
+        }),
+      );
+
+      // The current diff is empty, which differs from the persisted one
+      vi.mocked(git.getDiffAsync).mockResolvedValue({
+        diffSet: { baseRef: "HEAD", headRef: "working-copy", files: [] },
+        rawDiff: "",
+      });
+
+      handle = await startGlobalServer({ silent: true, pollInterval: 20 });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const response = await serverFetch(`http://localhost:${handle.httpPort}/api/reviews/session-watch`);
+      const summary = (await response.json()) as SessionSummary;
+      expect(summary.hasNewChanges).toBe(true);
+      expect(summary.fileCount).toBe(0);
+      expect(git.getDiffAsync).toHaveBeenCalledWith("working-copy", { cwd: tmpDir });
+    });
+  });
+
+  describe("post-review actions", () => {
+    async function submitApproval(baseUrl: string): Promise<string> {
+      const payload = makePayload();
+      vi.mocked(git.getDiffAsync).mockResolvedValue({ diffSet: payload.diffSet, rawDiff: payload.rawDiff });
+
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload, projectPath: tmpDir, diffRef: "staged" }),
+      });
+      const { sessionId } = (await createResponse.json()) as { sessionId: string };
+
+      const result: ReviewResult = {
+        decision: "approved",
+        comments: [],
+        summary: "Looks good",
+        postReviewAction: "commit",
+      };
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(result),
+      });
+      return sessionId;
+    }
+
+    async function getActionRun(baseUrl: string, sessionId: string) {
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`);
+      const data = (await response.json()) as { postReviewAction: PostReviewActionRun | null };
+      return data.postReviewAction;
+    }
+
+    it("commits an approved review when enabled and reports the outcome", async () => {
+      vi.mocked(git.commitChanges).mockResolvedValue("abc1234def");
+      handle = await startGlobalServer({ silent: true, executePostReviewActions: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const sessionId = await submitApproval(baseUrl);
+      await vi.waitFor(async () => {
+        expect((await getActionRun(baseUrl, sessionId))?.status).toBe("succeeded");
+      });
+
+      expect(git.commitChanges).toHaveBeenCalledWith("Test review\n\nLooks good\n", {
+        cwd: tmpDir,
+        paths: undefined,
+      });
+      const summary = (await (
+        await serverFetch(`${baseUrl}/api/reviews/${sessionId}`)
+      ).json()) as SessionSummary;
+      expect(summary.postReviewAction).toMatchObject({
+        action: "commit",
+        status: "succeeded",
+        commitSha: "abc1234def",
+      });
+    });
+
+    it("leaves the action to the agent when not enabled", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const sessionId = await submitApproval(baseUrl);
+
+      expect(await getActionRun(baseUrl, sessionId)).toBeNull();
+      expect(git.commitChanges).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("posting PR reviews", () => {
+    const submitReview = vi.fn();
+
+    async function submitPrReview(baseUrl: string, result: ReviewResult): Promise<string> {
+      const payload = makePayload();
+      payload.metadata.githubPr = {
+        owner: "owner",
+        repo: "repo",
+        number: 1,
+        title: "Test PR",
+        author: "octocat",
+        url: "https://github.com/owner/repo/pull/1",
+        baseBranch: "main",
+        headBranch: "feature",
+      };
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload, projectPath: "github:owner/repo#1" }),
+      });
+      const { sessionId } = (await createResponse.json()) as { sessionId: string };
+
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(result),
+      });
+      return sessionId;
+    }
+
+    async function getSummary(baseUrl: string, sessionId: string): Promise<SessionSummary> {
+      return (await (await serverFetch(`${baseUrl}/api/reviews/${sessionId}`)).json()) as SessionSummary;
+    }
+
+    beforeEach(() => {
+      submitReview.mockReset();
+      vi.mocked(github.findProvider).mockReturnValue({
+        parseRef: () => ({ provider: "github", baseUrl: "https://github.com", owner: "owner", repo: "repo", number: 1 }),
+        connect: () => ({ submitReview }),
+      } as never);
+    });
+
+    it("posts the review with its ranges and suggestions when asked to", async () => {
+      submitReview.mockResolvedValue({ reviewId: 42 });
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const result: ReviewResult = {
+        decision: "changes_requested",
+        comments: [
+          { file: "src/index.ts", line: 5, startLine: 3, suggestion: "return x;", body: "Simplify", type: "suggestion" },
+        ],
+        postToGithub: true,
+      };
+
+      const sessionId = await submitPrReview(baseUrl, result);
+      await vi.waitFor(async () => {
+        expect((await getSummary(baseUrl, sessionId)).prReviewPost?.status).toBe("succeeded");
+      });
+
+      expect(github.findProvider).toHaveBeenCalledWith("https://github.com/owner/repo/pull/1");
+      expect(submitReview).toHaveBeenCalledWith(result);
+      expect((await getSummary(baseUrl, sessionId)).prReviewPost?.reviewId).toBe(42);
+    });
+
+    it("reports a failed post on the session", async () => {
+      submitReview.mockRejectedValue(new Error("Validation Failed"));
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const sessionId = await submitPrReview(baseUrl, { decision: "approved", comments: [], postToGithub: true });
+      await vi.waitFor(async () => {
+        expect((await getSummary(baseUrl, sessionId)).prReviewPost).toMatchObject({
+          status: "failed",
+          error: "Validation Failed",
+        });
+      });
+    });
+
+    it("leaves the PR alone unless the reviewer asked to post", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const sessionId = await submitPrReview(baseUrl, { decision: "approved", comments: [] });
+
+      expect((await getSummary(baseUrl, sessionId)).prReviewPost).toBeUndefined();
+      expect(submitReview).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GitHub PR threads", () => {
+    function makeThread(): GitHubReviewThread {
+      return {
+        id: "PRRT_1",
+        path: "src/index.ts",
+        line: 3,
+        originalLine: 3,
+        startLine: null,
+        side: "RIGHT",
+        isResolved: false,
+        isOutdated: false,
+        comments: [
+          {
+            id: "PRRC_1",
+            databaseId: 11,
+            author: "octocat",
+            body: "Why this?",
+            createdAt: 1,
+            url: "https://github.com/owner/repo/pull/1#discussion_r11",
+            viewerDidAuthor: false,
+          },
+        ],
+      };
+    }
+
+    async function createPrSession(baseUrl: string): Promise<string> {
+      const payload = makePayload({ githubThreads: [makeThread()] });
+      payload.metadata.githubPr = {
+        owner: "owner",
+        repo: "repo",
+        number: 1,
+        title: "Test PR",
+        author: "octocat",
+        url: "https://github.com/owner/repo/pull/1",
+        baseBranch: "main",
+        headBranch: "feature",
+      };
+      const response = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload, projectPath: "github:owner/repo#1" }),
+      });
+      const { sessionId } = (await response.json()) as { sessionId: string };
+      return sessionId;
+    }
+
+    async function getThreads(baseUrl: string, sessionId: string): Promise<GitHubReviewThread[]> {
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/comments`);
+      return ((await response.json()) as { githubThreads: GitHubReviewThread[] }).githubThreads;
+    }
+
+    beforeEach(() => {
+      vi.mocked(github.resolveGitHubToken).mockReturnValue("token");
+      vi.mocked(github.createGitHubClient).mockReturnValue({} as never);
+    });
+
+    it("replies on GitHub under the thread's first comment", async () => {
+      vi.mocked(github.replyToReviewComment).mockResolvedValue({
+        id: "PRRC_2",
+        databaseId: 12,
+        author: "me",
+        body: "Because of the cache",
+        createdAt: 2,
+        url: "https://github.com/owner/repo/pull/1#discussion_r12",
+        viewerDidAuthor: true,
+      });
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createPrSession(baseUrl);
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/github/threads/PRRT_1/replies`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: "Because of the cache" }),
+      });
+
+      expect(response.status).toBe(201);
+      expect(github.replyToReviewComment).toHaveBeenCalledWith(
+        {},
+        "owner",
+        "repo",
+        1,
+        11,
+        "Because of the cache",
+      );
+      const [thread] = await getThreads(baseUrl, sessionId);
+      expect(thread.comments.map((c) => c.id)).toEqual(["PRRC_1", "PRRC_2"]);
+    });
+
+    it("resolves threads and only edits or deletes the viewer's own comments", async () => {
+      vi.mocked(github.setReviewThreadResolved).mockResolvedValue(true);
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createPrSession(baseUrl);
+
+      const resolveResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/github/threads/PRRT_1/resolve`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resolved: true }),
+      });
+      expect(resolveResponse.status).toBe(200);
+      expect(github.setReviewThreadResolved).toHaveBeenCalledWith({}, "PRRT_1", true);
+      expect((await getThreads(baseUrl, sessionId))[0].isResolved).toBe(true);
+
+      const editResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/github/comments/PRRC_1`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: "Edited" }),
+      });
+      expect(editResponse.status).toBe(403);
+      expect(github.updateReviewComment).not.toHaveBeenCalled();
+    });
+
+    it("drops a thread when its last comment is deleted", async () => {
+      vi.mocked(github.deleteReviewComment).mockResolvedValue(undefined);
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createPrSession(baseUrl);
+
+      // Mark the only comment as the viewer's own
+      const payloadResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/payload`);
+      const { payload } = (await payloadResponse.json()) as { payload: ReviewInitPayload };
+      payload.githubThreads![0].comments[0].viewerDidAuthor = true;
+      await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload, projectPath: "github:owner/repo#1" }),
+      });
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/github/comments/PRRC_1`, {
+        method: "DELETE",
+      });
+
+      expect(response.status).toBe(200);
+      expect(github.deleteReviewComment).toHaveBeenCalledWith({}, "owner", "repo", 11);
+      expect(await getThreads(baseUrl, sessionId)).toEqual([]);
+    });
+
+    it("rejects thread actions on sessions that aren't GitHub PRs", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payload: makePayload({ githubThreads: [makeThread()] }),
+          projectPath: "/test/project",
+        }),
+      });
+      const { sessionId } = (await createResponse.json()) as { sessionId: string };
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/github/threads/PRRT_1/resolve`, {
+        method: "POST",
+      });
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("PR diff modes", () => {
+    const reviewedSha = "a".repeat(40);
+    const openedSha = "b".repeat(40);
+    const pushedSha = "c".repeat(40);
+
+    async function createPrSession(baseUrl: string, lastReviewedSha?: string): Promise<string> {
+      const payload = makePayload();
+      payload.metadata.githubPr = {
+        owner: "owner",
+        repo: "repo",
+        number: 1,
+        title: "Test PR",
+        author: "octocat",
+        url: "https://github.com/owner/repo/pull/1",
+        baseBranch: "main",
+        headBranch: "feature",
+        headSha: openedSha,
+        lastReviewedSha,
+      };
+      const response = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload, projectPath: "github:owner/repo#1" }),
+      });
+      const { sessionId } = (await response.json()) as { sessionId: string };
+      return sessionId;
+    }
+
+    async function setMode(baseUrl: string, sessionId: string, mode: string): Promise<Response> {
+      return serverFetch(`${baseUrl}/api/reviews/${sessionId}/pr-diff`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode }),
+      });
+    }
+
+    async function getPayload(baseUrl: string, sessionId: string): Promise<ReviewInitPayload> {
+      const response = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/payload`);
+      return ((await response.json()) as { payload: ReviewInitPayload }).payload;
+    }
+
+    beforeEach(() => {
+      vi.mocked(github.resolveGitHubToken).mockReturnValue("token");
+      vi.mocked(github.createGitHubClient).mockReturnValue({} as never);
+      vi.mocked(github.fetchPullRequest).mockResolvedValue({ headSha: pushedSha } as never);
+    });
+
+    it("switches to the changes since the last review and back to the full diff", async () => {
+      vi.mocked(github.fetchCompareDiff).mockResolvedValue(
+        "diff --git a/src/new.ts b/src/new.ts\n--- a/src/new.ts\n+++ b/src/new.ts\n@@ -1 +1 @@\n-a\n+b\n",
+      );
+      vi.mocked(github.fetchPullRequestDiff).mockResolvedValue(
+        "diff --git a/src/index.ts b/src/index.ts\n--- a/src/index.ts\n+++ b/src/index.ts\n@@ -1 +1 @@\n-a\n+b\n",
+      );
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createPrSession(baseUrl, reviewedSha);
+
+      const response = await setMode(baseUrl, sessionId, "since_last_review");
+      expect(response.status).toBe(200);
+      // Compared against the PR's head as it is now, not when it was opened
+      expect(github.fetchCompareDiff).toHaveBeenCalledWith({}, "owner", "repo", reviewedSha, pushedSha);
+
+      let payload = await getPayload(baseUrl, sessionId);
+      expect(payload.diffSet.files.map((f) => f.path)).toEqual(["src/new.ts"]);
+      expect(payload.diffSet.baseRef).toBe("aaaaaaa");
+      expect(payload.metadata.githubPr).toMatchObject({ diffMode: "since_last_review", headSha: pushedSha });
+
+      expect((await setMode(baseUrl, sessionId, "full")).status).toBe(200);
+      payload = await getPayload(baseUrl, sessionId);
+      expect(payload.diffSet.files.map((f) => f.path)).toEqual(["src/index.ts"]);
+      expect(payload.diffSet.baseRef).toBe("main");
+      expect(payload.metadata.githubPr?.diffMode).toBe("full");
+    });
+
+    it("answers when the session is closed while the diff is fetched", async () => {
+      let finishFetch!: (diff: string) => void;
+      vi.mocked(github.fetchPullRequestDiff).mockReturnValue(new Promise((resolve) => (finishFetch = resolve)));
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createPrSession(baseUrl, reviewedSha);
+
+      const pending = setMode(baseUrl, sessionId, "full");
+      await vi.waitFor(() => expect(github.fetchPullRequestDiff).toHaveBeenCalled());
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}`, { method: "DELETE" });
+      finishFetch("");
+
+      const response = await pending;
+      expect(response.status).toBe(409);
+    });
+
+    it("rejects unknown modes and PRs without an earlier review", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createPrSession(baseUrl);
+
+      expect((await setMode(baseUrl, sessionId, "everything")).status).toBe(400);
+      const response = await setMode(baseUrl, sessionId, "since_last_review");
+      expect(response.status).toBe(400);
+      expect(github.fetchCompareDiff).not.toHaveBeenCalled();
+    });
+
+    it("remembers the head commit a PR was reviewed at", async () => {
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const sessionId = await createPrSession(baseUrl);
+
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/result`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision: "approved", comments: [] } satisfies ReviewResult),
+      });
+
+      // Without a local clone, PR reviews go to the shared history in the home directory
+      const { entries } = readHistory(tmpDir);
+      expect(entries).toHaveLength(1);
+      expect(entries[0].pr).toEqual({ owner: "owner", repo: "repo", number: 1, headSha: openedSha });
+    });
+  });
+
+  describe("PR push refresh", () => {
+    const openedSha = "b".repeat(40);
+    const pushedSha = "c".repeat(40);
+    const header = "diff --git a/src/index.ts b/src/index.ts\n--- a/src/index.ts\n+++ b/src/index.ts\n";
+    const openedDiff = `${header}@@ -1,2 +1,3 @@\n a\n+b\n c\n`;
+    const pushedDiff = `${header}@@ -1,2 +1,4 @@\n a\n+x\n+b\n c\n`;
+    const prMetadata = {
+      owner: "owner",
+      repo: "repo",
+      number: 1,
+      title: "Test PR",
+      author: "octocat",
+      url: "https://github.com/owner/repo/pull/1",
+      baseBranch: "main",
+      headBranch: "feature",
+      body: null,
+    };
+
+    beforeEach(() => {
+      vi.mocked(github.resolveGitHubToken).mockReturnValue("token");
+      vi.mocked(github.createGitHubClient).mockReturnValue({} as never);
+      vi.mocked(github.fetchPullRequestDiff).mockResolvedValue(pushedDiff);
+      vi.mocked(github.fetchReviewThreads).mockResolvedValue([]);
+      vi.mocked(github.normalizePr).mockImplementation((rawDiff) => {
+        const diffSet = git.parseDiff(rawDiff, "main", "feature");
+        return { diffSet, rawDiff, briefing: makePayload().briefing } as never;
+      });
+      vi.mocked(github.checkPullRequest)
+        .mockResolvedValueOnce({ modified: true, etag: "e1", pr: { ...prMetadata, headSha: pushedSha } })
+        .mockResolvedValue({ modified: false });
+    });
+
+    it("refetches the diff when commits are pushed and moves annotations with their lines", async () => {
+      handle = await startGlobalServer({ silent: true, prPollInterval: 20 });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const payload = makePayload({
+        diffSet: git.parseDiff(openedDiff, "main", "feature"),
+        rawDiff: openedDiff,
+      });
+      payload.metadata.githubPr = { ...prMetadata, headSha: openedSha };
+      const createResponse = await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload, projectPath: "github:owner/repo#1" }),
+      });
+      const { sessionId } = (await createResponse.json()) as { sessionId: string };
+      await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ file: "src/index.ts", line: 2, body: "Why b?", type: "finding", source: { agent: "test" } }),
+      });
+
+      // Connecting a client starts the watchers; with one session it views that one
+      const { WebSocket } = await import("ws");
+      const ws = new WebSocket(`ws://localhost:${handle.wsPort}`, { headers: serverAuthHeaders() });
+      const messages: Array<{ type: string; payload: unknown }> = [];
+      ws.on("message", (data) => messages.push(JSON.parse(data.toString())));
+      await new Promise<void>((resolve) => ws.on("open", () => resolve()));
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      ws.close();
+
+      const types = messages.map((m) => m.type);
+      expect(types).toContain("diff:delta");
+      expect(messages.find((m) => m.type === "annotation:updated")?.payload).toMatchObject({ line: 3 });
+
+      expect(github.checkPullRequest).toHaveBeenCalledWith({}, "owner", "repo", 1, null);
+      expect(vi.mocked(github.checkPullRequest).mock.calls.at(-1)?.[4]).toBe("e1");
+      expect(github.fetchPullRequestDiff).toHaveBeenCalledTimes(1);
+
+      const reviewResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/payload`);
+      const { payload: updated } = (await reviewResponse.json()) as { payload: ReviewInitPayload };
+      expect(updated.rawDiff).toBe(pushedDiff);
+      expect(updated.metadata.githubPr?.headSha).toBe(pushedSha);
+      expect(updated.metadata.title).toBe("Test review");
+
+      const annotationsResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/annotations`);
+      const { annotations } = (await annotationsResponse.json()) as { annotations: Annotation[] };
+      expect(annotations[0]).toMatchObject({ line: 3 });
+      expect(annotations[0].outdated).toBeUndefined();
+    });
+  });
+
+  describe("opening merge requests", () => {
+    it("opens a GitLab merge request through its provider", async () => {
+      const rawDiff = "diff --git a/src/app.ts b/src/app.ts\n--- a/src/app.ts\n+++ b/src/app.ts\n@@ -1 +1 @@\n-a\n+b\n";
+      const connection = {
+        fetchPullRequest: vi.fn().mockResolvedValue({
+          provider: "gitlab",
+          owner: "group",
+          repo: "project",
+          number: 4,
+          title: "Tidy app",
+          author: "gitlab-dev",
+          url: "https://gitlab.example.com/group/project/-/merge_requests/4",
+          baseBranch: "main",
+          headBranch: "tidy",
+          headSha: "d".repeat(40),
+          body: null,
+        }),
+        fetchDiff: vi.fn().mockResolvedValue(rawDiff),
+        submitReview: vi.fn(),
+      };
+      vi.mocked(github.findProvider).mockReturnValue({
+        kind: "gitlab",
+        name: "GitLab",
+        parseRef: () => ({
+          provider: "gitlab",
+          baseUrl: "https://gitlab.example.com",
+          owner: "group",
+          repo: "project",
+          number: 4,
+        }),
+        connect: () => connection,
+      } as never);
+      vi.mocked(github.isLocalClone).mockReturnValue(false);
+      const actualGithub = await vi.importActual<typeof import("@diffprism/github")>("@diffprism/github");
+      vi.mocked(github.normalizePr).mockImplementation(actualGithub.normalizePr);
+
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const response = await serverFetch(`${baseUrl}/api/pr/open`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prUrl: "https://gitlab.example.com/group/project/-/merge_requests/4" }),
+      });
+
+      expect(response.status).toBe(201);
+      const { sessionId, localRepoPath } = (await response.json()) as { sessionId: string; localRepoPath: null };
+      expect(localRepoPath).toBeNull();
+
+      const reviewResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}`);
+      const review = (await reviewResponse.json()) as { projectPath: string };
+      expect(review.projectPath).toBe("gitlab:group/project#4");
+
+      const payloadResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/payload`);
+      const { payload } = (await payloadResponse.json()) as { payload: ReviewInitPayload };
+      expect(payload.diffSet.files.map((f) => f.path)).toEqual(["src/app.ts"]);
+      expect(payload.metadata.githubPr).toMatchObject({ provider: "gitlab", number: 4 });
+      expect(payload.githubThreads).toEqual([]);
+
+      // GitHub-only features refuse GitLab sessions instead of calling GitHub
+      const modeResponse = await serverFetch(`${baseUrl}/api/reviews/${sessionId}/pr-diff`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode: "full" }),
+      });
+      expect(modeResponse.status).toBe(400);
+    });
+
+    it("rejects references no provider understands", async () => {
+      vi.mocked(github.findProvider).mockReturnValue(null);
+      handle = await startGlobalServer({ silent: true });
+
+      const response = await serverFetch(`http://localhost:${handle.httpPort}/api/pr/open`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prUrl: "main..feature" }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("local clones and PR worktrees", () => {
+    const mrUrl = "https://gitlab.example.com/group/project/-/merge_requests/4";
+
+    function mockMergeRequest() {
+      const rawDiff = "diff --git a/src/app.ts b/src/app.ts\n--- a/src/app.ts\n+++ b/src/app.ts\n@@ -1 +1 @@\n-a\n+b\n";
+      const ref = { provider: "gitlab", baseUrl: "https://gitlab.example.com", owner: "group", repo: "project", number: 4 };
+      vi.mocked(github.findProvider).mockReturnValue({
+        kind: "gitlab",
+        name: "GitLab",
+        parseRef: () => ref,
+        connect: () => ({
+          fetchPullRequest: vi.fn().mockResolvedValue({
+            provider: "gitlab",
+            owner: "group",
+            repo: "project",
+            number: 4,
+            title: "Tidy app",
+            author: "gitlab-dev",
+            url: mrUrl,
+            baseBranch: "main",
+            headBranch: "tidy",
+            headSha: "d".repeat(40),
+            body: null,
+          }),
+          fetchDiff: vi.fn().mockResolvedValue(rawDiff),
+          submitReview: vi.fn(),
+        }),
+        gitSource: () => ({ url: "https://gitlab.example.com/group/project.git", headRef: "refs/merge-requests/4/head" }),
+      } as never);
+      vi.mocked(github.isLocalClone).mockReturnValue(false);
+    }
+
+    beforeEach(async () => {
+      const actualGithub = await vi.importActual<typeof import("@diffprism/github")>("@diffprism/github");
+      vi.mocked(github.normalizePr).mockImplementation(actualGithub.normalizePr);
+      vi.mocked(prWorktree.checkoutPrWorktree).mockImplementation(async (sessionId, repoName) =>
+        path.join(prWorktree.getWorktreesDir(), sessionId, repoName),
+      );
+    });
+
+    afterEach(() => {
+      vi.mocked(git.runGit).mockReset().mockReturnValue("");
+    });
+
+    async function openPr(body: Record<string, unknown>) {
+      const response = await serverFetch(`http://localhost:${handle!.httpPort}/api/pr/open`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prUrl: mrUrl, ...body }),
+      });
+      return { status: response.status, data: (await response.json()) as Record<string, unknown> };
+    }
+
+    it("registers the repositories agents review as local clones", async () => {
+      vi.mocked(git.runGit).mockImplementation((args) => (args[0] === "rev-parse" ? "/srv/app\n" : ""));
+      handle = await startGlobalServer({ silent: true });
+
+      for (const projectPath of ["/srv/app", "/srv/app/packages/core"]) {
+        await serverFetch(`http://localhost:${handle.httpPort}/api/reviews`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ payload: makePayload(), projectPath }),
+        });
+      }
+
+      expect(readRepoRegistry()).toEqual(["/srv/app"]);
+    });
+
+    it("does not register projects outside a git repository", async () => {
+      vi.mocked(git.runGit).mockImplementation(() => {
+        throw new Error("not a git repository");
+      });
+      handle = await startGlobalServer({ silent: true });
+
+      await serverFetch(`http://localhost:${handle.httpPort}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload: makePayload(), projectPath: "/srv/notes" }),
+      });
+
+      expect(readRepoRegistry()).toEqual([]);
+    });
+
+    it("matches PRs against every registered clone", async () => {
+      registerRepo("/srv/project");
+      mockMergeRequest();
+      vi.mocked(github.isLocalClone).mockImplementation((_provider, _ref, dir) => dir === "/srv/project");
+      handle = await startGlobalServer({ silent: true });
+
+      const { status, data } = await openPr({ checkout: true });
+
+      expect(status).toBe(201);
+      expect(data).toMatchObject({ localRepoPath: "/srv/project", worktreePath: null });
+      expect(prWorktree.checkoutPrWorktree).not.toHaveBeenCalled();
+    });
+
+    it("checks unmatched PRs out into a worktree removed with the session", async () => {
+      mockMergeRequest();
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const { status, data } = await openPr({ checkout: true });
+
+      expect(status).toBe(201);
+      const worktreePath = path.join(prWorktree.getWorktreesDir(), data.sessionId as string, "project");
+      expect(data.worktreePath).toBe(worktreePath);
+      expect(prWorktree.checkoutPrWorktree).toHaveBeenCalledWith(data.sessionId, "project", {
+        url: "https://gitlab.example.com/group/project.git",
+        headRef: "refs/merge-requests/4/head",
+        baseBranch: "main",
+      });
+
+      const reviewResponse = await serverFetch(`${baseUrl}/api/reviews/${data.sessionId}`);
+      expect(((await reviewResponse.json()) as { projectPath: string }).projectPath).toBe(worktreePath);
+
+      await serverFetch(`${baseUrl}/api/reviews/${data.sessionId}`, { method: "DELETE" });
+      expect(prWorktree.removePrWorktree).toHaveBeenCalledWith(worktreePath);
+    });
+
+    it("removes the worktree when the session is closed from the UI", async () => {
+      mockMergeRequest();
+      handle = await startGlobalServer({ silent: true });
+      const { data } = await openPr({ checkout: true });
+
+      const { WebSocket } = await import("ws");
+      const ws = new WebSocket(`ws://localhost:${handle.wsPort}`, { headers: serverAuthHeaders() });
+      await new Promise<void>((resolve) => ws.on("open", () => resolve()));
+      ws.send(JSON.stringify({ type: "session:close", payload: { sessionId: data.sessionId } }));
+
+      await vi.waitFor(() => {
+        expect(prWorktree.removePrWorktree).toHaveBeenCalledWith(data.worktreePath);
+      });
+      ws.close();
+    });
+
+    it("refuses to run a checked-out PR's verification commands", async () => {
+      mockMergeRequest();
+      handle = await startGlobalServer({ silent: true });
+      const { data } = await openPr({ checkout: true });
+
+      const response = await serverFetch(`http://localhost:${handle.httpPort}/api/reviews/${data.sessionId}/verify`, {
+        method: "POST",
+      });
+
+      expect(response.status).toBe(400);
+      const verification = await serverFetch(`http://localhost:${handle.httpPort}/api/reviews/${data.sessionId}/verification`);
+      expect(((await verification.json()) as { verification: unknown }).verification).toBeNull();
+    });
+
+    it("keeps the session when the checkout fails", async () => {
+      mockMergeRequest();
+      vi.mocked(prWorktree.checkoutPrWorktree).mockRejectedValue(new Error("git fetch failed: not found"));
+      handle = await startGlobalServer({ silent: true });
+
+      const { status, data } = await openPr({ checkout: true });
+
+      expect(status).toBe(201);
+      expect(data).toMatchObject({ worktreePath: null, checkoutError: "git fetch failed: not found" });
+    });
+
+    it("checks an open PR session out on request", async () => {
+      mockMergeRequest();
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      const { data } = await openPr({});
+      expect(prWorktree.checkoutPrWorktree).not.toHaveBeenCalled();
+
+      const response = await serverFetch(`${baseUrl}/api/reviews/${data.sessionId}/checkout`, { method: "POST" });
+      expect(response.status).toBe(200);
+      const { worktreePath } = (await response.json()) as { worktreePath: string };
+      expect(worktreePath).toBe(path.join(prWorktree.getWorktreesDir(), data.sessionId as string, "project"));
+
+      const again = await serverFetch(`${baseUrl}/api/reviews/${data.sessionId}/checkout`, { method: "POST" });
+      expect(again.status).toBe(409);
+    });
+  });
+
+  describe("repository registry", () => {
+    afterEach(() => {
+      vi.mocked(git.runGit).mockReset().mockReturnValue("");
+    });
+
+    it("adds, lists and removes clones", async () => {
+      vi.mocked(git.runGit).mockImplementation((args) => (args[0] === "rev-parse" ? "/srv/app\n" : ""));
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+
+      const added = await serverFetch(`${baseUrl}/api/repos`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ path: "/srv/app/src" }),
+      });
+      expect(added.status).toBe(201);
+      expect(await added.json()).toEqual({ path: "/srv/app", added: true });
+
+      const listed = await serverFetch(`${baseUrl}/api/repos`);
+      expect(await listed.json()).toEqual({ repos: [{ path: "/srv/app", exists: false }] });
+
+      const removed = await serverFetch(`${baseUrl}/api/repos?path=${encodeURIComponent("/srv/app")}`, {
+        method: "DELETE",
+      });
+      expect(removed.status).toBe(200);
+      expect(readRepoRegistry()).toEqual([]);
+
+      const missing = await serverFetch(`${baseUrl}/api/repos?path=${encodeURIComponent("/srv/app")}`, {
+        method: "DELETE",
+      });
+      expect(missing.status).toBe(404);
+    });
+
+    it("rejects paths outside a git repository", async () => {
+      vi.mocked(git.runGit).mockImplementation(() => {
+        throw new Error("not a git repository");
+      });
+      handle = await startGlobalServer({ silent: true });
+
+      const response = await serverFetch(`http://localhost:${handle.httpPort}/api/repos`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ path: "/srv/notes" }),
+      });
+
+      expect(response.status).toBe(400);
+      expect(readRepoRegistry()).toEqual([]);
+    });
+  });
+
+  describe("review inbox", () => {
+    it("loads the inbox for the server cwd, the caller's cwd and open projects", async () => {
+      const entry = {
+        owner: "owner",
+        repo: "repo",
+        number: 3,
+        title: "Add cache",
+        author: "octocat",
+        url: "https://github.com/owner/repo/pull/3",
+        draft: false,
+        reasons: ["review_requested"],
+        ci: "success",
+        additions: 4,
+        deletions: 1,
+        changedFiles: 2,
+        createdAt: "2026-10-01T00:00:00Z",
+        updatedAt: "2026-10-02T00:00:00Z",
+      };
+      vi.mocked(github.findLocalRepos).mockReturnValue([{ owner: "owner", repo: "repo" }]);
+      vi.mocked(github.loadReviewInbox).mockResolvedValue({ entries: [entry] as never, errors: [] });
+
+      handle = await startGlobalServer({ silent: true });
+      const baseUrl = `http://localhost:${handle.httpPort}`;
+      await serverFetch(`${baseUrl}/api/reviews`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload: makePayload(), projectPath: "/tmp/project" }),
+      });
+
+      const response = await serverFetch(`${baseUrl}/api/inbox?cwd=${encodeURIComponent("/tmp/other")}`);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ entries: [entry], errors: [] });
+      expect(github.findLocalRepos).toHaveBeenCalledWith([process.cwd(), "/tmp/other", "/tmp/project"]);
+      expect(github.loadReviewInbox).toHaveBeenCalledWith({ repos: [{ owner: "owner", repo: "repo" }] });
+    });
+  });
 });
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { DiffSet, PostReviewActionRun } from "../types.js";
+
+vi.mock("@diffprism/git", () => ({
+  commitChanges: vi.fn(),
+  getCurrentBranch: vi.fn(),
+  getRemoteUrl: vi.fn(),
+  pushBranch: vi.fn(),
+}));
+
+vi.mock("@diffprism/github", () => ({
+  resolveGitHubToken: vi.fn(),
+  resolveGitHubApiUrl: vi.fn(),
+  createGitHubClient: vi.fn(),
+  createPullRequest: vi.fn(),
+  parseGitHubRemote: vi.fn(),
+  knownGitHubHosts: vi.fn(),
+}));
+
+const { executePostReviewAction, buildCommitMessage } = await import("../post-review-action.js");
+const git = await import("@diffprism/git");
+const github = await import("@diffprism/github");
+
+const diffSet: DiffSet = {
+  baseRef: "HEAD",
+  headRef: "working tree",
+  files: [
+    {
+      path: "src/new-name.ts",
+      oldPath: "src/old-name.ts",
+      status: "renamed",
+      hunks: [],
+      language: "typescript",
+      binary: false,
+      additions: 1,
+      deletions: 1,
+    },
+    {
+      path: "src/index.ts",
+      status: "modified",
+      hunks: [],
+      language: "typescript",
+      binary: false,
+      additions: 2,
+      deletions: 0,
+    },
+  ],
+};
+
+describe("buildCommitMessage", () => {
+  it("uses the title as subject and the summary as body", () => {
+    expect(buildCommitMessage("Add caching", "  Reviewed and approved.  ")).toBe(
+      "Add caching\n\nReviewed and approved.\n",
+    );
+  });
+
+  it("falls back to a default subject and omits an empty body", () => {
+    expect(buildCommitMessage(undefined, "  ")).toBe("Apply reviewed changes\n");
+  });
+});
+
+describe("executePostReviewAction", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(git.commitChanges).mockResolvedValue("abc123");
+    vi.mocked(git.getCurrentBranch).mockReturnValue("feature");
+    vi.mocked(git.getRemoteUrl).mockReturnValue("git@github.com:owner/repo.git");
+    vi.mocked(github.parseGitHubRemote).mockReturnValue({ owner: "owner", repo: "repo" });
+    vi.mocked(github.resolveGitHubToken).mockReturnValue("token");
+    vi.mocked(github.knownGitHubHosts).mockReturnValue(["github.com"]);
+    vi.mocked(github.createPullRequest).mockResolvedValue({
+      number: 12,
+      url: "https://github.com/owner/repo/pull/12",
+    });
+  });
+
+  it("stages the reviewed paths, including rename sources, before committing", async () => {
+    const run = await executePostReviewAction({
+      cwd: "/repo",
+      action: "commit",
+      diffRef: "working-copy",
+      diffSet,
+      title: "Add caching",
+    });
+
+    expect(run).toMatchObject({ status: "succeeded", commitSha: "abc123" });
+    expect(git.commitChanges).toHaveBeenCalledWith("Add caching\n", {
+      cwd: "/repo",
+      paths: ["src/new-name.ts", "src/old-name.ts", "src/index.ts"],
+    });
+    expect(git.pushBranch).not.toHaveBeenCalled();
+  });
+
+  it("pushes the branch and opens a PR with the summary as body", async () => {
+    const updates: PostReviewActionRun[] = [];
+
+    const run = await executePostReviewAction({
+      cwd: "/repo",
+      action: "commit_and_pr",
+      diffRef: "staged",
+      diffSet,
+      title: "Add caching",
+      summary: "Looks good",
+      onUpdate: (r) => updates.push(r),
+    });
+
+    expect(run).toMatchObject({
+      status: "succeeded",
+      commitSha: "abc123",
+      branch: "feature",
+      pullRequest: { number: 12, url: "https://github.com/owner/repo/pull/12" },
+    });
+    expect(git.commitChanges).toHaveBeenCalledWith("Add caching\n\nLooks good\n", {
+      cwd: "/repo",
+      paths: undefined,
+    });
+    expect(git.pushBranch).toHaveBeenCalledWith("feature", { cwd: "/repo" });
+    expect(github.createPullRequest).toHaveBeenCalledWith(undefined, "owner", "repo", {
+      title: "Add caching",
+      body: "Looks good",
+      head: "feature",
+    });
+    expect(updates.map((u) => u.status)).toEqual(["running", "succeeded"]);
+  });
+
+  it("opens the PR on the GitHub Enterprise host the origin remote points at", async () => {
+    vi.mocked(git.getRemoteUrl).mockReturnValue("git@github.example.com:owner/repo.git");
+    vi.mocked(github.knownGitHubHosts).mockReturnValue(["github.com", "github.example.com"]);
+    vi.mocked(github.parseGitHubRemote).mockReturnValue({ host: "github.example.com", owner: "owner", repo: "repo" });
+    vi.mocked(github.resolveGitHubApiUrl).mockReturnValue("https://github.example.com/api/v3");
+
+    const run = await executePostReviewAction({
+      cwd: "/repo",
+      action: "commit_and_pr",
+      diffRef: "main..feature",
+      diffSet,
+    });
+
+    expect(run.status).toBe("succeeded");
+    expect(github.parseGitHubRemote).toHaveBeenCalledWith("git@github.example.com:owner/repo.git", [
+      "github.com",
+      "github.example.com",
+    ]);
+    expect(github.resolveGitHubToken).toHaveBeenCalledWith("github.example.com");
+    expect(github.createGitHubClient).toHaveBeenCalledWith("token", "https://github.example.com/api/v3");
+  });
+
+  it("skips the commit for already-committed refs and only opens the PR", async () => {
+    const run = await executePostReviewAction({
+      cwd: "/repo",
+      action: "commit_and_pr",
+      diffRef: "main..feature",
+      diffSet,
+    });
+
+    expect(run.status).toBe("succeeded");
+    expect(run.commitSha).toBeUndefined();
+    expect(git.commitChanges).not.toHaveBeenCalled();
+    expect(github.createPullRequest).toHaveBeenCalled();
+  });
+
+  it("reports failures instead of throwing", async () => {
+    vi.mocked(github.resolveGitHubToken).mockImplementation(() => {
+      throw new Error("GitHub token not found");
+    });
+
+    const run = await executePostReviewAction({
+      cwd: "/repo",
+      action: "commit_and_pr",
+      diffRef: "staged",
+      diffSet,
+    });
+
+    expect(run).toMatchObject({
+      status: "failed",
+      commitSha: "abc123",
+      error: "GitHub token not found",
+    });
+    expect(git.pushBranch).not.toHaveBeenCalled();
+  });
+
+  it("reports a rejected push without opening a PR", async () => {
+    vi.mocked(git.pushBranch).mockRejectedValueOnce(
+      new Error("git push failed: could not read Username for 'https://github.com': terminal prompts disabled"),
+    );
+
+    const run = await executePostReviewAction({
+      cwd: "/repo",
+      action: "commit_and_pr",
+      diffRef: "staged",
+      diffSet,
+    });
+
+    expect(run).toMatchObject({ status: "failed", commitSha: "abc123" });
+    expect(run.error).toContain("terminal prompts disabled");
+    expect(github.createPullRequest).not.toHaveBeenCalled();
+  });
+
+  it("fails a plain commit when the reviewed ref is already committed", async () => {
+    const run = await executePostReviewAction({
+      cwd: "/repo",
+      action: "commit",
+      diffRef: "HEAD~1..HEAD",
+      diffSet,
+    });
+
+    expect(run).toMatchObject({
+      status: "failed",
+      error: "Nothing to commit: HEAD~1..HEAD is already committed",
+    });
+  });
+});
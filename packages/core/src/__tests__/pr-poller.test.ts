@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { PrMetadata } from "@diffprism/github";
+import { createPrPoller } from "../pr-poller.js";
+
+function makePr(headSha: string): PrMetadata {
+  return {
+    owner: "owner",
+    repo: "repo",
+    number: 1,
+    title: "Add feature",
+    author: "octocat",
+    url: "https://github.com/owner/repo/pull/1",
+    baseBranch: "main",
+    headBranch: "feature",
+    headSha,
+    body: null,
+  };
+}
+
+describe("createPrPoller", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports only when the head commit moves, sending the last ETag", async () => {
+    const checkPr = vi
+      .fn()
+      .mockResolvedValueOnce({ modified: true, etag: "e1", pr: makePr("aaa") })
+      .mockResolvedValueOnce({ modified: false })
+      .mockResolvedValueOnce({ modified: true, etag: "e2", pr: makePr("bbb") });
+    const onHeadChanged = vi.fn().mockResolvedValue(undefined);
+
+    const poller = createPrPoller({ pollInterval: 1000, headSha: "aaa", checkPr, onHeadChanged });
+    poller.start();
+
+    await vi.advanceTimersByTimeAsync(3000);
+    poller.stop();
+
+    expect(checkPr.mock.calls.map(([etag]) => etag)).toEqual([null, "e1", "e1"]);
+    expect(onHeadChanged).toHaveBeenCalledTimes(1);
+    expect(onHeadChanged.mock.calls[0][0].headSha).toBe("bbb");
+  });
+
+  it("retries a push whose refresh failed", async () => {
+    const checkPr = vi.fn().mockResolvedValue({ modified: true, etag: "e1", pr: makePr("bbb") });
+    const onHeadChanged = vi.fn().mockRejectedValueOnce(new Error("diff fetch failed")).mockResolvedValue(undefined);
+    const onError = vi.fn();
+
+    const poller = createPrPoller({ pollInterval: 1000, headSha: "aaa", checkPr, onHeadChanged, onError });
+    poller.start();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await vi.advanceTimersByTimeAsync(1000);
+    poller.stop();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    // The failed attempt did not record the ETag, so the retry refetched
+    expect(checkPr.mock.calls.map(([etag]) => etag)).toEqual([null, null, "e1"]);
+    expect(onHeadChanged).toHaveBeenCalledTimes(2);
+  });
+
+  it("checks right away when asked to", async () => {
+    const checkPr = vi.fn().mockResolvedValue({ modified: false });
+
+    const poller = createPrPoller({
+      pollInterval: 60_000,
+      checkPr,
+      onHeadChanged: vi.fn(),
+      immediate: true,
+    });
+    poller.start();
+    await vi.advanceTimersByTimeAsync(0);
+    poller.stop();
+
+    expect(checkPr).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops checking once stopped", async () => {
+    const checkPr = vi.fn().mockResolvedValue({ modified: false });
+
+    const poller = createPrPoller({ pollInterval: 1000, checkPr, onHeadChanged: vi.fn() });
+    poller.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    poller.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(checkPr).toHaveBeenCalledTimes(1);
+  });
+});
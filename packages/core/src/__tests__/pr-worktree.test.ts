@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { pathToFileURL } from "node:url";
+import {
+  checkoutPrWorktree,
+  getWorktreesDir,
+  removePrWorktree,
+  updatePrWorktree,
+} from "../pr-worktree.js";
+import type { PrGitSource } from "../pr-worktree.js";
+
+let tmpDir: string;
+let upstream: string;
+let source: PrGitSource;
+
+function git(...args: string[]): string {
+  return execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+    cwd: upstream,
+    encoding: "utf-8",
+  });
+}
+
+function commitFile(content: string): string {
+  fs.writeFileSync(path.join(upstream, "app.ts"), content);
+  git("add", "app.ts");
+  git("commit", "-q", "-m", content);
+  return git("rev-parse", "HEAD").trim();
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "diffprism-test-"));
+  vi.spyOn(os, "homedir").mockReturnValue(path.join(tmpDir, "home"));
+
+  // A stand-in code host: the PR head lives under refs/pull/7/head only
+  upstream = path.join(tmpDir, "upstream");
+  fs.mkdirSync(upstream);
+  git("init", "-q", "-b", "main");
+  commitFile("base\n");
+  git("checkout", "-q", "-b", "feature");
+  git("update-ref", "refs/pull/7/head", commitFile("pr v1\n"));
+  git("checkout", "-q", "main");
+
+  source = { url: pathToFileURL(upstream).href, headRef: "refs/pull/7/head", baseBranch: "main" };
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("checkoutPrWorktree", () => {
+  it("checks the PR head out into a session worktree under ~/.diffprism/worktrees", async () => {
+    const worktreePath = await checkoutPrWorktree("session-1", "repo", source);
+
+    expect(worktreePath).toBe(path.join(getWorktreesDir(), "session-1", "repo"));
+    expect(fs.readFileSync(path.join(worktreePath, "app.ts"), "utf-8")).toBe("pr v1\n");
+    // The base branch is fetched too, for compare and refs
+    const base = execFileSync("git", ["rev-parse", "origin/main"], { cwd: worktreePath, encoding: "utf-8" });
+    expect(base.trim()).toBe(git("rev-parse", "main").trim());
+  });
+
+  it("moves the worktree to a newly pushed head", async () => {
+    const worktreePath = await checkoutPrWorktree("session-1", "repo", source);
+
+    git("checkout", "-q", "feature");
+    git("update-ref", "refs/pull/7/head", commitFile("pr v2\n"));
+    await updatePrWorktree(worktreePath, source);
+
+    expect(fs.readFileSync(path.join(worktreePath, "app.ts"), "utf-8")).toBe("pr v2\n");
+  });
+
+  it("rejects PRs the host does not have", async () => {
+    await expect(
+      checkoutPrWorktree("session-1", "repo", { ...source, headRef: "refs/pull/99/head" }),
+    ).rejects.toThrow();
+  });
+});
+
+describe("removePrWorktree", () => {
+  it("removes the worktree and its session directory", async () => {
+    const worktreePath = await checkoutPrWorktree("session-1", "repo", source);
+
+    removePrWorktree(worktreePath);
+
+    expect(fs.existsSync(path.dirname(worktreePath))).toBe(false);
+    const repoDir = path.join(getWorktreesDir(), ".repos");
+    expect(fs.existsSync(repoDir)).toBe(true);
+  });
+
+  it("ignores paths outside the worktrees directory", () => {
+    const outside = path.join(tmpDir, "project", "repo");
+    fs.mkdirSync(outside, { recursive: true });
+
+    removePrWorktree(outside);
+
+    expect(fs.existsSync(outside)).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import {
+  findRepoRoot,
+  getRepoRegistryPath,
+  readRepoRegistry,
+  registerRepo,
+  unregisterRepo,
+} from "../repo-registry.js";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "diffprism-test-")));
+  vi.spyOn(os, "homedir").mockReturnValue(path.join(tmpDir, "home"));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("repo registry", () => {
+  it("returns an empty list without a registry file", () => {
+    expect(readRepoRegistry()).toEqual([]);
+  });
+
+  it("returns an empty list for a corrupt registry file", () => {
+    fs.mkdirSync(path.dirname(getRepoRegistryPath()), { recursive: true });
+    fs.writeFileSync(getRepoRegistryPath(), "{not json");
+
+    expect(readRepoRegistry()).toEqual([]);
+  });
+
+  it("registers each clone once", () => {
+    expect(registerRepo("/srv/app")).toBe(true);
+    expect(registerRepo("/srv/app/")).toBe(false);
+    expect(registerRepo("/srv/api")).toBe(true);
+
+    expect(readRepoRegistry()).toEqual(["/srv/app", "/srv/api"]);
+  });
+
+  it("unregisters clones", () => {
+    registerRepo("/srv/app");
+    registerRepo("/srv/api");
+
+    expect(unregisterRepo("/srv/app")).toBe(true);
+    expect(unregisterRepo("/srv/app")).toBe(false);
+    expect(readRepoRegistry()).toEqual(["/srv/api"]);
+  });
+});
+
+describe("findRepoRoot", () => {
+  it("resolves the top level of the checkout", () => {
+    const repo = path.join(tmpDir, "repo");
+    fs.mkdirSync(path.join(repo, "src"), { recursive: true });
+    execFileSync("git", ["init", "-q"], { cwd: repo });
+
+    expect(findRepoRoot(path.join(repo, "src"))).toBe(repo);
+  });
+
+  it("returns null outside a git repository", () => {
+    expect(findRepoRoot(path.join(tmpDir, "missing"))).toBeNull();
+  });
+});
@@ -9,6 +9,8 @@ import {
   getHistoryStats,
   getHistoryPath,
   generateEntryId,
+  resolveHistoryDir,
+  findLastPrReview,
 } from "../review-history.js";
 import type { ReviewHistoryEntry } from "../review-history.js";
 
@@ -174,6 +176,46 @@ describe("review-history", () => {
     });
   });
 
+  describe("resolveHistoryDir", () => {
+    it("keeps local project paths and sends remote PR paths to the home directory", () => {
+      expect(resolveHistoryDir("/some/project")).toBe("/some/project");
+      expect(resolveHistoryDir("github:owner/repo#1")).toBe(os.homedir());
+      expect(resolveHistoryDir("gitlab:group/project#1")).toBe(os.homedir());
+    });
+  });
+
+  describe("findLastPrReview", () => {
+    const pr = { owner: "owner", repo: "repo", number: 7 };
+
+    it("returns the latest review of the PR", () => {
+      appendHistory(tmpDir, makeEntry({ timestamp: 1000, pr: { ...pr, headSha: "aaa" } }));
+      appendHistory(tmpDir, makeEntry({ timestamp: 2000, pr: { ...pr, headSha: "bbb" } }));
+      appendHistory(tmpDir, makeEntry({ timestamp: 3000, pr: { ...pr, number: 8, headSha: "ccc" } }));
+      appendHistory(tmpDir, makeEntry({ timestamp: 4000 }));
+
+      expect(findLastPrReview(tmpDir, pr)?.pr?.headSha).toBe("bbb");
+    });
+
+    it("skips dismissed reviews", () => {
+      appendHistory(tmpDir, makeEntry({ timestamp: 1000, pr: { ...pr, headSha: "aaa" } }));
+      appendHistory(tmpDir, makeEntry({ timestamp: 2000, decision: "dismissed", pr: { ...pr, headSha: "bbb" } }));
+
+      expect(findLastPrReview(tmpDir, pr)?.pr?.headSha).toBe("aaa");
+    });
+
+    it("tells apart PRs with the same number on different hosts", () => {
+      appendHistory(tmpDir, makeEntry({ timestamp: 1000, pr: { ...pr, headSha: "aaa" } }));
+      appendHistory(tmpDir, makeEntry({ timestamp: 2000, pr: { ...pr, host: "github.example.com", headSha: "bbb" } }));
+
+      expect(findLastPrReview(tmpDir, pr)?.pr?.headSha).toBe("aaa");
+      expect(findLastPrReview(tmpDir, { ...pr, host: "github.example.com" })?.pr?.headSha).toBe("bbb");
+    });
+
+    it("returns null for a PR that was never reviewed", () => {
+      expect(findLastPrReview(tmpDir, pr)).toBeNull();
+    });
+  });
+
   describe("getHistoryStats", () => {
     it("returns zeros for empty history", () => {
       const stats = getHistoryStats(tmpDir);
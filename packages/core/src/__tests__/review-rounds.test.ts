@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@diffprism/git", () => ({
+  snapshotDiffTree: vi.fn(),
+  getTreeDiffAsync: vi.fn(),
+}));
+
+import { snapshotDiffTree, getTreeDiffAsync } from "@diffprism/git";
+import { carryForwardComments, computeInterdiff } from "../review-rounds.js";
+import type { DiffFile, DiffSet, Hunk, ReviewComment, ReviewRound } from "../types.js";
+
+function makeFile(path: string, hunks: Hunk[] = [], overrides: Partial<DiffFile> = {}): DiffFile {
+  return {
+    path,
+    status: "modified",
+    hunks,
+    language: "typescript",
+    binary: false,
+    additions: 1,
+    deletions: 1,
+    ...overrides,
+  };
+}
+
+function makeDiffSet(files: DiffFile[]): DiffSet {
+  return { baseRef: "round 1", headRef: "current", files };
+}
+
+function makeComment(overrides: Partial<ReviewComment> = {}): ReviewComment {
+  return { file: "unstaged:src/a.ts", line: 10, body: "Fix this", type: "must_fix", ...overrides };
+}
+
+function makeRound(comments: ReviewComment[], overrides: Partial<ReviewRound> = {}): ReviewRound {
+  return {
+    number: 1,
+    submittedAt: 1,
+    diffSet: makeDiffSet([makeFile("src/a.ts")]),
+    rawDiff: "diff --git a/src/a.ts b/src/a.ts\n",
+    comments,
+    ...overrides,
+  };
+}
+
+// Replaces line 20 of the old file
+const hunkAtLine20: Hunk = {
+  oldStart: 19,
+  oldLines: 3,
+  newStart: 19,
+  newLines: 3,
+  changes: [
+    { type: "context", lineNumber: 19, content: "a" },
+    { type: "delete", lineNumber: 20, content: "b" },
+    { type: "add", lineNumber: 20, content: "B" },
+    { type: "context", lineNumber: 21, content: "c" },
+  ],
+};
+
+describe("carryForwardComments", () => {
+  it("marks comments on changed lines addressed and the rest outstanding", () => {
+    const round = makeRound([
+      makeComment({ id: "on", line: 20 }),
+      makeComment({ id: "range", startLine: 18, line: 22 }),
+      makeComment({ id: "near", line: 19 }),
+      makeComment({ id: "other-file", file: "src/b.ts", line: 20 }),
+    ]);
+    const interdiff = makeDiffSet([makeFile("src/a.ts", [hunkAtLine20])]);
+
+    const states = carryForwardComments(round, interdiff, true).map((c) => [c.id, c.state]);
+
+    expect(states).toEqual([
+      ["on", "addressed"],
+      ["range", "addressed"],
+      ["near", "outstanding"],
+      ["other-file", "outstanding"],
+    ]);
+  });
+
+  it("counts any change to the file in a file-level interdiff", () => {
+    const round = makeRound([makeComment({ line: 1 })]);
+    const interdiff = makeDiffSet([makeFile("src/a.ts", [hunkAtLine20])]);
+
+    expect(carryForwardComments(round, interdiff, false)[0].state).toBe("addressed");
+  });
+
+  it("treats deleted files as addressed", () => {
+    const round = makeRound([makeComment({ line: 1 })]);
+    const interdiff = makeDiffSet([makeFile("src/a.ts", [], { status: "deleted" })]);
+
+    expect(carryForwardComments(round, interdiff, true)[0]).toMatchObject({ round: 1, state: "addressed" });
+  });
+});
+
+describe("computeInterdiff", () => {
+  it("diffs snapshots when the round has one", async () => {
+    vi.mocked(snapshotDiffTree).mockResolvedValue("b".repeat(40));
+    vi.mocked(getTreeDiffAsync).mockResolvedValue({
+      diffSet: makeDiffSet([makeFile("src/a.ts", [hunkAtLine20])]),
+      rawDiff: "diff --git a/src/a.ts b/src/a.ts\n",
+    });
+    const round = makeRound([makeComment({ line: 20 })], { snapshot: "a".repeat(40) });
+
+    const interdiff = await computeInterdiff(
+      round,
+      { diffSet: round.diffSet, rawDiff: round.rawDiff },
+      { cwd: "/repo", diffRef: "working-copy" },
+    );
+
+    expect(getTreeDiffAsync).toHaveBeenCalledWith("a".repeat(40), "b".repeat(40), { cwd: "/repo" });
+    expect(interdiff.exact).toBe(true);
+    expect(interdiff.diffSet.baseRef).toBe("round 1");
+    expect(interdiff.comments[0].state).toBe("addressed");
+  });
+
+  it("falls back to changed files when there is no snapshot", async () => {
+    const round = makeRound([makeComment({ file: "src/gone.ts" })], {
+      diffSet: makeDiffSet([makeFile("src/a.ts"), makeFile("src/gone.ts")]),
+      rawDiff: "diff --git a/src/a.ts b/src/a.ts\ndiff --git a/src/gone.ts b/src/gone.ts\n",
+    });
+    const current = {
+      diffSet: makeDiffSet([makeFile("src/a.ts"), makeFile("src/new.ts")]),
+      rawDiff: "diff --git a/src/a.ts b/src/a.ts\ndiff --git a/src/new.ts b/src/new.ts\n",
+    };
+
+    const interdiff = await computeInterdiff(round, current);
+
+    expect(interdiff.exact).toBe(false);
+    expect(interdiff.diffSet.files.map((f) => f.path)).toEqual(["src/new.ts"]);
+    expect(interdiff.rawDiff).toBe("diff --git a/src/new.ts b/src/new.ts\n");
+    expect(interdiff.comments[0].state).toBe("addressed");
+  });
+});
@@ -5,6 +5,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 const mockIsServerAlive = vi.fn();
 vi.mock("../server-file.js", () => ({
   isServerAlive: (...args: unknown[]) => mockIsServerAlive(...args),
+  serverFetch: (...args: unknown[]) => mockFetch(...args),
 }));
 
 const mockSpawn = vi.fn();
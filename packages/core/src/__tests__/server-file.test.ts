@@ -6,6 +6,7 @@ import {
   writeServerFile,
   readServerFile,
   removeServerFile,
+  getServerToken,
 } from "../server-file.js";
 import type { GlobalServerInfo } from "../types.js";
 
@@ -115,4 +116,15 @@ describe("server-file", () => {
       expect(() => removeServerFile()).not.toThrow();
     });
   });
+
+  describe("getServerToken", () => {
+    it("creates a private token once and reuses it", () => {
+      const token = getServerToken();
+      const tokenPath = path.join(tmpDir, ".diffprism", "server-token");
+
+      expect(token).toMatch(/^[0-9a-f]{64}$/);
+      expect(fs.statSync(tokenPath).mode & 0o777).toBe(0o600);
+      expect(getServerToken()).toBe(token);
+    });
+  });
 });
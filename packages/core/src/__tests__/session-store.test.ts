@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import {
+  readSessionStore,
+  writeSessionStore,
+  getSessionStorePath,
+} from "../session-store.js";
+import type { PersistedSession } from "../session-store.js";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "diffprism-test-"));
+  vi.spyOn(os, "homedir").mockReturnValue(tmpDir);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function makeSession(id: string): PersistedSession {
+  return {
+    id,
+    payload: {
+      reviewId: id,
+      diffSet: { baseRef: "HEAD", headRef: "working-copy", files: [] },
+      rawDiff: "",
+      briefing: {
+        summary: "",
+        triage: { critical: [], notable: [], mechanical: [] },
+        impact: {
+          affectedModules: [],
+          affectedTests: [],
+          publicApiChanges: false,
+          breakingChanges: [],
+          newDependencies: [],
+        },
+        verification: { testsPass: null, typeCheck: null, lintClean: null },
+        fileStats: [],
+      },
+      metadata: {},
+    },
+    projectPath: "/test/project",
+    source: "agent",
+    status: "pending",
+    result: null,
+    createdAt: 1000,
+    hasNewChanges: false,
+    annotations: [],
+    comments: [],
+  };
+}
+
+describe("session-store", () => {
+  it("stores sessions under ~/.diffprism", () => {
+    expect(getSessionStorePath()).toBe(path.join(tmpDir, ".diffprism", "sessions.json"));
+  });
+
+  it("returns an empty list when the store does not exist", () => {
+    expect(readSessionStore()).toEqual([]);
+  });
+
+  it("round-trips sessions", () => {
+    const sessions = [makeSession("session-a"), makeSession("session-b")];
+    writeSessionStore(sessions);
+
+    expect(readSessionStore()).toEqual(sessions);
+  });
+
+  it("replaces previously stored sessions", () => {
+    writeSessionStore([makeSession("session-a")]);
+    writeSessionStore([makeSession("session-b")]);
+
+    expect(readSessionStore().map((s) => s.id)).toEqual(["session-b"]);
+  });
+
+  it("leaves no temp files behind", () => {
+    writeSessionStore([makeSession("session-a")]);
+
+    expect(fs.readdirSync(path.join(tmpDir, ".diffprism"))).toEqual(["sessions.json"]);
+  });
+
+  it("returns an empty list for a corrupted store", () => {
+    fs.mkdirSync(path.join(tmpDir, ".diffprism"), { recursive: true });
+    fs.writeFileSync(getSessionStorePath(), "{not json");
+
+    expect(readSessionStore()).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { readLineRange, applySuggestedChange } from "../suggestions.js";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "diffprism-suggest-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeFile(content: string): void {
+  fs.writeFileSync(path.join(tmpDir, "file.ts"), content);
+}
+
+function readFile(): string {
+  return fs.readFileSync(path.join(tmpDir, "file.ts"), "utf-8");
+}
+
+describe("readLineRange", () => {
+  it("returns the requested lines", () => {
+    writeFile("one\ntwo\nthree\n");
+    expect(readLineRange(tmpDir, "file.ts", 2, 3)).toBe("two\nthree");
+  });
+
+  it("returns null for missing files and out-of-range lines", () => {
+    writeFile("one\n");
+    expect(readLineRange(tmpDir, "missing.ts", 1, 1)).toBeNull();
+    expect(readLineRange(tmpDir, "file.ts", 2, 2)).toBeNull();
+  });
+
+  it("refuses paths outside the project", () => {
+    expect(readLineRange(tmpDir, "../outside.ts", 1, 1)).toBeNull();
+  });
+});
+
+describe("applySuggestedChange", () => {
+  it("replaces a range with more or fewer lines", () => {
+    writeFile("one\ntwo\nthree\n");
+    applySuggestedChange(tmpDir, "file.ts", {
+      startLine: 2,
+      endLine: 2,
+      replacement: "two-a\ntwo-b\n",
+      original: "two",
+    });
+    expect(readFile()).toBe("one\ntwo-a\ntwo-b\nthree\n");
+
+    applySuggestedChange(tmpDir, "file.ts", {
+      startLine: 1,
+      endLine: 3,
+      replacement: "",
+      original: null,
+    });
+    expect(readFile()).toBe("three\n");
+  });
+
+  it("keeps CRLF line endings", () => {
+    writeFile("a\r\nb\r\n");
+    applySuggestedChange(tmpDir, "file.ts", { startLine: 1, endLine: 1, replacement: "z", original: "a" });
+    expect(readFile()).toBe("z\r\nb\r\n");
+  });
+
+  it("throws when the original lines no longer match", () => {
+    writeFile("one\ntwo\n");
+    expect(() =>
+      applySuggestedChange(tmpDir, "file.ts", {
+        startLine: 2,
+        endLine: 2,
+        replacement: "2",
+        original: "deux",
+      }),
+    ).toThrow(/has changed/);
+    expect(readFile()).toBe("one\ntwo\n");
+  });
+});
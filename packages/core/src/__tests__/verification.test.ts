@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import {
+  resolveVerificationCommands,
+  runVerification,
+  applyVerification,
+} from "../verification.js";
+import type { ReviewBriefing, VerificationRun } from "../types.js";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "diffprism-verify-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeJson(relativePath: string, data: unknown): void {
+  const filePath = path.join(tmpDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data));
+}
+
+function makeBriefing(): ReviewBriefing {
+  return {
+    summary: "",
+    triage: { critical: [], notable: [], mechanical: [] },
+    impact: {
+      affectedModules: [],
+      affectedTests: [],
+      publicApiChanges: false,
+      breakingChanges: [],
+      newDependencies: [],
+    },
+    verification: { testsPass: null, typeCheck: null, lintClean: null },
+    fileStats: [],
+  };
+}
+
+describe("resolveVerificationCommands", () => {
+  it("returns null commands for an empty project", () => {
+    expect(resolveVerificationCommands(tmpDir)).toEqual({
+      test: null,
+      typecheck: null,
+      lint: null,
+    });
+  });
+
+  it("detects package.json scripts and the package manager", () => {
+    writeJson("package.json", {
+      scripts: { test: "vitest run", "type-check": "tsc --noEmit", lint: "eslint ." },
+    });
+    fs.writeFileSync(path.join(tmpDir, "pnpm-lock.yaml"), "");
+
+    expect(resolveVerificationCommands(tmpDir)).toEqual({
+      test: "pnpm run test",
+      typecheck: "pnpm run type-check",
+      lint: "pnpm run lint",
+    });
+  });
+
+  it("ignores the npm init placeholder test script", () => {
+    writeJson("package.json", {
+      scripts: { test: 'echo "Error: no test specified" && exit 1' },
+    });
+
+    expect(resolveVerificationCommands(tmpDir).test).toBeNull();
+  });
+
+  it("prefers commands from .diffprism/config.json and honours null", () => {
+    writeJson("package.json", { scripts: { test: "vitest run", lint: "eslint ." } });
+    writeJson(".diffprism/config.json", {
+      verification: { test: "make test", lint: null },
+    });
+
+    expect(resolveVerificationCommands(tmpDir)).toEqual({
+      test: "make test",
+      typecheck: null,
+      lint: null,
+    });
+  });
+});
+
+describe("runVerification", () => {
+  it("records exit status, duration and output for each check", async () => {
+    const updates: string[] = [];
+    const handle = runVerification({
+      cwd: tmpDir,
+      commands: {
+        test: "echo all good",
+        typecheck: "echo type error >&2; exit 2",
+        lint: null,
+      },
+      onUpdate: (run) => updates.push(run.checks.map((c) => c.status).join(",")),
+    });
+
+    expect(handle.run.status).toBe("running");
+    const run = await handle.done;
+
+    expect(run.status).toBe("completed");
+    expect(run.finishedAt).toBeTypeOf("number");
+
+    const [test, typecheck, lint] = run.checks;
+    expect(test).toMatchObject({ name: "test", status: "passed", exitCode: 0 });
+    expect(test.output).toContain("all good");
+    expect(test.durationMs).toBeTypeOf("number");
+    expect(typecheck).toMatchObject({ name: "typecheck", status: "failed", exitCode: 2 });
+    expect(typecheck.output).toContain("type error");
+    expect(lint).toMatchObject({ name: "lint", status: "skipped", command: null });
+
+    expect(updates[0]).toBe("running,pending,skipped");
+    expect(updates[updates.length - 1]).toBe("passed,failed,skipped");
+  });
+
+  it("runs only the requested checks", async () => {
+    const run = await runVerification({
+      cwd: tmpDir,
+      commands: { test: "true", typecheck: "true", lint: "true" },
+      checks: ["lint"],
+    }).done;
+
+    expect(run.checks.map((c) => c.name)).toEqual(["lint"]);
+  });
+
+  it("keeps only the tail of long output", async () => {
+    const run = await runVerification({
+      cwd: tmpDir,
+      commands: { test: "seq 1 2000", typecheck: null, lint: null },
+      maxOutputBytes: 100,
+    }).done;
+
+    const [test] = run.checks;
+    expect(test.truncated).toBe(true);
+    expect(test.output.length).toBe(100);
+    expect(test.output.trimEnd().endsWith("2000")).toBe(true);
+  });
+
+  it("fails a check that exceeds its timeout", async () => {
+    const run = await runVerification({
+      cwd: tmpDir,
+      commands: { test: "sleep 5", typecheck: null, lint: null },
+      timeoutMs: 50,
+    }).done;
+
+    expect(run.checks[0]).toMatchObject({ status: "failed", timedOut: true });
+  });
+
+  it("skips remaining checks when cancelled", async () => {
+    const handle = runVerification({
+      cwd: tmpDir,
+      commands: { test: "sleep 5", typecheck: "true", lint: null },
+    });
+    handle.cancel();
+    const run = await handle.done;
+
+    expect(run.status).toBe("cancelled");
+    expect(run.checks.map((c) => c.status)).toEqual(["skipped", "skipped", "skipped"]);
+  });
+});
+
+describe("applyVerification", () => {
+  function makeRun(overrides: Partial<VerificationRun> = {}): VerificationRun {
+    const check = { command: "x", exitCode: 0, durationMs: 1, output: "", truncated: false };
+    return {
+      id: "run-1",
+      status: "completed",
+      startedAt: 0,
+      checks: [
+        { ...check, name: "test", status: "passed" },
+        { ...check, name: "typecheck", status: "failed", exitCode: 1 },
+        { ...check, name: "lint", status: "skipped", command: null },
+      ],
+      ...overrides,
+    };
+  }
+
+  it("maps check outcomes onto the briefing", () => {
+    expect(applyVerification(makeBriefing(), makeRun()).verification).toEqual({
+      testsPass: true,
+      typeCheck: false,
+      lintClean: null,
+    });
+  });
+
+  it("clears outcomes for stale runs", () => {
+    expect(applyVerification(makeBriefing(), makeRun({ stale: true })).verification).toEqual({
+      testsPass: null,
+      typeCheck: null,
+      lintClean: null,
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import type { Annotation, DiffFile, DiffSet } from "./types.js";
+
+/**
+ * Content of every new-side line a file's diff shows, by line number.
+ */
+function visibleLines(file: DiffFile): Map<number, string> {
+  const lines = new Map<number, string>();
+  for (const hunk of file.hunks) {
+    for (const change of hunk.changes) {
+      if (change.type !== "delete") lines.set(change.lineNumber, change.content);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Make annotations follow their lines after the diff changed underneath
+ * them (e.g. new commits pushed to a PR). An annotation moves to the
+ * nearest line of the new diff with the same content; if there is none, or
+ * its file left the diff, it is marked outdated. Annotations are updated in
+ * place; the ones that changed are returned.
+ */
+export function reanchorAnnotations(
+  annotations: Annotation[],
+  previous: DiffSet,
+  next: DiffSet,
+): Annotation[] {
+  const changed: Annotation[] = [];
+
+  for (const annotation of annotations) {
+    if (annotation.dismissed || annotation.outdated) continue;
+
+    const before = previous.files.find((f) => f.path === annotation.file);
+    const after = next.files.find((f) => f.path === annotation.file);
+    if (!before) continue;
+
+    if (!after) {
+      annotation.outdated = true;
+      changed.push(annotation);
+      continue;
+    }
+    if (JSON.stringify(before.hunks) === JSON.stringify(after.hunks)) continue;
+
+    // Lines outside the old hunks cannot be followed; leave them be
+    const content = visibleLines(before).get(annotation.line);
+    if (content === undefined) continue;
+
+    const lines = visibleLines(after);
+    if (lines.get(annotation.line) === content) continue;
+
+    let nearest: number | null = null;
+    for (const [line, text] of lines) {
+      if (text !== content) continue;
+      if (nearest === null || Math.abs(line - annotation.line) < Math.abs(nearest - annotation.line)) {
+        nearest = line;
+      }
+    }
+
+    if (nearest === null) {
+      annotation.outdated = true;
+    } else {
+      annotation.line = nearest;
+    }
+    changed.push(annotation);
+  }
+
+  return changed;
+}
@@ -0,0 +1,203 @@
+import fs from "node:fs";
+import path from "node:path";
+import { runGitAsync } from "@diffprism/git";
+
+export interface ChangeWatcherOptions {
+  cwd: string;
+  /** Called once per burst of changes, after `debounceMs` of quiet. */
+  onChange: () => void;
+  /** Called if a watcher fails after it started (e.g. the directory was removed). */
+  onError?: (error: Error) => void;
+  debounceMs?: number; // default 150
+  /** Beyond this many directories, throw so the caller polls instead. */
+  maxWatchedDirs?: number; // default 4000
+}
+
+export interface ChangeWatcher {
+  close: () => void;
+}
+
+// Directories whose contents never show up in `git diff`
+const IGNORED_DIRS = new Set(["node_modules", ".git"]);
+
+// Files in the git dir that change what `git diff` reports: the index
+// (staging), HEAD (commits, checkouts) and refs (ranges like main..HEAD)
+const GIT_STATE_FILE = /^(index|HEAD|ORIG_HEAD|MERGE_HEAD|packed-refs|refs\/.*)$/;
+
+function isGitStateChange(relativePath: string): boolean {
+  return GIT_STATE_FILE.test(relativePath.split(path.sep).join("/"));
+}
+
+/**
+ * Resolve the git dir (where HEAD and the index live) and the common dir
+ * (where refs live). Both sit outside the working tree for linked worktrees.
+ * Returns null if they cannot be determined.
+ */
+async function resolveGitDirs(cwd: string): Promise<{ gitDir: string; commonDir: string } | null> {
+  try {
+    const [gitDir, commonDir] = (await runGitAsync(["rev-parse", "--absolute-git-dir", "--git-common-dir"], { cwd }))
+      .trim()
+      .split("\n");
+    if (!gitDir || !commonDir) return null;
+    return { gitDir, commonDir: path.resolve(cwd, commonDir) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Directories under `cwd` that git ignores (build output, caches), as
+ * absolute paths. Empty outside a git repository.
+ */
+async function listIgnoredDirs(cwd: string): Promise<Set<string>> {
+  try {
+    const output = await runGitAsync(
+      ["ls-files", "--others", "--ignored", "--exclude-standard", "--directory", "-z"],
+      { cwd },
+    );
+    return new Set(
+      output
+        .split("\0")
+        .filter((entry) => entry.endsWith("/"))
+        .map((entry) => path.join(cwd, entry.slice(0, -1))),
+    );
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Watch a project's working tree and git state with `fs.watch`, reporting
+ * debounced bursts of changes that may affect its diff. Each directory is
+ * watched on its own so that node_modules, git-ignored output and the git
+ * object store are never watched at all.
+ *
+ * @throws if the project cannot be watched (missing directory, or more
+ *   directories than is worth watching) — callers fall back to polling.
+ */
+export async function watchProjectChanges(options: ChangeWatcherOptions): Promise<ChangeWatcher> {
+  // Beyond the default, per-directory watches cost more than polling (and
+  // risk exhausting inotify's max_user_watches on Linux)
+  const { cwd, onChange, onError, debounceMs = 150, maxWatchedDirs = 4000 } = options;
+  const [gitDirs, ignoredDirs] = await Promise.all([resolveGitDirs(cwd), listIgnoredDirs(cwd)]);
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  const watchers = new Map<string, fs.FSWatcher>();
+
+  function schedule(): void {
+    if (closed) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      if (!closed) onChange();
+    }, debounceMs);
+  }
+
+  function close(): void {
+    closed = true;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    for (const watcher of watchers.values()) {
+      watcher.close();
+    }
+    watchers.clear();
+  }
+
+  function handleError(err: Error): void {
+    if (closed) return;
+    close();
+    onError?.(err);
+  }
+
+  function isIgnoredDir(dir: string): boolean {
+    return (
+      IGNORED_DIRS.has(path.basename(dir)) ||
+      ignoredDirs.has(dir) ||
+      (gitDirs !== null && (dir === gitDirs.gitDir || dir === gitDirs.commonDir))
+    );
+  }
+
+  function watchDir(dir: string, listener: (filename: string | null) => void): void {
+    if (closed || watchers.has(dir)) return;
+    if (watchers.size >= maxWatchedDirs) {
+      throw new Error(`More than ${maxWatchedDirs} directories to watch`);
+    }
+    const watcher = fs.watch(dir, (_event, filename) => listener(filename?.toString() ?? null));
+    watcher.on("error", (err) => {
+      // A removed subdirectory is not a failure of the whole watch
+      if (dir === cwd) {
+        handleError(err);
+      } else {
+        watcher.close();
+        watchers.delete(dir);
+      }
+    });
+    // Watchers must not keep the process alive on their own
+    watcher.unref();
+    watchers.set(dir, watcher);
+  }
+
+  /** Watch `root` and every directory below it that is not ignored. */
+  function watchTree(root: string, onEntry: (dir: string, filename: string | null) => void): void {
+    const pending = [root];
+    while (pending.length > 0) {
+      const dir = pending.pop()!;
+      watchDir(dir, (filename) => onEntry(dir, filename));
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const child = path.join(dir, entry.name);
+        if (entry.isDirectory() && !isIgnoredDir(child)) pending.push(child);
+      }
+    }
+  }
+
+  function onTreeEntry(dir: string, filename: string | null): void {
+    // Some platforms omit the filename; treat that as a possible change
+    if (!filename) {
+      schedule();
+      return;
+    }
+    const changed = path.join(dir, filename);
+    if (isIgnoredDir(changed) || [...ignoredDirs].some((ignored) => changed.startsWith(ignored + path.sep))) {
+      return;
+    }
+    schedule();
+    // Directories created after the watch started are watched too
+    if (!watchers.has(changed) && fs.statSync(changed, { throwIfNoEntry: false })?.isDirectory()) {
+      try {
+        watchTree(changed, onTreeEntry);
+      } catch (err) {
+        handleError(err as Error);
+      }
+    }
+  }
+
+  function onGitEntry(gitRoot: string, dir: string, filename: string | null): void {
+    if (!filename || isGitStateChange(path.relative(gitRoot, path.join(dir, filename)))) schedule();
+  }
+
+  try {
+    watchTree(cwd, onTreeEntry);
+
+    // HEAD and the index live in the git dir; refs in the common dir, which
+    // differs for linked worktrees. The object store is never watched.
+    if (gitDirs) {
+      const { gitDir, commonDir } = gitDirs;
+      watchDir(gitDir, (filename) => onGitEntry(gitDir, gitDir, filename));
+      if (commonDir !== gitDir) {
+        watchDir(commonDir, (filename) => onGitEntry(commonDir, commonDir, filename));
+      }
+      const refsDir = path.join(commonDir, "refs");
+      if (fs.existsSync(refsDir)) {
+        watchTree(refsDir, (dir, filename) => onGitEntry(commonDir, dir, filename));
+      }
+    }
+  } catch (err) {
+    close();
+    throw err;
+  }
+
+  return { close };
+}
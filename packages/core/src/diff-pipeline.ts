@@ -0,0 +1,200 @@
+import fs from "node:fs";
+import { fileURLToPath } from "node:url";
+import { Worker } from "node:worker_threads";
+import { getDiffAsync, preloadSources, GitError } from "@diffprism/git";
+import type { GitErrorCode } from "@diffprism/git";
+import { analyze, createAnalysisCache, fileAnalysisKey, sourceRequestsFor } from "@diffprism/analysis";
+import type { AnalysisCache } from "@diffprism/analysis";
+
+import type { DiffSet, ReviewBriefing } from "./types.js";
+import { hashDiff } from "./diff-utils.js";
+
+export interface DiffPipelineRequest {
+  diffRef: string;
+  cwd: string;
+  /** Hash of the diff the caller already has; an identical diff skips analysis. */
+  previousHash?: string | null;
+  /** Set false to only compute the diff (e.g. for a poller's baseline). Defaults to true. */
+  analyze?: boolean;
+}
+
+export type DiffPipelineResult =
+  | { changed: false; hash: string }
+  | {
+      changed: true;
+      hash: string;
+      diffSet: DiffSet;
+      rawDiff: string;
+      briefing?: ReviewBriefing;
+    };
+
+// Per-file analysis caches, one per (cwd, diffRef), so successive polls of
+// a session only re-analyze files that changed. Least recently used first.
+const analysisCaches = new Map<string, AnalysisCache>();
+const MAX_ANALYSIS_CACHES = 32;
+
+function getAnalysisCache(cwd: string, diffRef: string): AnalysisCache {
+  const key = `${cwd}\0${diffRef}`;
+  let cache = analysisCaches.get(key);
+  if (cache) {
+    analysisCaches.delete(key);
+  } else {
+    cache = createAnalysisCache();
+    if (analysisCaches.size >= MAX_ANALYSIS_CACHES) {
+      const oldest = analysisCaches.keys().next().value!;
+      analysisCaches.delete(oldest);
+    }
+  }
+  analysisCaches.set(key, cache);
+  return cache;
+}
+
+/**
+ * Compute a diff, hash it and (when it changed) analyze it. Git runs in
+ * child processes — the full sources API comparison needs are read up
+ * front, asynchronously — so only parsing and analysis occupy this thread.
+ */
+export async function computeDiffPipeline(
+  request: DiffPipelineRequest,
+): Promise<DiffPipelineResult> {
+  const { diffRef, cwd } = request;
+  const { diffSet, rawDiff } = await getDiffAsync(diffRef, { cwd });
+  const hash = hashDiff(rawDiff);
+
+  if (request.previousHash && hash === request.previousHash) {
+    return { changed: false, hash };
+  }
+
+  if (request.analyze === false) {
+    return { changed: true, hash, diffSet, rawDiff };
+  }
+
+  // Files with a cached analysis are not read again
+  const cache = getAnalysisCache(cwd, diffRef);
+  const uncached = diffSet.files.filter((file) => !cache.get(fileAnalysisKey(file, true)));
+  const readSource = await preloadSources(diffRef, sourceRequestsFor(uncached), { cwd });
+
+  const briefing = analyze(diffSet, { readSource, cache });
+  return { changed: true, hash, diffSet, rawDiff, briefing };
+}
+
+// ─── Worker thread ───
+
+/** Messages exchanged with diff-worker.ts. */
+export interface DiffWorkerRequest {
+  id: number;
+  request: DiffPipelineRequest;
+}
+
+export type DiffWorkerResponse =
+  | { id: number; result: DiffPipelineResult }
+  | { id: number; error: { message: string; code?: GitErrorCode } };
+
+interface PendingRequest {
+  request: DiffPipelineRequest;
+  resolve: (result: DiffPipelineResult) => void;
+  reject: (err: Error) => void;
+}
+
+let worker: Worker | null = null;
+// Set once the worker failed to start; later requests stay in-process
+let workerUnavailable = false;
+// A build without the worker entry is reported once, not on every request
+let warnedMissingWorker = false;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+
+function getWorker(): Worker | null {
+  if (workerUnavailable) return null;
+  if (worker) return worker;
+
+  // Resolve the sibling entry whether running from source (tsx) or compiled output
+  const extension = import.meta.url.endsWith(".ts") ? ".ts" : ".js";
+  const workerUrl = new URL(`./diff-worker${extension}`, import.meta.url);
+  if (!fs.existsSync(fileURLToPath(workerUrl))) {
+    if (!warnedMissingWorker) {
+      warnedMissingWorker = true;
+      console.warn(`DiffPrism: ${fileURLToPath(workerUrl)} not found — analyzing diffs in-process`);
+    }
+    workerUnavailable = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(workerUrl);
+  } catch {
+    workerUnavailable = true;
+    return null;
+  }
+
+  worker.on("message", (message: DiffWorkerResponse) => {
+    const pending = pendingRequests.get(message.id);
+    if (!pending) return;
+    pendingRequests.delete(message.id);
+
+    if ("result" in message) {
+      pending.resolve(message.result);
+    } else {
+      const { message: errorMessage, code } = message.error;
+      pending.reject(code ? new GitError(code, errorMessage) : new Error(errorMessage));
+    }
+  });
+
+  // A worker that cannot load or crashes should not lose requests:
+  // finish them in-process and stop using the worker
+  const fallBack = () => {
+    workerUnavailable = true;
+    worker = null;
+    const stranded = [...pendingRequests.values()];
+    pendingRequests.clear();
+    for (const pending of stranded) {
+      computeDiffPipeline(pending.request).then(pending.resolve, pending.reject);
+    }
+  };
+  worker.on("error", fallBack);
+  worker.on("exit", (code) => {
+    if (code !== 0) fallBack();
+  });
+
+  // The worker must never keep the process alive on its own
+  worker.unref();
+  return worker;
+}
+
+/**
+ * Run the diff pipeline, either in-process or — with `worker: true` — in a
+ * shared worker thread so that parsing and analyzing very large diffs never
+ * blocks the caller's event loop.
+ */
+export function runDiffPipeline(
+  request: DiffPipelineRequest,
+  options: { worker?: boolean } = {},
+): Promise<DiffPipelineResult> {
+  const target = options.worker ? getWorker() : null;
+  if (!target) {
+    return computeDiffPipeline(request);
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { request, resolve, reject });
+    target.postMessage({ id, request } satisfies DiffWorkerRequest);
+  });
+}
+
+/**
+ * Terminate the shared worker, if one was started.
+ */
+export async function stopDiffWorker(): Promise<void> {
+  const current = worker;
+  worker = null;
+  workerUnavailable = false;
+  if (!current) return;
+
+  current.removeAllListeners();
+  for (const pending of pendingRequests.values()) {
+    pending.reject(new Error("Diff worker stopped"));
+  }
+  pendingRequests.clear();
+  await current.terminate();
+}
@@ -1,8 +1,8 @@
-import { getDiff } from "@diffprism/git";
-import { analyze } from "@diffprism/analysis";
-
 import type { DiffSet, DiffUpdatePayload, ReviewInitPayload, ReviewMetadata } from "./types.js";
-import { hashDiff, detectChangedFiles } from "./diff-utils.js";
+import { detectChangedFiles } from "./diff-utils.js";
+import { runDiffPipeline } from "./diff-pipeline.js";
+import { watchProjectChanges } from "./change-watcher.js";
+import type { ChangeWatcher } from "./change-watcher.js";
 
 export interface DiffPollerOptions {
   diffRef: string;
@@ -11,52 +11,112 @@ export interface DiffPollerOptions {
   onDiffChanged: (payload: DiffUpdatePayload) => void;
   onError?: (error: Error) => void;
   silent?: boolean;
+  /**
+   * Diff last seen by the caller. When set, the first poll compares against
+   * it instead of the current diff, so changes made while nothing was
+   * watching (e.g. between server restarts) are still reported.
+   */
+  initialDiff?: { hash: string; diffSet: DiffSet };
+  /** Run git diff and analysis in a worker thread instead of this one. */
+  useWorker?: boolean;
+  /**
+   * "watch" recomputes the diff only when the working tree or git state
+   * changes (via fs.watch), falling back to polling every `pollInterval`
+   * if the project cannot be watched. Defaults to "poll".
+   */
+  changeDetection?: "poll" | "watch";
+  /** Quiet period before a burst of file events triggers a poll. Default 150ms. */
+  debounceMs?: number;
 }
 
 export interface DiffPoller {
   start: () => void;
   stop: () => void;
   setDiffRef: (newRef: string) => void;
-  refresh: () => void;
+  /**
+   * Re-poll now and report the diff even if it looks unchanged. Resolves
+   * once that poll has finished.
+   */
+  refresh: () => Promise<void>;
 }
 
 export function createDiffPoller(options: DiffPollerOptions): DiffPoller {
   let { diffRef } = options;
-  const { cwd, pollInterval, onDiffChanged, onError, silent } = options;
+  const {
+    cwd,
+    pollInterval,
+    onDiffChanged,
+    onError,
+    silent,
+    initialDiff,
+    useWorker,
+    changeDetection = "poll",
+    debounceMs,
+  } = options;
 
   let lastDiffHash: string | null = null;
   let lastDiffSet: DiffSet | null = null;
+  // Whether lastDiffHash is known; until then a poll only records a baseline
+  let baselineKnown = false;
   let refreshRequested = false;
   let interval: ReturnType<typeof setInterval> | null = null;
+  let watcher: ChangeWatcher | null = null;
   let running = false;
 
-  function poll(): void {
-    if (!running) return;
+  // Polls are coalesced: at most one runs at a time, and requests made while
+  // one is in flight share a single follow-up poll
+  let inFlight: Promise<void> | null = null;
+  let rerunRequested = false;
+
+  async function pollOnce(): Promise<void> {
+    const ref = diffRef;
+    const forceReport = refreshRequested;
+    const reportChanges = baselineKnown;
+    // Refreshes requested from here on get their own poll
+    refreshRequested = false;
 
     try {
-      const { diffSet: newDiffSet, rawDiff: newRawDiff } = getDiff(diffRef, { cwd });
-      const newHash = hashDiff(newRawDiff);
+      const result = await runDiffPipeline(
+        {
+          diffRef: ref,
+          cwd,
+          previousHash: forceReport ? null : lastDiffHash,
+          // A baseline poll never reports, so it needs no briefing
+          analyze: reportChanges,
+        },
+        { worker: useWorker },
+      );
+
+      // Drop results that no longer apply
+      if (!running || ref !== diffRef) return;
+
+      if (!reportChanges) {
+        if (result.changed) {
+          lastDiffHash = result.hash;
+          lastDiffSet = result.diffSet;
+        }
+        baselineKnown = true;
+        return;
+      }
 
-      if (newHash !== lastDiffHash || refreshRequested) {
-        refreshRequested = false;
+      if (!result.changed) return;
 
-        const newBriefing = analyze(newDiffSet);
-        const changedFiles = detectChangedFiles(lastDiffSet, newDiffSet);
+      const changedFiles = detectChangedFiles(lastDiffSet, result.diffSet);
 
-        lastDiffHash = newHash;
-        lastDiffSet = newDiffSet;
+      lastDiffHash = result.hash;
+      lastDiffSet = result.diffSet;
 
-        const updatePayload: DiffUpdatePayload = {
-          diffSet: newDiffSet,
-          rawDiff: newRawDiff,
-          briefing: newBriefing,
-          changedFiles,
-          timestamp: Date.now(),
-        };
+      const updatePayload: DiffUpdatePayload = {
+        diffSet: result.diffSet,
+        rawDiff: result.rawDiff,
+        briefing: result.briefing!,
+        changedFiles,
+        timestamp: Date.now(),
+      };
 
-        onDiffChanged(updatePayload);
-      }
+      onDiffChanged(updatePayload);
     } catch (err) {
+      if (forceReport) refreshRequested = true;
       // getDiff can fail if git state is mid-operation — silently skip by default
       if (onError && err instanceof Error) {
         onError(err);
@@ -64,21 +124,78 @@ export function createDiffPoller(options: DiffPollerOptions): DiffPoller {
     }
   }
 
+  function poll(): Promise<void> {
+    if (!running) return Promise.resolve();
+
+    if (inFlight) {
+      rerunRequested = true;
+      return inFlight;
+    }
+
+    inFlight = (async () => {
+      try {
+        do {
+          rerunRequested = false;
+          await pollOnce();
+        } while (rerunRequested && running);
+      } finally {
+        inFlight = null;
+      }
+    })();
+    return inFlight;
+  }
+
+  function startPolling(): void {
+    if (!running || interval) return;
+    interval = setInterval(() => {
+      // Ticks while a poll is still running are skipped, not queued
+      if (!inFlight) void poll();
+    }, pollInterval);
+  }
+
+  async function startWatching(): Promise<void> {
+    try {
+      const started = await watchProjectChanges({
+        cwd,
+        debounceMs,
+        onChange: () => void poll(),
+        onError: (err) => {
+          watcher = null;
+          onError?.(err);
+          startPolling();
+        },
+      });
+      if (!running) {
+        started.close();
+        return;
+      }
+      watcher = started;
+    } catch {
+      startPolling();
+    }
+  }
+
   return {
     start() {
       if (running) return;
       running = true;
 
-      // Initialize hash from first poll without triggering onDiffChanged
-      try {
-        const { diffSet: initialDiffSet, rawDiff: initialRawDiff } = getDiff(diffRef, { cwd });
-        lastDiffHash = hashDiff(initialRawDiff);
-        lastDiffSet = initialDiffSet;
-      } catch {
-        // Will catch on next poll
+      if (initialDiff) {
+        lastDiffHash = initialDiff.hash;
+        lastDiffSet = initialDiff.diffSet;
+        baselineKnown = true;
+      } else {
+        // Record the current diff as the baseline without triggering onDiffChanged
+        void poll();
       }
 
-      interval = setInterval(poll, pollInterval);
+      if (changeDetection === "watch") {
+        // Nothing was watching before now, so check for changes right away
+        if (initialDiff) void poll();
+        void startWatching();
+      } else {
+        startPolling();
+      }
     },
 
     stop() {
@@ -87,6 +204,10 @@ export function createDiffPoller(options: DiffPollerOptions): DiffPoller {
         clearInterval(interval);
         interval = null;
       }
+      if (watcher) {
+        watcher.close();
+        watcher = null;
+      }
     },
 
     setDiffRef(newRef: string) {
@@ -94,10 +215,14 @@ export function createDiffPoller(options: DiffPollerOptions): DiffPoller {
       // Reset hash to force next poll to detect a change
       lastDiffHash = null;
       lastDiffSet = null;
+      baselineKnown = true;
+      // Without polling, nothing else would pick up the new ref
+      if (running && !interval) void poll();
     },
 
     refresh() {
       refreshRequested = true;
+      return poll();
     },
   };
 }
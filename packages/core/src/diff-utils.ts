@@ -1,5 +1,5 @@
 import { createHash } from "node:crypto";
-import type { DiffFile, DiffSet } from "./types.js";
+import type { DiffFile, DiffSet, DiffFileOperation } from "./types.js";
 
 export function hashDiff(rawDiff: string): string {
   return createHash("sha256").update(rawDiff).digest("hex");
@@ -51,3 +51,60 @@ export function detectChangedFiles(
 
   return changed;
 }
+
+/**
+ * Split a raw unified diff into one section per file, keyed by fileKey.
+ * Sections appear in the same order as the parsed files (staged before
+ * unstaged for working-copy diffs). Returns null if they cannot be paired.
+ */
+export function splitRawDiff(rawDiff: string, diffSet: DiffSet): Map<string, string> | null {
+  const starts: number[] = [];
+  const pattern = /^diff --git /gm;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(rawDiff)) !== null) {
+    starts.push(match.index);
+  }
+  if (starts.length !== diffSet.files.length) return null;
+
+  const sections = new Map<string, string>();
+  diffSet.files.forEach((file, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1] : rawDiff.length;
+    sections.set(fileKey(file), rawDiff.slice(starts[i], end));
+  });
+  // Duplicate keys would make the delta ambiguous
+  return sections.size === diffSet.files.length ? sections : null;
+}
+
+/**
+ * File-level operations that turn the old diff into the new one. Files whose
+ * raw section is unchanged are left out. Returns null when either raw diff
+ * cannot be split per file, in which case a full update must be sent.
+ */
+export function computeDiffDelta(
+  oldDiff: { diffSet: DiffSet; rawDiff: string },
+  newDiff: { diffSet: DiffSet; rawDiff: string },
+): DiffFileOperation[] | null {
+  const oldSections = splitRawDiff(oldDiff.rawDiff, oldDiff.diffSet);
+  const newSections = splitRawDiff(newDiff.rawDiff, newDiff.diffSet);
+  if (!oldSections || !newSections) return null;
+
+  const operations: DiffFileOperation[] = [];
+  for (const file of newDiff.diffSet.files) {
+    const key = fileKey(file);
+    const rawDiff = newSections.get(key)!;
+    const oldRawDiff = oldSections.get(key);
+    if (oldRawDiff === undefined) {
+      operations.push({ op: "add", key, file, rawDiff });
+    } else if (oldRawDiff !== rawDiff) {
+      operations.push({ op: "replace", key, file, rawDiff });
+    }
+  }
+
+  for (const key of oldSections.keys()) {
+    if (!newSections.has(key)) {
+      operations.push({ op: "remove", key });
+    }
+  }
+
+  return operations;
+}
@@ -0,0 +1,22 @@
+import { parentPort } from "node:worker_threads";
+import { GitError } from "@diffprism/git";
+
+import { computeDiffPipeline } from "./diff-pipeline.js";
+import type { DiffWorkerRequest, DiffWorkerResponse } from "./diff-pipeline.js";
+
+// Entry point of the worker started by runDiffPipeline({ worker: true })
+parentPort?.on("message", async ({ id, request }: DiffWorkerRequest) => {
+  let response: DiffWorkerResponse;
+  try {
+    response = { id, result: await computeDiffPipeline(request) };
+  } catch (err) {
+    response = {
+      id,
+      error: {
+        message: err instanceof Error ? err.message : String(err),
+        code: err instanceof GitError ? err.code : undefined,
+      },
+    };
+  }
+  parentPort?.postMessage(response);
+});
@@ -1,11 +1,21 @@
 import http from "node:http";
-import { randomUUID } from "node:crypto";
+import { randomUUID, timingSafeEqual } from "node:crypto";
 import getPort from "get-port";
 import open from "open";
 import { WebSocketServer, WebSocket } from "ws";
 
-import { getDiff, listBranches, listCommits, getCurrentBranch } from "@diffprism/git";
+import {
+  listBranchesAsync,
+  listCommitsAsync,
+  getCurrentBranch,
+  applyHunk,
+  runGit,
+  parseDiff,
+  GitError,
+} from "@diffprism/git";
+import type { HunkAction } from "@diffprism/git";
 import { analyze } from "@diffprism/analysis";
+import type { PrMetadata } from "@diffprism/github";
 
 import fs from "node:fs";
 
@@ -14,61 +24,86 @@ import type {
   GlobalServerHandle,
   GlobalServerInfo,
   SessionSummary,
-  GlobalSessionStatus,
-  SessionSource,
   ReviewInitPayload,
   ReviewResult,
   ContextUpdatePayload,
   ServerMessage,
   ClientMessage,
   DiffSet,
+  DiffUpdatePayload,
+  ReviewBriefing,
   Annotation,
   AnnotationType,
   AnnotationCategory,
   AnnotationSource,
+  ReviewComment,
+  ReviewerState,
+  ReviewerStateUpdate,
+  ReviewRound,
+  FileReviewStatus,
+  ThreadAuthor,
+  ThreadReply,
+  GitHubPrMetadata,
+  GitHubReviewThread,
+  GitHubThreadComment,
+  PrDiffMode,
+  PrReviewPostRun,
+  VerificationCheckName,
+  VerificationRun,
 } from "./types.js";
-import { writeServerFile, removeServerFile } from "./server-file.js";
+import { writeServerFile, removeServerFile, getServerToken } from "./server-file.js";
 import {
   resolveUiDist,
   resolveUiRoot,
   startViteDevServer,
   createStaticServer,
 } from "./ui-server.js";
-import { hashDiff, detectChangedFiles } from "./diff-utils.js";
+import { hashDiff, detectChangedFiles, computeDiffDelta, fileKey } from "./diff-utils.js";
 import { createDiffPoller } from "./diff-poller.js";
+import { runDiffPipeline, stopDiffWorker } from "./diff-pipeline.js";
 import type { DiffPoller } from "./diff-poller.js";
-import { appendHistory, generateEntryId, getRecentHistory } from "./review-history.js";
+import { createPrPoller } from "./pr-poller.js";
+import type { PrPoller } from "./pr-poller.js";
+import { reanchorAnnotations } from "./annotation-anchors.js";
+import {
+  appendHistory,
+  findLastPrReview,
+  generateEntryId,
+  getRecentHistory,
+  resolveHistoryDir,
+} from "./review-history.js";
 import type { ReviewHistoryEntry } from "./review-history.js";
+import {
+  VERIFICATION_CHECKS,
+  applyVerification,
+  resolveVerificationCommands,
+  runVerification,
+} from "./verification.js";
+import type { VerificationHandle } from "./verification.js";
+import { readSessionStore, writeSessionStore } from "./session-store.js";
+import { readLineRange, applySuggestedChange } from "./suggestions.js";
+import { MAX_REVIEW_ROUNDS, computeInterdiff, snapshotRound, summarizeRound } from "./review-rounds.js";
+import type { RoundSource } from "./review-rounds.js";
+import { executePostReviewAction } from "./post-review-action.js";
+import { checkoutPrWorktree, getWorktreesDir, removePrWorktree, updatePrWorktree } from "./pr-worktree.js";
+import type { PrGitSource } from "./pr-worktree.js";
+import { readRepoRegistry, registerRepo, unregisterRepo, findRepoRoot } from "./repo-registry.js";
+import type { PersistedSession } from "./session-store.js";
 
 // ─── TTL constants ───
 
 const SUBMITTED_TTL_MS = 5 * 60 * 1000; // 5 minutes
 const ABANDONED_TTL_MS = 60 * 60 * 1000; // 1 hour
 const CLEANUP_INTERVAL_MS = 60 * 1000; // 1 minute
+const PERSIST_DEBOUNCE_MS = 100;
 
 // ─── In-memory session store ───
 
-interface UserFocus {
-  file: string | null;
-  lineStart?: number;
-  lineEnd?: number;
-  updatedAt: number;
-}
-
-interface Session {
-  id: string;
-  payload: ReviewInitPayload;
-  projectPath: string;
-  source: SessionSource;
-  status: GlobalSessionStatus;
-  result: ReviewResult | null;
-  createdAt: number;
-  diffRef?: string;
+interface Session extends PersistedSession {
   lastDiffHash?: string;
   lastDiffSet?: DiffSet;
-  hasNewChanges: boolean;
-  annotations: Annotation[];
-  userFocus?: UserFocus;
+  // Incremented on every diff change; clients use it to spot missed deltas
+  diffSeq?: number;
 }
 
 const sessions = new Map<string, Session>();
@@ -76,9 +111,22 @@ const sessions = new Map<string, Session>();
 // Track which WS clients are viewing which session
 const clientSessions = new Map<WebSocket, string>();
 
-// Session watchers using DiffPoller for live diff polling
-const sessionWatchers = new Map<string, DiffPoller>();
+// Session watchers: DiffPoller for local diffs, PrPoller for GitHub PRs
+const sessionWatchers = new Map<string, DiffPoller | PrPoller>();
 let serverPollInterval = 2000;
+let serverPrPollInterval = 30_000;
+
+// Background verification runs, keyed by session ID
+const verificationHandles = new Map<string, VerificationHandle>();
+
+// Whether approved reviews run their postReviewAction (commit / PR) here
+let executePostReviewActions = false;
+
+// Whether diffs are computed and analyzed in a worker thread
+let useAnalysisWorker = false;
+
+// How session watchers notice project changes (polling is the fallback)
+let serverChangeDetection: "watch" | "poll" = "watch";
 
 // Module-level callback set by startGlobalServer to reopen browser when needed
 let reopenBrowserIfNeeded: (() => void) | null = null;
@@ -86,6 +134,11 @@ let reopenBrowserIfNeeded: (() => void) | null = null;
 // Module-level UI URL for /api/status
 let serverUiUrl: string | null = null;
 
+// Per-install secret every client must present, and the only browser origin
+// (the server's own UI) allowed to call the API
+let serverToken: string | null = null;
+let allowedOrigin: string | null = null;
+
 function toSummary(session: Session): SessionSummary {
   const { payload } = session;
   const fileCount = payload.diffSet.files.length;
@@ -110,9 +163,132 @@ function toSummary(session: Session): SessionSummary {
     createdAt: session.createdAt,
     hasNewChanges: session.hasNewChanges,
     source: session.source,
+    postReviewAction: session.postReviewAction,
+    prReviewPost: session.prReviewPost,
+  };
+}
+
+function isSessionExpired(session: PersistedSession, now: number): boolean {
+  // Manual sessions are only removed by explicit user close
+  if (session.source === "manual" && session.status !== "submitted") {
+    return false;
+  }
+  const age = now - session.createdAt;
+  return (
+    (session.status === "submitted" && age > SUBMITTED_TTL_MS) ||
+    (session.status === "pending" && age > ABANDONED_TTL_MS)
+  );
+}
+
+// ─── Session persistence ───
+
+let persistenceEnabled = false;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+function toPersisted(session: Session): PersistedSession {
+  return {
+    id: session.id,
+    payload: session.payload,
+    projectPath: session.projectPath,
+    source: session.source,
+    status: session.status,
+    result: session.result,
+    createdAt: session.createdAt,
+    diffRef: session.diffRef,
+    hasNewChanges: session.hasNewChanges,
+    annotations: session.annotations,
+    comments: session.comments,
+    userFocus: session.userFocus,
+    reviewerProgress: session.reviewerProgress,
+    rounds: session.rounds,
+    verification: session.verification,
+    postReviewAction: session.postReviewAction,
+    prReviewPost: session.prReviewPost,
+    prWorktree: session.prWorktree,
   };
 }
 
+function flushSessions(): void {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  if (!persistenceEnabled) return;
+
+  try {
+    writeSessionStore(Array.from(sessions.values()).map(toPersisted));
+  } catch {
+    // Persistence is best-effort — the in-memory state stays authoritative
+  }
+}
+
+/**
+ * Schedule a write of all sessions. Mutations arrive in bursts (e.g. an
+ * agent posting several annotations), so writes are debounced.
+ */
+function persistSessions(): void {
+  if (!persistenceEnabled || persistTimer) return;
+  persistTimer = setTimeout(flushSessions, PERSIST_DEBOUNCE_MS);
+}
+
+/**
+ * Load sessions saved by a previous server process, dropping any that have
+ * outlived their TTL, and resume diff watching for local ones.
+ */
+function rehydrateSessions(): void {
+  const now = Date.now();
+  for (const persisted of readSessionStore()) {
+    if (sessions.has(persisted.id)) continue;
+    if (isSessionExpired(persisted, now)) {
+      releasePrWorktree(persisted);
+      continue;
+    }
+
+    const session: Session = {
+      ...persisted,
+      annotations: persisted.annotations ?? [],
+      comments: persisted.comments ?? [],
+      lastDiffHash: persisted.diffRef ? hashDiff(persisted.payload.rawDiff) : undefined,
+      lastDiffSet: persisted.diffRef ? persisted.payload.diffSet : undefined,
+    };
+
+    // The process running these checks died with the old server
+    if (session.verification?.status === "running") {
+      session.verification = {
+        ...session.verification,
+        status: "cancelled",
+        checks: session.verification.checks.map((c) =>
+          c.status === "running" || c.status === "pending" ? { ...c, status: "skipped" } : c,
+        ),
+      };
+    }
+
+    if (session.postReviewAction?.status === "running") {
+      session.postReviewAction = {
+        ...session.postReviewAction,
+        status: "failed",
+        error: "The server stopped before the action finished",
+      };
+    }
+
+    if (session.prReviewPost?.status === "running") {
+      session.prReviewPost = {
+        ...session.prReviewPost,
+        status: "failed",
+        error: "The server stopped before the review was posted",
+      };
+    }
+
+    sessions.set(session.id, session);
+  }
+
+  for (const [id, session] of sessions.entries()) {
+    if (session.payload.metadata.githubPr || (session.diffRef && fs.existsSync(session.projectPath))) {
+      startSessionWatcher(id, { resume: true });
+    }
+  }
+}
+
 // ─── JSON body parser ───
 
 function readBody(req: http.IncomingMessage): Promise<string> {
@@ -131,6 +307,38 @@ function jsonResponse(res: http.ServerResponse, status: number, data: unknown):
   res.end(JSON.stringify(data));
 }
 
+// ─── Auth ───
+
+function isValidToken(candidate: string | null | undefined): boolean {
+  if (!serverToken || !candidate) return false;
+  const expected = Buffer.from(serverToken);
+  const actual = Buffer.from(candidate);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function bearerToken(req: http.IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  return header?.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : null;
+}
+
+/**
+ * Requests without an Origin come from local tools (CLI, MCP server);
+ * browsers always send one, and only the DiffPrism UI's is accepted.
+ */
+function isAllowedOrigin(origin: string | undefined): boolean {
+  return !origin || origin === allowedOrigin;
+}
+
+/**
+ * WebSocket handshakes can't carry headers from the browser, so the UI
+ * passes the token as a query parameter instead.
+ */
+function isAuthorizedUpgrade(req: http.IncomingMessage): boolean {
+  if (!isAllowedOrigin(req.headers.origin)) return false;
+  const url = new URL(req.url ?? "/", "http://localhost");
+  return isValidToken(bearerToken(req) ?? url.searchParams.get("token"));
+}
+
 // ─── Route matching ───
 
 function matchRoute(
@@ -212,21 +420,41 @@ function hasViewersForSession(sessionId: string): boolean {
   return false;
 }
 
-function startSessionWatcher(sessionId: string): void {
+function startSessionWatcher(
+  sessionId: string,
+  options: { resume?: boolean } = {},
+): void {
   if (sessionWatchers.has(sessionId)) return;
 
   const session = sessions.get(sessionId);
+  const pr = session?.payload.metadata.githubPr;
+  if (pr) {
+    // GitLab merge requests are not watched for pushes yet
+    if (pr.provider !== "gitlab") startPrWatcher(sessionId, options);
+    return;
+  }
   if (!session?.diffRef) return;
 
+  // When resuming a persisted session, compare against the diff it was
+  // saved with so changes made while the server was down are picked up
+  const initialDiff =
+    options.resume && session.lastDiffHash && session.lastDiffSet
+      ? { hash: session.lastDiffHash, diffSet: session.lastDiffSet }
+      : undefined;
+
   const poller = createDiffPoller({
     diffRef: session.diffRef,
     cwd: session.projectPath,
     pollInterval: serverPollInterval,
+    initialDiff,
+    useWorker: useAnalysisWorker,
+    changeDetection: serverChangeDetection,
     onDiffChanged: (updatePayload) => {
       const s = sessions.get(sessionId);
       if (!s) return;
 
       // Update session payload
+      const previous = s.payload;
       s.payload = {
         ...s.payload,
         diffSet: updatePayload.diffSet,
@@ -235,24 +463,128 @@ function startSessionWatcher(sessionId: string): void {
       };
       s.lastDiffHash = hashDiff(updatePayload.rawDiff);
       s.lastDiffSet = updatePayload.diffSet;
+      markVerificationStale(s);
+      sendDiffUpdate(s, previous, updatePayload);
 
       if (hasViewersForSession(sessionId)) {
-        sendToSessionClients(sessionId, {
-          type: "diff:update",
-          payload: updatePayload,
-        });
         s.hasNewChanges = false;
       } else {
         s.hasNewChanges = true;
         broadcastSessionList();
       }
+      persistSessions();
+    },
+  });
+
+  poller.start();
+  sessionWatchers.set(sessionId, poller);
+}
+
+/**
+ * Watch a PR session for pushed commits. There is no local diff to poll, so
+ * the PR itself is checked with conditional requests.
+ */
+function startPrWatcher(sessionId: string, options: { resume?: boolean }): void {
+  const session = sessions.get(sessionId)!;
+
+  const poller = createPrPoller({
+    pollInterval: serverPrPollInterval,
+    headSha: session.payload.metadata.githubPr?.headSha,
+    // A resumed session may have missed pushes while the server was down
+    immediate: options.resume,
+    checkPr: async (etag) => {
+      const s = sessions.get(sessionId);
+      if (!s) return { modified: false };
+      const connection = await connectGitHub(s);
+      if ("error" in connection) throw new Error(connection.error);
+      const { github, client, pr } = connection;
+      return github.checkPullRequest(client, pr.owner, pr.repo, pr.number, etag);
     },
+    onHeadChanged: (pr) => applyPrPush(sessionId, pr),
   });
 
   poller.start();
   sessionWatchers.set(sessionId, poller);
 }
 
+/**
+ * Push a session's new diff to its viewers. Every change gets the next
+ * sequence number and goes out as a diff:delta of per-file operations
+ * against `previous` when possible, otherwise as a full diff:update.
+ */
+function sendDiffUpdate(
+  session: Session,
+  previous: { diffSet: DiffSet; rawDiff: string } | null,
+  update: DiffUpdatePayload,
+): void {
+  const seq = (session.diffSeq ?? 0) + 1;
+  session.diffSeq = seq;
+  forgetChangedFileStatuses(session, update);
+  if (!hasViewersForSession(session.id)) return;
+
+  const operations = previous ? computeDiffDelta(previous, update) : null;
+  if (!operations) {
+    sendToSessionClients(session.id, { type: "diff:update", payload: { ...update, seq } });
+    return;
+  }
+
+  sendToSessionClients(session.id, {
+    type: "diff:delta",
+    payload: {
+      seq,
+      baseRef: update.diffSet.baseRef,
+      headRef: update.diffSet.headRef,
+      operations,
+      fileOrder: update.diffSet.files.map(fileKey),
+      briefing: update.briefing,
+      changedFiles: update.changedFiles,
+      timestamp: update.timestamp,
+    },
+  });
+}
+
+/**
+ * The review:init message for a session, carrying its current diff sequence
+ * and the reviewer's progress so far.
+ */
+function reviewInitMessage(session: Session): ServerMessage {
+  return {
+    type: "review:init",
+    payload: {
+      ...session.payload,
+      diffSeq: session.diffSeq ?? 0,
+      reviewerState: reviewerStateOf(session),
+      rounds: (session.rounds ?? []).map(summarizeRound),
+    },
+  };
+}
+
+/**
+ * Recompute a session's diff right away after DiffPrism itself changed the
+ * project (applied a suggestion, staged a hunk), rather than on the next poll.
+ */
+function refreshSessionDiff(sessionId: string): void {
+  startSessionWatcher(sessionId);
+  void sessionWatchers.get(sessionId)?.refresh();
+}
+
+/**
+ * Compute and analyze a diff without blocking the event loop — git runs in
+ * child processes, and parsing / analysis in the worker when enabled.
+ */
+async function computeSessionDiff(
+  diffRef: string,
+  cwd: string,
+): Promise<{ diffSet: DiffSet; rawDiff: string; briefing: ReviewBriefing; hash: string }> {
+  const result = await runDiffPipeline({ diffRef, cwd }, { worker: useAnalysisWorker });
+  // Without a previousHash the pipeline always returns an analyzed diff
+  if (!result.changed) {
+    throw new Error(`No diff computed for ${diffRef}`);
+  }
+  const { diffSet, rawDiff, briefing, hash } = result;
+  return { diffSet, rawDiff, briefing: briefing!, hash };
+}
+
 function stopSessionWatcher(sessionId: string): void {
   const poller = sessionWatchers.get(sessionId);
   if (poller) {
@@ -263,7 +595,7 @@ function stopSessionWatcher(sessionId: string): void {
 
 function startAllWatchers(): void {
   for (const [id, session] of sessions.entries()) {
-    if (session.diffRef && !sessionWatchers.has(id)) {
+    if ((session.diffRef || session.payload.metadata.githubPr) && !sessionWatchers.has(id)) {
       startSessionWatcher(id);
     }
   }
@@ -276,6 +608,295 @@ function stopAllWatchers(): void {
   sessionWatchers.clear();
 }
 
+// ─── Reviewer state ───
+
+const FILE_REVIEW_STATUSES: FileReviewStatus[] = ["unreviewed", "reviewed", "approved", "needs_changes"];
+
+function reviewerStateOf(session: Session): ReviewerState {
+  return {
+    fileStatuses: {},
+    selectedFile: null,
+    draftComment: null,
+    updatedAt: session.createdAt,
+    ...session.reviewerProgress,
+    comments: session.comments,
+  };
+}
+
+/**
+ * Tell every tab viewing a session about its reviewer state. `origin` lets
+ * the tab that made the change skip its own echo.
+ */
+function broadcastReviewerState(session: Session, origin?: string): void {
+  sendToSessionClients(session.id, {
+    type: "reviewer:state",
+    payload: { sessionId: session.id, state: reviewerStateOf(session), origin },
+  });
+}
+
+/**
+ * Viewers reset changed files to unreviewed when the diff moves, so drop
+ * the held statuses of changed and removed files too.
+ */
+function forgetChangedFileStatuses(session: Session, update: DiffUpdatePayload): void {
+  const progress = session.reviewerProgress;
+  if (!progress) return;
+
+  const changed = new Set(update.changedFiles);
+  const present = new Set(update.diffSet.files.map(fileKey));
+  const fileStatuses: Record<string, FileReviewStatus> = {};
+  for (const [key, status] of Object.entries(progress.fileStatuses)) {
+    if (present.has(key) && !changed.has(key)) fileStatuses[key] = status;
+  }
+  session.reviewerProgress = { ...progress, fileStatuses };
+}
+
+function isValidReviewerUpdate(update: ReviewerStateUpdate): boolean {
+  if (typeof update !== "object" || update === null) return false;
+  if (update.fileStatuses !== undefined) {
+    if (typeof update.fileStatuses !== "object" || update.fileStatuses === null) return false;
+    if (!Object.values(update.fileStatuses).every((s) => FILE_REVIEW_STATUSES.includes(s))) {
+      return false;
+    }
+  }
+  if (update.selectedFile !== undefined && update.selectedFile !== null && typeof update.selectedFile !== "string") {
+    return false;
+  }
+  const draft = update.draftComment;
+  if (draft !== undefined && draft !== null) {
+    if (typeof draft.file !== "string" || typeof draft.line !== "number" || typeof draft.body !== "string") {
+      return false;
+    }
+  }
+  return true;
+}
+
+// ─── Verification ───
+
+function publishVerification(sessionId: string, run: VerificationRun): void {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+
+  session.verification = run;
+  session.payload = {
+    ...session.payload,
+    briefing: applyVerification(session.payload.briefing, run),
+  };
+  sendToSessionClients(sessionId, {
+    type: "verification:update",
+    payload: { sessionId, run, briefingVerification: session.payload.briefing.verification },
+  });
+  persistSessions();
+}
+
+function startVerification(
+  session: Session,
+  checks?: VerificationCheckName[],
+): VerificationRun {
+  const sessionId = session.id;
+  const handle = runVerification({
+    cwd: session.projectPath,
+    commands: resolveVerificationCommands(session.projectPath),
+    checks,
+    onUpdate: (run) => publishVerification(sessionId, run),
+  });
+  verificationHandles.set(sessionId, handle);
+  handle.done.then(() => {
+    if (verificationHandles.get(sessionId) === handle) {
+      verificationHandles.delete(sessionId);
+    }
+  });
+  publishVerification(sessionId, handle.run);
+  return handle.run;
+}
+
+function cancelVerification(sessionId: string): void {
+  verificationHandles.get(sessionId)?.cancel();
+  verificationHandles.delete(sessionId);
+}
+
+/**
+ * Results no longer describe the code once the diff moves on — flag them
+ * so the UI and agents know to re-run.
+ */
+function markVerificationStale(session: Session): void {
+  if (!session.verification || session.verification.stale) return;
+  session.verification.stale = true;
+  publishVerification(session.id, session.verification);
+}
+
+function sendVerificationState(ws: WebSocket, session: Session): void {
+  if (!session.verification) return;
+  ws.send(JSON.stringify({
+    type: "verification:update",
+    payload: {
+      sessionId: session.id,
+      run: session.verification,
+      briefingVerification: applyVerification(session.payload.briefing, session.verification).verification,
+    },
+  } satisfies ServerMessage));
+}
+
+// ─── Post-review actions ───
+
+/**
+ * Commit (and optionally open a PR for) an approved local review when the
+ * reviewer asked for it and the server was started with
+ * executePostReviewActions. Progress is published on the session summary.
+ */
+function maybeRunPostReviewAction(session: Session, result: ReviewResult): void {
+  if (!executePostReviewActions || !result.postReviewAction) return;
+  if (result.decision !== "approved" && result.decision !== "approved_with_comments") return;
+  if (!session.diffRef || isRemoteProject(session.projectPath)) return;
+
+  const sessionId = session.id;
+  void executePostReviewAction({
+    cwd: session.projectPath,
+    action: result.postReviewAction,
+    diffRef: session.diffRef,
+    diffSet: session.payload.diffSet,
+    title: session.payload.metadata.title,
+    summary: result.summary,
+    onUpdate: (run) => {
+      const current = sessions.get(sessionId);
+      // The session was re-opened for a new review in the meantime
+      if (!current || current.result !== result) return;
+      current.postReviewAction = run;
+      persistSessions();
+      broadcastSessionUpdate(current);
+    },
+  });
+}
+
+/**
+ * Post a submitted PR review back to the PR when the reviewer ticked
+ * "Post to GitHub". Progress is published on the session summary.
+ */
+function maybePostReviewToPr(session: Session, result: ReviewResult): void {
+  const pr = session.payload.metadata.githubPr;
+  if (!result.postToGithub || !pr || result.decision === "dismissed") return;
+
+  const update = (run: PrReviewPostRun): void => {
+    const current = sessions.get(session.id);
+    // The session was re-opened for a new review in the meantime
+    if (!current || current.result !== result) return;
+    current.prReviewPost = run;
+    persistSessions();
+    broadcastSessionUpdate(current);
+  };
+
+  const startedAt = Date.now();
+  update({ status: "running", startedAt });
+  void (async () => {
+    try {
+      // Dynamic import to keep core lightweight
+      const github = await import("@diffprism/github");
+      const provider = github.findProvider(pr.url);
+      if (!provider) {
+        throw new Error(`No provider recognizes ${pr.url}`);
+      }
+      const posted = await provider.connect(provider.parseRef(pr.url)).submitReview(result);
+      update({ status: "succeeded", startedAt, finishedAt: Date.now(), reviewId: posted?.reviewId });
+    } catch (err) {
+      update({
+        status: "failed",
+        startedAt,
+        finishedAt: Date.now(),
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  })();
+}
+
+// ─── Threads ───
+
+/**
+ * Find the annotation or human comment a reply is addressed to.
+ */
+function findThreadTarget(
+  session: Session,
+  targetId: string,
+): Annotation | ReviewComment | undefined {
+  return (
+    session.annotations.find((a) => a.id === targetId) ??
+    session.comments.find((c) => c.id === targetId)
+  );
+}
+
+function collectReplies(session: Session): ThreadReply[] {
+  const replies: ThreadReply[] = [];
+  for (const target of [...session.annotations, ...session.comments]) {
+    replies.push(...(target.replies ?? []));
+  }
+  return replies.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// ─── GitHub threads ───
+
+type GitHubModule = typeof import("@diffprism/github");
+
+interface GitHubConnection {
+  github: GitHubModule;
+  client: ReturnType<GitHubModule["createGitHubClient"]>;
+  pr: GitHubPrMetadata;
+}
+
+/**
+ * Authenticate against GitHub for a PR session. Returns an HTTP status and
+ * message instead when the session is not a PR review or no token is set up.
+ */
+async function connectGitHub(
+  session: Session,
+): Promise<GitHubConnection | { status: number; error: string }> {
+  const pr = session.payload.metadata.githubPr;
+  if (!pr || pr.provider === "gitlab") {
+    return { status: 400, error: "Session is not a GitHub PR review" };
+  }
+
+  // Dynamic import to keep core lightweight
+  const github = await import("@diffprism/github");
+  try {
+    const client = github.createGitHubClient(github.resolveGitHubToken(pr.host), github.resolveGitHubApiUrl(pr.host));
+    return { github, client, pr };
+  } catch (err) {
+    return { status: 401, error: err instanceof Error ? err.message : "GitHub token not found" };
+  }
+}
+
+function findGitHubComment(
+  session: Session,
+  commentId: string,
+): { thread: GitHubReviewThread; comment: GitHubThreadComment } | undefined {
+  for (const thread of session.payload.githubThreads ?? []) {
+    const comment = thread.comments.find((c) => c.id === commentId);
+    if (comment) return { thread, comment };
+  }
+  return undefined;
+}
+
+/**
+ * Replace the session's GitHub threads after a change made through the API
+ * and push them to viewing clients.
+ */
+function publishGitHubThreads(session: Session, threads: GitHubReviewThread[]): void {
+  session.payload = { ...session.payload, githubThreads: threads };
+  persistSessions();
+  sendToSessionClients(session.id, { type: "github:threads", payload: threads });
+}
+
+function updateGitHubThread(
+  session: Session,
+  threadId: string,
+  update: (thread: GitHubReviewThread) => GitHubReviewThread | null,
+): void {
+  const threads: GitHubReviewThread[] = [];
+  for (const thread of session.payload.githubThreads ?? []) {
+    const updated = thread.id === threadId ? update(thread) : thread;
+    if (updated) threads.push(updated);
+  }
+  publishGitHubThreads(session, threads);
+}
+
 function hasConnectedClients(): boolean {
   if (!wss) return false;
   for (const client of wss.clients) {
@@ -290,8 +911,10 @@ function broadcastSessionList(): void {
 }
 
 function recordReviewHistory(session: Session, result: ReviewResult): void {
-  // Skip history for non-filesystem paths (e.g. github: prefixed paths)
-  if (session.projectPath.startsWith("github:")) return;
+  // Without a local clone, history only serves to remember a GitHub PR's reviewed commit
+  const githubPr = session.payload.metadata.githubPr;
+  const pr = githubPr?.provider === "gitlab" ? undefined : githubPr;
+  if (isRemoteProject(session.projectPath) && !pr?.headSha) return;
 
   try {
     const { payload } = session;
@@ -307,15 +930,253 @@ function recordReviewHistory(session: Session, result: ReviewResult): void {
       branch: payload.metadata.currentBranch,
       title: payload.metadata.title,
       summary: result.summary ?? payload.briefing.summary,
+      // Remembered so the next review of the PR can start from this commit
+      pr: pr?.headSha
+        ? { host: pr.host, owner: pr.owner, repo: pr.repo, number: pr.number, headSha: pr.headSha }
+        : undefined,
     };
-    appendHistory(session.projectPath, entry);
+    appendHistory(resolveHistoryDir(session.projectPath), entry);
   } catch {
     // History recording is best-effort — don't fail the review
   }
+  rememberLocalClone(session.projectPath);
+}
+
+// ─── PR diff modes ───
+
+const PR_DIFF_MODES: PrDiffMode[] = ["full", "since_last_review"];
+
+/**
+ * Fetch a PR's diff in a mode: the whole PR, or the commits pushed since
+ * `pr.lastReviewedSha` — from the local clone when it has both commits,
+ * else through GitHub's compare API.
+ */
+async function fetchPrDiff(
+  connection: GitHubConnection,
+  projectPath: string,
+  mode: PrDiffMode,
+): Promise<{ diffSet: DiffSet; rawDiff: string; briefing: ReviewBriefing }> {
+  const { github, client, pr } = connection;
+  if (mode === "full" || !pr.lastReviewedSha || !pr.headSha) {
+    const rawDiff = await github.fetchPullRequestDiff(client, pr.owner, pr.repo, pr.number);
+    const diffSet = parseDiff(rawDiff, pr.baseBranch, pr.headBranch);
+    return { diffSet, rawDiff, briefing: analyze(diffSet) };
+  }
+
+  const labels = { baseRef: pr.lastReviewedSha.slice(0, 7), headRef: pr.headSha.slice(0, 7) };
+  if (!isRemoteProject(projectPath)) {
+    try {
+      const { diffSet, rawDiff, briefing } = await computeSessionDiff(
+        `${pr.lastReviewedSha}...${pr.headSha}`,
+        projectPath,
+      );
+      return { diffSet: { ...diffSet, ...labels }, rawDiff, briefing };
+    } catch {
+      // The clone may not have fetched these commits — ask GitHub instead
+    }
+  }
+
+  const rawDiff = await github.fetchCompareDiff(client, pr.owner, pr.repo, pr.lastReviewedSha, pr.headSha);
+  const diffSet = parseDiff(rawDiff, labels.baseRef, labels.headRef);
+  return { diffSet, rawDiff, briefing: analyze(diffSet) };
+}
+
+/**
+ * Bring a PR session up to date after new commits were pushed: refetch its
+ * diff in the session's mode, move annotations along with their lines, and
+ * push the change to viewers like a local diff change.
+ */
+async function applyPrPush(sessionId: string, latest: PrMetadata): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+  const connection = await connectGitHub(session);
+  if ("error" in connection) throw new Error(connection.error);
+
+  const { github, client } = connection;
+  const githubPr: GitHubPrMetadata = {
+    ...connection.pr,
+    title: latest.title,
+    baseBranch: latest.baseBranch,
+    headBranch: latest.headBranch,
+    headSha: latest.headSha,
+  };
+
+  let diff: { diffSet: DiffSet; rawDiff: string; briefing: ReviewBriefing };
+  if (githubPr.diffMode === "since_last_review") {
+    diff = await fetchPrDiff({ github, client, pr: githubPr }, session.projectPath, "since_last_review");
+  } else {
+    const rawDiff = await github.fetchPullRequestDiff(client, githubPr.owner, githubPr.repo, githubPr.number);
+    const { diffSet, briefing } = github.normalizePr(rawDiff, latest);
+    diff = { diffSet, rawDiff, briefing };
+  }
+
+  const threads = await github
+    .fetchReviewThreads(client, githubPr.owner, githubPr.repo, githubPr.number)
+    .catch(() => session.payload.githubThreads ?? []);
+
+  if (session.prWorktree) {
+    try {
+      const source = await prGitSource(githubPr);
+      if (source) await updatePrWorktree(session.prWorktree, source);
+    } catch {
+      // The worktree lags behind until the next push — the diff is still current
+    }
+  }
+
+  // The session may have been removed while GitHub was answering
+  if (sessions.get(sessionId) !== session) return;
+
+  const previous = session.payload;
+  session.payload = {
+    ...session.payload,
+    ...diff,
+    metadata: { ...session.payload.metadata, githubPr },
+    githubThreads: threads,
+  };
+
+  for (const annotation of reanchorAnnotations(session.annotations, previous.diffSet, diff.diffSet)) {
+    sendToSessionClients(sessionId, { type: "annotation:updated", payload: annotation });
+  }
+  markVerificationStale(session);
+  sendDiffUpdate(session, previous, {
+    ...diff,
+    changedFiles: detectChangedFiles(previous.diffSet, diff.diffSet),
+    timestamp: Date.now(),
+  });
+  sendToSessionClients(sessionId, { type: "github:threads", payload: threads });
+
+  if (hasViewersForSession(sessionId)) {
+    session.hasNewChanges = false;
+  } else {
+    session.hasNewChanges = true;
+    broadcastSessionList();
+  }
+  persistSessions();
+}
+
+// ─── PR worktrees ───
+
+/**
+ * Where git can fetch a PR session's head from, or null when no provider
+ * recognizes its URL (e.g. an Enterprise host that was removed from config).
+ */
+async function prGitSource(pr: GitHubPrMetadata): Promise<PrGitSource | null> {
+  // Dynamic import to keep core lightweight
+  const github = await import("@diffprism/github");
+  const provider = github.findProvider(pr.url);
+  if (!provider) return null;
+  return { ...provider.gitSource(provider.parseRef(pr.url)), baseBranch: pr.baseBranch };
+}
+
+/**
+ * Check a PR session out into its own worktree and make that the session's
+ * project, so file context, refs and compare work as for a local clone.
+ */
+async function attachPrWorktree(session: Session): Promise<string> {
+  const pr = session.payload.metadata.githubPr;
+  const source = pr ? await prGitSource(pr) : null;
+  if (!pr || !source) {
+    throw new Error("Session is not a PR review");
+  }
+
+  const worktreePath = await checkoutPrWorktree(session.id, pr.repo.split("/").pop()!, source);
+  // The session may have been closed while git was fetching
+  if (sessions.get(session.id) !== session) {
+    removePrWorktree(worktreePath);
+    throw new Error("Session was closed");
+  }
+
+  session.projectPath = worktreePath;
+  session.prWorktree = worktreePath;
+  persistSessions();
+  return worktreePath;
+}
+
+function releasePrWorktree(session: PersistedSession): void {
+  if (!session.prWorktree) return;
+  try {
+    removePrWorktree(session.prWorktree);
+  } catch {
+    // Cleanup is best-effort — a leftover directory is harmless
+  }
+}
+
+// ─── Review rounds ───
+
+/**
+ * The local repo and ref a session's diff comes from, or undefined for
+ * PR reviews and sessions without a diff ref.
+ */
+function roundSource(session: Session): RoundSource | undefined {
+  if (!session.diffRef || isRemoteProject(session.projectPath)) return undefined;
+  return { cwd: session.projectPath, diffRef: session.diffRef };
+}
+
+/**
+ * Record a changes_requested submission as the session's next round. The
+ * round is visible right away; its snapshot is filled in once git is done.
+ */
+async function recordReviewRound(session: Session, result: ReviewResult): Promise<void> {
+  if (result.decision !== "changes_requested") return;
+
+  const rounds = session.rounds ?? [];
+  const round: ReviewRound = {
+    number: (rounds[rounds.length - 1]?.number ?? 0) + 1,
+    submittedAt: Date.now(),
+    diffSet: session.payload.diffSet,
+    rawDiff: session.payload.rawDiff,
+    comments: result.comments,
+    summary: result.summary,
+  };
+  session.rounds = [...rounds, round].slice(-MAX_REVIEW_ROUNDS);
+  broadcastReviewRounds(session);
+
+  const source = roundSource(session);
+  if (source) {
+    round.snapshot = await snapshotRound(source);
+  }
+  persistSessions();
+}
+
+function broadcastReviewRounds(session: Session): void {
+  sendToSessionClients(session.id, {
+    type: "review:rounds",
+    payload: { sessionId: session.id, rounds: (session.rounds ?? []).map(summarizeRound) },
+  });
 }
 
 // ─── Helpers ───
 
+const HUNK_ACTIONS: HunkAction[] = ["stage", "unstage", "discard"];
+
+/**
+ * PRs opened without a local clone get a "<provider>:owner/repo#123"
+ * project path instead of a directory.
+ */
+function isRemoteProject(projectPath: string): boolean {
+  return /^(github|gitlab):/.test(projectPath);
+}
+
+function isPrWorktree(projectPath: string): boolean {
+  return projectPath.startsWith(`${getWorktreesDir()}/`);
+}
+
+/**
+ * Add a project to the registry of local clones PRs are matched against.
+ */
+function rememberLocalClone(projectPath: string): void {
+  if (isRemoteProject(projectPath) || isPrWorktree(projectPath)) return;
+  // Register the repository root, so reviews started from subdirectories
+  // of one clone share its entry
+  const root = findRepoRoot(projectPath);
+  if (!root) return;
+  try {
+    registerRepo(root);
+  } catch {
+    // The registry is a convenience — never fail a review over it
+  }
+}
+
 function isInsideGitRepo(dirPath: string): boolean {
   let current = dirPath;
   while (current !== "/") {
@@ -336,10 +1197,18 @@ async function handleApiRequest(
   const method = req.method ?? "GET";
   const url = (req.url ?? "/").split("?")[0];
 
-  // CORS
-  res.setHeader("Access-Control-Allow-Origin", "*");
+  // CORS — only the server's own UI may call the API from a browser
+  const origin = req.headers.origin;
+  if (!isAllowedOrigin(origin)) {
+    jsonResponse(res, 403, { error: "Origin not allowed" });
+    return true;
+  }
+  if (origin) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Vary", "Origin");
+  }
   res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
 
   if (method === "OPTIONS") {
     res.writeHead(204);
@@ -352,6 +1221,11 @@ async function handleApiRequest(
     return false;
   }
 
+  if (!isValidToken(bearerToken(req))) {
+    jsonResponse(res, 401, { error: "Missing or invalid API token" });
+    return true;
+  }
+
   // GET /api/status
   if (method === "GET" && url === "/api/status") {
     jsonResponse(res, 200, {
@@ -404,8 +1278,15 @@ async function handleApiRequest(
         existingSession.diffRef = diffRef;
         existingSession.lastDiffHash = diffRef ? hashDiff(payload.rawDiff) : undefined;
         existingSession.lastDiffSet = diffRef ? payload.diffSet : undefined;
+        existingSession.diffSeq = (existingSession.diffSeq ?? 0) + 1;
         existingSession.hasNewChanges = false;
         existingSession.annotations = [];
+        existingSession.comments = [];
+        existingSession.reviewerProgress = undefined;
+        cancelVerification(sessionId);
+        existingSession.verification = undefined;
+        existingSession.postReviewAction = undefined;
+        existingSession.prReviewPost = undefined;
 
         // Restart watcher immediately (watches regardless of connected UI clients)
         if (diffRef) {
@@ -414,14 +1295,12 @@ async function handleApiRequest(
 
         // If a UI client is viewing this session, send fresh data
         if (hasViewersForSession(sessionId)) {
-          sendToSessionClients(sessionId, {
-            type: "review:init",
-            payload,
-          });
+          sendToSessionClients(sessionId, reviewInitMessage(existingSession));
         }
 
         // Broadcast update (not added)
         broadcastSessionUpdate(existingSession);
+        persistSessions();
 
         // Re-open browser if no UI clients are connected
         reopenBrowserIfNeeded?.();
@@ -449,9 +1328,12 @@ async function handleApiRequest(
           lastDiffSet: diffRef ? payload.diffSet : undefined,
           hasNewChanges: false,
           annotations: [],
+          comments: [],
         };
 
         sessions.set(sessionId, session);
+        persistSessions();
+        rememberLocalClone(projectPath);
 
         // Start watcher immediately (watches regardless of connected UI clients)
         if (diffRef) {
@@ -504,7 +1386,7 @@ async function handleApiRequest(
       // Compute diff (throws if not a git repo)
       let diffResult;
       try {
-        diffResult = getDiff(diffRef, { cwd: projectPath });
+        diffResult = await computeSessionDiff(diffRef, projectPath);
       } catch (err) {
         jsonResponse(res, 400, {
           error: err instanceof Error ? err.message : "Not a git repository",
@@ -512,8 +1394,7 @@ async function handleApiRequest(
         return true;
       }
 
-      const { diffSet, rawDiff } = diffResult;
-      const briefing = analyze(diffSet);
+      const { diffSet, rawDiff, briefing } = diffResult;
       let currentBranch: string | undefined;
       try {
         currentBranch = getCurrentBranch({ cwd: projectPath });
@@ -545,13 +1426,16 @@ async function handleApiRequest(
         createdAt: Date.now(),
         result: null,
         diffRef,
-        lastDiffHash: hashDiff(rawDiff),
+        lastDiffHash: diffResult.hash,
         lastDiffSet: diffSet,
         hasNewChanges: false,
         annotations: [],
+        comments: [],
       };
 
       sessions.set(sessionId, session);
+      persistSessions();
+      rememberLocalClone(projectPath);
       startSessionWatcher(sessionId);
 
       broadcastToAll({
@@ -566,11 +1450,15 @@ async function handleApiRequest(
     return true;
   }
 
-  // POST /api/pr/open — open a GitHub PR as a review session
+  // POST /api/pr/open — open a GitHub PR or GitLab merge request as a review session
   if (method === "POST" && url === "/api/pr/open") {
     try {
       const body = await readBody(req);
-      const { prUrl } = JSON.parse(body) as { prUrl: string };
+      const { prUrl, sinceLastReview, checkout } = JSON.parse(body) as {
+        prUrl: string;
+        sinceLastReview?: boolean;
+        checkout?: boolean; // check the PR out into a worktree when no local clone matches
+      };
 
       if (!prUrl) {
         jsonResponse(res, 400, { error: "Missing prUrl" });
@@ -578,58 +1466,62 @@ async function handleApiRequest(
       }
 
       // Dynamic import to keep core lightweight
-      const {
-        isPrRef,
-        parsePrRef,
-        resolveGitHubToken,
-        createGitHubClient,
-        fetchPullRequest,
-        fetchPullRequestDiff,
-        normalizePr,
-      } = await import("@diffprism/github");
-
-      if (!isPrRef(prUrl)) {
+      const github = await import("@diffprism/github");
+      const provider = github.findProvider(prUrl);
+      if (!provider) {
         jsonResponse(res, 400, {
-          error: "Invalid PR URL. Expected https://github.com/owner/repo/pull/123 or owner/repo#123",
+          error:
+            "Invalid PR URL. Expected https://github.com/owner/repo/pull/123, owner/repo#123, " +
+            "or https://gitlab.example.com/group/project/-/merge_requests/123",
         });
         return true;
       }
 
-      let token: string;
+      const ref = provider.parseRef(prUrl);
+      let connection: ReturnType<typeof provider.connect>;
       try {
-        token = resolveGitHubToken();
+        connection = provider.connect(ref);
       } catch (err) {
         jsonResponse(res, 401, {
-          error: err instanceof Error ? err.message : "GitHub token not found",
+          error: err instanceof Error ? err.message : `${provider.name} token not found`,
         });
         return true;
       }
 
-      const { owner, repo, number: prNumber } = parsePrRef(prUrl);
-      const client = createGitHubClient(token);
-
-      const [prMetadata, rawDiff] = await Promise.all([
-        fetchPullRequest(client, owner, repo, prNumber),
-        fetchPullRequestDiff(client, owner, repo, prNumber),
+      const { host, owner, repo, number: prNumber } = ref;
+      const [prMetadata, rawDiff, githubThreads] = await Promise.all([
+        connection.fetchPullRequest(),
+        connection.fetchDiff(),
+        // Existing discussion is nice to have — never fail the open over it
+        connection.fetchReviewThreads?.().catch(() => []) ?? [],
       ]);
 
-      const normalized = normalizePr(rawDiff, prMetadata);
-
-      // Auto-detect local repo by checking git remotes in cwd
-      let localRepoPath: string | null = null;
-      try {
-        const { execSync } = await import("node:child_process");
-        const remoteOutput = execSync("git remote -v", {
-          cwd: process.cwd(),
-          encoding: "utf-8",
-          stdio: ["pipe", "pipe", "pipe"],
-        });
-        const repoPattern = new RegExp(`github\\.com[:/]${owner}/${repo}(\\.git)?\\s`, "i");
-        if (repoPattern.test(remoteOutput)) {
-          localRepoPath = process.cwd();
+      const normalized = github.normalizePr(rawDiff, prMetadata);
+      normalized.payload.githubThreads = githubThreads;
+
+      // Auto-detect local repo by checking git remotes in cwd and every known clone
+      const localRepoPath =
+        [process.cwd(), ...readRepoRegistry()].find((dir) => github.isLocalClone(provider, ref, dir)) ?? null;
+
+      const projectPath = localRepoPath ?? `${provider.kind}:${owner}/${repo}#${prNumber}`;
+
+      // Offer to review only what was pushed since the reviewer's last review
+      const githubPr = normalized.metadata.githubPr!;
+      const lastReviewedSha =
+        provider.kind === "github"
+          ? findLastPrReview(resolveHistoryDir(projectPath), { host, owner, repo, number: prNumber })?.pr?.headSha
+          : undefined;
+      if (lastReviewedSha && lastReviewedSha !== githubPr.headSha) {
+        githubPr.lastReviewedSha = lastReviewedSha;
+        if (sinceLastReview) {
+          const client = github.createGitHubClient(
+            github.resolveGitHubToken(githubPr.host),
+            github.resolveGitHubApiUrl(githubPr.host),
+          );
+          const diff = await fetchPrDiff({ github, client, pr: githubPr }, projectPath, "since_last_review");
+          Object.assign(normalized.payload, diff);
+          githubPr.diffMode = "since_last_review";
         }
-      } catch {
-        // Not in a git repo or git not available — no local context
       }
 
       const sessionId = `session-${randomUUID().slice(0, 8)}`;
@@ -638,16 +1530,31 @@ async function handleApiRequest(
       const session: Session = {
         id: sessionId,
         payload: normalized.payload,
-        projectPath: localRepoPath ?? `github:${owner}/${repo}#${prNumber}`,
+        projectPath,
         source: "manual",
         status: "pending",
         createdAt: Date.now(),
         result: null,
         hasNewChanges: false,
         annotations: [],
+        comments: [],
       };
 
       sessions.set(sessionId, session);
+      persistSessions();
+
+      // A failed checkout still leaves a usable (remote) session
+      let worktreePath: string | null = null;
+      let checkoutError: string | undefined;
+      if (checkout && !localRepoPath) {
+        try {
+          worktreePath = await attachPrWorktree(session);
+        } catch (err) {
+          checkoutError = err instanceof Error ? err.message : "Failed to check out PR";
+        }
+      }
+
+      startSessionWatcher(sessionId);
 
       broadcastToAll({
         type: "session:added",
@@ -656,15 +1563,20 @@ async function handleApiRequest(
 
       jsonResponse(res, 201, {
         sessionId,
-        fileCount: normalized.diffSet.files.length,
+        fileCount: normalized.payload.diffSet.files.length,
         localRepoPath,
+        worktreePath,
+        ...(checkoutError && { checkoutError }),
         pr: {
           title: prMetadata.title,
           author: prMetadata.author,
           url: prMetadata.url,
           baseBranch: prMetadata.baseBranch,
           headBranch: prMetadata.headBranch,
+          headSha: prMetadata.headSha,
+          lastReviewedSha: githubPr.lastReviewedSha ?? null,
         },
+        diffMode: githubPr.diffMode ?? "full",
       });
     } catch (err) {
       jsonResponse(res, 500, {
@@ -674,6 +1586,81 @@ async function handleApiRequest(
     return true;
   }
 
+  // GET /api/inbox?cwd=<dir> — PRs awaiting review, own PRs with new activity,
+  // and PRs in repos with a local clone (the server's cwd, `cwd`, open projects and registered clones)
+  if (method === "GET" && url === "/api/inbox") {
+    const cwd = new URL(req.url ?? "/", "http://localhost").searchParams.get("cwd");
+    const dirs = new Set([process.cwd(), ...readRepoRegistry()]);
+    if (cwd) dirs.add(cwd);
+    for (const session of sessions.values()) {
+      if (!isRemoteProject(session.projectPath)) dirs.add(session.projectPath);
+    }
+
+    try {
+      // Dynamic import to keep core lightweight
+      const github = await import("@diffprism/github");
+      const inbox = await github.loadReviewInbox({ repos: github.findLocalRepos([...dirs]) });
+      jsonResponse(res, 200, inbox);
+    } catch (err) {
+      jsonResponse(res, 500, {
+        error: err instanceof Error ? err.message : "Failed to load inbox",
+      });
+    }
+    return true;
+  }
+
+  // GET /api/repos — local clones PRs are matched against
+  if (method === "GET" && url === "/api/repos") {
+    const repos = readRepoRegistry().map((repoPath) => ({ path: repoPath, exists: fs.existsSync(repoPath) }));
+    jsonResponse(res, 200, { repos });
+    return true;
+  }
+
+  // POST /api/repos — register the git checkout containing `path`
+  if (method === "POST" && url === "/api/repos") {
+    try {
+      const body = await readBody(req);
+      const { path: repoPath } = JSON.parse(body) as { path: string };
+
+      if (!repoPath) {
+        jsonResponse(res, 400, { error: "Missing path" });
+        return true;
+      }
+
+      const root = findRepoRoot(repoPath);
+      if (!root) {
+        jsonResponse(res, 400, { error: `Not a git repository: ${repoPath}` });
+        return true;
+      }
+      if (isPrWorktree(root)) {
+        jsonResponse(res, 400, { error: "PR worktrees are managed by DiffPrism" });
+        return true;
+      }
+
+      const added = registerRepo(root);
+      jsonResponse(res, added ? 201 : 200, { path: root, added });
+    } catch {
+      jsonResponse(res, 400, { error: "Invalid request body" });
+    }
+    return true;
+  }
+
+  // DELETE /api/repos?path=<dir> — forget a registered clone
+  if (method === "DELETE" && url === "/api/repos") {
+    const repoPath = new URL(req.url ?? "/", "http://localhost").searchParams.get("path");
+    if (!repoPath) {
+      jsonResponse(res, 400, { error: "Missing path" });
+      return true;
+    }
+
+    if (!unregisterRepo(repoPath)) {
+      jsonResponse(res, 404, { error: "Repository not registered" });
+      return true;
+    }
+    jsonResponse(res, 200, { ok: true });
+    return true;
+  }
+
   // GET /api/fs/list?path=<dir> — list directory contents for the path picker
   if (method === "GET" && req.url) {
     const parsedUrl = new URL(req.url, "http://localhost");
@@ -771,6 +1758,10 @@ async function handleApiRequest(
       session.result = result;
       session.status = "submitted";
       recordReviewHistory(session, result);
+      void recordReviewRound(session, result);
+      maybeRunPostReviewAction(session, result);
+      maybePostReviewToPr(session, result);
+      persistSessions();
       if (result.decision === "dismissed") {
         broadcastSessionRemoved(postResultParams.id);
       } else {
@@ -794,7 +1785,11 @@ async function handleApiRequest(
     }
 
     if (session.result) {
-      jsonResponse(res, 200, { result: session.result, status: "submitted" });
+      jsonResponse(res, 200, {
+        result: session.result,
+        status: "submitted",
+        postReviewAction: session.postReviewAction ?? null,
+      });
     } else {
       jsonResponse(res, 200, { result: null, status: session.status });
     }
@@ -824,6 +1819,7 @@ async function handleApiRequest(
       if (contextPayload.description !== undefined) {
         session.payload.metadata.description = contextPayload.description;
       }
+      persistSessions();
 
       // Forward to UI clients watching this session
       sendToSessionClients(session.id, {
@@ -849,7 +1845,7 @@ async function handleApiRequest(
 
     try {
       const body = await readBody(req);
-      const { file, line, body: annotationBody, type, confidence, category, source } = JSON.parse(body) as {
+      const { file, line, body: annotationBody, type, confidence, category, source, suggestedChange } = JSON.parse(body) as {
         file: string;
         line: number;
         body: string;
@@ -857,8 +1853,23 @@ async function handleApiRequest(
         confidence?: number;
         category?: AnnotationCategory;
         source: AnnotationSource;
+        suggestedChange?: { startLine: number; endLine?: number; replacement: string };
       };
 
+      if (suggestedChange) {
+        const endLine = suggestedChange.endLine ?? suggestedChange.startLine;
+        if (
+          !Number.isInteger(suggestedChange.startLine) ||
+          !Number.isInteger(endLine) ||
+          suggestedChange.startLine < 1 ||
+          endLine < suggestedChange.startLine ||
+          typeof suggestedChange.replacement !== "string"
+        ) {
+          jsonResponse(res, 400, { error: "suggestedChange needs startLine <= endLine and a replacement" });
+          return true;
+        }
+      }
+
       const annotation: Annotation = {
         id: randomUUID(),
         sessionId: session.id,
@@ -872,7 +1883,21 @@ async function handleApiRequest(
         createdAt: Date.now(),
       };
 
+      if (suggestedChange) {
+        const endLine = suggestedChange.endLine ?? suggestedChange.startLine;
+        // Remember what is being replaced so a stale suggestion can't clobber later edits
+        annotation.suggestedChange = {
+          startLine: suggestedChange.startLine,
+          endLine,
+          replacement: suggestedChange.replacement,
+          original: isRemoteProject(session.projectPath)
+            ? null
+            : readLineRange(session.projectPath, file, suggestedChange.startLine, endLine),
+        };
+      }
+
       session.annotations.push(annotation);
+      persistSessions();
 
       // Broadcast to UI clients viewing this session
       sendToSessionClients(session.id, {
@@ -916,6 +1941,7 @@ async function handleApiRequest(
     }
 
     annotation.dismissed = true;
+    persistSessions();
 
     // Broadcast to UI clients viewing this session
     sendToSessionClients(dismissAnnotationParams.id, {
@@ -927,6 +1953,550 @@ async function handleApiRequest(
     return true;
   }
 
+  // POST /api/reviews/:id/annotations/:annotationId/apply — apply a suggested change
+  const applySuggestionParams = matchRoute(method, url, "POST", "/api/reviews/:id/annotations/:annotationId/apply");
+  if (applySuggestionParams) {
+    const session = sessions.get(applySuggestionParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    const annotation = session.annotations.find((a) => a.id === applySuggestionParams.annotationId);
+    if (!annotation) {
+      jsonResponse(res, 404, { error: "Annotation not found" });
+      return true;
+    }
+
+    const change = annotation.suggestedChange;
+    if (!change) {
+      jsonResponse(res, 400, { error: "Annotation has no suggested change" });
+      return true;
+    }
+
+    // Suggestions patch the working tree, which remote PR sessions don't have
+    if (isRemoteProject(session.projectPath)) {
+      jsonResponse(res, 400, { error: "Suggestions can only be applied to local projects" });
+      return true;
+    }
+
+    if (change.appliedAt) {
+      jsonResponse(res, 409, { error: "Suggestion already applied" });
+      return true;
+    }
+
+    try {
+      applySuggestedChange(session.projectPath, annotation.file, change);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      jsonResponse(res, 409, { error: message });
+      return true;
+    }
+
+    change.appliedAt = Date.now();
+    persistSessions();
+
+    sendToSessionClients(session.id, {
+      type: "annotation:updated",
+      payload: annotation,
+    });
+
+    refreshSessionDiff(session.id);
+
+    jsonResponse(res, 200, { annotation });
+    return true;
+  }
+
+  // POST /api/reviews/:id/hunks/:action — stage, unstage or discard a single hunk
+  const hunkActionParams = matchRoute(method, url, "POST", "/api/reviews/:id/hunks/:action");
+  if (hunkActionParams) {
+    const session = sessions.get(hunkActionParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    const action = hunkActionParams.action as HunkAction;
+    if (!HUNK_ACTIONS.includes(action)) {
+      jsonResponse(res, 404, { error: `Unknown hunk action: ${hunkActionParams.action}` });
+      return true;
+    }
+
+    // Only diffs of the index and working tree can be staged or discarded
+    const diffRef = session.diffRef;
+    if (diffRef !== "working-copy" && diffRef !== "staged" && diffRef !== "unstaged") {
+      jsonResponse(res, 400, { error: "Hunk actions are only available for staged, unstaged and working-copy reviews" });
+      return true;
+    }
+
+    try {
+      const body = await readBody(req);
+      const { file: filePath, stage, oldStart, newStart } = JSON.parse(body) as {
+        file: string;
+        stage?: "staged" | "unstaged";
+        oldStart: number;
+        newStart: number;
+      };
+
+      const file = session.payload.diffSet.files.find(
+        (f) => f.path === filePath && (!stage || !f.stage || f.stage === stage),
+      );
+      const hunk = file?.hunks.find((h) => h.oldStart === oldStart && h.newStart === newStart);
+      if (!file || !hunk) {
+        jsonResponse(res, 409, { error: "Hunk not found in the current diff — it may have changed" });
+        return true;
+      }
+
+      const fileStage = file.stage ?? (diffRef === "staged" ? "staged" : "unstaged");
+      if ((fileStage === "staged") !== (action === "unstage")) {
+        jsonResponse(res, 400, { error: `Cannot ${action} a ${fileStage} hunk` });
+        return true;
+      }
+
+      try {
+        await applyHunk(file, hunk, action, { cwd: session.projectPath });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        jsonResponse(res, 409, { error: message });
+        return true;
+      }
+
+      refreshSessionDiff(session.id);
+      jsonResponse(res, 200, { ok: true });
+    } catch {
+      jsonResponse(res, 400, { error: "Invalid request body" });
+    }
+    return true;
+  }
+
+  // GET /api/reviews/:id/comments — list human inline comments
+  const getCommentsParams = matchRoute(method, url, "GET", "/api/reviews/:id/comments");
+  if (getCommentsParams) {
+    const session = sessions.get(getCommentsParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    jsonResponse(res, 200, {
+      comments: session.comments,
+      githubThreads: session.payload.githubThreads ?? [],
+    });
+    return true;
+  }
+
+  // POST /api/reviews/:id/comments — create or update a human inline comment
+  const postCommentParams = matchRoute(method, url, "POST", "/api/reviews/:id/comments");
+  if (postCommentParams) {
+    const session = sessions.get(postCommentParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    try {
+      const body = await readBody(req);
+      const { id, file, line, startLine, side, suggestion, body: commentBody, type, clientId } = JSON.parse(
+        body,
+      ) as ReviewComment & { clientId?: string };
+
+      if (!id || !file || typeof line !== "number" || typeof commentBody !== "string") {
+        jsonResponse(res, 400, { error: "Missing required fields: id, file, line, body" });
+        return true;
+      }
+      if (
+        (startLine !== undefined && (typeof startLine !== "number" || startLine > line)) ||
+        (side !== undefined && side !== "LEFT" && side !== "RIGHT") ||
+        (suggestion !== undefined && typeof suggestion !== "string")
+      ) {
+        jsonResponse(res, 400, { error: "Invalid startLine, side or suggestion" });
+        return true;
+      }
+
+      // Replies are owned by the server — keep the ones already recorded
+      const index = session.comments.findIndex((c) => c.id === id);
+      const existing = index >= 0 ? session.comments[index] : undefined;
+      const comment: ReviewComment = {
+        id,
+        file,
+        line,
+        startLine,
+        side,
+        suggestion,
+        body: commentBody,
+        type,
+        replies: existing?.replies ?? [],
+      };
+
+      if (index >= 0) {
+        session.comments[index] = comment;
+      } else {
+        session.comments.push(comment);
+      }
+      persistSessions();
+      // The sending tab already has the comment
+      broadcastReviewerState(session, clientId);
+
+      jsonResponse(res, 200, { commentId: id });
+    } catch {
+      jsonResponse(res, 400, { error: "Invalid request body" });
+    }
+    return true;
+  }
+
+  // DELETE /api/reviews/:id/comments/:commentId — remove a human inline comment
+  const deleteCommentParams = matchRoute(method, url, "DELETE", "/api/reviews/:id/comments/:commentId");
+  if (deleteCommentParams) {
+    const session = sessions.get(deleteCommentParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    session.comments = session.comments.filter((c) => c.id !== deleteCommentParams.commentId);
+    persistSessions();
+    broadcastReviewerState(session);
+
+    jsonResponse(res, 200, { ok: true });
+    return true;
+  }
+
+  // POST /api/reviews/:id/threads/:targetId/replies — reply to an annotation or comment
+  const postReplyParams = matchRoute(method, url, "POST", "/api/reviews/:id/threads/:targetId/replies");
+  if (postReplyParams) {
+    const session = sessions.get(postReplyParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    const target = findThreadTarget(session, postReplyParams.targetId);
+    if (!target) {
+      jsonResponse(res, 404, { error: "Thread not found" });
+      return true;
+    }
+
+    try {
+      const body = await readBody(req);
+      const { body: replyBody, author } = JSON.parse(body) as {
+        body: string;
+        author: ThreadAuthor;
+      };
+
+      if (typeof replyBody !== "string" || !replyBody.trim()) {
+        jsonResponse(res, 400, { error: "Missing required field: body" });
+        return true;
+      }
+      if (author?.kind !== "human" && author?.kind !== "agent") {
+        jsonResponse(res, 400, { error: "author.kind must be \"human\" or \"agent\"" });
+        return true;
+      }
+
+      const reply: ThreadReply = {
+        id: randomUUID(),
+        targetId: postReplyParams.targetId,
+        author: {
+          kind: author.kind,
+          name: author.name || (author.kind === "human" ? "reviewer" : "agent"),
+        },
+        body: replyBody,
+        createdAt: Date.now(),
+      };
+
+      target.replies = [...(target.replies ?? []), reply];
+      persistSessions();
+
+      sendToSessionClients(session.id, {
+        type: "thread:reply",
+        payload: reply,
+      });
+
+      jsonResponse(res, 201, { reply });
+    } catch {
+      jsonResponse(res, 400, { error: "Invalid request body" });
+    }
+    return true;
+  }
+
+  // GET /api/reviews/:id/replies?since=<ms>&author=<kind>&targetId=<id> — list thread replies
+  if (method === "GET" && req.url) {
+    const parsedUrl = new URL(req.url, "http://localhost");
+    const getRepliesParams = matchRoute(method, parsedUrl.pathname, "GET", "/api/reviews/:id/replies");
+    if (getRepliesParams) {
+      const session = sessions.get(getRepliesParams.id);
+      if (!session) {
+        jsonResponse(res, 404, { error: "Session not found" });
+        return true;
+      }
+
+      const since = Number(parsedUrl.searchParams.get("since") ?? 0) || 0;
+      const author = parsedUrl.searchParams.get("author");
+      const targetId = parsedUrl.searchParams.get("targetId");
+
+      const replies = collectReplies(session).filter(
+        (r) =>
+          r.createdAt > since &&
+          (!author || r.author.kind === author) &&
+          (!targetId || r.targetId === targetId),
+      );
+
+      jsonResponse(res, 200, { replies });
+      return true;
+    }
+  }
+
+  // POST /api/reviews/:id/github/threads/:threadId/replies — reply on an existing PR thread
+  const githubReplyParams = matchRoute(method, url, "POST", "/api/reviews/:id/github/threads/:threadId/replies");
+  if (githubReplyParams) {
+    const session = sessions.get(githubReplyParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    const thread = session.payload.githubThreads?.find((t) => t.id === githubReplyParams.threadId);
+    if (!thread || thread.comments.length === 0) {
+      jsonResponse(res, 404, { error: "GitHub thread not found" });
+      return true;
+    }
+
+    let replyBody: string;
+    try {
+      ({ body: replyBody } = JSON.parse(await readBody(req)) as { body: string });
+    } catch {
+      jsonResponse(res, 400, { error: "Invalid request body" });
+      return true;
+    }
+    if (typeof replyBody !== "string" || !replyBody.trim()) {
+      jsonResponse(res, 400, { error: "Missing required field: body" });
+      return true;
+    }
+
+    const connection = await connectGitHub(session);
+    if ("error" in connection) {
+      jsonResponse(res, connection.status, { error: connection.error });
+      return true;
+    }
+
+    try {
+      const { github, client, pr } = connection;
+      const comment = await github.replyToReviewComment(
+        client,
+        pr.owner,
+        pr.repo,
+        pr.number,
+        thread.comments[0].databaseId,
+        replyBody,
+      );
+      updateGitHubThread(session, thread.id, (t) => ({ ...t, comments: [...t.comments, comment] }));
+      jsonResponse(res, 201, { comment });
+    } catch (err) {
+      jsonResponse(res, 502, { error: err instanceof Error ? err.message : String(err) });
+    }
+    return true;
+  }
+
+  // POST /api/reviews/:id/github/threads/:threadId/resolve — resolve or unresolve a PR thread
+  const githubResolveParams = matchRoute(method, url, "POST", "/api/reviews/:id/github/threads/:threadId/resolve");
+  if (githubResolveParams) {
+    const session = sessions.get(githubResolveParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    const thread = session.payload.githubThreads?.find((t) => t.id === githubResolveParams.threadId);
+    if (!thread) {
+      jsonResponse(res, 404, { error: "GitHub thread not found" });
+      return true;
+    }
+
+    let resolved: boolean;
+    try {
+      const body = await readBody(req);
+      const parsed = (body ? JSON.parse(body) : {}) as { resolved?: boolean };
+      resolved = parsed.resolved ?? true;
+    } catch {
+      jsonResponse(res, 400, { error: "Invalid request body" });
+      return true;
+    }
+
+    const connection = await connectGitHub(session);
+    if ("error" in connection) {
+      jsonResponse(res, connection.status, { error: connection.error });
+      return true;
+    }
+
+    try {
+      const isResolved = await connection.github.setReviewThreadResolved(
+        connection.client,
+        thread.id,
+        resolved,
+      );
+      updateGitHubThread(session, thread.id, (t) => ({ ...t, isResolved }));
+      jsonResponse(res, 200, { isResolved });
+    } catch (err) {
+      jsonResponse(res, 502, { error: err instanceof Error ? err.message : String(err) });
+    }
+    return true;
+  }
+
+  // POST /api/reviews/:id/github/comments/:commentId — edit one of our own PR review comments
+  const githubEditParams = matchRoute(method, url, "POST", "/api/reviews/:id/github/comments/:commentId");
+  if (githubEditParams) {
+    const session = sessions.get(githubEditParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    const found = findGitHubComment(session, githubEditParams.commentId);
+    if (!found) {
+      jsonResponse(res, 404, { error: "GitHub comment not found" });
+      return true;
+    }
+    if (!found.comment.viewerDidAuthor) {
+      jsonResponse(res, 403, { error: "Only your own comments can be edited" });
+      return true;
+    }
+
+    let newBody: string;
+    try {
+      ({ body: newBody } = JSON.parse(await readBody(req)) as { body: string });
+    } catch {
+      jsonResponse(res, 400, { error: "Invalid request body" });
+      return true;
+    }
+    if (typeof newBody !== "string" || !newBody.trim()) {
+      jsonResponse(res, 400, { error: "Missing required field: body" });
+      return true;
+    }
+
+    const connection = await connectGitHub(session);
+    if ("error" in connection) {
+      jsonResponse(res, connection.status, { error: connection.error });
+      return true;
+    }
+
+    try {
+      const { github, client, pr } = connection;
+      await github.updateReviewComment(client, pr.owner, pr.repo, found.comment.databaseId, newBody);
+      updateGitHubThread(session, found.thread.id, (t) => ({
+        ...t,
+        comments: t.comments.map((c) => (c.id === found.comment.id ? { ...c, body: newBody } : c)),
+      }));
+      jsonResponse(res, 200, { ok: true });
+    } catch (err) {
+      jsonResponse(res, 502, { error: err instanceof Error ? err.message : String(err) });
+    }
+    return true;
+  }
+
+  // DELETE /api/reviews/:id/github/comments/:commentId — delete one of our own PR review comments
+  const githubDeleteParams = matchRoute(method, url, "DELETE", "/api/reviews/:id/github/comments/:commentId");
+  if (githubDeleteParams) {
+    const session = sessions.get(githubDeleteParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    const found = findGitHubComment(session, githubDeleteParams.commentId);
+    if (!found) {
+      jsonResponse(res, 404, { error: "GitHub comment not found" });
+      return true;
+    }
+    if (!found.comment.viewerDidAuthor) {
+      jsonResponse(res, 403, { error: "Only your own comments can be deleted" });
+      return true;
+    }
+
+    const connection = await connectGitHub(session);
+    if ("error" in connection) {
+      jsonResponse(res, connection.status, { error: connection.error });
+      return true;
+    }
+
+    try {
+      const { github, client, pr } = connection;
+      await github.deleteReviewComment(client, pr.owner, pr.repo, found.comment.databaseId);
+      // GitHub drops a thread along with its last comment
+      updateGitHubThread(session, found.thread.id, (t) => {
+        const comments = t.comments.filter((c) => c.id !== found.comment.id);
+        return comments.length > 0 ? { ...t, comments } : null;
+      });
+      jsonResponse(res, 200, { ok: true });
+    } catch (err) {
+      jsonResponse(res, 502, { error: err instanceof Error ? err.message : String(err) });
+    }
+    return true;
+  }
+
+  // POST /api/reviews/:id/pr-diff — switch a PR session between the full diff and the changes since the last review
+  const prDiffParams = matchRoute(method, url, "POST", "/api/reviews/:id/pr-diff");
+  if (prDiffParams) {
+    const session = sessions.get(prDiffParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    let mode: PrDiffMode;
+    try {
+      ({ mode } = JSON.parse(await readBody(req)) as { mode: PrDiffMode });
+    } catch {
+      jsonResponse(res, 400, { error: "Invalid request body" });
+      return true;
+    }
+    if (!PR_DIFF_MODES.includes(mode)) {
+      jsonResponse(res, 400, { error: `mode must be one of: ${PR_DIFF_MODES.join(", ")}` });
+      return true;
+    }
+
+    const connection = await connectGitHub(session);
+    if ("error" in connection) {
+      jsonResponse(res, connection.status, { error: connection.error });
+      return true;
+    }
+    if (mode === "since_last_review" && !connection.pr.lastReviewedSha) {
+      jsonResponse(res, 400, { error: "This PR has no earlier review to compare against" });
+      return true;
+    }
+
+    try {
+      const { github, client, pr } = connection;
+      // The author may have pushed again since the session was opened
+      const { headSha } = await github.fetchPullRequest(client, pr.owner, pr.repo, pr.number);
+      const githubPr: GitHubPrMetadata = { ...pr, headSha, diffMode: mode };
+      const diff = await fetchPrDiff({ github, client, pr: githubPr }, session.projectPath, mode);
+      // The session may have been closed while the diff was fetched
+      if (!sessions.has(session.id)) {
+        jsonResponse(res, 409, { error: "Session was closed while the diff was loading" });
+        return true;
+      }
+
+      session.payload = {
+        ...session.payload,
+        ...diff,
+        metadata: { ...session.payload.metadata, githubPr },
+      };
+      session.diffSeq = (session.diffSeq ?? 0) + 1;
+      persistSessions();
+      // Restart the PR watcher so it looks for pushes after this head
+      stopSessionWatcher(session.id);
+      startSessionWatcher(session.id);
+
+      // A different diff altogether — viewers start over from review:init
+      sendToSessionClients(session.id, reviewInitMessage(session));
+      broadcastSessionUpdate(session);
+
+      jsonResponse(res, 200, { diffMode: mode, headSha, fileCount: diff.diffSet.files.length });
+    } catch (err) {
+      jsonResponse(res, 502, { error: err instanceof Error ? err.message : String(err) });
+    }
+    return true;
+  }
+
   // POST /api/reviews/:id/focus — update user focus state
   const postFocusParams = matchRoute(method, url, "POST", "/api/reviews/:id/focus");
   if (postFocusParams) {
@@ -950,6 +2520,7 @@ async function handleApiRequest(
         lineEnd,
         updatedAt: Date.now(),
       };
+      persistSessions();
 
       jsonResponse(res, 200, { ok: true });
     } catch {
@@ -971,11 +2542,208 @@ async function handleApiRequest(
     return true;
   }
 
+  // GET /api/reviews/:id/state — in-progress reviewer state (statuses, selection, draft, comments)
+  const getStateParams = matchRoute(method, url, "GET", "/api/reviews/:id/state");
+  if (getStateParams) {
+    const session = sessions.get(getStateParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    jsonResponse(res, 200, reviewerStateOf(session));
+    return true;
+  }
+
+  // POST /api/reviews/:id/state — update reviewer progress and sync it to other tabs
+  const postStateParams = matchRoute(method, url, "POST", "/api/reviews/:id/state");
+  if (postStateParams) {
+    const session = sessions.get(postStateParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    try {
+      const body = await readBody(req);
+      const update = JSON.parse(body) as ReviewerStateUpdate;
+      if (!isValidReviewerUpdate(update)) {
+        jsonResponse(res, 400, { error: "Invalid reviewer state" });
+        return true;
+      }
+
+      const current = reviewerStateOf(session);
+      session.reviewerProgress = {
+        fileStatuses: { ...current.fileStatuses, ...update.fileStatuses },
+        selectedFile: update.selectedFile !== undefined ? update.selectedFile : current.selectedFile,
+        draftComment: update.draftComment !== undefined ? update.draftComment : current.draftComment,
+        updatedAt: Date.now(),
+      };
+      persistSessions();
+      broadcastReviewerState(session, update.clientId);
+
+      jsonResponse(res, 200, reviewerStateOf(session));
+    } catch {
+      jsonResponse(res, 400, { error: "Invalid request body" });
+    }
+    return true;
+  }
+
+  // GET /api/reviews/:id/rounds — changes_requested rounds, oldest first
+  const getRoundsParams = matchRoute(method, url, "GET", "/api/reviews/:id/rounds");
+  if (getRoundsParams) {
+    const session = sessions.get(getRoundsParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    jsonResponse(res, 200, { rounds: (session.rounds ?? []).map(summarizeRound) });
+    return true;
+  }
+
+  // GET /api/reviews/:id/rounds/:round — a round's diff and comments
+  const getRoundParams = matchRoute(method, url, "GET", "/api/reviews/:id/rounds/:round");
+  if (getRoundParams) {
+    const session = sessions.get(getRoundParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    const round = session.rounds?.find((r) => r.number === Number(getRoundParams.round));
+    if (!round) {
+      jsonResponse(res, 404, { error: "Round not found" });
+      return true;
+    }
+
+    jsonResponse(res, 200, round);
+    return true;
+  }
+
+  // GET /api/reviews/:id/rounds/:round/interdiff — changes since a round, with its comments carried forward
+  const getInterdiffParams = matchRoute(method, url, "GET", "/api/reviews/:id/rounds/:round/interdiff");
+  if (getInterdiffParams) {
+    const session = sessions.get(getInterdiffParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    const round = session.rounds?.find((r) => r.number === Number(getInterdiffParams.round));
+    if (!round) {
+      jsonResponse(res, 404, { error: "Round not found" });
+      return true;
+    }
+
+    try {
+      const interdiff = await computeInterdiff(round, session.payload, roundSource(session));
+      jsonResponse(res, 200, interdiff);
+    } catch (err) {
+      jsonResponse(res, 500, { error: err instanceof Error ? err.message : "Failed to compute interdiff" });
+    }
+    return true;
+  }
+
+  // POST /api/reviews/:id/verify — run test/typecheck/lint in the background
+  const postVerifyParams = matchRoute(method, url, "POST", "/api/reviews/:id/verify");
+  if (postVerifyParams) {
+    const session = sessions.get(postVerifyParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    // Verification runs commands in the project directory
+    if (isRemoteProject(session.projectPath)) {
+      jsonResponse(res, 400, { error: "Verification not available for PRs without a local checkout" });
+      return true;
+    }
+
+    // A PR checkout's scripts and config come from the PR author — never run them
+    if (isPrWorktree(session.projectPath)) {
+      jsonResponse(res, 400, { error: "Verification not available for PR checkouts: their commands come from the PR" });
+      return true;
+    }
+
+    try {
+      const body = await readBody(req);
+      const { checks } = (body ? JSON.parse(body) : {}) as {
+        checks?: VerificationCheckName[];
+      };
+
+      if (checks?.some((c) => !VERIFICATION_CHECKS.includes(c))) {
+        jsonResponse(res, 400, {
+          error: `Unknown check. Expected one of: ${VERIFICATION_CHECKS.join(", ")}`,
+        });
+        return true;
+      }
+
+      // Only one run per session at a time — report the one in progress
+      if (verificationHandles.has(session.id) && session.verification) {
+        jsonResponse(res, 200, { verification: session.verification });
+        return true;
+      }
+
+      const run = startVerification(session, checks);
+      jsonResponse(res, 202, { verification: run });
+    } catch {
+      jsonResponse(res, 400, { error: "Invalid request body" });
+    }
+    return true;
+  }
+
+  // GET /api/reviews/:id/verification — latest verification run
+  const getVerificationParams = matchRoute(method, url, "GET", "/api/reviews/:id/verification");
+  if (getVerificationParams) {
+    const session = sessions.get(getVerificationParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+
+    jsonResponse(res, 200, { verification: session.verification ?? null });
+    return true;
+  }
+
+  // POST /api/reviews/:id/checkout — check a PR without a local clone out into a worktree
+  const checkoutParams = matchRoute(method, url, "POST", "/api/reviews/:id/checkout");
+  if (checkoutParams) {
+    const session = sessions.get(checkoutParams.id);
+    if (!session) {
+      jsonResponse(res, 404, { error: "Session not found" });
+      return true;
+    }
+    if (!session.payload.metadata.githubPr) {
+      jsonResponse(res, 400, { error: "Session is not a PR review" });
+      return true;
+    }
+    if (!isRemoteProject(session.projectPath)) {
+      jsonResponse(res, 409, { error: "Session already has a local checkout", projectPath: session.projectPath });
+      return true;
+    }
+
+    try {
+      const worktreePath = await attachPrWorktree(session);
+      broadcastSessionUpdate(session);
+      jsonResponse(res, 200, { worktreePath });
+    } catch (err) {
+      jsonResponse(res, 500, {
+        error: err instanceof Error ? err.message : "Failed to check out PR",
+      });
+    }
+    return true;
+  }
+
   // DELETE /api/reviews/:id — remove a session
   const deleteParams = matchRoute(method, url, "DELETE", "/api/reviews/:id");
   if (deleteParams) {
     stopSessionWatcher(deleteParams.id);
-    if (sessions.delete(deleteParams.id)) {
+    cancelVerification(deleteParams.id);
+    const deleted = sessions.get(deleteParams.id);
+    if (deleted && sessions.delete(deleteParams.id)) {
+      releasePrWorktree(deleted);
+      persistSessions();
       broadcastSessionRemoved(deleteParams.id);
       jsonResponse(res, 200, { ok: true });
     } else {
@@ -994,14 +2762,16 @@ async function handleApiRequest(
     }
 
     // Ref listing requires a real filesystem path
-    if (session.projectPath.startsWith("github:")) {
-      jsonResponse(res, 400, { error: "Ref listing not available for GitHub PRs" });
+    if (isRemoteProject(session.projectPath)) {
+      jsonResponse(res, 400, { error: "Ref listing not available for PRs without a local checkout" });
       return true;
     }
 
     try {
-      const branches = listBranches({ cwd: session.projectPath });
-      const commits = listCommits({ cwd: session.projectPath });
+      const [branches, commits] = await Promise.all([
+        listBranchesAsync({ cwd: session.projectPath }),
+        listCommitsAsync({ cwd: session.projectPath }),
+      ]);
       const currentBranch = getCurrentBranch({ cwd: session.projectPath });
 
       jsonResponse(res, 200, { branches, commits, currentBranch });
@@ -1021,8 +2791,8 @@ async function handleApiRequest(
     }
 
     // Ref comparison requires a real filesystem path
-    if (session.projectPath.startsWith("github:")) {
-      jsonResponse(res, 400, { error: "Ref comparison not available for GitHub PRs" });
+    if (isRemoteProject(session.projectPath)) {
+      jsonResponse(res, 400, { error: "Ref comparison not available for PRs without a local checkout" });
       return true;
     }
 
@@ -1035,10 +2805,12 @@ async function handleApiRequest(
         return true;
       }
 
-      const { diffSet: newDiffSet, rawDiff: newRawDiff } = getDiff(ref, {
-        cwd: session.projectPath,
-      });
-      const newBriefing = analyze(newDiffSet);
+      const {
+        diffSet: newDiffSet,
+        rawDiff: newRawDiff,
+        briefing: newBriefing,
+        hash: newHash,
+      } = await computeSessionDiff(ref, session.projectPath);
       const changedFiles = detectChangedFiles(session.lastDiffSet ?? null, newDiffSet);
 
       // Update session state
@@ -1048,31 +2820,32 @@ async function handleApiRequest(
         rawDiff: newRawDiff,
         briefing: newBriefing,
       };
-      session.lastDiffHash = hashDiff(newRawDiff);
+      session.lastDiffHash = newHash;
       session.lastDiffSet = newDiffSet;
+      markVerificationStale(session);
 
       // Update diffRef and restart watcher with new ref
       stopSessionWatcher(session.id);
       session.diffRef = ref;
+      persistSessions();
       if (hasConnectedClients()) {
         startSessionWatcher(session.id);
       }
 
-      // Push diff:update to connected UI clients
-      sendToSessionClients(session.id, {
-        type: "diff:update",
-        payload: {
-          diffSet: newDiffSet,
-          rawDiff: newRawDiff,
-          briefing: newBriefing,
-          changedFiles,
-          timestamp: Date.now(),
-        },
+      // Push the new diff to connected UI clients in full — the ref changed
+      sendDiffUpdate(session, null, {
+        diffSet: newDiffSet,
+        rawDiff: newRawDiff,
+        briefing: newBriefing,
+        changedFiles,
+        timestamp: Date.now(),
       });
 
       jsonResponse(res, 200, { ok: true, fileCount: newDiffSet.files.length });
-    } catch {
-      jsonResponse(res, 400, { error: "Failed to compute diff for the given ref" });
+    } catch (err) {
+      jsonResponse(res, 400, {
+        error: err instanceof GitError ? err.message : "Failed to compute diff for the given ref",
+      });
     }
     return true;
   }
@@ -1086,8 +2859,8 @@ async function handleApiRequest(
       return true;
     }
 
-    // Skip history for non-filesystem paths (e.g. github: prefixed paths)
-    if (session.projectPath.startsWith("github:")) {
+    // Skip history for non-filesystem paths (e.g. github: or gitlab: prefixed paths)
+    if (isRemoteProject(session.projectPath)) {
       jsonResponse(res, 200, { history: [] });
       return true;
     }
@@ -1107,8 +2880,8 @@ async function handleApiRequest(
         return true;
       }
 
-      // Skip history for non-filesystem paths (e.g. github: prefixed paths)
-      if (projectPath.startsWith("github:")) {
+      // Skip history for non-filesystem paths (e.g. github: or gitlab: prefixed paths)
+      if (isRemoteProject(projectPath)) {
         jsonResponse(res, 200, { history: [] });
         return true;
       }
@@ -1134,10 +2907,23 @@ export async function startGlobalServer(
     silent = false,
     dev = false,
     pollInterval = 2000,
+    prPollInterval = 30_000,
     openBrowser = true,
+    executePostReviewActions: runPostReviewActions = false,
+    analysisWorker = false,
+    changeDetection = "watch",
   } = options;
 
   serverPollInterval = pollInterval;
+  serverPrPollInterval = prPollInterval;
+  executePostReviewActions = runPostReviewActions;
+  useAnalysisWorker = analysisWorker;
+  serverChangeDetection = changeDetection;
+  serverToken = getServerToken();
+
+  // Restore sessions from the previous server process
+  persistenceEnabled = true;
+  rehydrateSessions();
 
   // Get available ports (prefer defaults, fall back to random)
   const [httpPort, wsPort] = await Promise.all([
@@ -1159,6 +2945,7 @@ export async function startGlobalServer(
     const uiDist = resolveUiDist();
     uiHttpServer = await createStaticServer(uiDist, uiPort);
   }
+  allowedOrigin = `http://localhost:${uiPort}`;
 
   // Create the HTTP API server
   const httpServer = http.createServer(async (req, res) => {
@@ -1170,7 +2957,10 @@ export async function startGlobalServer(
   });
 
   // Create WebSocket server on a separate port
-  wss = new WebSocketServer({ port: wsPort });
+  wss = new WebSocketServer({
+    port: wsPort,
+    verifyClient: ({ req }: { req: http.IncomingMessage }) => isAuthorizedUpgrade(req),
+  });
 
   wss.on("connection", (ws, req) => {
     // Start all watchers when first client connects
@@ -1188,12 +2978,9 @@ export async function startGlobalServer(
       if (session) {
         session.status = "in_review";
         session.hasNewChanges = false;
+        persistSessions();
         broadcastSessionUpdate(session);
-        const msg: ServerMessage = {
-          type: "review:init",
-          payload: session.payload,
-        };
-        ws.send(JSON.stringify(msg));
+        ws.send(JSON.stringify(reviewInitMessage(session)));
 
         // Send any existing annotations
         for (const annotation of session.annotations) {
@@ -1202,6 +2989,7 @@ export async function startGlobalServer(
             payload: annotation,
           } satisfies ServerMessage));
         }
+        sendVerificationState(ws, session);
       }
     } else {
       // No specific session requested — send full session list (server mode UI)
@@ -1219,11 +3007,9 @@ export async function startGlobalServer(
           clientSessions.set(ws, session.id);
           session.status = "in_review";
           session.hasNewChanges = false;
+          persistSessions();
           broadcastSessionUpdate(session);
-          ws.send(JSON.stringify({
-            type: "review:init",
-            payload: session.payload,
-          } satisfies ServerMessage));
+          ws.send(JSON.stringify(reviewInitMessage(session)));
 
           // Send any existing annotations
           for (const annotation of session.annotations) {
@@ -1232,11 +3018,12 @@ export async function startGlobalServer(
               payload: annotation,
             } satisfies ServerMessage));
           }
+          sendVerificationState(ws, session);
         }
       }
     }
 
-    ws.on("message", (data) => {
+    ws.on("message", async (data) => {
       try {
         const msg = JSON.parse(data.toString()) as ClientMessage;
         if (msg.type === "review:submit") {
@@ -1247,6 +3034,10 @@ export async function startGlobalServer(
               session.result = msg.payload;
               session.status = "submitted";
               recordReviewHistory(session, msg.payload);
+              void recordReviewRound(session, msg.payload);
+              maybeRunPostReviewAction(session, msg.payload);
+              maybePostReviewToPr(session, msg.payload);
+              persistSessions();
               if (msg.payload.decision === "dismissed") {
                 broadcastSessionRemoved(sid);
               } else {
@@ -1260,12 +3051,10 @@ export async function startGlobalServer(
             clientSessions.set(ws, session.id);
             session.status = "in_review";
             session.hasNewChanges = false;
+            persistSessions();
             startSessionWatcher(session.id);
             broadcastSessionUpdate(session);
-            ws.send(JSON.stringify({
-              type: "review:init",
-              payload: session.payload,
-            } satisfies ServerMessage));
+            ws.send(JSON.stringify(reviewInitMessage(session)));
 
             // Send any existing annotations
             for (const annotation of session.annotations) {
@@ -1274,17 +3063,42 @@ export async function startGlobalServer(
                 payload: annotation,
               } satisfies ServerMessage));
             }
+            sendVerificationState(ws, session);
           }
         } else if (msg.type === "session:close") {
           const closedId = msg.payload.sessionId;
           stopSessionWatcher(closedId);
+          cancelVerification(closedId);
           const closedSession = sessions.get(closedId);
-          if (closedSession && !closedSession.result) {
-            // Store dismiss result so MCP polling can pick it up
-            closedSession.result = { decision: "dismissed", comments: [] };
-            closedSession.status = "submitted";
+          if (closedSession) {
+            if (!closedSession.result) {
+              // Store dismiss result so MCP polling can pick it up
+              closedSession.result = { decision: "dismissed", comments: [] };
+              closedSession.status = "submitted";
+            }
+            // The session is kept for polling, but its checkout is no longer needed
+            releasePrWorktree(closedSession);
+            closedSession.prWorktree = undefined;
+            persistSessions();
           }
           broadcastSessionRemoved(closedId);
+        } else if (msg.type === "diff:resync") {
+          // The client missed a delta — send the whole current diff
+          const session = sessions.get(clientSessions.get(ws) ?? "");
+          if (session) {
+            const { diffSet, rawDiff, briefing } = session.payload;
+            ws.send(JSON.stringify({
+              type: "diff:update",
+              payload: {
+                diffSet,
+                rawDiff,
+                briefing,
+                changedFiles: [],
+                timestamp: Date.now(),
+                seq: session.diffSeq ?? 0,
+              },
+            } satisfies ServerMessage));
+          }
         } else if (msg.type === "diff:change_ref") {
           const sid = clientSessions.get(ws);
           if (sid) {
@@ -1292,10 +3106,14 @@ export async function startGlobalServer(
             if (session) {
               const newRef = msg.payload.diffRef;
               try {
-                const { diffSet: newDiffSet, rawDiff: newRawDiff } = getDiff(newRef, {
-                  cwd: session.projectPath,
-                });
-                const newBriefing = analyze(newDiffSet);
+                const {
+                  diffSet: newDiffSet,
+                  rawDiff: newRawDiff,
+                  briefing: newBriefing,
+                  hash: newHash,
+                } = await computeSessionDiff(newRef, session.projectPath);
+                // The session may have been closed while the diff was computed
+                if (!sessions.has(sid)) return;
 
                 // Update session
                 session.payload = {
@@ -1305,23 +3123,22 @@ export async function startGlobalServer(
                   briefing: newBriefing,
                 };
                 session.diffRef = newRef;
-                session.lastDiffHash = hashDiff(newRawDiff);
+                session.lastDiffHash = newHash;
                 session.lastDiffSet = newDiffSet;
+                markVerificationStale(session);
+                persistSessions();
 
                 // Restart watcher with new ref
                 stopSessionWatcher(sid);
                 startSessionWatcher(sid);
 
-                // Send update to client
-                sendToSessionClients(sid, {
-                  type: "diff:update",
-                  payload: {
-                    diffSet: newDiffSet,
-                    rawDiff: newRawDiff,
-                    briefing: newBriefing,
-                    changedFiles: newDiffSet.files.map((f) => f.path),
-                    timestamp: Date.now(),
-                  },
+                // Send the new diff to clients in full — the ref changed
+                sendDiffUpdate(session, null, {
+                  diffSet: newDiffSet,
+                  rawDiff: newRawDiff,
+                  briefing: newBriefing,
+                  changedFiles: newDiffSet.files.map((f) => f.path),
+                  timestamp: Date.now(),
                 });
               } catch (err) {
                 const errorMsg: ServerMessage = {
@@ -1357,17 +3174,12 @@ export async function startGlobalServer(
   function cleanupExpiredSessions(): void {
     const now = Date.now();
     for (const [id, session] of sessions.entries()) {
-      // Manual sessions are only removed by explicit user close
-      if (session.source === "manual" && session.status !== "submitted") {
-        continue;
-      }
-      const age = now - session.createdAt;
-      const expired =
-        (session.status === "submitted" && age > SUBMITTED_TTL_MS) ||
-        (session.status === "pending" && age > ABANDONED_TTL_MS);
-      if (expired) {
+      if (isSessionExpired(session, now)) {
         stopSessionWatcher(id);
+        cancelVerification(id);
         sessions.delete(id);
+        releasePrWorktree(session);
+        persistSessions();
         broadcastSessionRemoved(id);
       }
     }
@@ -1393,7 +3205,7 @@ export async function startGlobalServer(
   }
 
   // Open browser to UI
-  const uiUrl = `http://localhost:${uiPort}?wsPort=${wsPort}&httpPort=${httpPort}&serverMode=true`;
+  const uiUrl = `http://localhost:${uiPort}?wsPort=${wsPort}&httpPort=${httpPort}&serverMode=true&token=${serverToken}`;
   serverUiUrl = uiUrl;
   if (openBrowser) {
     await open(uiUrl);
@@ -1409,6 +3221,15 @@ export async function startGlobalServer(
   async function stop(): Promise<void> {
     clearInterval(cleanupTimer);
     stopAllWatchers();
+    await stopDiffWorker();
+    useAnalysisWorker = false;
+    for (const sessionId of verificationHandles.keys()) {
+      cancelVerification(sessionId);
+    }
+
+    // Write the final state before the in-memory store is cleared
+    flushSessions();
+    persistenceEnabled = false;
 
     // Close all WebSocket connections
     if (wss) {
@@ -1422,6 +3243,8 @@ export async function startGlobalServer(
     sessions.clear();
     reopenBrowserIfNeeded = null;
     serverUiUrl = null;
+    serverToken = null;
+    allowedOrigin = null;
 
     // Close HTTP server
     await new Promise<void>((resolve) => {
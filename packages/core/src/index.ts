@@ -6,28 +6,54 @@ export type {
   ReviewDecision,
   ReviewComment,
   ReviewResult,
+  PostReviewAction,
+  PostReviewActionRun,
+  PrReviewPostRun,
+  DraftReviewComment,
+  ReviewerProgress,
+  ReviewerState,
+  ReviewerStateUpdate,
+  ReviewRound,
+  ReviewRoundSummary,
+  CarriedComment,
+  Interdiff,
+  ThreadAuthor,
+  ThreadReply,
   AnnotationType,
   AnnotationCategory,
   AnnotationSource,
   Annotation,
+  SuggestedChange,
   SessionState,
   AnnotatedChange,
   ComplexityScore,
   TestCoverageGap,
   PatternFlag,
   SecuritySeverity,
+  SourceReader,
+  SourceRequest,
   ReviewBriefing,
   ReviewInitPayload,
   ReviewMetadata,
   GitHubPrMetadata,
+  PrDiffMode,
+  PrProvider,
+  GitHubReviewThread,
+  GitHubThreadComment,
   WorktreeMetadata,
   ServerMessage,
   ClientMessage,
   ReviewOptions,
   DiffUpdatePayload,
+  DiffFileOperation,
+  DiffDeltaPayload,
   ContextUpdatePayload,
   DiffErrorPayload,
   FileReviewStatus,
+  InboxReason,
+  CiStatus,
+  InboxEntry,
+  InboxPayload,
   GlobalServerInfo,
   GlobalSessionStatus,
   SessionSummary,
@@ -36,12 +62,45 @@ export type {
   CommitInfo,
   BranchList,
   GitRefsPayload,
+  VerificationCheckName,
+  VerificationCheckStatus,
+  VerificationCheckResult,
+  VerificationRun,
+  VerificationUpdatePayload,
+  ReviewerStatePayload,
+  ReviewRoundsPayload,
 } from "./types.js";
 
 export { createDiffPoller } from "./diff-poller.js";
 export type { DiffPoller, DiffPollerOptions } from "./diff-poller.js";
-export { hashDiff, detectChangedFiles, fileKey } from "./diff-utils.js";
+export { createPrPoller } from "./pr-poller.js";
+export type { PrPoller, PrPollerOptions } from "./pr-poller.js";
+export { reanchorAnnotations } from "./annotation-anchors.js";
+export { computeDiffPipeline, runDiffPipeline, stopDiffWorker } from "./diff-pipeline.js";
+export type { DiffPipelineRequest, DiffPipelineResult } from "./diff-pipeline.js";
+export {
+  hashDiff,
+  detectChangedFiles,
+  fileKey,
+  splitRawDiff,
+  computeDiffDelta,
+} from "./diff-utils.js";
 export { startGlobalServer } from "./global-server.js";
+export {
+  resolveVerificationCommands,
+  runVerification,
+  applyVerification,
+  getProjectConfigPath,
+  VERIFICATION_CHECKS,
+} from "./verification.js";
+export type {
+  VerificationCommands,
+  VerificationOptions,
+  VerificationHandle,
+} from "./verification.js";
+export { readLineRange, applySuggestedChange } from "./suggestions.js";
+export { executePostReviewAction, buildCommitMessage } from "./post-review-action.js";
+export type { PostReviewActionOptions } from "./post-review-action.js";
 export { ensureServer, submitReviewToServer } from "./server-client.js";
 export type {
   EnsureServerOptions,
@@ -52,6 +111,9 @@ export {
   readServerFile,
   removeServerFile,
   isServerAlive,
+  getServerToken,
+  serverAuthHeaders,
+  serverFetch,
 } from "./server-file.js";
 export {
   readHistory,
@@ -60,5 +122,26 @@ export {
   getHistoryStats,
   getHistoryPath,
   generateEntryId,
+  resolveHistoryDir,
+  findLastPrReview,
 } from "./review-history.js";
-export type { ReviewHistoryEntry, ReviewHistory } from "./review-history.js";
+export type { ReviewHistoryEntry, ReviewHistory, ReviewedPullRequest } from "./review-history.js";
+export {
+  readSessionStore,
+  writeSessionStore,
+  getSessionStorePath,
+} from "./session-store.js";
+export type {
+  PersistedSession,
+  PersistedUserFocus,
+  SessionStore,
+} from "./session-store.js";
+export { readRepoRegistry, registerRepo, unregisterRepo, findRepoRoot, getRepoRegistryPath } from "./repo-registry.js";
+export type { RepoRegistry } from "./repo-registry.js";
+export {
+  checkoutPrWorktree,
+  updatePrWorktree,
+  removePrWorktree,
+  getWorktreesDir,
+} from "./pr-worktree.js";
+export type { PrGitSource } from "./pr-worktree.js";
@@ -0,0 +1,110 @@
+import { commitChanges, getCurrentBranch, getRemoteUrl, pushBranch } from "@diffprism/git";
+
+import type { DiffSet, PostReviewAction, PostReviewActionRun } from "./types.js";
+
+// Diff refs that describe changes not yet committed
+const UNCOMMITTED_REFS = new Set(["working-copy", "staged", "unstaged", "all"]);
+
+const DEFAULT_COMMIT_SUBJECT = "Apply reviewed changes";
+
+export interface PostReviewActionOptions {
+  cwd: string;
+  action: PostReviewAction;
+  diffRef: string;
+  diffSet: DiffSet;
+  title?: string;
+  summary?: string;
+  onUpdate?: (run: PostReviewActionRun) => void;
+}
+
+/**
+ * Build a commit message from the review title (subject) and the reviewer's
+ * summary (body).
+ */
+export function buildCommitMessage(title?: string, summary?: string): string {
+  const subject = title?.trim().split("\n")[0] || DEFAULT_COMMIT_SUBJECT;
+  const body = summary?.trim();
+  return body ? `${subject}\n\n${body}\n` : `${subject}\n`;
+}
+
+/**
+ * Every path the review covered, including the old side of renames so the
+ * deletion is staged too.
+ */
+function reviewedPaths(diffSet: DiffSet): string[] {
+  const paths = new Set<string>();
+  for (const file of diffSet.files) {
+    paths.add(file.path);
+    if (file.oldPath) paths.add(file.oldPath);
+  }
+  return [...paths];
+}
+
+/**
+ * Commit the reviewed changes and, for `commit_and_pr`, push the branch and
+ * open a GitHub pull request with the review summary as its body.
+ *
+ * Never throws — failures are reported on the returned run.
+ */
+export async function executePostReviewAction(
+  options: PostReviewActionOptions,
+): Promise<PostReviewActionRun> {
+  const { cwd, action, diffRef, diffSet, title, summary, onUpdate } = options;
+  const run: PostReviewActionRun = { action, status: "running", startedAt: Date.now() };
+  onUpdate?.({ ...run });
+
+  const message = buildCommitMessage(title, summary);
+
+  try {
+    if (UNCOMMITTED_REFS.has(diffRef)) {
+      // Staged reviews commit exactly the index; the rest stage what was reviewed
+      const paths = diffRef === "staged" ? undefined : reviewedPaths(diffSet);
+      run.commitSha = await commitChanges(message, { cwd, paths });
+    } else if (action === "commit") {
+      throw new Error(`Nothing to commit: ${diffRef} is already committed`);
+    }
+
+    if (action === "commit_and_pr") {
+      const branch = getCurrentBranch({ cwd });
+      if (branch === "HEAD" || branch === "unknown") {
+        throw new Error("Cannot open a pull request from a detached HEAD");
+      }
+      run.branch = branch;
+
+      // Dynamic import to keep core lightweight
+      const {
+        resolveGitHubToken,
+        resolveGitHubApiUrl,
+        createGitHubClient,
+        createPullRequest,
+        parseGitHubRemote,
+        knownGitHubHosts,
+      } = await import("@diffprism/github");
+
+      const remoteUrl = getRemoteUrl("origin", { cwd });
+      const repo = remoteUrl ? parseGitHubRemote(remoteUrl, knownGitHubHosts()) : null;
+      if (!repo) {
+        throw new Error("The origin remote is not a GitHub repository");
+      }
+
+      // Resolve the token before pushing so a missing token leaves nothing half-done
+      const token = resolveGitHubToken(repo.host);
+      await pushBranch(branch, { cwd });
+      const client = createGitHubClient(token, resolveGitHubApiUrl(repo.host));
+      run.pullRequest = await createPullRequest(client, repo.owner, repo.repo, {
+        title: message.split("\n")[0],
+        body: summary?.trim() ?? "",
+        head: branch,
+      });
+    }
+
+    run.status = "succeeded";
+  } catch (err) {
+    run.status = "failed";
+    run.error = err instanceof Error ? err.message : String(err);
+  }
+
+  run.finishedAt = Date.now();
+  onUpdate?.({ ...run });
+  return run;
+}
@@ -0,0 +1,89 @@
+import type { PrCheck, PrMetadata } from "@diffprism/github";
+
+export interface PrPollerOptions {
+  pollInterval: number;
+  /** Head commit the session currently shows. */
+  headSha?: string;
+  /** Conditional request for the PR, sending the ETag of the last response. */
+  checkPr: (etag: string | null) => Promise<PrCheck>;
+  /** Called when the PR's head moved; the new head counts as seen once it resolves. */
+  onHeadChanged: (pr: PrMetadata) => Promise<void>;
+  onError?: (error: Error) => void;
+  /** Check right away instead of after the first interval (e.g. when resuming a session). */
+  immediate?: boolean;
+}
+
+export interface PrPoller {
+  start: () => void;
+  stop: () => void;
+  /** Check now. Resolves once that check has finished. */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Poll a GitHub PR for new commits. Each check is a conditional request,
+ * so an unchanged PR costs a 304 and no rate limit; a changed response
+ * only reports when the head commit moved (not for e.g. title edits).
+ */
+export function createPrPoller(options: PrPollerOptions): PrPoller {
+  const { pollInterval, checkPr, onHeadChanged, onError, immediate } = options;
+
+  let headSha = options.headSha ?? null;
+  let etag: string | null = null;
+  let interval: ReturnType<typeof setInterval> | null = null;
+  let running = false;
+  let inFlight: Promise<void> | null = null;
+
+  async function checkOnce(): Promise<void> {
+    try {
+      const result = await checkPr(etag);
+      if (!running || !result.modified) return;
+
+      if (result.pr.headSha !== headSha) {
+        await onHeadChanged(result.pr);
+        headSha = result.pr.headSha;
+      }
+      // Only remember the ETag once its response was fully handled, so a
+      // failed refresh is retried on the next check
+      etag = result.etag;
+    } catch (err) {
+      if (onError && err instanceof Error) {
+        onError(err);
+      }
+    }
+  }
+
+  function check(): Promise<void> {
+    if (!running) return Promise.resolve();
+    if (inFlight) return inFlight;
+
+    inFlight = checkOnce().finally(() => {
+      inFlight = null;
+    });
+    return inFlight;
+  }
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      if (immediate) void check();
+      interval = setInterval(() => {
+        // Ticks while a check is still running are skipped, not queued
+        if (!inFlight) void check();
+      }, pollInterval);
+    },
+
+    stop() {
+      running = false;
+      if (interval) {
+        clearInterval(interval);
+        interval = null;
+      }
+    },
+
+    refresh() {
+      return check();
+    },
+  };
+}
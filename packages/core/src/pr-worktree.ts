@@ -0,0 +1,130 @@
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { runGit, runGitAsync } from "@diffprism/git";
+
+/**
+ * Where git can fetch a PR from: the repository's clone URL and the ref the
+ * host publishes the PR head under (refs/pull/N/head on GitHub,
+ * refs/merge-requests/N/head on GitLab).
+ */
+export interface PrGitSource {
+  url: string;
+  headRef: string;
+  baseBranch: string;
+  /** HTTP basic auth for private repositories. */
+  credentials?: { username: string; token: string };
+}
+
+/**
+ * Root of the worktrees DiffPrism checks PRs out into.
+ */
+export function getWorktreesDir(): string {
+  return path.join(os.homedir(), ".diffprism", "worktrees");
+}
+
+/**
+ * Bare repository the PR worktrees of one remote repository share, so
+ * reopening a PR only fetches what changed.
+ */
+function cacheRepoPath(url: string): string {
+  const { hostname, pathname } = new URL(url);
+  const repoPath = pathname.replace(/^\/+/, "").replace(/\.git$/, "");
+  return path.join(getWorktreesDir(), ".repos", hostname, `${repoPath}.git`);
+}
+
+// Credentials go through the environment so they never show up in `ps`
+function authEnv(source: PrGitSource): Record<string, string> | undefined {
+  if (!source.credentials) return undefined;
+  const { username, token } = source.credentials;
+  return {
+    GIT_TERMINAL_PROMPT: "0",
+    GIT_CONFIG_COUNT: "1",
+    GIT_CONFIG_KEY_0: "http.extraHeader",
+    GIT_CONFIG_VALUE_0: `Authorization: Basic ${Buffer.from(`${username}:${token}`).toString("base64")}`,
+  };
+}
+
+/**
+ * Local ref a fetched PR head is kept under, e.g. refs/diffprism/pull/12/head.
+ */
+function localHeadRef(source: PrGitSource): string {
+  return `refs/diffprism/${source.headRef.replace(/^refs\//, "")}`;
+}
+
+async function fetchPrHead(source: PrGitSource): Promise<string> {
+  const repoDir = cacheRepoPath(source.url);
+  if (!fs.existsSync(repoDir)) {
+    fs.mkdirSync(repoDir, { recursive: true });
+    await runGitAsync(["init", "--bare", "--quiet"], { cwd: repoDir });
+  }
+
+  // Keep the base branch too, so the PR can be compared against it locally
+  await runGitAsync(
+    [
+      "fetch",
+      "--quiet",
+      "--no-tags",
+      source.url,
+      `+${source.headRef}:${localHeadRef(source)}`,
+      `+refs/heads/${source.baseBranch}:refs/remotes/origin/${source.baseBranch}`,
+    ],
+    { cwd: repoDir, env: authEnv(source) },
+  );
+  return repoDir;
+}
+
+/**
+ * Check a PR's current head out into a detached worktree under
+ * ~/.diffprism/worktrees, dedicated to one session. Returns the worktree path.
+ *
+ * @throws GitError when the PR cannot be fetched or checked out
+ */
+export async function checkoutPrWorktree(sessionId: string, repoName: string, source: PrGitSource): Promise<string> {
+  const repoDir = await fetchPrHead(source);
+  const worktreePath = path.join(getWorktreesDir(), sessionId, repoName);
+
+  await runGitAsync(["worktree", "add", "--detach", "--force", worktreePath, localHeadRef(source)], { cwd: repoDir });
+  return worktreePath;
+}
+
+/**
+ * Move an existing PR worktree to the PR's newly pushed head.
+ *
+ * @throws GitError when the new head cannot be fetched or checked out
+ */
+export async function updatePrWorktree(worktreePath: string, source: PrGitSource): Promise<void> {
+  await fetchPrHead(source);
+  await runGitAsync(["checkout", "--detach", "--force", "--quiet", localHeadRef(source)], { cwd: worktreePath });
+}
+
+/**
+ * Remove a session's PR worktree. Best-effort: anything git cannot clean
+ * up is deleted from disk and pruned.
+ */
+export function removePrWorktree(worktreePath: string): void {
+  const sessionDir = path.dirname(worktreePath);
+  // Never touch anything outside the worktrees directory
+  if (path.dirname(sessionDir) !== getWorktreesDir()) return;
+
+  let repoDir: string | null = null;
+  try {
+    repoDir = path.resolve(
+      worktreePath,
+      runGit(["rev-parse", "--git-common-dir"], { cwd: worktreePath }).trim(),
+    );
+    runGit(["worktree", "remove", "--force", worktreePath], { cwd: repoDir });
+  } catch {
+    // Already gone or broken — fall through to deleting it
+  }
+
+  fs.rmSync(sessionDir, { recursive: true, force: true });
+
+  if (repoDir) {
+    try {
+      runGit(["worktree", "prune"], { cwd: repoDir });
+    } catch {
+      // Nothing left to prune
+    }
+  }
+}
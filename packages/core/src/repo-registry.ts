@@ -0,0 +1,86 @@
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import { runGit } from "@diffprism/git";
+
+export interface RepoRegistry {
+  version: 1;
+  repos: string[]; // absolute paths of local clones
+}
+
+/**
+ * Get the registry path under ~/.diffprism.
+ */
+export function getRepoRegistryPath(): string {
+  return path.join(os.homedir(), ".diffprism", "repos.json");
+}
+
+/**
+ * Read the known local clones. Returns an empty list if the registry is
+ * missing or unreadable.
+ */
+export function readRepoRegistry(): string[] {
+  const filePath = getRepoRegistryPath();
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as RepoRegistry;
+    return Array.isArray(parsed.repos) ? parsed.repos.filter((repo) => typeof repo === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeRepoRegistry(repos: string[]): void {
+  const filePath = getRepoRegistryPath();
+  const dir = path.dirname(filePath);
+
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const registry: RepoRegistry = { version: 1, repos };
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(registry, null, 2) + "\n");
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Remember a local clone so PRs for its repository can be matched to it.
+ * Returns false if it was already registered.
+ */
+export function registerRepo(repoPath: string): boolean {
+  const resolved = path.resolve(repoPath);
+  const repos = readRepoRegistry();
+  if (repos.includes(resolved)) return false;
+
+  writeRepoRegistry([...repos, resolved]);
+  return true;
+}
+
+/**
+ * Forget a registered clone. Returns false if it was not registered.
+ */
+export function unregisterRepo(repoPath: string): boolean {
+  const resolved = path.resolve(repoPath);
+  const repos = readRepoRegistry();
+  if (!repos.includes(resolved)) return false;
+
+  writeRepoRegistry(repos.filter((repo) => repo !== resolved));
+  return true;
+}
+
+/**
+ * Top-level directory of the git checkout containing `dirPath`, or null if
+ * it is not inside one.
+ */
+export function findRepoRoot(dirPath: string): string | null {
+  try {
+    const root = runGit(["rev-parse", "--show-toplevel"], { cwd: path.resolve(dirPath) }).trim();
+    return root || null;
+  } catch {
+    return null;
+  }
+}
@@ -1,6 +1,8 @@
 import fs from "node:fs";
 import path from "node:path";
+import os from "node:os";
 import { randomUUID } from "node:crypto";
+import { getWorktreesDir } from "./pr-worktree.js";
 
 export interface ReviewHistoryEntry {
   id: string;
@@ -14,6 +16,18 @@ export interface ReviewHistoryEntry {
   branch?: string;
   title?: string;
   summary?: string;
+  pr?: ReviewedPullRequest; // set for GitHub PR reviews
+}
+
+/**
+ * The pull request a review covered, and the head commit it was reviewed at.
+ */
+export interface ReviewedPullRequest {
+  host?: string; // GitHub Enterprise Server host, absent for github.com
+  owner: string;
+  repo: string;
+  number: number;
+  headSha: string;
 }
 
 export interface ReviewHistory {
@@ -35,6 +49,16 @@ export function getHistoryPath(projectDir: string): string {
   return path.join(projectDir, ".diffprism", "history", "reviews.json");
 }
 
+/**
+ * The directory whose history records a session's reviews. PR reviews
+ * without a local clone (`github:` or `gitlab:` project paths, or a
+ * DiffPrism-managed worktree) share one history under the home directory.
+ */
+export function resolveHistoryDir(projectPath: string): string {
+  const isRemote = /^(github|gitlab):/.test(projectPath) || projectPath.startsWith(getWorktreesDir() + path.sep);
+  return isRemote ? os.homedir() : projectPath;
+}
+
 /**
  * Read review history for a project. Returns empty history if file doesn't exist.
  */
@@ -87,6 +111,31 @@ export function getRecentHistory(
   return history.entries.slice(-limit);
 }
 
+/**
+ * The most recent non-dismissed review of a pull request, or null if it
+ * has not been reviewed from this project before.
+ */
+export function findLastPrReview(
+  projectDir: string,
+  pr: { host?: string; owner: string; repo: string; number: number },
+): ReviewHistoryEntry | null {
+  const { entries } = readHistory(projectDir);
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (
+      entry.pr &&
+      entry.decision !== "dismissed" &&
+      entry.pr.host === pr.host &&
+      entry.pr.owner.toLowerCase() === pr.owner.toLowerCase() &&
+      entry.pr.repo.toLowerCase() === pr.repo.toLowerCase() &&
+      entry.pr.number === pr.number
+    ) {
+      return entry;
+    }
+  }
+  return null;
+}
+
 /**
  * Get review stats for a project.
  */
@@ -0,0 +1,192 @@
+import { snapshotDiffTree, getTreeDiffAsync } from "@diffprism/git";
+
+import type {
+  CarriedComment,
+  DiffFile,
+  DiffSet,
+  Interdiff,
+  ReviewComment,
+  ReviewRound,
+  ReviewRoundSummary,
+} from "./types.js";
+import { fileKey, splitRawDiff } from "./diff-utils.js";
+
+/** Rounds kept per session; older ones are dropped from the store. */
+export const MAX_REVIEW_ROUNDS = 10;
+
+export function summarizeRound(round: ReviewRound): ReviewRoundSummary {
+  return {
+    number: round.number,
+    submittedAt: round.submittedAt,
+    fileCount: round.diffSet.files.length,
+    commentCount: round.comments.length,
+    summary: round.summary,
+  };
+}
+
+/**
+ * Where the diff being reviewed comes from, for sessions on a local repo.
+ */
+export interface RoundSource {
+  cwd: string;
+  diffRef: string;
+}
+
+/**
+ * Snapshot the reviewed side of a local diff for a new round. Returns
+ * undefined when it cannot be recorded; the round then falls back to a
+ * file-level interdiff.
+ */
+export async function snapshotRound(source: RoundSource): Promise<string | undefined> {
+  try {
+    return await snapshotDiffTree(source.diffRef, { cwd: source.cwd });
+  } catch {
+    return undefined;
+  }
+}
+
+// Comments are stored against file keys ("unstaged:src/a.ts"); interdiffs
+// between snapshots only know paths
+function commentPath(comment: ReviewComment): string {
+  return comment.file.replace(/^(staged|unstaged):/, "");
+}
+
+/**
+ * Old-side line numbers a file diff deletes, or inserts next to.
+ */
+function touchedOldLines(file: DiffFile): Set<number> {
+  const touched = new Set<number>();
+  for (const hunk of file.hunks) {
+    let oldLine = hunk.oldStart;
+    for (const change of hunk.changes) {
+      if (change.type === "delete") {
+        touched.add(oldLine);
+        oldLine++;
+      } else if (change.type === "add") {
+        touched.add(oldLine - 1);
+        touched.add(oldLine);
+      } else {
+        oldLine++;
+      }
+    }
+  }
+  return touched;
+}
+
+/**
+ * Mark each of a round's comments addressed or outstanding. With an exact
+ * interdiff a comment is addressed when the lines it covers changed; with a
+ * file-level one, when its file changed at all.
+ */
+export function carryForwardComments(
+  round: ReviewRound,
+  interdiff: DiffSet,
+  exact: boolean,
+  removedPaths: Set<string> = new Set(),
+): CarriedComment[] {
+  const changedFiles = new Map<string, DiffFile>();
+  for (const file of interdiff.files) {
+    changedFiles.set(file.path, file);
+    if (file.oldPath) changedFiles.set(file.oldPath, file);
+  }
+
+  return round.comments.map((comment) => {
+    const path = commentPath(comment);
+    const file = changedFiles.get(path);
+    let addressed = removedPaths.has(path);
+
+    if (file && !addressed) {
+      if (!exact || file.status === "deleted" || comment.side === "LEFT") {
+        addressed = true;
+      } else {
+        const touched = touchedOldLines(file);
+        for (let line = comment.startLine ?? comment.line; line <= comment.line; line++) {
+          if (touched.has(line)) {
+            addressed = true;
+            break;
+          }
+        }
+      }
+    }
+
+    return { ...comment, round: round.number, state: addressed ? "addressed" : "outstanding" };
+  });
+}
+
+/**
+ * Files whose diff changed since the round, with their current diffs, plus
+ * the paths of files that left the diff. Null if a raw diff cannot be split.
+ */
+function fileLevelInterdiff(
+  round: ReviewRound,
+  current: { diffSet: DiffSet; rawDiff: string },
+): { diffSet: DiffSet; rawDiff: string; removedPaths: Set<string> } | null {
+  const before = splitRawDiff(round.rawDiff, round.diffSet);
+  const after = splitRawDiff(current.rawDiff, current.diffSet);
+  if (!before || !after) return null;
+
+  const files: DiffFile[] = [];
+  const sections: string[] = [];
+  for (const file of current.diffSet.files) {
+    const key = fileKey(file);
+    const section = after.get(key)!;
+    if (before.get(key) !== section) {
+      files.push(file);
+      sections.push(section);
+    }
+  }
+
+  const currentPaths = new Set(current.diffSet.files.map((f) => f.path));
+  const removedPaths = new Set(
+    round.diffSet.files.map((f) => f.path).filter((path) => !currentPaths.has(path)),
+  );
+
+  return {
+    diffSet: { baseRef: current.diffSet.baseRef, headRef: current.diffSet.headRef, files },
+    rawDiff: sections.join(""),
+    removedPaths,
+  };
+}
+
+/**
+ * What changed between a round and the current diff, with the round's
+ * comments carried forward. Rounds with a snapshot get a line-level
+ * interdiff; others (PR reviews, failed snapshots) a file-level one.
+ */
+export async function computeInterdiff(
+  round: ReviewRound,
+  current: { diffSet: DiffSet; rawDiff: string },
+  source?: RoundSource,
+): Promise<Interdiff> {
+  if (round.snapshot && source) {
+    const snapshot = await snapshotRound(source);
+    if (snapshot) {
+      try {
+        const { diffSet, rawDiff } = await getTreeDiffAsync(round.snapshot, snapshot, { cwd: source.cwd });
+        const labelled = { ...diffSet, baseRef: `round ${round.number}`, headRef: "current" };
+        return {
+          round: round.number,
+          exact: true,
+          diffSet: labelled,
+          rawDiff,
+          comments: carryForwardComments(round, labelled, true),
+        };
+      } catch {
+        // The snapshot may have been garbage-collected; fall back below
+      }
+    }
+  }
+
+  const fileLevel = fileLevelInterdiff(round, current) ?? {
+    diffSet: current.diffSet,
+    rawDiff: current.rawDiff,
+    removedPaths: new Set<string>(),
+  };
+  return {
+    round: round.number,
+    exact: false,
+    diffSet: fileLevel.diffSet,
+    rawDiff: fileLevel.rawDiff,
+    comments: carryForwardComments(round, fileLevel.diffSet, false, fileLevel.removedPaths),
+  };
+}
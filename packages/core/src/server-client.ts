@@ -3,9 +3,10 @@ import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
 import { fileURLToPath } from "node:url";
-import { isServerAlive } from "./server-file.js";
+import { isServerAlive, serverFetch } from "./server-file.js";
 import type {
   GlobalServerInfo,
+  PostReviewActionRun,
   ReviewInitPayload,
   ReviewResult,
 } from "./types.js";
@@ -155,7 +156,11 @@ export async function submitReviewToServer(
   serverInfo: GlobalServerInfo,
   diffRef: string,
   options: SubmitReviewOptions = {},
-): Promise<{ result: ReviewResult | null; sessionId: string }> {
+): Promise<{
+  result: ReviewResult | null;
+  sessionId: string;
+  postReviewAction?: PostReviewActionRun; // set when the server is executing the action itself
+}> {
   const cwd = options.cwd ?? process.cwd();
   const projectPath = options.projectPath ?? cwd;
 
@@ -167,7 +172,7 @@ export async function submitReviewToServer(
     // Compute diff and analysis locally
     // Dynamic import to avoid loading git/analysis at module level
     // (keeps ensureServer() lightweight for MCP cold starts)
-    const { getDiff, getCurrentBranch, detectWorktree } = await import(
+    const { getDiff, getCurrentBranch, detectWorktree, createSourceReader } = await import(
       "@diffprism/git"
     );
     const { analyze } = await import("@diffprism/analysis");
@@ -185,7 +190,9 @@ export async function submitReviewToServer(
       };
     }
 
-    const briefing = analyze(diffSet);
+    const briefing = analyze(diffSet, {
+      readSource: createSourceReader(diffRef, { cwd }),
+    });
     const currentBranch = getCurrentBranch({ cwd });
     const worktreeInfo = detectWorktree({ cwd });
 
@@ -211,7 +218,7 @@ export async function submitReviewToServer(
   }
 
   // POST to global server
-  const createResponse = await fetch(
+  const createResponse = await serverFetch(
     `http://localhost:${serverInfo.httpPort}/api/reviews`,
     {
       method: "POST",
@@ -237,7 +244,7 @@ export async function submitReviewToServer(
   // POST initial annotations if provided
   if (options.annotations?.length) {
     for (const ann of options.annotations) {
-      await fetch(
+      await serverFetch(
         `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/annotations`,
         {
           method: "POST",
@@ -270,7 +277,7 @@ export async function submitReviewToServer(
   const start = Date.now();
 
   while (Date.now() - start < maxWaitMs) {
-    const resultResponse = await fetch(
+    const resultResponse = await serverFetch(
       `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/result`,
     );
 
@@ -278,10 +285,15 @@ export async function submitReviewToServer(
       const data = (await resultResponse.json()) as {
         result: ReviewResult | null;
         status: string;
+        postReviewAction?: PostReviewActionRun | null;
       };
 
       if (data.result) {
-        return { result: data.result, sessionId };
+        return {
+          result: data.result,
+          sessionId,
+          postReviewAction: data.postReviewAction ?? undefined,
+        };
       }
     }
 
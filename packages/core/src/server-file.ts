@@ -1,3 +1,4 @@
+import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
@@ -11,6 +12,10 @@ function serverFilePath(): string {
   return path.join(serverDir(), "server.json");
 }
 
+function tokenFilePath(): string {
+  return path.join(serverDir(), "server-token");
+}
+
 function isPidAlive(pid: number): boolean {
   try {
     process.kill(pid, 0);
@@ -62,6 +67,51 @@ export function removeServerFile(): void {
   }
 }
 
+/**
+ * Read the per-install API token, creating it on first use.
+ * The global server requires it on every HTTP request and WebSocket handshake.
+ */
+export function getServerToken(): string {
+  const filePath = tokenFilePath();
+  try {
+    const existing = fs.readFileSync(filePath, "utf-8").trim();
+    if (existing) {
+      return existing;
+    }
+  } catch {
+    // Not created yet
+  }
+
+  const dir = serverDir();
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const token = crypto.randomBytes(32).toString("hex");
+  try {
+    // Readable only by this user; "wx" so a concurrent writer wins cleanly
+    fs.writeFileSync(filePath, token + "\n", { mode: 0o600, flag: "wx" });
+    return token;
+  } catch {
+    return fs.readFileSync(filePath, "utf-8").trim();
+  }
+}
+
+export function serverAuthHeaders(): Record<string, string> {
+  return { Authorization: `Bearer ${getServerToken()}` };
+}
+
+/**
+ * fetch() against the global server API with the auth token attached.
+ */
+export function serverFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  for (const [name, value] of Object.entries(serverAuthHeaders())) {
+    headers.set(name, value);
+  }
+  return fetch(url, { ...init, headers });
+}
+
 /**
  * Check if a global server is running and reachable.
  * Reads the server file, verifies PID, then pings the HTTP API.
@@ -73,7 +123,7 @@ export async function isServerAlive(): Promise<GlobalServerInfo | null> {
   }
 
   try {
-    const response = await fetch(`http://localhost:${info.httpPort}/api/status`, {
+    const response = await serverFetch(`http://localhost:${info.httpPort}/api/status`, {
       signal: AbortSignal.timeout(2000),
     });
     if (response.ok) {
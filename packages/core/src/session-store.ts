@@ -0,0 +1,96 @@
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+import type {
+  Annotation,
+  GlobalSessionStatus,
+  PostReviewActionRun,
+  PrReviewPostRun,
+  ReviewInitPayload,
+  ReviewComment,
+  ReviewResult,
+  ReviewerProgress,
+  ReviewRound,
+  SessionSource,
+  VerificationRun,
+} from "./types.js";
+
+export interface PersistedUserFocus {
+  file: string | null;
+  lineStart?: number;
+  lineEnd?: number;
+  updatedAt: number;
+}
+
+/**
+ * The durable part of a global-server session. Derived state (diff hashes,
+ * watchers, running processes) is rebuilt on startup.
+ */
+export interface PersistedSession {
+  id: string;
+  payload: ReviewInitPayload;
+  projectPath: string;
+  source: SessionSource;
+  status: GlobalSessionStatus;
+  result: ReviewResult | null;
+  createdAt: number;
+  diffRef?: string;
+  hasNewChanges: boolean;
+  annotations: Annotation[];
+  comments: ReviewComment[]; // human inline comments mirrored from the UI
+  userFocus?: PersistedUserFocus;
+  reviewerProgress?: ReviewerProgress; // file statuses, selection and draft from the UI
+  rounds?: ReviewRound[]; // changes_requested submissions, oldest first
+  verification?: VerificationRun;
+  postReviewAction?: PostReviewActionRun;
+  prReviewPost?: PrReviewPostRun;
+  prWorktree?: string; // worktree DiffPrism checked the PR out into, removed with the session
+}
+
+export interface SessionStore {
+  version: 1;
+  sessions: PersistedSession[];
+}
+
+/**
+ * Get the session store path under ~/.diffprism.
+ */
+export function getSessionStorePath(): string {
+  return path.join(os.homedir(), ".diffprism", "sessions.json");
+}
+
+/**
+ * Read persisted sessions. Returns an empty list if the store is missing or unreadable.
+ */
+export function readSessionStore(): PersistedSession[] {
+  const filePath = getSessionStorePath();
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  try {
+    const raw = fs.readFileSync(filePath, "utf-8");
+    const parsed = JSON.parse(raw) as SessionStore;
+    return Array.isArray(parsed.sessions) ? parsed.sessions : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Replace the persisted sessions. Writes to a temp file and renames it so a
+ * crash mid-write never leaves a truncated store behind.
+ */
+export function writeSessionStore(sessions: PersistedSession[]): void {
+  const filePath = getSessionStorePath();
+  const dir = path.dirname(filePath);
+
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const store: SessionStore = { version: 1, sessions };
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(store) + "\n");
+  fs.renameSync(tmpPath, filePath);
+}
@@ -0,0 +1,80 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { SuggestedChange } from "./types.js";
+
+/**
+ * Resolve a diff-relative file path inside the project, refusing paths that
+ * escape it.
+ */
+function resolveProjectFile(projectPath: string, file: string): string {
+  const root = path.resolve(projectPath);
+  const filePath = path.resolve(root, file);
+  if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+    throw new Error(`File is outside the project: ${file}`);
+  }
+  return filePath;
+}
+
+function splitLines(content: string): { lines: string[]; eol: string; trailingNewline: boolean } {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const trailingNewline = content.endsWith(eol);
+  const body = trailingNewline ? content.slice(0, -eol.length) : content;
+  return { lines: content === "" ? [] : body.split(eol), eol, trailingNewline };
+}
+
+/**
+ * Read lines startLine..endLine (1-based, inclusive) of a project file.
+ * Returns null when the file or the range does not exist.
+ */
+export function readLineRange(
+  projectPath: string,
+  file: string,
+  startLine: number,
+  endLine: number,
+): string | null {
+  let content: string;
+  try {
+    content = fs.readFileSync(resolveProjectFile(projectPath, file), "utf-8");
+  } catch {
+    return null;
+  }
+
+  const { lines } = splitLines(content);
+  if (startLine < 1 || endLine < startLine || endLine > lines.length) {
+    return null;
+  }
+  return lines.slice(startLine - 1, endLine).join("\n");
+}
+
+/**
+ * Replace the suggested line range in the working tree copy of a file.
+ * Throws if the range no longer matches what the suggestion was made against,
+ * so a stale suggestion never overwrites newer edits.
+ */
+export function applySuggestedChange(
+  projectPath: string,
+  file: string,
+  change: SuggestedChange,
+): void {
+  const filePath = resolveProjectFile(projectPath, file);
+  const content = fs.readFileSync(filePath, "utf-8");
+  const { lines, eol, trailingNewline } = splitLines(content);
+
+  if (change.startLine < 1 || change.endLine < change.startLine || change.endLine > lines.length) {
+    throw new Error(`Lines ${change.startLine}-${change.endLine} are out of range for ${file}`);
+  }
+
+  const current = lines.slice(change.startLine - 1, change.endLine).join("\n");
+  if (change.original !== null && current !== change.original) {
+    throw new Error(`${file} has changed since the suggestion was made`);
+  }
+
+  // A single trailing newline is the end of the last line, not an extra blank line
+  const text = change.replacement.replace(/\r?\n$/, "");
+  const replacement = change.replacement === "" ? [] : text.split(/\r?\n/);
+  lines.splice(change.startLine - 1, change.endLine - change.startLine + 1, ...replacement);
+
+  const updated = lines.join(eol) + (trailingNewline && lines.length > 0 ? eol : "");
+  fs.writeFileSync(filePath, updated);
+}
@@ -4,6 +4,7 @@ export interface Change {
   type: "add" | "delete" | "context";
   lineNumber: number;
   content: string;
+  noNewline?: boolean; // last line of the file, without a trailing newline
 }
 
 export interface Hunk {
@@ -18,6 +19,7 @@ export interface DiffFile {
   path: string;
   status: "added" | "modified" | "deleted" | "renamed";
   oldPath?: string;
+  mode?: string; // file mode of an added or deleted file, e.g. "100755"
   hunks: Hunk[];
   language: string;
   binary: boolean;
@@ -47,10 +49,28 @@ export type FileReviewStatus =
   | "needs_changes";
 
 export interface ReviewComment {
+  id?: string; // set for comments mirrored to the server so they can be replied to
   file: string;
-  line: number;
+  line: number; // last line of the range
+  startLine?: number; // first line, for comments spanning several lines
+  side?: "LEFT" | "RIGHT"; // LEFT = old file, RIGHT = new file (default)
+  suggestion?: string; // replacement for the line range; empty string deletes it
   body: string;
   type: "must_fix" | "suggestion" | "question" | "nitpick";
+  replies?: ThreadReply[];
+}
+
+export interface ThreadAuthor {
+  kind: "human" | "agent";
+  name: string; // agent identifier, or "reviewer" for the human
+}
+
+export interface ThreadReply {
+  id: string;
+  targetId: string; // annotation or comment ID this reply belongs to
+  author: ThreadAuthor;
+  body: string;
+  createdAt: number; // Unix timestamp ms
 }
 
 export type PostReviewAction = "commit" | "commit_and_pr";
@@ -64,6 +84,104 @@ export interface ReviewResult {
   postToGithub?: boolean;
 }
 
+export interface DraftReviewComment {
+  body: string;
+  type: ReviewComment["type"];
+  file: string;
+  line: number;
+  startLine?: number;
+  suggestion?: string;
+}
+
+/**
+ * What a reviewer has done on a session before submitting. The global server
+ * holds it so a reload or a second tab picks up where the reviewer left off.
+ */
+export interface ReviewerProgress {
+  fileStatuses: Record<string, FileReviewStatus>; // files not listed are unreviewed
+  selectedFile: string | null;
+  draftComment: DraftReviewComment | null;
+  updatedAt: number; // Unix timestamp ms
+}
+
+export interface ReviewerState extends ReviewerProgress {
+  comments: ReviewComment[];
+}
+
+/** Partial update of a reviewer's progress; fileStatuses entries are merged. */
+export interface ReviewerStateUpdate {
+  fileStatuses?: Record<string, FileReviewStatus>;
+  selectedFile?: string | null;
+  draftComment?: DraftReviewComment | null;
+  clientId?: string; // the tab that sent the update, echoed back as `origin`
+}
+
+/**
+ * A `changes_requested` submission and the diff it was made against. The
+ * next round can be reviewed as an interdiff against it.
+ */
+export interface ReviewRound {
+  number: number; // 1-based
+  submittedAt: number; // Unix timestamp ms
+  diffSet: DiffSet;
+  rawDiff: string;
+  comments: ReviewComment[];
+  summary?: string;
+  snapshot?: string; // git tree of the reviewed side, for local sessions
+}
+
+export interface ReviewRoundSummary {
+  number: number;
+  submittedAt: number;
+  fileCount: number;
+  commentCount: number;
+  summary?: string;
+}
+
+/** A comment from an earlier round, checked against what changed since. */
+export interface CarriedComment extends ReviewComment {
+  round: number;
+  state: "addressed" | "outstanding";
+}
+
+/**
+ * What changed since a round. `exact` interdiffs compare snapshots line by
+ * line; otherwise the diff holds each changed file's current diff.
+ */
+export interface Interdiff {
+  round: number;
+  exact: boolean;
+  diffSet: DiffSet;
+  rawDiff: string;
+  comments: CarriedComment[];
+}
+
+/**
+ * Outcome of a post-review action executed by the global server.
+ */
+export interface PostReviewActionRun {
+  action: PostReviewAction;
+  status: "running" | "succeeded" | "failed";
+  startedAt: number;
+  finishedAt?: number;
+  commitSha?: string;
+  branch?: string;
+  pullRequest?: { number: number; url: string };
+  error?: string;
+}
+
+/**
+ * Posting a submitted PR review (decision and inline comments) back to its
+ * code host, requested with ReviewResult.postToGithub.
+ */
+export interface PrReviewPostRun {
+  status: "running" | "succeeded" | "failed";
+  startedAt: number;
+  finishedAt?: number;
+  reviewId?: number;
+  error?: string;
+}
+
 // ─── Annotation Types ───
 
 export type AnnotationType = "finding" | "suggestion" | "question" | "warning";
@@ -83,6 +201,18 @@ export interface AnnotationSource {
   tool?: string; // MCP tool that created it (e.g., "add_annotation")
 }
 
+/**
+ * Replacement for lines startLine..endLine (1-based, inclusive) of the
+ * annotated file in the working tree.
+ */
+export interface SuggestedChange {
+  startLine: number;
+  endLine: number;
+  replacement: string;
+  original: string | null; // lines being replaced when suggested, null if unknown
+  appliedAt?: number; // Unix timestamp ms
+}
+
 export interface Annotation {
   id: string;
   sessionId: string;
@@ -95,6 +225,9 @@ export interface Annotation {
   source: AnnotationSource;
   createdAt: number; // Unix timestamp ms
   dismissed?: boolean;
+  outdated?: boolean; // its line left the diff after new commits were pushed
+  replies?: ThreadReply[];
+  suggestedChange?: SuggestedChange;
 }
 
 export interface SessionState {
@@ -151,6 +284,18 @@ export interface PatternFlag {
   severity?: SecuritySeverity;
 }
 
+/**
+ * Reads the full contents of a file on one side of a diff. Returns null when
+ * the file does not exist on that side.
+ */
+export type SourceReader = (path: string, side: "base" | "head") => string | null;
+
+/** A file side an analysis pass will ask its SourceReader for. */
+export interface SourceRequest {
+  path: string;
+  side: "base" | "head";
+}
+
 export interface ReviewBriefing {
   summary: string;
   triage: {
@@ -182,6 +327,55 @@ export interface ReviewBriefing {
   patterns?: PatternFlag[];
 }
 
+// ─── Verification Types ───
+
+export type VerificationCheckName = "test" | "typecheck" | "lint";
+
+export type VerificationCheckStatus =
+  | "pending"
+  | "running"
+  | "passed"
+  | "failed"
+  | "skipped";
+
+export interface VerificationCheckResult {
+  name: VerificationCheckName;
+  command: string | null; // null when no command is configured for this check
+  status: VerificationCheckStatus;
+  exitCode: number | null;
+  durationMs: number | null;
+  output: string; // tail of combined stdout/stderr
+  truncated: boolean;
+  timedOut?: boolean;
+}
+
+export interface VerificationRun {
+  id: string;
+  status: "running" | "completed" | "cancelled";
+  startedAt: number;
+  finishedAt?: number;
+  checks: VerificationCheckResult[];
+  stale?: boolean; // the diff changed after this run started
+}
+
+export interface VerificationUpdatePayload {
+  sessionId: string;
+  run: VerificationRun;
+  /** The briefing's verification outcomes with this run applied. */
+  briefingVerification: ReviewBriefing["verification"];
+}
+
+export interface ReviewRoundsPayload {
+  sessionId: string;
+  rounds: ReviewRoundSummary[];
+}
+
+export interface ReviewerStatePayload {
+  sessionId: string;
+  state: ReviewerState;
+  origin?: string; // clientId of the update that caused this, if any
+}
+
 // ─── WebSocket Protocol ───
 
 export interface ReviewInitPayload {
@@ -191,6 +385,10 @@ export interface ReviewInitPayload {
   briefing: ReviewBriefing;
   metadata: ReviewMetadata;
   watchMode?: boolean;
+  githubThreads?: GitHubReviewThread[]; // existing review threads on a GitHub PR
+  diffSeq?: number; // sequence number of this diff; diff:delta messages continue from it
+  reviewerState?: ReviewerState; // in-progress review held by the global server
+  rounds?: ReviewRoundSummary[]; // earlier changes_requested rounds, oldest first
 }
 
 export interface WorktreeMetadata {
@@ -200,7 +398,9 @@ export interface WorktreeMetadata {
 }
 
 export interface GitHubPrMetadata {
-  owner: string;
+  provider?: PrProvider; // code host the PR lives on, absent for GitHub
+  host?: string; // GitHub Enterprise Server host, absent for github.com
+  owner: string; // for GitLab, the project's namespace path
   repo: string;
   number: number;
   title: string;
@@ -208,6 +408,46 @@ export interface GitHubPrMetadata {
   url: string;
   baseBranch: string;
   headBranch: string;
+  headSha?: string; // head commit the session's diff was fetched at
+  lastReviewedSha?: string; // head commit of the reviewer's previous review, when new commits were pushed since
+  diffMode?: PrDiffMode; // defaults to "full"
+}
+
+/**
+ * Which diff a PR session shows: the whole PR, or only the commits pushed
+ * since the reviewer last reviewed it.
+ */
+export type PrDiffMode = "full" | "since_last_review";
+
+/**
+ * Code hosts a PR (or GitLab merge request) can be opened from.
+ */
+export type PrProvider = "github" | "gitlab";
+
+export interface GitHubThreadComment {
+  id: string; // GraphQL node ID
+  databaseId: number; // REST ID, used to reply
+  author: string;
+  body: string;
+  createdAt: number; // Unix timestamp ms
+  url: string;
+  viewerDidAuthor: boolean; // written by the authenticated user, so it can be edited or deleted
+}
+
+/**
+ * A review thread left on a GitHub PR, anchored to a line of the diff.
+ * `line` is null when the thread is outdated and no longer maps onto the diff.
+ */
+export interface GitHubReviewThread {
+  id: string; // GraphQL node ID
+  path: string;
+  line: number | null;
+  originalLine: number | null;
+  startLine: number | null;
+  side: "LEFT" | "RIGHT"; // LEFT anchors to old line numbers, RIGHT to new ones
+  isResolved: boolean;
+  isOutdated: boolean;
+  comments: GitHubThreadComment[];
 }
 
 export interface ReviewMetadata {
@@ -226,6 +466,7 @@ export interface DiffErrorPayload {
 export type ServerMessage =
   | { type: "review:init"; payload: ReviewInitPayload }
   | { type: "diff:update"; payload: DiffUpdatePayload }
+  | { type: "diff:delta"; payload: DiffDeltaPayload }
   | { type: "diff:error"; payload: DiffErrorPayload }
   | { type: "context:update"; payload: ContextUpdatePayload }
   | { type: "session:list"; payload: SessionSummary[] }
@@ -233,11 +474,18 @@ export type ServerMessage =
   | { type: "session:updated"; payload: SessionSummary }
   | { type: "session:removed"; payload: { sessionId: string } }
   | { type: "annotation:added"; payload: Annotation }
-  | { type: "annotation:dismissed"; payload: { annotationId: string } };
+  | { type: "annotation:dismissed"; payload: { annotationId: string } }
+  | { type: "annotation:updated"; payload: Annotation }
+  | { type: "verification:update"; payload: VerificationUpdatePayload }
+  | { type: "reviewer:state"; payload: ReviewerStatePayload }
+  | { type: "review:rounds"; payload: ReviewRoundsPayload }
+  | { type: "thread:reply"; payload: ThreadReply }
+  | { type: "github:threads"; payload: GitHubReviewThread[] };
 
 export type ClientMessage =
   | { type: "review:submit"; payload: ReviewResult }
   | { type: "diff:change_ref"; payload: { diffRef: string } }
+  | { type: "diff:resync" }
   | { type: "session:select"; payload: { sessionId: string } }
   | { type: "session:close"; payload: { sessionId: string } };
 
@@ -273,6 +521,32 @@ export interface DiffUpdatePayload {
   briefing: ReviewBriefing;
   changedFiles: string[]; // files whose content changed since last update
   timestamp: number;
+  seq?: number; // sequence number of this diff (server mode)
+}
+
+/**
+ * One file-level change between two diffs, keyed by fileKey. `rawDiff` is
+ * the file's section of the raw unified diff.
+ */
+export type DiffFileOperation =
+  | { op: "add"; key: string; file: DiffFile; rawDiff: string }
+  | { op: "replace"; key: string; file: DiffFile; rawDiff: string }
+  | { op: "remove"; key: string };
+
+/**
+ * Incremental diff:update. Applies on top of the diff with sequence number
+ * `seq - 1`; a client that missed a message sends diff:resync and receives
+ * a full diff:update.
+ */
+export interface DiffDeltaPayload {
+  seq: number;
+  baseRef: string;
+  headRef: string;
+  operations: DiffFileOperation[];
+  fileOrder: string[]; // fileKeys of the new diff, in order
+  briefing: ReviewBriefing;
+  changedFiles: string[];
+  timestamp: number;
 }
 
 export interface ContextUpdatePayload {
@@ -322,6 +596,41 @@ export interface GitRefsPayload {
   currentBranch: string;
 }
 
+// ─── Review Inbox Types ───
+
+/**
+ * Why a PR shows up in the review inbox.
+ */
+export type InboxReason = "review_requested" | "authored" | "local_repo";
+
+/**
+ * Combined state of a PR head commit's checks and statuses.
+ */
+export type CiStatus = "success" | "failure" | "pending" | "none";
+
+export interface InboxEntry {
+  host?: string; // GitHub Enterprise Server host, absent for github.com
+  owner: string;
+  repo: string;
+  number: number;
+  title: string;
+  author: string;
+  url: string;
+  draft: boolean;
+  reasons: InboxReason[];
+  ci: CiStatus;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+export interface InboxPayload {
+  entries: InboxEntry[];
+  errors: string[]; // per-host failures, e.g. a missing token
+}
+
 // ─── Global Server Types ───
 
 export interface GlobalServerInfo {
@@ -350,6 +659,8 @@ export interface SessionSummary {
   hasNewChanges?: boolean;
   needsAttention?: boolean;
   source?: SessionSource;
+  postReviewAction?: PostReviewActionRun;
+  prReviewPost?: PrReviewPostRun;
 }
 
 export interface GlobalServerOptions {
@@ -357,8 +668,12 @@ export interface GlobalServerOptions {
   wsPort?: number; // default 24681
   silent?: boolean;
   dev?: boolean;
-  pollInterval?: number; // ms, default 2000
+  pollInterval?: number; // ms, default 2000 — used when polling for changes
+  prPollInterval?: number; // ms, default 30000 — how often PR sessions check GitHub for pushed commits
   openBrowser?: boolean; // default true — set false for daemon auto-start
+  executePostReviewActions?: boolean; // default false — commit / open a PR when a review requests it
+  analysisWorker?: boolean; // default false — compute and analyze diffs in a worker thread
+  changeDetection?: "watch" | "poll"; // default "watch" — fs.watch events, polling as fallback
 }
 
 export interface GlobalServerHandle {
@@ -0,0 +1,260 @@
+import fs from "node:fs";
+import path from "node:path";
+import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+import { randomUUID } from "node:crypto";
+
+import type {
+  ReviewBriefing,
+  VerificationCheckName,
+  VerificationCheckResult,
+  VerificationRun,
+} from "./types.js";
+
+export const VERIFICATION_CHECKS: VerificationCheckName[] = ["test", "typecheck", "lint"];
+
+const DEFAULT_CHECK_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+const DEFAULT_MAX_OUTPUT_BYTES = 16 * 1024; // 16 KB
+
+/** Command per check; null means the check is not configured. */
+export type VerificationCommands = Record<VerificationCheckName, string | null>;
+
+export interface VerificationOptions {
+  cwd: string;
+  commands: VerificationCommands;
+  checks?: VerificationCheckName[];
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+  onUpdate?: (run: VerificationRun) => void;
+}
+
+export interface VerificationHandle {
+  run: VerificationRun;
+  done: Promise<VerificationRun>;
+  cancel: () => void;
+}
+
+// package.json script names tried for each check, in priority order
+const SCRIPT_CANDIDATES: Record<VerificationCheckName, string[]> = {
+  test: ["test"],
+  typecheck: ["typecheck", "type-check", "check-types", "tsc"],
+  lint: ["lint"],
+};
+
+// The script npm init writes when no test runner is configured
+const NPM_PLACEHOLDER_TEST = /no test specified/;
+
+/**
+ * Get the project config path (shared with other per-project settings).
+ */
+export function getProjectConfigPath(projectDir: string): string {
+  return path.join(projectDir, ".diffprism", "config.json");
+}
+
+function detectPackageManager(projectDir: string): string {
+  if (fs.existsSync(path.join(projectDir, "pnpm-lock.yaml"))) return "pnpm";
+  if (fs.existsSync(path.join(projectDir, "yarn.lock"))) return "yarn";
+  if (fs.existsSync(path.join(projectDir, "bun.lockb"))) return "bun";
+  return "npm";
+}
+
+function readJson(filePath: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the command for each verification check.
+ *
+ * Explicit commands in `.diffprism/config.json` (`{ "verification": { "test": "..." } }`)
+ * win; a `null` value there disables the check. Anything left unset falls back
+ * to a matching package.json script run through the detected package manager.
+ */
+export function resolveVerificationCommands(projectDir: string): VerificationCommands {
+  const commands: VerificationCommands = { test: null, typecheck: null, lint: null };
+
+  const config = readJson(getProjectConfigPath(projectDir));
+  const configured = (config?.verification ?? {}) as Partial<Record<VerificationCheckName, string | null>>;
+
+  const pkg = readJson(path.join(projectDir, "package.json"));
+  const scripts = (pkg?.scripts ?? {}) as Record<string, string>;
+  const packageManager = detectPackageManager(projectDir);
+
+  for (const check of VERIFICATION_CHECKS) {
+    if (check in configured) {
+      const value = configured[check];
+      commands[check] = typeof value === "string" && value.trim() ? value : null;
+      continue;
+    }
+
+    const script = SCRIPT_CANDIDATES[check].find((name) => typeof scripts[name] === "string");
+    if (!script) continue;
+    if (check === "test" && NPM_PLACEHOLDER_TEST.test(scripts[script])) continue;
+    commands[check] = `${packageManager} run ${script}`;
+  }
+
+  return commands;
+}
+
+/**
+ * Fill a briefing's verification fields from a run. Checks that did not
+ * finish (skipped, running, cancelled) stay null.
+ */
+export function applyVerification(
+  briefing: ReviewBriefing,
+  run: VerificationRun | undefined,
+): ReviewBriefing {
+  const outcome = (name: VerificationCheckName): boolean | null => {
+    const check = run?.checks.find((c) => c.name === name);
+    if (!check || run?.stale) return null;
+    if (check.status === "passed") return true;
+    if (check.status === "failed") return false;
+    return null;
+  };
+
+  return {
+    ...briefing,
+    verification: {
+      testsPass: outcome("test"),
+      typeCheck: outcome("typecheck"),
+      lintClean: outcome("lint"),
+    },
+  };
+}
+
+/**
+ * Keep only the last `maxBytes` of output so failing runs still show the
+ * summary most tools print at the end.
+ */
+function appendOutput(
+  check: VerificationCheckResult,
+  chunk: string,
+  maxBytes: number,
+): void {
+  const combined = check.output + chunk;
+  if (combined.length > maxBytes) {
+    check.output = combined.slice(combined.length - maxBytes);
+    check.truncated = true;
+  } else {
+    check.output = combined;
+  }
+}
+
+/**
+ * Stop a check's whole process group — package-manager scripts spawn
+ * children that would otherwise keep the output pipes open.
+ */
+function killCheck(child: ChildProcess): void {
+  try {
+    if (child.pid) process.kill(-child.pid, "SIGTERM");
+  } catch {
+    child.kill("SIGTERM");
+  }
+}
+
+/**
+ * Run the configured verification checks one after another in the background.
+ * `onUpdate` fires whenever a check starts or finishes; the returned handle's
+ * `done` promise resolves with the final run and never rejects.
+ */
+export function runVerification(options: VerificationOptions): VerificationHandle {
+  const {
+    cwd,
+    commands,
+    checks = VERIFICATION_CHECKS,
+    timeoutMs = DEFAULT_CHECK_TIMEOUT_MS,
+    maxOutputBytes = DEFAULT_MAX_OUTPUT_BYTES,
+    onUpdate,
+  } = options;
+
+  const run: VerificationRun = {
+    id: randomUUID(),
+    status: "running",
+    startedAt: Date.now(),
+    checks: checks.map((name) => ({
+      name,
+      command: commands[name],
+      status: commands[name] ? "pending" : "skipped",
+      exitCode: null,
+      durationMs: null,
+      output: "",
+      truncated: false,
+    })),
+  };
+
+  let current: ChildProcess | null = null;
+  let cancelled = false;
+
+  function runCheck(check: VerificationCheckResult): Promise<void> {
+    return new Promise((resolve) => {
+      const started = Date.now();
+      check.status = "running";
+      onUpdate?.(run);
+
+      const child = spawn(check.command!, {
+        cwd,
+        shell: true,
+        env: { ...process.env, CI: "1", FORCE_COLOR: "0" },
+        stdio: ["ignore", "pipe", "pipe"],
+        detached: true,
+      });
+      current = child;
+
+      const timer = setTimeout(() => {
+        check.timedOut = true;
+        killCheck(child);
+      }, timeoutMs);
+
+      const onData = (data: Buffer) => appendOutput(check, data.toString(), maxOutputBytes);
+      child.stdout?.on("data", onData);
+      child.stderr?.on("data", onData);
+
+      let settled = false;
+      const finish = (exitCode: number | null, error?: Error) => {
+        // "error" and "close" can both fire for a failed spawn
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        current = null;
+        if (error) appendOutput(check, `${error.message}\n`, maxOutputBytes);
+        check.exitCode = exitCode;
+        check.durationMs = Date.now() - started;
+        check.status = exitCode === 0 && !check.timedOut ? "passed" : "failed";
+        if (cancelled) check.status = "skipped";
+        onUpdate?.(run);
+        resolve();
+      };
+
+      child.on("error", (err) => finish(null, err));
+      child.on("close", (code) => finish(code));
+    });
+  }
+
+  const done = (async () => {
+    for (const check of run.checks) {
+      if (check.status !== "pending") continue;
+      if (cancelled) {
+        check.status = "skipped";
+        continue;
+      }
+      await runCheck(check);
+    }
+    run.status = cancelled ? "cancelled" : "completed";
+    run.finishedAt = Date.now();
+    onUpdate?.(run);
+    return run;
+  })();
+
+  return {
+    run,
+    done,
+    cancel() {
+      if (run.status !== "running") return;
+      cancelled = true;
+      if (current) killCheck(current);
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { commitChanges, pushBranch, getRemoteUrl } from "../commit.js";
+
+vi.mock("node:child_process", () => ({
+  execFile: vi.fn(),
+  execFileSync: vi.fn(),
+}));
+
+import { execFile, execFileSync } from "node:child_process";
+
+const mockExecFile = vi.mocked(execFile);
+const mockExecFileSync = vi.mocked(execFileSync);
+
+/**
+ * Answer async git calls with `respond(args)`; a thrown error fails the call
+ * with its message as stderr. Returns the stdin input each call received.
+ */
+function setupGit(respond: (args: string[]) => string): string[] {
+  const inputs: string[] = [];
+  mockExecFile.mockImplementation(((_cmd: string, args: string[], _options: unknown, callback: Function) => {
+    try {
+      callback(null, respond(args), "");
+    } catch (err) {
+      callback(new Error("Command failed"), "", (err as Error).message);
+    }
+    return { stdin: { end: (input?: string) => inputs.push(input ?? "") } };
+  }) as never);
+  return inputs;
+}
+
+describe("commitChanges", () => {
+  beforeEach(() => {
+    mockExecFile.mockReset();
+  });
+
+  it("stages the given paths, commits the message and returns the SHA", async () => {
+    const inputs = setupGit((args) => (args[0] === "rev-parse" ? "abc123\n" : ""));
+
+    const sha = await commitChanges("Subject\n\nBody", { cwd: "/repo", paths: ["a.ts", "b.ts"] });
+
+    expect(sha).toBe("abc123");
+    expect(mockExecFile.mock.calls.map((c) => c[1])).toEqual([
+      ["add", "-A", "--", "a.ts", "b.ts"],
+      ["commit", "--file", "-"],
+      ["rev-parse", "HEAD"],
+    ]);
+    expect(mockExecFile.mock.calls[1][2]).toMatchObject({ cwd: "/repo" });
+    expect(inputs[1]).toBe("Subject\n\nBody");
+  });
+
+  it("commits the index as-is when no paths are given", async () => {
+    setupGit(() => "abc123");
+
+    await commitChanges("Subject", { cwd: "/repo" });
+
+    expect(mockExecFile.mock.calls[0][1]).toEqual(["commit", "--file", "-"]);
+  });
+
+  it("rejects with git's stderr when the commit fails", async () => {
+    setupGit(() => {
+      throw new Error("nothing to commit, working tree clean\n");
+    });
+
+    await expect(commitChanges("Subject", { cwd: "/repo" })).rejects.toThrow(
+      "git commit failed: nothing to commit, working tree clean",
+    );
+  });
+});
+
+describe("pushBranch", () => {
+  beforeEach(() => {
+    mockExecFile.mockReset();
+  });
+
+  it("pushes to origin with an upstream, without prompting for credentials", async () => {
+    setupGit(() => "");
+
+    await pushBranch("feature", { cwd: "/repo" });
+
+    expect(mockExecFile).toHaveBeenCalledWith(
+      "git",
+      ["push", "--set-upstream", "origin", "feature"],
+      expect.objectContaining({
+        cwd: "/repo",
+        env: expect.objectContaining({ GIT_TERMINAL_PROMPT: "0" }),
+      }),
+      expect.any(Function),
+    );
+  });
+});
+
+describe("getRemoteUrl", () => {
+  beforeEach(() => {
+    mockExecFileSync.mockReset();
+  });
+
+  it("returns the remote URL", () => {
+    mockExecFileSync.mockReturnValue("git@github.com:owner/repo.git\n");
+
+    expect(getRemoteUrl("origin", { cwd: "/repo" })).toBe("git@github.com:owner/repo.git");
+  });
+
+  it("returns null when the remote is missing", () => {
+    mockExecFileSync.mockImplementation(() => {
+      throw new Error("No such remote 'origin'");
+    });
+
+    expect(getRemoteUrl("origin", { cwd: "/repo" })).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GitError, runGit, runGitAsync, verifyRef, verifyDiffRef } from "../exec.js";
+
+vi.mock("node:child_process", () => ({
+  execFileSync: vi.fn(),
+  execFile: vi.fn(),
+}));
+
+import { execFile, execFileSync } from "node:child_process";
+
+const mockExecFileSync = vi.mocked(execFileSync);
+const mockExecFile = vi.mocked(execFile);
+
+type ExecFileCallback = (err: Error | null, stdout: string, stderr: string) => void;
+
+/** Make the mocked execFile complete with the given result. */
+function completeExecFile(err: Error | null, stdout = "", stderr = ""): void {
+  mockExecFile.mockImplementation(((_cmd: string, _args: string[], _opts: unknown, cb: ExecFileCallback) => {
+    setImmediate(() => cb(err, stdout, stderr));
+    return { stdin: { end: vi.fn() } };
+  }) as unknown as typeof execFile);
+}
+
+function gitFailure(stderr: string): Error {
+  return Object.assign(new Error("Command failed"), { stderr });
+}
+
+describe("runGit", () => {
+  beforeEach(() => {
+    mockExecFileSync.mockReset();
+  });
+
+  it("passes arguments to git directly, without a shell", () => {
+    mockExecFileSync.mockReturnValue("out");
+
+    expect(runGit(["show", "HEAD:a b;$(x).ts"], { cwd: "/repo" })).toBe("out");
+    expect(mockExecFileSync).toHaveBeenCalledWith(
+      "git",
+      ["show", "HEAD:a b;$(x).ts"],
+      expect.objectContaining({ cwd: "/repo" }),
+    );
+    expect(mockExecFileSync.mock.calls[0][2]).not.toHaveProperty("shell");
+  });
+
+  it("reports a missing git binary as git_not_found", () => {
+    mockExecFileSync.mockImplementation(() => {
+      throw Object.assign(new Error("spawnSync git ENOENT"), { code: "ENOENT" });
+    });
+
+    expect(() => runGit(["status"])).toThrow(
+      expect.objectContaining({ name: "GitError", code: "git_not_found" }),
+    );
+  });
+
+  it("reports directories outside a repository as not_a_repository", () => {
+    mockExecFileSync.mockImplementation(() => {
+      throw gitFailure("fatal: not a git repository (or any of the parent directories): .git");
+    });
+
+    expect(() => runGit(["status"], { cwd: "/tmp" })).toThrow(
+      expect.objectContaining({
+        code: "not_a_repository",
+        message: 'The directory "/tmp" is not inside a git repository.',
+      }),
+    );
+  });
+
+  it("keeps git's stderr on other failures", () => {
+    mockExecFileSync.mockImplementation(() => {
+      throw gitFailure("error: pathspec 'x' did not match\n");
+    });
+
+    try {
+      runGit(["add", "x"]);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(GitError);
+      expect(err).toMatchObject({
+        code: "command_failed",
+        message: "git add failed: error: pathspec 'x' did not match",
+        args: ["add", "x"],
+      });
+    }
+  });
+});
+
+describe("runGitAsync", () => {
+  beforeEach(() => {
+    mockExecFile.mockReset();
+    mockExecFileSync.mockReset();
+  });
+
+  it("resolves with stdout without blocking on execFileSync", async () => {
+    completeExecFile(null, "out");
+
+    await expect(runGitAsync(["diff", "--no-color"], { cwd: "/repo" })).resolves.toBe("out");
+    expect(mockExecFile).toHaveBeenCalledWith(
+      "git",
+      ["diff", "--no-color"],
+      expect.objectContaining({ cwd: "/repo" }),
+      expect.any(Function),
+    );
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+
+  it("rejects with the same GitError classification as runGit", async () => {
+    completeExecFile(new Error("Command failed"), "", "fatal: not a git repository\n");
+
+    await expect(runGitAsync(["status"], { cwd: "/tmp" })).rejects.toMatchObject({
+      name: "GitError",
+      code: "not_a_repository",
+    });
+  });
+});
+
+describe("verifyRef", () => {
+  beforeEach(() => {
+    mockExecFileSync.mockReset();
+  });
+
+  it("resolves a ref to its commit with rev-parse --verify", () => {
+    mockExecFileSync.mockReturnValue("abc123\n");
+
+    expect(verifyRef("main~2")).toBe("abc123");
+    expect(mockExecFileSync.mock.calls[0][1]).toEqual([
+      "rev-parse",
+      "--verify",
+      "--quiet",
+      "main~2^{commit}",
+    ]);
+  });
+
+  it("rejects refs that look like options without running git", () => {
+    expect(() => verifyRef("--output=/tmp/pwned")).toThrow(
+      expect.objectContaining({ code: "invalid_ref" }),
+    );
+    expect(() => verifyRef("main; rm -rf ~")).toThrow(
+      expect.objectContaining({ code: "invalid_ref" }),
+    );
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+
+  it("reports unknown refs as invalid_ref", () => {
+    mockExecFileSync.mockImplementation(() => {
+      throw gitFailure("");
+    });
+
+    expect(() => verifyRef("nope")).toThrow(
+      expect.objectContaining({ code: "invalid_ref", message: 'Unknown git ref: "nope"' }),
+    );
+  });
+});
+
+describe("verifyDiffRef", () => {
+  beforeEach(() => {
+    mockExecFileSync.mockReset();
+    mockExecFileSync.mockReturnValue("abc123\n");
+  });
+
+  it("skips working-tree refs", () => {
+    verifyDiffRef("working-copy");
+    verifyDiffRef("staged");
+
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+
+  it("verifies both sides of a range, treating an empty side as HEAD", () => {
+    verifyDiffRef("main...feature");
+    verifyDiffRef("HEAD~3..");
+
+    expect(mockExecFileSync.mock.calls.map((c) => (c[1] as string[])[3])).toEqual([
+      "main^{commit}",
+      "feature^{commit}",
+      "HEAD~3^{commit}",
+    ]);
+  });
+
+  it("rejects malformed ranges", () => {
+    expect(() => verifyDiffRef("..")).toThrow(expect.objectContaining({ code: "invalid_ref" }));
+    expect(() => verifyDiffRef("a..b..c")).toThrow(
+      expect.objectContaining({ code: "invalid_ref" }),
+    );
+  });
+});
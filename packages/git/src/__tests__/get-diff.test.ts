@@ -3,17 +3,19 @@ import { describe, it, expect, vi } from "vitest";
 // Mock the local and parser modules before importing getDiff
 vi.mock("../local.js", () => ({
   getGitDiff: vi.fn(),
+  getGitDiffAsync: vi.fn(),
 }));
 
 vi.mock("../parser.js", () => ({
   parseDiff: vi.fn(),
 }));
 
-import { getDiff } from "../index.js";
-import { getGitDiff } from "../local.js";
+import { getDiff, getDiffAsync } from "../index.js";
+import { getGitDiff, getGitDiffAsync } from "../local.js";
 import { parseDiff } from "../parser.js";
 
 const mockGetGitDiff = vi.mocked(getGitDiff);
+const mockGetGitDiffAsync = vi.mocked(getGitDiffAsync);
 const mockParseDiff = vi.mocked(parseDiff);
 
 const emptyDiffSet = { baseRef: "", headRef: "", files: [] };
@@ -122,3 +124,41 @@ describe("getDiff", () => {
     });
   });
 });
+
+describe("getDiffAsync", () => {
+  it("derives the same ref labels as getDiff", async () => {
+    mockGetGitDiffAsync.mockResolvedValue("raw diff");
+    mockParseDiff.mockReturnValue(emptyDiffSet);
+
+    const result = await getDiffAsync("main..feature", { cwd: "/repo" });
+
+    expect(result.rawDiff).toBe("raw diff");
+    expect(mockGetGitDiffAsync).toHaveBeenCalledWith("main..feature", { cwd: "/repo" });
+    expect(mockParseDiff).toHaveBeenCalledWith("raw diff", "main", "feature");
+  });
+
+  it("merges staged and unstaged diffs for working-copy", async () => {
+    mockGetGitDiffAsync.mockImplementation(async (ref) => `${ref} diff\n`);
+    mockParseDiff.mockImplementation((_raw, baseRef, headRef) => ({
+      baseRef,
+      headRef,
+      files: [
+        {
+          path: "a.ts",
+          status: "modified" as const,
+          hunks: [],
+          language: "typescript",
+          binary: false,
+          additions: 1,
+          deletions: 0,
+        },
+      ],
+    }));
+
+    const result = await getDiffAsync("working-copy");
+
+    expect(result.rawDiff).toBe("staged diff\nunstaged diff\n");
+    expect(result.diffSet.headRef).toBe("working tree");
+    expect(result.diffSet.files.map((f) => f.stage)).toEqual(["staged", "unstaged"]);
+  });
+});
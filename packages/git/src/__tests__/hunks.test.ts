@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { DiffFile } from "@diffprism/core";
+import { buildHunkPatch, applyHunk } from "../hunks.js";
+
+vi.mock("node:child_process", () => ({
+  execFile: vi.fn(),
+}));
+
+import { execFile } from "node:child_process";
+
+const mockExecFile = vi.mocked(execFile);
+
+/**
+ * Answer async git calls with `stderr` as a failure, or succeed. Returns
+ * the stdin input each call received.
+ */
+function setupGit(stderr?: string): string[] {
+  const inputs: string[] = [];
+  mockExecFile.mockImplementation(((_cmd: string, _args: string[], _options: unknown, callback: Function) => {
+    if (stderr) {
+      callback(new Error("Command failed"), "", stderr);
+    } else {
+      callback(null, "", "");
+    }
+    return { stdin: { end: (input?: string) => inputs.push(input ?? "") } };
+  }) as never);
+  return inputs;
+}
+
+function makeFile(overrides: Partial<DiffFile> = {}): DiffFile {
+  return {
+    path: "src/a.ts",
+    status: "modified",
+    language: "typescript",
+    binary: false,
+    additions: 1,
+    deletions: 1,
+    hunks: [
+      {
+        oldStart: 3,
+        oldLines: 2,
+        newStart: 3,
+        newLines: 2,
+        changes: [
+          { type: "context", lineNumber: 3, content: "const a = 1;" },
+          { type: "delete", lineNumber: 4, content: "let b = 2;" },
+          { type: "add", lineNumber: 4, content: "const b = 2;" },
+        ],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("buildHunkPatch", () => {
+  it("builds a patch for a modified file", () => {
+    const file = makeFile();
+    expect(buildHunkPatch(file, file.hunks[0])).toBe(
+      [
+        "diff --git a/src/a.ts b/src/a.ts",
+        "--- a/src/a.ts",
+        "+++ b/src/a.ts",
+        "@@ -3,2 +3,2 @@",
+        " const a = 1;",
+        "-let b = 2;",
+        "+const b = 2;",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("uses /dev/null for added files", () => {
+    const file = makeFile({
+      status: "added",
+      hunks: [
+        {
+          oldStart: 0,
+          oldLines: 0,
+          newStart: 1,
+          newLines: 1,
+          changes: [{ type: "add", lineNumber: 1, content: "hello" }],
+        },
+      ],
+    });
+    const patch = buildHunkPatch(file, file.hunks[0]);
+    expect(patch).toContain("new file mode 100644\n--- /dev/null\n+++ b/src/a.ts\n");
+    expect(patch).toContain("@@ -0,0 +1,1 @@\n+hello\n");
+  });
+
+  it("keeps the mode of executable files", () => {
+    const file = makeFile({
+      status: "deleted",
+      mode: "100755",
+      hunks: [
+        {
+          oldStart: 1,
+          oldLines: 1,
+          newStart: 0,
+          newLines: 0,
+          changes: [{ type: "delete", lineNumber: 1, content: "#!/bin/sh" }],
+        },
+      ],
+    });
+    expect(buildHunkPatch(file, file.hunks[0])).toContain("deleted file mode 100755\n");
+  });
+
+  it("carries rename headers for renamed files", () => {
+    const file = makeFile({ status: "renamed", oldPath: "src/old.ts" });
+    expect(buildHunkPatch(file, file.hunks[0])).toBe(
+      [
+        "diff --git a/src/old.ts b/src/a.ts",
+        "rename from src/old.ts",
+        "rename to src/a.ts",
+        "--- a/src/old.ts",
+        "+++ b/src/a.ts",
+        "@@ -3,2 +3,2 @@",
+        " const a = 1;",
+        "-let b = 2;",
+        "+const b = 2;",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("marks lines without a trailing newline", () => {
+    const file = makeFile();
+    file.hunks[0].changes[1].noNewline = true;
+    file.hunks[0].changes[2].noNewline = true;
+
+    expect(buildHunkPatch(file, file.hunks[0])).toContain(
+      "-let b = 2;\n\\ No newline at end of file\n+const b = 2;\n\\ No newline at end of file\n",
+    );
+  });
+});
+
+describe("applyHunk", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it.each([
+    ["stage", ["apply", "--cached", "--whitespace=nowarn", "-"]],
+    ["unstage", ["apply", "--cached", "--reverse", "--whitespace=nowarn", "-"]],
+    ["discard", ["apply", "--reverse", "--whitespace=nowarn", "-"]],
+  ] as const)("runs git apply for %s", async (action, args) => {
+    const inputs = setupGit();
+    const file = makeFile();
+    await applyHunk(file, file.hunks[0], action, { cwd: "/repo" });
+
+    expect(mockExecFile).toHaveBeenCalledWith(
+      "git",
+      args,
+      expect.objectContaining({ cwd: "/repo" }),
+      expect.any(Function),
+    );
+    expect(inputs).toEqual([buildHunkPatch(file, file.hunks[0])]);
+  });
+
+  it("reports git's error output", async () => {
+    setupGit("error: patch failed: src/a.ts:3\n");
+    const file = makeFile();
+
+    await expect(applyHunk(file, file.hunks[0], "stage", { cwd: "/repo" })).rejects.toThrow(
+      "git apply failed: error: patch failed: src/a.ts:3",
+    );
+  });
+});
@@ -3,17 +3,22 @@ import { getGitDiff, listBranches, listCommits } from "../local.js";
 
 // Mock child_process and fs
 vi.mock("node:child_process", () => ({
-  execSync: vi.fn(),
+  execFileSync: vi.fn(),
 }));
 
 vi.mock("node:fs", () => ({
   readFileSync: vi.fn(),
 }));
 
-import { execSync } from "node:child_process";
+import { execFileSync } from "node:child_process";
 import { readFileSync } from "node:fs";
 
-const mockExecSync = vi.mocked(execSync);
+const mockExecFileSync = vi.mocked(execFileSync);
+
+/** Rebuild the command line from execFileSync's argument array. */
+function commandOf(args: unknown): string {
+  return ["git", ...(args as string[])].join(" ");
+}
 const mockReadFileSync = vi.mocked(readFileSync);
 
 /**
@@ -21,8 +26,8 @@ const mockReadFileSync = vi.mocked(readFileSync);
  * then return the given diff output for the actual diff command.
  */
 function setupGitMocks(diffOutput: string, untrackedList = "") {
-  mockExecSync.mockImplementation((cmd: string, _opts?: unknown) => {
-    const command = String(cmd);
+  mockExecFileSync.mockImplementation((_file, args) => {
+    const command = commandOf(args);
     if (command === "git --version") return "git version 2.40.0";
     if (command === "git rev-parse --is-inside-work-tree") return "true";
     if (command === "git ls-files --others --exclude-standard")
@@ -43,10 +48,10 @@ describe("getGitDiff", () => {
       setupGitMocks("staged diff output");
       const result = getGitDiff("staged");
 
-      const diffCall = mockExecSync.mock.calls.find(
-        (c) => String(c[0]).startsWith("git diff"),
+      const diffCall = mockExecFileSync.mock.calls.find(
+        (c) => commandOf(c[1]).startsWith("git diff"),
       );
-      expect(String(diffCall?.[0])).toBe("git diff --staged --no-color");
+      expect(commandOf(diffCall?.[1])).toBe("git diff --staged --no-color");
       expect(result).toBe("staged diff output");
     });
 
@@ -54,8 +59,8 @@ describe("getGitDiff", () => {
       setupGitMocks("unstaged diff output", "");
       const result = getGitDiff("unstaged");
 
-      const diffCall = mockExecSync.mock.calls.find(
-        (c) => String(c[0]) === "git diff --no-color",
+      const diffCall = mockExecFileSync.mock.calls.find(
+        (c) => commandOf(c[1]) === "git diff --no-color",
       );
       expect(diffCall).toBeDefined();
       expect(result).toBe("unstaged diff output");
@@ -65,8 +70,8 @@ describe("getGitDiff", () => {
       setupGitMocks("all diff output", "");
       const result = getGitDiff("all");
 
-      const diffCall = mockExecSync.mock.calls.find(
-        (c) => String(c[0]) === "git diff HEAD --no-color",
+      const diffCall = mockExecFileSync.mock.calls.find(
+        (c) => commandOf(c[1]) === "git diff HEAD --no-color",
       );
       expect(diffCall).toBeDefined();
       expect(result).toBe("all diff output");
@@ -76,11 +81,11 @@ describe("getGitDiff", () => {
       setupGitMocks("custom diff output");
       const result = getGitDiff("HEAD~3..HEAD");
 
-      const diffCall = mockExecSync.mock.calls.find(
-        (c) => String(c[0]).startsWith("git diff --no-color"),
+      const diffCall = mockExecFileSync.mock.calls.find(
+        (c) => commandOf(c[1]).startsWith("git diff --no-color"),
       );
-      expect(String(diffCall?.[0])).toBe(
-        "git diff --no-color HEAD~3..HEAD",
+      expect(commandOf(diffCall?.[1])).toBe(
+        "git diff --no-color HEAD~3..HEAD --",
       );
       expect(result).toBe("custom diff output");
     });
@@ -88,8 +93,10 @@ describe("getGitDiff", () => {
 
   describe("error handling", () => {
     it("throws when git is not available", () => {
-      mockExecSync.mockImplementation((cmd: string) => {
-        if (String(cmd) === "git --version") throw new Error("not found");
+      mockExecFileSync.mockImplementation((_file, args) => {
+        if (commandOf(args) === "git --version") {
+          throw Object.assign(new Error("spawnSync git ENOENT"), { code: "ENOENT" });
+        }
         return "";
       });
 
@@ -99,10 +106,14 @@ describe("getGitDiff", () => {
     });
 
     it("throws when not inside a git repository", () => {
-      mockExecSync.mockImplementation((cmd: string) => {
-        if (String(cmd) === "git --version") return "git version 2.40.0";
-        if (String(cmd) === "git rev-parse --is-inside-work-tree")
-          throw new Error("not a repo");
+      mockExecFileSync.mockImplementation((_file, args) => {
+        const command = commandOf(args);
+        if (command === "git --version") return "git version 2.40.0";
+        if (command === "git rev-parse --is-inside-work-tree") {
+          throw Object.assign(new Error("Command failed"), {
+            stderr: "fatal: not a git repository (or any of the parent directories): .git\n",
+          });
+        }
         return "";
       });
 
@@ -112,8 +123,8 @@ describe("getGitDiff", () => {
     });
 
     it("throws with a descriptive message when git diff fails", () => {
-      mockExecSync.mockImplementation((cmd: string) => {
-        const command = String(cmd);
+      mockExecFileSync.mockImplementation((_file, args) => {
+        const command = commandOf(args);
         if (command === "git --version") return "git version 2.40.0";
         if (command === "git rev-parse --is-inside-work-tree") return "true";
         if (command.startsWith("git diff"))
@@ -156,8 +167,8 @@ describe("getGitDiff", () => {
       const result = getGitDiff("staged");
 
       // Should not call git ls-files
-      const lsFilesCall = mockExecSync.mock.calls.find(
-        (c) => String(c[0]).includes("ls-files"),
+      const lsFilesCall = mockExecFileSync.mock.calls.find(
+        (c) => commandOf(c[1]).includes("ls-files"),
       );
       expect(lsFilesCall).toBeUndefined();
       expect(result).toBe("staged diff");
@@ -187,12 +198,12 @@ describe("getGitDiff", () => {
   });
 
   describe("cwd option", () => {
-    it("passes cwd to execSync", () => {
+    it("passes cwd to git", () => {
       setupGitMocks("");
       getGitDiff("staged", { cwd: "/tmp/my-repo" });
 
-      for (const call of mockExecSync.mock.calls) {
-        const opts = call[1] as { cwd?: string } | undefined;
+      for (const call of mockExecFileSync.mock.calls) {
+        const opts = call[2] as { cwd?: string } | undefined;
         expect(opts?.cwd).toBe("/tmp/my-repo");
       }
     });
@@ -205,7 +216,7 @@ describe("listBranches", () => {
   });
 
   it("separates local and remote branches", () => {
-    mockExecSync.mockReturnValue("main\nfeature-x\norigin/main\norigin/develop\n");
+    mockExecFileSync.mockReturnValue("main\nfeature-x\norigin/main\norigin/develop\n");
 
     const result = listBranches();
 
@@ -214,7 +225,7 @@ describe("listBranches", () => {
   });
 
   it("skips HEAD pointer entries", () => {
-    mockExecSync.mockReturnValue("main\norigin/HEAD\norigin/main\n");
+    mockExecFileSync.mockReturnValue("main\norigin/HEAD\norigin/main\n");
 
     const result = listBranches();
 
@@ -223,7 +234,7 @@ describe("listBranches", () => {
   });
 
   it("returns empty arrays on failure", () => {
-    mockExecSync.mockImplementation(() => {
+    mockExecFileSync.mockImplementation(() => {
       throw new Error("not a git repo");
     });
 
@@ -234,7 +245,7 @@ describe("listBranches", () => {
   });
 
   it("returns empty arrays for empty output", () => {
-    mockExecSync.mockReturnValue("");
+    mockExecFileSync.mockReturnValue("");
 
     const result = listBranches();
 
@@ -242,12 +253,12 @@ describe("listBranches", () => {
     expect(result.remote).toEqual([]);
   });
 
-  it("passes cwd option to execSync", () => {
-    mockExecSync.mockReturnValue("main\n");
+  it("passes cwd option to git", () => {
+    mockExecFileSync.mockReturnValue("main\n");
 
     listBranches({ cwd: "/my/repo" });
 
-    const opts = mockExecSync.mock.calls[0][1] as { cwd?: string };
+    const opts = mockExecFileSync.mock.calls[0][2] as { cwd?: string };
     expect(opts.cwd).toBe("/my/repo");
   });
 });
@@ -258,7 +269,7 @@ describe("listCommits", () => {
   });
 
   it("parses commit log output", () => {
-    mockExecSync.mockReturnValue(
+    mockExecFileSync.mockReturnValue(
       "abc123full<<>>abc123<<>>Initial commit<<>>John Doe<<>>2025-01-15T10:30:00Z\n" +
       "def456full<<>>def456<<>>Add feature<<>>Jane Doe<<>>2025-01-14T09:00:00Z\n",
     );
@@ -277,7 +288,7 @@ describe("listCommits", () => {
   });
 
   it("returns empty array on failure", () => {
-    mockExecSync.mockImplementation(() => {
+    mockExecFileSync.mockImplementation(() => {
       throw new Error("not a git repo");
     });
 
@@ -287,7 +298,7 @@ describe("listCommits", () => {
   });
 
   it("returns empty array for empty output", () => {
-    mockExecSync.mockReturnValue("");
+    mockExecFileSync.mockReturnValue("");
 
     const result = listCommits();
 
@@ -295,16 +306,16 @@ describe("listCommits", () => {
   });
 
   it("uses custom limit", () => {
-    mockExecSync.mockReturnValue("");
+    mockExecFileSync.mockReturnValue("");
 
     listCommits({ limit: 10 });
 
-    const cmd = String(mockExecSync.mock.calls[0][0]);
+    const cmd = commandOf(mockExecFileSync.mock.calls[0][1]);
     expect(cmd).toContain("-n 10");
   });
 
   it("skips malformed lines", () => {
-    mockExecSync.mockReturnValue(
+    mockExecFileSync.mockReturnValue(
       "abc123full<<>>abc123<<>>Good commit<<>>Author<<>>2025-01-15T10:30:00Z\nbad line\n",
     );
 
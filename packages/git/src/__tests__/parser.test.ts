@@ -104,6 +104,25 @@ describe("parseDiff", () => {
       c.content.includes("No newline at end of file"),
     );
     expect(noNewline).toBeUndefined();
+    // ...and recorded on the line it belongs to
+    expect(changes.filter((c) => c.noNewline)).toEqual([
+      { type: "context", lineNumber: 3, content: "}", noNewline: true },
+    ]);
+  });
+
+  it("keeps the mode of added and deleted files", () => {
+    const diff = `diff --git a/bin/run b/bin/run
+new file mode 100755
+index 0000000..abc1234
+--- /dev/null
++++ b/bin/run
+@@ -0,0 +1 @@
++#!/bin/sh
+`;
+    const [file] = parseDiff(diff, "HEAD", "staged").files;
+
+    expect(file.status).toBe("added");
+    expect(file.mode).toBe("100755");
   });
 
   it("detects languages by extension", () => {
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { execFileSync } from "node:child_process";
+import { snapshotDiffTree, getTreeDiffAsync } from "../snapshot.js";
+import { GitError } from "../exec.js";
+
+let repo: string;
+
+function git(...args: string[]): string {
+  return execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+    cwd: repo,
+    encoding: "utf-8",
+  });
+}
+
+beforeEach(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), "diffprism-snapshot-"));
+  git("init", "-q");
+  fs.writeFileSync(path.join(repo, "a.ts"), "export const a = 1;\n");
+  git("add", "a.ts");
+  git("commit", "-q", "-m", "initial");
+});
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+});
+
+describe("snapshotDiffTree", () => {
+  it("captures the working tree, including untracked files, without touching the index", async () => {
+    fs.writeFileSync(path.join(repo, "a.ts"), "export const a = 2;\n");
+    fs.writeFileSync(path.join(repo, "b.ts"), "export const b = 1;\n");
+
+    const tree = await snapshotDiffTree("working-copy", { cwd: repo });
+
+    expect(git("ls-tree", "--name-only", tree).trim().split("\n")).toEqual(["a.ts", "b.ts"]);
+    expect(git("show", `${tree}:a.ts`)).toBe("export const a = 2;\n");
+    expect(git("status", "--porcelain")).toBe(" M a.ts\n?? b.ts\n");
+  });
+
+  it("uses the head of a range", async () => {
+    fs.writeFileSync(path.join(repo, "a.ts"), "export const a = 2;\n");
+
+    const tree = await snapshotDiffTree("HEAD~0..HEAD", { cwd: repo });
+
+    expect(tree).toBe(git("rev-parse", "HEAD^{tree}").trim());
+  });
+});
+
+describe("getTreeDiffAsync", () => {
+  it("diffs two snapshots", async () => {
+    fs.writeFileSync(path.join(repo, "a.ts"), "export const a = 2;\n");
+    const before = await snapshotDiffTree("working-copy", { cwd: repo });
+    fs.writeFileSync(path.join(repo, "a.ts"), "export const a = 3;\n");
+    const after = await snapshotDiffTree("working-copy", { cwd: repo });
+
+    const { diffSet, rawDiff } = await getTreeDiffAsync(before, after, { cwd: repo });
+
+    expect(diffSet.files.map((f) => f.path)).toEqual(["a.ts"]);
+    expect(rawDiff).toContain("-export const a = 2;");
+    expect(rawDiff).toContain("+export const a = 3;");
+  });
+
+  it("rejects anything but object IDs", async () => {
+    await expect(getTreeDiffAsync("HEAD", "--output=x", { cwd: repo })).rejects.toBeInstanceOf(GitError);
+  });
+});
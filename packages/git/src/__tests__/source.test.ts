@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createSourceReader, preloadSources } from "../source.js";
+
+vi.mock("node:child_process", () => ({
+  execFileSync: vi.fn(),
+  execFile: vi.fn(),
+}));
+
+vi.mock("node:fs", () => ({
+  readFileSync: vi.fn(),
+}));
+
+vi.mock("node:fs/promises", () => ({
+  readFile: vi.fn(),
+}));
+
+import { execFile, execFileSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+
+const mockExecFile = vi.mocked(execFile);
+const mockExecFileSync = vi.mocked(execFileSync);
+const mockReadFileSync = vi.mocked(readFileSync);
+const mockReadFile = vi.mocked(readFile);
+
+/**
+ * Route `git` invocations by their joined argument list.
+ */
+function setupGit(responses: Record<string, string>) {
+  mockExecFileSync.mockImplementation((_cmd, args) => {
+    const key = (args as string[]).join(" ");
+    if (key in responses) return responses[key];
+    throw new Error(`fatal: unexpected git ${key}`);
+  });
+}
+
+describe("createSourceReader", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("reads HEAD and the index for staged diffs", () => {
+    setupGit({
+      "show HEAD:src/a.ts": "base content",
+      "show :src/a.ts": "index content",
+    });
+    const read = createSourceReader("staged", { cwd: "/repo" });
+
+    expect(read("src/a.ts", "base")).toBe("base content");
+    expect(read("src/a.ts", "head")).toBe("index content");
+    expect(mockExecFileSync).toHaveBeenCalledWith(
+      "git",
+      ["show", "HEAD:src/a.ts"],
+      expect.objectContaining({ cwd: "/repo" }),
+    );
+  });
+
+  it("reads the working tree from the repo root for working-copy diffs", () => {
+    setupGit({
+      "show HEAD:src/a.ts": "base content",
+      "rev-parse --show-toplevel": "/repo\n",
+    });
+    mockReadFileSync.mockReturnValue("worktree content");
+    const read = createSourceReader("working-copy", { cwd: "/repo/packages" });
+
+    expect(read("src/a.ts", "head")).toBe("worktree content");
+    expect(mockReadFileSync).toHaveBeenCalledWith("/repo/src/a.ts", "utf-8");
+    expect(read("src/a.ts", "base")).toBe("base content");
+  });
+
+  it("reads both revisions of a ref range", () => {
+    setupGit({
+      "show main:src/a.ts": "main content",
+      "show feature:src/a.ts": "feature content",
+    });
+    const read = createSourceReader("main..feature");
+
+    expect(read("src/a.ts", "base")).toBe("main content");
+    expect(read("src/a.ts", "head")).toBe("feature content");
+  });
+
+  it("uses the merge base for three-dot ranges", () => {
+    setupGit({
+      "merge-base main feature": "abc123\n",
+      "show abc123:src/a.ts": "merge-base content",
+    });
+    const read = createSourceReader("main...feature");
+
+    expect(read("src/a.ts", "base")).toBe("merge-base content");
+  });
+
+  it("returns null when the file does not exist on that side", () => {
+    setupGit({});
+    const read = createSourceReader("HEAD~1..HEAD");
+
+    expect(read("src/missing.ts", "base")).toBeNull();
+  });
+
+  it("caches results per path and side", () => {
+    setupGit({ "show HEAD:src/a.ts": "base content" });
+    const read = createSourceReader("staged");
+
+    read("src/a.ts", "base");
+    read("src/a.ts", "base");
+
+    expect(mockExecFileSync).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("preloadSources", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  /**
+   * Route async `git` invocations by their joined argument list.
+   */
+  function setupAsyncGit(responses: Record<string, string>) {
+    mockExecFile.mockImplementation(((_cmd: string, args: string[], _options: unknown, callback: Function) => {
+      const key = args.join(" ");
+      if (key in responses) callback(null, responses[key], "");
+      else callback(new Error(`fatal: unexpected git ${key}`), "", `fatal: unexpected git ${key}`);
+      return { stdin: null };
+    }) as never);
+  }
+
+  it("reads the requested sides without synchronous git calls", async () => {
+    setupAsyncGit({
+      "merge-base main feature": "abc123\n",
+      "rev-parse --show-toplevel": "/repo\n",
+      "show abc123:src/a.ts": "base content",
+      "show feature:src/a.ts": "head content",
+    });
+    const read = await preloadSources(
+      "main...feature",
+      [
+        { path: "src/a.ts", side: "base" },
+        { path: "src/a.ts", side: "head" },
+      ],
+      { cwd: "/repo" },
+    );
+
+    expect(read("src/a.ts", "base")).toBe("base content");
+    expect(read("src/a.ts", "head")).toBe("head content");
+    expect(mockExecFileSync).not.toHaveBeenCalled();
+  });
+
+  it("reads the working tree from the repo root", async () => {
+    setupAsyncGit({ "rev-parse --show-toplevel": "/repo\n" });
+    mockReadFile.mockResolvedValue("worktree content");
+
+    const read = await preloadSources("unstaged", [{ path: "src/a.ts", side: "head" }], { cwd: "/repo/packages" });
+
+    expect(read("src/a.ts", "head")).toBe("worktree content");
+    expect(mockReadFile).toHaveBeenCalledWith("/repo/src/a.ts", "utf-8");
+  });
+
+  it("returns null for failed and unrequested reads", async () => {
+    setupAsyncGit({ "rev-parse --show-toplevel": "/repo\n" });
+
+    const read = await preloadSources("staged", [{ path: "src/gone.ts", side: "base" }], { cwd: "/repo" });
+
+    expect(read("src/gone.ts", "base")).toBeNull();
+    expect(read("src/other.ts", "head")).toBeNull();
+  });
+});
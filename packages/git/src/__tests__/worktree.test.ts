@@ -3,16 +3,21 @@ import { detectWorktree } from "../local.js";
 
 // Mock child_process
 vi.mock("node:child_process", () => ({
-  execSync: vi.fn(),
+  execFileSync: vi.fn(),
 }));
 
 vi.mock("node:fs", () => ({
   readFileSync: vi.fn(),
 }));
 
-import { execSync } from "node:child_process";
+import { execFileSync } from "node:child_process";
 
-const mockExecSync = vi.mocked(execSync);
+const mockExecFileSync = vi.mocked(execFileSync);
+
+/** Rebuild the command line from execFileSync's argument array. */
+function commandOf(args: unknown): string {
+  return ["git", ...(args as string[])].join(" ");
+}
 
 describe("detectWorktree", () => {
   beforeEach(() => {
@@ -20,8 +25,8 @@ describe("detectWorktree", () => {
   });
 
   it("returns isWorktree: false in a normal repository", () => {
-    mockExecSync.mockImplementation((cmd: string) => {
-      const command = String(cmd);
+    mockExecFileSync.mockImplementation((_file, args) => {
+      const command = commandOf(args);
       if (command === "git rev-parse --git-dir") return ".git";
       if (command === "git rev-parse --git-common-dir") return ".git";
       return "";
@@ -33,8 +38,8 @@ describe("detectWorktree", () => {
   });
 
   it("detects a linked worktree when git-dir and git-common-dir differ", () => {
-    mockExecSync.mockImplementation((cmd: string) => {
-      const command = String(cmd);
+    mockExecFileSync.mockImplementation((_file, args) => {
+      const command = commandOf(args);
       if (command === "git rev-parse --git-dir")
         return "/main/repo/.git/worktrees/feature-branch";
       if (command === "git rev-parse --git-common-dir")
@@ -55,7 +60,7 @@ describe("detectWorktree", () => {
   });
 
   it("returns isWorktree: false when git commands fail", () => {
-    mockExecSync.mockImplementation(() => {
+    mockExecFileSync.mockImplementation(() => {
       throw new Error("not a git repo");
     });
 
@@ -64,9 +69,9 @@ describe("detectWorktree", () => {
     expect(result).toEqual({ isWorktree: false });
   });
 
-  it("passes cwd option to execSync", () => {
-    mockExecSync.mockImplementation((cmd: string) => {
-      const command = String(cmd);
+  it("passes cwd option to git", () => {
+    mockExecFileSync.mockImplementation((_file, args) => {
+      const command = commandOf(args);
       if (command === "git rev-parse --git-dir") return ".git";
       if (command === "git rev-parse --git-common-dir") return ".git";
       return "";
@@ -74,15 +79,15 @@ describe("detectWorktree", () => {
 
     detectWorktree({ cwd: "/custom/path" });
 
-    for (const call of mockExecSync.mock.calls) {
-      const opts = call[1] as { cwd?: string } | undefined;
+    for (const call of mockExecFileSync.mock.calls) {
+      const opts = call[2] as { cwd?: string } | undefined;
       expect(opts?.cwd).toBe("/custom/path");
     }
   });
 
   it("returns undefined branch when HEAD is detached", () => {
-    mockExecSync.mockImplementation((cmd: string) => {
-      const command = String(cmd);
+    mockExecFileSync.mockImplementation((_file, args) => {
+      const command = commandOf(args);
       if (command === "git rev-parse --git-dir")
         return "/main/repo/.git/worktrees/detached";
       if (command === "git rev-parse --git-common-dir")
@@ -102,8 +107,8 @@ describe("detectWorktree", () => {
   it("resolves relative git-dir paths against cwd", () => {
     // When inside a worktree, --git-dir may return a relative path
     // like "../.git/worktrees/my-branch"
-    mockExecSync.mockImplementation((cmd: string) => {
-      const command = String(cmd);
+    mockExecFileSync.mockImplementation((_file, args) => {
+      const command = commandOf(args);
       if (command === "git rev-parse --git-dir")
         return "../main-repo/.git/worktrees/my-branch";
       if (command === "git rev-parse --git-common-dir")
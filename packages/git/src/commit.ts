@@ -0,0 +1,59 @@
+import { runGit, runGitAsync } from "./exec.js";
+
+/**
+ * Create a commit and return its SHA. Git runs asynchronously, so slow
+ * hooks do not block the caller's event loop.
+ *
+ * @param message - Full commit message (subject, blank line, body).
+ * @param options.paths - Stage these paths (including deletions) before committing.
+ *   When omitted, whatever is already in the index is committed.
+ * @throws if there is nothing to commit or git rejects the commit.
+ */
+export async function commitChanges(
+  message: string,
+  options?: { cwd?: string; paths?: string[] },
+): Promise<string> {
+  const cwd = options?.cwd ?? process.cwd();
+
+  if (options?.paths && options.paths.length > 0) {
+    await runGitAsync(["add", "-A", "--", ...options.paths], { cwd });
+  }
+
+  await runGitAsync(["commit", "--file", "-"], { cwd, input: message });
+  return (await runGitAsync(["rev-parse", "HEAD"], { cwd })).trim();
+}
+
+/**
+ * Push a branch and set its upstream. Git never prompts for credentials —
+ * with nobody at a terminal the push fails instead of hanging.
+ *
+ * @throws if the push is rejected or the remote is unreachable.
+ */
+export async function pushBranch(
+  branch: string,
+  options?: { cwd?: string; remote?: string },
+): Promise<void> {
+  const cwd = options?.cwd ?? process.cwd();
+  const remote = options?.remote ?? "origin";
+  await runGitAsync(["push", "--set-upstream", remote, branch], {
+    cwd,
+    env: { GIT_TERMINAL_PROMPT: "0" },
+  });
+}
+
+/**
+ * Get the fetch URL of a remote.
+ *
+ * @returns The URL, or null if the remote does not exist.
+ */
+export function getRemoteUrl(
+  remote = "origin",
+  options?: { cwd?: string },
+): string | null {
+  const cwd = options?.cwd ?? process.cwd();
+  try {
+    return runGit(["remote", "get-url", remote], { cwd }).trim() || null;
+  } catch {
+    return null;
+  }
+}
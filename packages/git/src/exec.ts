@@ -0,0 +1,204 @@
+import { execFile, execFileSync } from "node:child_process";
+
+export type GitErrorCode =
+  | "git_not_found" // the git binary is not on PATH
+  | "not_a_repository" // cwd is outside any work tree
+  | "invalid_ref" // a ref or range that git cannot resolve (or that looks like an option)
+  | "command_failed"; // anything else git rejected
+
+/**
+ * Error thrown by every git call in this package. `code` tells callers
+ * (e.g. the server's HTTP routes) whether the input or the environment is
+ * at fault without parsing messages.
+ */
+export class GitError extends Error {
+  readonly code: GitErrorCode;
+  readonly args: string[];
+  readonly stderr: string;
+
+  constructor(
+    code: GitErrorCode,
+    message: string,
+    details: { args?: string[]; stderr?: string } = {},
+  ) {
+    super(message);
+    this.name = "GitError";
+    this.code = code;
+    this.args = details.args ?? [];
+    this.stderr = details.stderr ?? "";
+  }
+}
+
+export interface RunGitOptions {
+  cwd?: string;
+  /** Fed to git's stdin. */
+  input?: string;
+  /** Defaults to 50 MB, enough for large diffs. */
+  maxBuffer?: number;
+  /** Extra environment variables (e.g. GIT_INDEX_FILE), on top of process.env. */
+  env?: Record<string, string>;
+}
+
+const DEFAULT_MAX_BUFFER = 50 * 1024 * 1024;
+
+/**
+ * Classify a failed git process (sync or async) as a GitError.
+ */
+function toGitError(err: unknown, args: string[], cwd: string, stderrOverride?: string): GitError {
+  if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+    return new GitError(
+      "git_not_found",
+      "git is not available. Please install git and make sure it is on your PATH.",
+      { args },
+    );
+  }
+
+  const stderr = String(stderrOverride ?? (err as { stderr?: unknown }).stderr ?? "").trim();
+  if (/not a git repository/i.test(stderr)) {
+    return new GitError(
+      "not_a_repository",
+      `The directory "${cwd}" is not inside a git repository.`,
+      { args, stderr },
+    );
+  }
+
+  const message = stderr || (err instanceof Error ? err.message : String(err));
+  return new GitError("command_failed", `git ${args[0]} failed: ${message}`, { args, stderr });
+}
+
+/**
+ * Run git with an argument array. Nothing goes through a shell, so refs and
+ * paths are never interpreted as shell syntax. Returns raw stdout.
+ *
+ * @throws GitError
+ */
+export function runGit(args: string[], options: RunGitOptions = {}): string {
+  const cwd = options.cwd ?? process.cwd();
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      input: options.input,
+      encoding: "utf-8",
+      stdio: ["pipe", "pipe", "pipe"],
+      maxBuffer: options.maxBuffer ?? DEFAULT_MAX_BUFFER,
+      ...(options.env && { env: { ...process.env, ...options.env } }),
+    });
+  } catch (err) {
+    throw toGitError(err, args, cwd);
+  }
+}
+
+/**
+ * Async variant of `runGit` — git runs without blocking the event loop.
+ *
+ * @throws GitError (as a rejection)
+ */
+export function runGitAsync(args: string[], options: RunGitOptions = {}): Promise<string> {
+  const cwd = options.cwd ?? process.cwd();
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      "git",
+      args,
+      {
+        cwd,
+        encoding: "utf-8",
+        maxBuffer: options.maxBuffer ?? DEFAULT_MAX_BUFFER,
+        ...(options.env && { env: { ...process.env, ...options.env } }),
+      },
+      (err, stdout, stderr) => {
+        if (err) {
+          reject(toGitError(err, args, cwd, stderr));
+        } else {
+          resolve(stdout);
+        }
+      },
+    );
+    child.stdin?.end(options.input);
+  });
+}
+
+/**
+ * Reject refs git would parse as an option (`--output=...`) before they
+ * reach any command line.
+ *
+ * @throws GitError with code `invalid_ref`
+ */
+export function assertSafeRef(ref: string): void {
+  if (!ref || ref.startsWith("-") || /[\s\0]/.test(ref)) {
+    throw new GitError("invalid_ref", `Invalid git ref: "${ref}"`);
+  }
+}
+
+/**
+ * Resolve a single ref to a commit SHA with `git rev-parse --verify`.
+ *
+ * @throws GitError with code `invalid_ref` if the ref does not name a commit.
+ */
+export function verifyRef(ref: string, options?: { cwd?: string }): string {
+  assertSafeRef(ref);
+  try {
+    return runGit(verifyArgs(ref), options).trim();
+  } catch (err) {
+    throw toInvalidRef(err, ref);
+  }
+}
+
+/**
+ * Async variant of `verifyRef`.
+ */
+export async function verifyRefAsync(ref: string, options?: { cwd?: string }): Promise<string> {
+  assertSafeRef(ref);
+  try {
+    return (await runGitAsync(verifyArgs(ref), options)).trim();
+  } catch (err) {
+    throw toInvalidRef(err, ref);
+  }
+}
+
+function verifyArgs(ref: string): string[] {
+  return ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`];
+}
+
+function toInvalidRef(err: unknown, ref: string): GitError {
+  // A missing git binary or repository is not the ref's fault
+  if (err instanceof GitError && err.code !== "command_failed") return err;
+  return new GitError("invalid_ref", `Unknown git ref: "${ref}"`, {
+    args: ["rev-parse", "--verify", ref],
+  });
+}
+
+// Refs that describe the index / working tree rather than commits
+const WORKING_TREE_REFS = new Set(["staged", "unstaged", "working-copy", "all"]);
+
+/**
+ * Verify every commit named by a diff ref: a single ref, `a..b` or `a...b`
+ * (either side may be empty, meaning HEAD). Working-tree refs pass as-is.
+ *
+ * @throws GitError with code `invalid_ref`
+ */
+export function verifyDiffRef(ref: string, options?: { cwd?: string }): void {
+  for (const side of diffRefSides(ref)) {
+    verifyRef(side, options);
+  }
+}
+
+/**
+ * Async variant of `verifyDiffRef`.
+ */
+export async function verifyDiffRefAsync(ref: string, options?: { cwd?: string }): Promise<void> {
+  for (const side of diffRefSides(ref)) {
+    await verifyRefAsync(side, options);
+  }
+}
+
+/** The commit refs a diff ref names, without empty (HEAD) sides. */
+function diffRefSides(ref: string): string[] {
+  if (WORKING_TREE_REFS.has(ref)) return [];
+
+  const separator = ref.includes("...") ? "..." : ref.includes("..") ? ".." : null;
+  const sides = separator ? ref.split(separator) : [ref];
+  if (sides.length > 2 || sides.every((side) => !side)) {
+    throw new GitError("invalid_ref", `Invalid git ref: "${ref}"`);
+  }
+  return sides.filter(Boolean);
+}
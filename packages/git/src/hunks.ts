@@ -0,0 +1,62 @@
+import type { DiffFile, Hunk } from "@diffprism/core";
+import { runGitAsync } from "./exec.js";
+
+export type HunkAction = "stage" | "unstage" | "discard";
+
+// `git apply` flags per action. Staged hunks are diffs of HEAD against the
+// index; unstaged hunks are diffs of the index against the working tree.
+const APPLY_ARGS: Record<HunkAction, string[]> = {
+  stage: ["--cached"],
+  unstage: ["--cached", "--reverse"],
+  discard: ["--reverse"],
+};
+
+/**
+ * Build a single-hunk patch for a file that `git apply` accepts.
+ */
+export function buildHunkPatch(file: DiffFile, hunk: Hunk): string {
+  const oldPath = file.oldPath ?? file.path;
+  const mode = file.mode ?? "100644";
+  const lines = [`diff --git a/${oldPath} b/${file.path}`];
+
+  if (file.status === "added") {
+    lines.push(`new file mode ${mode}`, "--- /dev/null", `+++ b/${file.path}`);
+  } else if (file.status === "deleted") {
+    lines.push(`deleted file mode ${mode}`, `--- a/${oldPath}`, "+++ /dev/null");
+  } else {
+    // Without these headers git applies the hunk to the old path only
+    if (file.status === "renamed" && oldPath !== file.path) {
+      lines.push(`rename from ${oldPath}`, `rename to ${file.path}`);
+    }
+    lines.push(`--- a/${oldPath}`, `+++ b/${file.path}`);
+  }
+
+  lines.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+  for (const change of hunk.changes) {
+    const prefix = change.type === "add" ? "+" : change.type === "delete" ? "-" : " ";
+    lines.push(prefix + change.content);
+    if (change.noNewline) {
+      lines.push("\\ No newline at end of file");
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Stage, unstage or discard one hunk by applying a partial patch to the
+ * index or the working tree.
+ *
+ * @throws if git rejects the patch (e.g. the file changed since the diff was taken).
+ */
+export async function applyHunk(
+  file: DiffFile,
+  hunk: Hunk,
+  action: HunkAction,
+  options?: { cwd?: string },
+): Promise<void> {
+  const cwd = options?.cwd ?? process.cwd();
+  const patch = buildHunkPatch(file, hunk);
+
+  await runGitAsync(["apply", ...APPLY_ARGS[action], "--whitespace=nowarn", "-"], { cwd, input: patch });
+}
@@ -1,10 +1,35 @@
 import type { DiffSet, DiffFile } from "@diffprism/core";
-import { getGitDiff } from "./local.js";
+import { getGitDiff, getGitDiffAsync } from "./local.js";
 import { parseDiff } from "./parser.js";
 
-export { getGitDiff, getCurrentBranch, listBranches, listCommits, detectWorktree } from "./local.js";
+export {
+  getGitDiff,
+  getGitDiffAsync,
+  getCurrentBranch,
+  listBranches,
+  listBranchesAsync,
+  listCommits,
+  listCommitsAsync,
+  detectWorktree,
+} from "./local.js";
 export type { WorktreeInfo } from "./local.js";
 export { parseDiff } from "./parser.js";
+export { createSourceReader, preloadSources } from "./source.js";
+export { buildHunkPatch, applyHunk } from "./hunks.js";
+export type { HunkAction } from "./hunks.js";
+export { commitChanges, pushBranch, getRemoteUrl } from "./commit.js";
+export { snapshotDiffTree, getTreeDiffAsync } from "./snapshot.js";
+export {
+  GitError,
+  runGit,
+  runGitAsync,
+  assertSafeRef,
+  verifyRef,
+  verifyRefAsync,
+  verifyDiffRef,
+  verifyDiffRefAsync,
+} from "./exec.js";
+export type { GitErrorCode, RunGitOptions } from "./exec.js";
 
 /**
  * High-level API: run `git diff` for the given ref and return both the
@@ -18,45 +43,61 @@ export function getDiff(
   options?: { cwd?: string },
 ): { diffSet: DiffSet; rawDiff: string } {
   if (ref === "working-copy") {
-    return getWorkingCopyDiff(options);
+    return mergeWorkingCopy(getGitDiff("staged", options), getGitDiff("unstaged", options));
   }
 
   const rawDiff = getGitDiff(ref, options);
+  const { baseRef, headRef } = refLabels(ref);
+  return { diffSet: parseDiff(rawDiff, baseRef, headRef), rawDiff };
+}
+
+/**
+ * Async variant of `getDiff`. Git runs in child processes without blocking
+ * the event loop, so a long-running server stays responsive on large diffs.
+ */
+export async function getDiffAsync(
+  ref: string,
+  options?: { cwd?: string },
+): Promise<{ diffSet: DiffSet; rawDiff: string }> {
+  if (ref === "working-copy") {
+    const [stagedRaw, unstagedRaw] = await Promise.all([
+      getGitDiffAsync("staged", options),
+      getGitDiffAsync("unstaged", options),
+    ]);
+    return mergeWorkingCopy(stagedRaw, unstagedRaw);
+  }
 
-  // Derive baseRef / headRef labels from the ref string
-  let baseRef: string;
-  let headRef: string;
+  const rawDiff = await getGitDiffAsync(ref, options);
+  const { baseRef, headRef } = refLabels(ref);
+  return { diffSet: parseDiff(rawDiff, baseRef, headRef), rawDiff };
+}
 
+/**
+ * Derive baseRef / headRef labels from the ref string.
+ */
+function refLabels(ref: string): { baseRef: string; headRef: string } {
   if (ref === "staged") {
-    baseRef = "HEAD";
-    headRef = "staged";
-  } else if (ref === "unstaged") {
-    baseRef = "staged";
-    headRef = "working tree";
-  } else if (ref.includes("..")) {
+    return { baseRef: "HEAD", headRef: "staged" };
+  }
+  if (ref === "unstaged") {
+    return { baseRef: "staged", headRef: "working tree" };
+  }
+  if (ref.includes("..")) {
     const [base, head] = ref.split("..");
-    baseRef = base;
-    headRef = head;
-  } else {
-    baseRef = ref;
-    headRef = "HEAD";
+    return { baseRef: base, headRef: head };
   }
-
-  const diffSet = parseDiff(rawDiff, baseRef, headRef);
-  return { diffSet, rawDiff };
+  return { baseRef: ref, headRef: "HEAD" };
 }
 
 /**
- * Run staged and unstaged diffs separately, tag each file with its stage,
- * and merge into a single DiffSet. This preserves the distinction between
+ * Tag each file of the staged and unstaged diffs with its stage and merge
+ * them into a single DiffSet. This preserves the distinction between
  * staged and unstaged changes (even for the same file).
  */
-function getWorkingCopyDiff(
-  options?: { cwd?: string },
+function mergeWorkingCopy(
+  stagedRaw: string,
+  unstagedRaw: string,
 ): { diffSet: DiffSet; rawDiff: string } {
-  const stagedRaw = getGitDiff("staged", options);
-  const unstagedRaw = getGitDiff("unstaged", options);
-
   const stagedDiffSet = parseDiff(stagedRaw, "HEAD", "staged");
   const unstagedDiffSet = parseDiff(unstagedRaw, "staged", "working tree");
 
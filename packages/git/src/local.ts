@@ -1,13 +1,33 @@
-import { execSync } from "node:child_process";
 import { readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
 import path from "node:path";
 import type { CommitInfo, BranchList } from "@diffprism/core";
+import { runGit, runGitAsync, verifyDiffRef, verifyDiffRefAsync } from "./exec.js";
 
 /**
- * Shell out to `git diff` and return the raw unified diff text.
+ * `git diff` arguments for a ref, and whether untracked files belong in it.
+ * Arbitrary refs must be verified before these arguments are used.
+ */
+function diffArgs(ref: string): { args: string[]; includeUntracked: boolean } {
+  switch (ref) {
+    case "staged":
+      return { args: ["diff", "--staged", "--no-color"], includeUntracked: false };
+    case "unstaged":
+      return { args: ["diff", "--no-color"], includeUntracked: true };
+    case "all":
+      return { args: ["diff", "HEAD", "--no-color"], includeUntracked: true };
+    default:
+      // "--" keeps git from reading the ref as a path
+      return { args: ["diff", "--no-color", ref, "--"], includeUntracked: false };
+  }
+}
+
+/**
+ * Run `git diff` and return the raw unified diff text.
  *
  * @param ref - One of "staged", "unstaged", or an arbitrary git ref range (e.g. "HEAD~3..HEAD").
  * @param options.cwd - Working directory for the git command.  Defaults to process.cwd().
+ * @throws GitError — `invalid_ref` for refs git cannot resolve.
  */
 export function getGitDiff(
   ref: string,
@@ -15,59 +35,40 @@ export function getGitDiff(
 ): string {
   const cwd = options?.cwd ?? process.cwd();
 
-  // Verify that git is available
-  try {
-    execSync("git --version", { cwd, stdio: "pipe" });
-  } catch {
-    throw new Error(
-      "git is not available. Please install git and make sure it is on your PATH.",
-    );
-  }
+  // Verify that git is available and that we are inside a git repository
+  runGit(["--version"], { cwd });
+  runGit(["rev-parse", "--is-inside-work-tree"], { cwd });
 
-  // Verify that we are inside a git repository
-  try {
-    execSync("git rev-parse --is-inside-work-tree", { cwd, stdio: "pipe" });
-  } catch {
-    throw new Error(
-      `The directory "${cwd}" is not inside a git repository.`,
-    );
-  }
+  verifyDiffRef(ref, { cwd });
+  const { args, includeUntracked } = diffArgs(ref);
 
-  // Build the git diff command
-  let command: string;
-  let includeUntracked = false;
-  switch (ref) {
-    case "staged":
-      command = "git diff --staged --no-color";
-      break;
-    case "unstaged":
-      command = "git diff --no-color";
-      includeUntracked = true;
-      break;
-    case "all":
-      command = "git diff HEAD --no-color";
-      includeUntracked = true;
-      break;
-    default:
-      command = `git diff --no-color ${ref}`;
-      break;
-  }
+  let output = runGit(args, { cwd });
 
-  let output: string;
-  try {
-    output = execSync(command, {
-      cwd,
-      encoding: "utf-8",
-      maxBuffer: 50 * 1024 * 1024, // 50 MB
-    });
-  } catch (err) {
-    const message =
-      err instanceof Error ? err.message : String(err);
-    throw new Error(`git diff failed: ${message}`);
+  if (includeUntracked) {
+    output += getUntrackedDiffs(cwd);
   }
 
+  return output;
+}
+
+/**
+ * Async variant of `getGitDiff`: git runs in a child process without
+ * blocking the event loop, and untracked files are read asynchronously.
+ */
+export async function getGitDiffAsync(
+  ref: string,
+  options?: { cwd?: string },
+): Promise<string> {
+  const cwd = options?.cwd ?? process.cwd();
+
+  await runGitAsync(["rev-parse", "--is-inside-work-tree"], { cwd });
+  await verifyDiffRefAsync(ref, { cwd });
+  const { args, includeUntracked } = diffArgs(ref);
+
+  let output = await runGitAsync(args, { cwd });
+
   if (includeUntracked) {
-    output += getUntrackedDiffs(cwd);
+    output += await getUntrackedDiffsAsync(cwd);
   }
 
   return output;
@@ -82,11 +83,7 @@ export function getGitDiff(
 export function getCurrentBranch(options?: { cwd?: string }): string {
   const cwd = options?.cwd ?? process.cwd();
   try {
-    return execSync("git rev-parse --abbrev-ref HEAD", {
-      cwd,
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-    }).trim();
+    return runGit(["rev-parse", "--abbrev-ref", "HEAD"], { cwd }).trim();
   } catch {
     return "unknown";
   }
@@ -101,35 +98,49 @@ export function getCurrentBranch(options?: { cwd?: string }): string {
 export function listBranches(options?: { cwd?: string }): BranchList {
   const cwd = options?.cwd ?? process.cwd();
   try {
-    const output = execSync(
-      "git branch -a --format='%(refname:short)' --sort=-committerdate",
-      { cwd, encoding: "utf-8", stdio: ["pipe", "pipe", "pipe"] },
-    ).trim();
-
-    if (!output) return { local: [], remote: [] };
-
-    const local: string[] = [];
-    const remote: string[] = [];
-
-    for (const line of output.split("\n")) {
-      const name = line.trim();
-      if (!name) continue;
-      // Skip HEAD pointer entries like "origin/HEAD"
-      if (name.endsWith("/HEAD")) continue;
-      if (name.includes("/")) {
-        // Remote branch — strip the remote prefix (e.g. "origin/main" → "main")
-        remote.push(name);
-      } else {
-        local.push(name);
-      }
-    }
+    return parseBranches(runGit(BRANCH_ARGS, { cwd }));
+  } catch {
+    return { local: [], remote: [] };
+  }
+}
 
-    return { local, remote };
+/**
+ * Async variant of `listBranches`.
+ */
+export async function listBranchesAsync(options?: { cwd?: string }): Promise<BranchList> {
+  const cwd = options?.cwd ?? process.cwd();
+  try {
+    return parseBranches(await runGitAsync(BRANCH_ARGS, { cwd }));
   } catch {
     return { local: [], remote: [] };
   }
 }
 
+const BRANCH_ARGS = ["branch", "-a", "--format=%(refname:short)", "--sort=-committerdate"];
+
+function parseBranches(raw: string): BranchList {
+  const output = raw.trim();
+  if (!output) return { local: [], remote: [] };
+
+  const local: string[] = [];
+  const remote: string[] = [];
+
+  for (const line of output.split("\n")) {
+    const name = line.trim();
+    if (!name) continue;
+    // Skip HEAD pointer entries like "origin/HEAD"
+    if (name.endsWith("/HEAD")) continue;
+    if (name.includes("/")) {
+      // Remote branch — strip the remote prefix (e.g. "origin/main" → "main")
+      remote.push(name);
+    } else {
+      local.push(name);
+    }
+  }
+
+  return { local, remote };
+}
+
 /**
  * List recent git commits.
  *
@@ -139,34 +150,51 @@ export function listBranches(options?: { cwd?: string }): BranchList {
  */
 export function listCommits(options?: { cwd?: string; limit?: number }): CommitInfo[] {
   const cwd = options?.cwd ?? process.cwd();
-  const limit = options?.limit ?? 50;
   try {
-    const output = execSync(
-      `git log --format='%H<<>>%h<<>>%s<<>>%an<<>>%aI' -n ${limit}`,
-      { cwd, encoding: "utf-8", stdio: ["pipe", "pipe", "pipe"] },
-    ).trim();
-
-    if (!output) return [];
-
-    const commits: CommitInfo[] = [];
-    for (const line of output.split("\n")) {
-      const parts = line.split("<<>>");
-      if (parts.length < 5) continue;
-      commits.push({
-        hash: parts[0],
-        shortHash: parts[1],
-        subject: parts[2],
-        author: parts[3],
-        date: parts[4],
-      });
-    }
+    return parseCommits(runGit(commitLogArgs(options?.limit), { cwd }));
+  } catch {
+    return [];
+  }
+}
 
-    return commits;
+/**
+ * Async variant of `listCommits`.
+ */
+export async function listCommitsAsync(
+  options?: { cwd?: string; limit?: number },
+): Promise<CommitInfo[]> {
+  const cwd = options?.cwd ?? process.cwd();
+  try {
+    return parseCommits(await runGitAsync(commitLogArgs(options?.limit), { cwd }));
   } catch {
     return [];
   }
 }
 
+function commitLogArgs(limit = 50): string[] {
+  return ["log", "--format=%H<<>>%h<<>>%s<<>>%an<<>>%aI", "-n", String(limit)];
+}
+
+function parseCommits(raw: string): CommitInfo[] {
+  const output = raw.trim();
+  if (!output) return [];
+
+  const commits: CommitInfo[] = [];
+  for (const line of output.split("\n")) {
+    const parts = line.split("<<>>");
+    if (parts.length < 5) continue;
+    commits.push({
+      hash: parts[0],
+      shortHash: parts[1],
+      subject: parts[2],
+      author: parts[3],
+      date: parts[4],
+    });
+  }
+
+  return commits;
+}
+
 // ─── Worktree detection ───
 
 export interface WorktreeInfo {
@@ -190,17 +218,8 @@ export function detectWorktree(options?: { cwd?: string }): WorktreeInfo {
   const cwd = options?.cwd ?? process.cwd();
 
   try {
-    const gitDir = execSync("git rev-parse --git-dir", {
-      cwd,
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-    }).trim();
-
-    const gitCommonDir = execSync("git rev-parse --git-common-dir", {
-      cwd,
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-    }).trim();
+    const gitDir = runGit(["rev-parse", "--git-dir"], { cwd }).trim();
+    const gitCommonDir = runGit(["rev-parse", "--git-common-dir"], { cwd }).trim();
 
     // Resolve to absolute paths for reliable comparison
     const resolvedGitDir = path.resolve(cwd, gitDir);
@@ -214,22 +233,14 @@ export function detectWorktree(options?: { cwd?: string }): WorktreeInfo {
     }
 
     // Get the worktree root path
-    const worktreePath = execSync("git rev-parse --show-toplevel", {
-      cwd,
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-    }).trim();
+    const worktreePath = runGit(["rev-parse", "--show-toplevel"], { cwd }).trim();
 
     // The main worktree path is the parent of the common git dir
     // (common dir is the .git directory of the main worktree)
     const mainWorktreePath = path.dirname(resolvedCommonDir);
 
     // Get the current branch
-    const branch = execSync("git rev-parse --abbrev-ref HEAD", {
-      cwd,
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-    }).trim();
+    const branch = runGit(["rev-parse", "--abbrev-ref", "HEAD"], { cwd }).trim();
 
     return {
       isWorktree: true,
@@ -242,6 +253,8 @@ export function detectWorktree(options?: { cwd?: string }): WorktreeInfo {
   }
 }
 
+const UNTRACKED_ARGS = ["ls-files", "--others", "--exclude-standard"];
+
 /**
  * Find untracked files and generate unified diff output for each one,
  * so they appear as "added" files in the parsed DiffSet.
@@ -249,48 +262,78 @@ export function detectWorktree(options?: { cwd?: string }): WorktreeInfo {
 function getUntrackedDiffs(cwd: string): string {
   let untrackedList: string;
   try {
-    untrackedList = execSync(
-      "git ls-files --others --exclude-standard",
-      { cwd, encoding: "utf-8", stdio: ["pipe", "pipe", "pipe"] },
-    ).trim();
+    untrackedList = runGit(UNTRACKED_ARGS, { cwd }).trim();
   } catch {
     return "";
   }
 
   if (!untrackedList) return "";
 
-  const files = untrackedList.split("\n");
   let result = "";
-
-  for (const file of files) {
-    const absPath = path.resolve(cwd, file);
+  for (const file of untrackedList.split("\n")) {
     let content: string;
     try {
-      content = readFileSync(absPath, "utf-8");
+      content = readFileSync(path.resolve(cwd, file), "utf-8");
     } catch {
       // Binary or unreadable — skip
       continue;
     }
+    result += formatUntrackedDiff(file, content);
+  }
+
+  return result;
+}
 
-    const lines = content.split("\n");
-    // If the file ends with a newline, the last split element is empty
-    const hasTrailingNewline =
-      content.length > 0 && content[content.length - 1] === "\n";
-    const contentLines = hasTrailingNewline ? lines.slice(0, -1) : lines;
+/**
+ * Async variant of `getUntrackedDiffs`.
+ */
+async function getUntrackedDiffsAsync(cwd: string): Promise<string> {
+  let untrackedList: string;
+  try {
+    untrackedList = (await runGitAsync(UNTRACKED_ARGS, { cwd })).trim();
+  } catch {
+    return "";
+  }
 
-    result += `diff --git a/${file} b/${file}\n`;
-    result += "new file mode 100644\n";
-    result += "--- /dev/null\n";
-    result += `+++ b/${file}\n`;
-    result += `@@ -0,0 +1,${contentLines.length} @@\n`;
+  if (!untrackedList) return "";
 
-    for (const line of contentLines) {
-      result += `+${line}\n`;
+  let result = "";
+  for (const file of untrackedList.split("\n")) {
+    let content: string;
+    try {
+      content = await readFile(path.resolve(cwd, file), "utf-8");
+    } catch {
+      // Binary or unreadable — skip
+      continue;
     }
+    result += formatUntrackedDiff(file, content);
+  }
 
-    if (!hasTrailingNewline) {
-      result += "\\ No newline at end of file\n";
-    }
+  return result;
+}
+
+/**
+ * Render a new, untracked file as an "added" file diff.
+ */
+function formatUntrackedDiff(file: string, content: string): string {
+  const lines = content.split("\n");
+  // If the file ends with a newline, the last split element is empty
+  const hasTrailingNewline =
+    content.length > 0 && content[content.length - 1] === "\n";
+  const contentLines = hasTrailingNewline ? lines.slice(0, -1) : lines;
+
+  let result = `diff --git a/${file} b/${file}\n`;
+  result += "new file mode 100644\n";
+  result += "--- /dev/null\n";
+  result += `+++ b/${file}\n`;
+  result += `@@ -0,0 +1,${contentLines.length} @@\n`;
+
+  for (const line of contentLines) {
+    result += `+${line}\n`;
+  }
+
+  if (!hasTrailingNewline) {
+    result += "\\ No newline at end of file\n";
   }
 
   return result;
@@ -94,6 +94,7 @@ export function parseDiff(
     let binary = false;
     let renameFrom: string | undefined;
     let renameTo: string | undefined;
+    let mode: string | undefined;
 
     // Parse "diff --git a/foo b/bar"
     const diffLine = lines[i];
@@ -127,10 +128,12 @@ export function parseDiff(
       } else if (line.startsWith("rename to ")) {
         renameTo = line.slice("rename to ".length);
         status = "renamed";
-      } else if (line.startsWith("new file mode")) {
+      } else if (line.startsWith("new file mode ")) {
         status = "added";
-      } else if (line.startsWith("deleted file mode")) {
+        mode = line.slice("new file mode ".length);
+      } else if (line.startsWith("deleted file mode ")) {
         status = "deleted";
+        mode = line.slice("deleted file mode ".length);
       } else if (
         line.startsWith("Binary files") ||
         line === "GIT binary patch"
@@ -203,8 +206,10 @@ export function parseDiff(
             break;
           }
 
-          // Skip the "\ No newline at end of file" marker
+          // "\ No newline at end of file" applies to the line before it
           if (changeLine.startsWith("\\ No newline at end of file")) {
+            const last = changes[changes.length - 1];
+            if (last) last.noNewline = true;
             i++;
             continue;
           }
@@ -262,6 +267,10 @@ export function parseDiff(
       diffFile.oldPath = fileOldPath;
     }
 
+    if (mode) {
+      diffFile.mode = mode;
+    }
+
     files.push(diffFile);
   }
 
@@ -0,0 +1,84 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import type { DiffSet } from "@diffprism/core";
+import { GitError, assertSafeRef, runGitAsync } from "./exec.js";
+import { parseDiff } from "./parser.js";
+
+const OBJECT_ID = /^[0-9a-f]{40}([0-9a-f]{24})?$/;
+
+/**
+ * Build a tree from the working tree (or just the index) without touching
+ * the repository's own index: git works on a temporary copy of it.
+ */
+async function writeTreeWithTempIndex(cwd: string, includeWorkingTree: boolean): Promise<string> {
+  const indexPath = path.resolve(cwd, (await runGitAsync(["rev-parse", "--git-path", "index"], { cwd })).trim());
+  const tempIndex = path.join(os.tmpdir(), `diffprism-index-${randomUUID()}`);
+
+  try {
+    // Starting from a copy keeps stat data, so only changed files are re-hashed
+    if (fs.existsSync(indexPath)) {
+      fs.copyFileSync(indexPath, tempIndex);
+    }
+    const env = { GIT_INDEX_FILE: tempIndex };
+    if (includeWorkingTree) {
+      await runGitAsync(["add", "-A"], { cwd, env });
+    }
+    return (await runGitAsync(["write-tree"], { cwd, env })).trim();
+  } finally {
+    fs.rmSync(tempIndex, { force: true });
+  }
+}
+
+/**
+ * Record the "after" side of a diff as a git tree, so it can later be
+ * compared with how that side looks now.
+ *
+ * @param ref - A diff ref as accepted by `getDiff`: "staged" snapshots the
+ *   index, a range ("a..b", "a...b") the tree of its head, and everything
+ *   else the working tree including untracked files.
+ * @returns The tree's object ID.
+ * @throws GitError
+ */
+export async function snapshotDiffTree(
+  ref: string,
+  options?: { cwd?: string },
+): Promise<string> {
+  const cwd = options?.cwd ?? process.cwd();
+
+  if (ref === "staged") {
+    return writeTreeWithTempIndex(cwd, false);
+  }
+
+  const range = ref.match(/^(.*?)\.\.\.?(.*)$/);
+  if (range) {
+    const head = range[2] || "HEAD";
+    assertSafeRef(head);
+    return (await runGitAsync(["rev-parse", "--verify", `${head}^{tree}`], { cwd })).trim();
+  }
+
+  return writeTreeWithTempIndex(cwd, true);
+}
+
+/**
+ * Diff two trees recorded by `snapshotDiffTree`.
+ *
+ * @throws GitError — `invalid_ref` if either ID is not an object ID.
+ */
+export async function getTreeDiffAsync(
+  fromTree: string,
+  toTree: string,
+  options?: { cwd?: string },
+): Promise<{ diffSet: DiffSet; rawDiff: string }> {
+  for (const tree of [fromTree, toTree]) {
+    if (!OBJECT_ID.test(tree)) {
+      throw new GitError("invalid_ref", `Invalid tree ID: ${tree}`, { args: [tree] });
+    }
+  }
+
+  const rawDiff = await runGitAsync(["diff", "--no-color", fromTree, toTree, "--"], {
+    cwd: options?.cwd ?? process.cwd(),
+  });
+  return { diffSet: parseDiff(rawDiff, fromTree, toTree), rawDiff };
+}
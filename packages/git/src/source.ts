@@ -0,0 +1,152 @@
+import { readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { SourceReader, SourceRequest } from "@diffprism/core";
+import { assertSafeRef, runGit, runGitAsync } from "./exec.js";
+
+/** Where one side of a diff lives: a revision, the index, or the working tree. */
+type SourceLocation =
+  | { kind: "revision"; rev: string }
+  | { kind: "index" }
+  | { kind: "worktree" };
+
+const SOURCE_MAX_BUFFER = 10 * 1024 * 1024; // 10 MB
+
+function git(args: string[], cwd: string): string {
+  return runGit(args, { cwd, maxBuffer: SOURCE_MAX_BUFFER });
+}
+
+/**
+ * Map a diff ref to the locations of its base and head sides, mirroring
+ * the semantics of `getGitDiff`. A `left...right` ref's base is the merge
+ * base, which `mergeBase` resolves.
+ */
+function resolveLocations(
+  ref: string,
+  mergeBase: (left: string, head: string) => string,
+): { base: SourceLocation; head: SourceLocation } {
+  switch (ref) {
+    case "staged":
+      return { base: { kind: "revision", rev: "HEAD" }, head: { kind: "index" } };
+    case "unstaged":
+      return { base: { kind: "index" }, head: { kind: "worktree" } };
+    case "working-copy":
+    case "all":
+      return { base: { kind: "revision", rev: "HEAD" }, head: { kind: "worktree" } };
+  }
+
+  if (ref.includes("...")) {
+    const [left, right] = ref.split("...");
+    const head = right || "HEAD";
+    return { base: { kind: "revision", rev: mergeBase(left || "HEAD", head) }, head: { kind: "revision", rev: head } };
+  }
+
+  if (ref.includes("..")) {
+    const [left, right] = ref.split("..");
+    return {
+      base: { kind: "revision", rev: left || "HEAD" },
+      head: { kind: "revision", rev: right || "HEAD" },
+    };
+  }
+
+  // A single ref compares that commit against the working tree
+  return { base: { kind: "revision", rev: ref }, head: { kind: "worktree" } };
+}
+
+/**
+ * Create a SourceReader that returns full file contents for the base and
+ * head sides of the given diff ref. Results are cached per reader, so one
+ * reader should be created per analysis pass.
+ *
+ * @param ref - Same diff ref accepted by `getDiff`.
+ * @param options.cwd - Working directory.  Defaults to process.cwd().
+ */
+export function createSourceReader(
+  ref: string,
+  options?: { cwd?: string },
+): SourceReader {
+  const cwd = options?.cwd ?? process.cwd();
+  const cache = new Map<string, string | null>();
+
+  let locations: { base: SourceLocation; head: SourceLocation } | null = null;
+  let repoRoot: string | null = null;
+
+  return (filePath, side) => {
+    const key = `${side}:${filePath}`;
+    if (cache.has(key)) return cache.get(key)!;
+
+    let content: string | null;
+    try {
+      locations ??= resolveLocations(ref, (left, head) => git(["merge-base", left, head], cwd).trim());
+      const location = locations[side];
+      if (location.kind === "worktree") {
+        repoRoot ??= git(["rev-parse", "--show-toplevel"], cwd).trim();
+        content = readFileSync(path.join(repoRoot, filePath), "utf-8");
+      } else {
+        if (location.kind === "revision") assertSafeRef(location.rev);
+        const spec = location.kind === "index" ? `:${filePath}` : `${location.rev}:${filePath}`;
+        content = git(["show", spec], cwd);
+      }
+    } catch {
+      content = null;
+    }
+
+    cache.set(key, content);
+    return content;
+  };
+}
+
+/**
+ * Read the requested file sides up front, in child processes and without
+ * blocking the event loop, and return a SourceReader over the results.
+ * Sides that were not requested or could not be read return null, so
+ * analysis falls back to the hunks for them.
+ *
+ * @param ref - Same diff ref accepted by `getDiff`.
+ * @param options.cwd - Working directory.  Defaults to process.cwd().
+ */
+export async function preloadSources(
+  ref: string,
+  requests: SourceRequest[],
+  options?: { cwd?: string },
+): Promise<SourceReader> {
+  const cwd = options?.cwd ?? process.cwd();
+  const contents = new Map<string, string | null>();
+  const reader: SourceReader = (filePath, side) => contents.get(`${side}:${filePath}`) ?? null;
+  if (requests.length === 0) return reader;
+
+  let locations: { base: SourceLocation; head: SourceLocation };
+  let repoRoot: string;
+  try {
+    let mergeBase = "";
+    if (ref.includes("...")) {
+      const [left, right] = ref.split("...");
+      mergeBase = (await runGitAsync(["merge-base", left || "HEAD", right || "HEAD"], { cwd })).trim();
+    }
+    locations = resolveLocations(ref, () => mergeBase);
+    repoRoot = (await runGitAsync(["rev-parse", "--show-toplevel"], { cwd })).trim();
+  } catch {
+    return reader;
+  }
+
+  await Promise.all(
+    requests.map(async ({ path: filePath, side }) => {
+      const location = locations[side];
+      let content: string | null;
+      try {
+        if (location.kind === "worktree") {
+          content = await readFile(path.join(repoRoot, filePath), "utf-8");
+        } else {
+          if (location.kind === "revision") assertSafeRef(location.rev);
+          const spec = location.kind === "index" ? `:${filePath}` : `${location.rev}:${filePath}`;
+          content = await runGitAsync(["show", spec], { cwd, maxBuffer: SOURCE_MAX_BUFFER });
+        }
+      } catch {
+        content = null;
+      }
+      contents.set(`${side}:${filePath}`, content);
+    }),
+  );
+
+  return reader;
+}
@@ -2,11 +2,11 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import { execSync } from "node:child_process";
-import { resolveGitHubToken } from "../auth.js";
+import { execFileSync } from "node:child_process";
+import { resolveGitHubToken, resolveGitLabToken } from "../auth.js";
 
 vi.mock("node:child_process", () => ({
-  execSync: vi.fn(),
+  execFileSync: vi.fn(),
 }));
 
 describe("resolveGitHubToken", () => {
@@ -28,12 +28,12 @@ describe("resolveGitHubToken", () => {
   });
 
   it("falls back to gh auth token", () => {
-    vi.mocked(execSync).mockReturnValue("ghp_cli_token_456\n");
+    vi.mocked(execFileSync).mockReturnValue("ghp_cli_token_456\n");
     expect(resolveGitHubToken()).toBe("ghp_cli_token_456");
   });
 
   it("falls back to config file", () => {
-    vi.mocked(execSync).mockImplementation(() => {
+    vi.mocked(execFileSync).mockImplementation(() => {
       throw new Error("gh not found");
     });
 
@@ -49,7 +49,7 @@ describe("resolveGitHubToken", () => {
   });
 
   it("throws with instructions when no token found", () => {
-    vi.mocked(execSync).mockImplementation(() => {
+    vi.mocked(execFileSync).mockImplementation(() => {
       throw new Error("gh not found");
     });
     vi.spyOn(fs, "existsSync").mockReturnValue(false);
@@ -59,9 +59,107 @@ describe("resolveGitHubToken", () => {
 
   it("prefers GITHUB_TOKEN over gh CLI", () => {
     process.env.GITHUB_TOKEN = "ghp_env_first";
-    vi.mocked(execSync).mockReturnValue("ghp_cli_second");
+    vi.mocked(execFileSync).mockReturnValue("ghp_cli_second");
 
     expect(resolveGitHubToken()).toBe("ghp_env_first");
-    expect(execSync).not.toHaveBeenCalled();
+    expect(execFileSync).not.toHaveBeenCalled();
+  });
+});
+
+describe("resolveGitHubToken for Enterprise hosts", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.GITHUB_TOKEN;
+    delete process.env.GH_ENTERPRISE_TOKEN;
+    vi.restoreAllMocks();
+    vi.mocked(execFileSync).mockReset();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("prefers the per-host token from the config file", () => {
+    process.env.GITHUB_TOKEN = "ghp_dotcom";
+    process.env.GH_ENTERPRISE_TOKEN = "ghp_enterprise_env";
+    vi.spyOn(fs, "existsSync").mockReturnValue(true);
+    vi.spyOn(fs, "readFileSync").mockReturnValue(
+      JSON.stringify({ github: { hosts: { "GitHub.Example.com": { token: "ghp_host_config" } } } }),
+    );
+
+    expect(resolveGitHubToken("github.example.com")).toBe("ghp_host_config");
+  });
+
+  it("falls back to GH_ENTERPRISE_TOKEN, never GITHUB_TOKEN", () => {
+    process.env.GITHUB_TOKEN = "ghp_dotcom";
+    process.env.GH_ENTERPRISE_TOKEN = "ghp_enterprise_env";
+    vi.spyOn(fs, "existsSync").mockReturnValue(false);
+
+    expect(resolveGitHubToken("github.example.com")).toBe("ghp_enterprise_env");
+  });
+
+  it("asks gh for the host's token", () => {
+    vi.spyOn(fs, "existsSync").mockReturnValue(false);
+    vi.mocked(execFileSync).mockReturnValue("ghp_host_cli\n");
+
+    expect(resolveGitHubToken("github.example.com")).toBe("ghp_host_cli");
+    expect(execFileSync).toHaveBeenCalledWith("gh", ["auth", "token", "--hostname", "github.example.com"], expect.anything());
+  });
+
+  it("passes the host to gh as a single argument, without a shell", () => {
+    vi.spyOn(fs, "existsSync").mockReturnValue(false);
+    vi.mocked(execFileSync).mockReturnValue("ghp_host_cli\n");
+
+    resolveGitHubToken("github.example.com;touch pwned");
+    expect(execFileSync).toHaveBeenCalledWith(
+      "gh",
+      ["auth", "token", "--hostname", "github.example.com;touch pwned"],
+      expect.anything(),
+    );
+  });
+
+  it("throws with host-specific instructions when no token found", () => {
+    vi.spyOn(fs, "existsSync").mockReturnValue(false);
+    vi.mocked(execFileSync).mockImplementation(() => {
+      throw new Error("gh not found");
+    });
+
+    expect(() => resolveGitHubToken("github.example.com")).toThrow("GitHub token for github.example.com not found");
+  });
+});
+
+describe("resolveGitLabToken", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.GITLAB_TOKEN;
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("returns GITLAB_TOKEN from environment", () => {
+    process.env.GITLAB_TOKEN = "glpat-env";
+    expect(resolveGitLabToken()).toBe("glpat-env");
+  });
+
+  it("falls back to config file", () => {
+    vi.spyOn(fs, "existsSync").mockReturnValue(true);
+    vi.spyOn(fs, "readFileSync").mockReturnValue(
+      JSON.stringify({ github: { token: "ghp_config" }, gitlab: { token: "glpat-config" } }),
+    );
+
+    expect(resolveGitLabToken()).toBe("glpat-config");
+  });
+
+  it("throws with instructions when no token found", () => {
+    vi.spyOn(fs, "existsSync").mockReturnValue(false);
+
+    expect(() => resolveGitLabToken()).toThrow("GitLab token not found");
   });
 });
@@ -1,5 +1,16 @@
-import { describe, it, expect } from "vitest";
-import { parsePrRef } from "../client.js";
+import { describe, it, expect, vi } from "vitest";
+import {
+  checkPullRequest,
+  createPullRequest,
+  deleteReviewComment,
+  fetchCompareDiff,
+  isPrRef,
+  parseGitHubRemote,
+  parsePrRef,
+  replyToReviewComment,
+  setReviewThreadResolved,
+  updateReviewComment,
+} from "../client.js";
 
 describe("parsePrRef", () => {
   it("parses owner/repo#number shorthand", () => {
@@ -49,4 +60,239 @@ describe("parsePrRef", () => {
   it("throws on malformed shorthand (missing #)", () => {
     expect(() => parsePrRef("owner/repo/123")).toThrow("Invalid PR reference");
   });
+
+  it("parses URLs on configured GitHub Enterprise hosts", () => {
+    const hosts = ["github.com", "github.example.com"];
+    expect(parsePrRef("https://GitHub.Example.com/owner/repo/pull/5", hosts)).toEqual({
+      host: "github.example.com",
+      owner: "owner",
+      repo: "repo",
+      number: 5,
+    });
+    expect(isPrRef("https://github.example.com/owner/repo/pull/5", hosts)).toBe(true);
+    expect(isPrRef("https://github.example.com/owner/repo/pull/5")).toBe(false);
+  });
+});
+
+describe("parseGitHubRemote", () => {
+  it("parses SSH remotes", () => {
+    expect(parseGitHubRemote("git@github.com:owner/repo.git")).toEqual({
+      owner: "owner",
+      repo: "repo",
+    });
+  });
+
+  it("parses HTTPS remotes with and without .git", () => {
+    expect(parseGitHubRemote("https://github.com/owner/my.repo.git")).toEqual({
+      owner: "owner",
+      repo: "my.repo",
+    });
+    expect(parseGitHubRemote("https://github.com/owner/repo")).toEqual({
+      owner: "owner",
+      repo: "repo",
+    });
+  });
+
+  it("returns null for non-GitHub remotes", () => {
+    expect(parseGitHubRemote("git@gitlab.com:owner/repo.git")).toBeNull();
+  });
+
+  it("parses remotes on configured GitHub Enterprise hosts", () => {
+    const hosts = ["github.com", "github.example.com"];
+    expect(parseGitHubRemote("ssh://git@github.example.com:2222/owner/repo.git", hosts)).toEqual({
+      host: "github.example.com",
+      owner: "owner",
+      repo: "repo",
+    });
+    expect(parseGitHubRemote("git@github.example.com:owner/repo.git")).toBeNull();
+  });
+});
+
+describe("createPullRequest", () => {
+  function createMockClient() {
+    return {
+      repos: {
+        get: vi.fn().mockResolvedValue({ data: { default_branch: "main" } }),
+      },
+      pulls: {
+        create: vi.fn().mockResolvedValue({
+          data: { number: 7, html_url: "https://github.com/owner/repo/pull/7" },
+        }),
+      },
+    };
+  }
+
+  it("opens a PR against the default branch", async () => {
+    const client = createMockClient();
+
+    const pr = await createPullRequest(client as never, "owner", "repo", {
+      title: "Add feature",
+      body: "Summary",
+      head: "feature",
+    });
+
+    expect(pr).toEqual({ number: 7, url: "https://github.com/owner/repo/pull/7" });
+    expect(client.pulls.create).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      title: "Add feature",
+      body: "Summary",
+      head: "feature",
+      base: "main",
+    });
+  });
+
+  it("refuses to open a PR from the base branch into itself", async () => {
+    const client = createMockClient();
+
+    await expect(
+      createPullRequest(client as never, "owner", "repo", {
+        title: "Add feature",
+        body: "",
+        head: "main",
+      }),
+    ).rejects.toThrow("Cannot open a pull request from main into itself");
+    expect(client.pulls.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("checkPullRequest", () => {
+  const prData = {
+    title: "Add feature",
+    user: { login: "octocat" },
+    html_url: "https://github.com/owner/repo/pull/1",
+    base: { ref: "main" },
+    head: { ref: "feature", sha: "abc123" },
+    body: null,
+  };
+
+  it("sends the ETag and returns the PR with its new ETag", async () => {
+    const client = {
+      pulls: { get: vi.fn().mockResolvedValue({ data: prData, headers: { etag: 'W/"2"' } }) },
+    };
+
+    const check = await checkPullRequest(client as never, "owner", "repo", 1, 'W/"1"');
+
+    expect(client.pulls.get).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      pull_number: 1,
+      headers: { "if-none-match": 'W/"1"' },
+    });
+    expect(check).toMatchObject({ modified: true, etag: 'W/"2"', pr: { headSha: "abc123", headBranch: "feature" } });
+  });
+
+  it("reports an unmodified PR when GitHub answers 304", async () => {
+    const client = {
+      pulls: { get: vi.fn().mockRejectedValue(Object.assign(new Error("Not Modified"), { status: 304 })) },
+    };
+
+    expect(await checkPullRequest(client as never, "owner", "repo", 1, 'W/"1"')).toEqual({ modified: false });
+  });
+
+  it("rethrows other errors", async () => {
+    const client = {
+      pulls: { get: vi.fn().mockRejectedValue(Object.assign(new Error("Not Found"), { status: 404 })) },
+    };
+
+    await expect(checkPullRequest(client as never, "owner", "repo", 1, null)).rejects.toThrow("Not Found");
+  });
+});
+
+describe("fetchCompareDiff", () => {
+  it("requests the compare view between two commits as a diff", async () => {
+    const client = {
+      repos: {
+        compareCommitsWithBasehead: vi.fn().mockResolvedValue({ data: "diff --git a/x b/x\n" }),
+      },
+    };
+
+    const diff = await fetchCompareDiff(client as never, "owner", "repo", "abc123", "def456");
+
+    expect(diff).toBe("diff --git a/x b/x\n");
+    expect(client.repos.compareCommitsWithBasehead).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      basehead: "abc123...def456",
+      mediaType: { format: "diff" },
+    });
+  });
+});
+
+describe("review thread actions", () => {
+  it("replies under the thread's comment and maps the new comment", async () => {
+    const client = {
+      pulls: {
+        createReplyForReviewComment: vi.fn().mockResolvedValue({
+          data: {
+            id: 202,
+            node_id: "PRRC_202",
+            user: { login: "me" },
+            body: "Fixed, thanks",
+            created_at: "2026-01-02T03:04:05Z",
+            html_url: "https://github.com/owner/repo/pull/1#discussion_r202",
+          },
+        }),
+      },
+    };
+
+    const reply = await replyToReviewComment(client as never, "owner", "repo", 1, 101, "Fixed, thanks");
+
+    expect(client.pulls.createReplyForReviewComment).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      pull_number: 1,
+      comment_id: 101,
+      body: "Fixed, thanks",
+    });
+    expect(reply).toEqual({
+      id: "PRRC_202",
+      databaseId: 202,
+      author: "me",
+      body: "Fixed, thanks",
+      createdAt: Date.parse("2026-01-02T03:04:05Z"),
+      url: "https://github.com/owner/repo/pull/1#discussion_r202",
+      viewerDidAuthor: true,
+    });
+  });
+
+  it("edits and deletes review comments by REST ID", async () => {
+    const client = {
+      pulls: {
+        updateReviewComment: vi.fn().mockResolvedValue({ data: {} }),
+        deleteReviewComment: vi.fn().mockResolvedValue({ data: {} }),
+      },
+    };
+
+    await updateReviewComment(client as never, "owner", "repo", 101, "Reworded");
+    await deleteReviewComment(client as never, "owner", "repo", 101);
+
+    expect(client.pulls.updateReviewComment).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      comment_id: 101,
+      body: "Reworded",
+    });
+    expect(client.pulls.deleteReviewComment).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      comment_id: 101,
+    });
+  });
+
+  it("resolves and unresolves threads through GraphQL", async () => {
+    const client = {
+      graphql: vi
+        .fn()
+        .mockResolvedValueOnce({ resolveReviewThread: { thread: { isResolved: true } } })
+        .mockResolvedValueOnce({ unresolveReviewThread: { thread: { isResolved: false } } }),
+    };
+
+    expect(await setReviewThreadResolved(client as never, "PRRT_1", true)).toBe(true);
+    expect(client.graphql.mock.calls[0][0]).toContain("resolveReviewThread");
+    expect(client.graphql.mock.calls[0][1]).toEqual({ threadId: "PRRT_1" });
+
+    expect(await setReviewThreadResolved(client as never, "PRRT_1", false)).toBe(false);
+    expect(client.graphql.mock.calls[1][0]).toContain("unresolveReviewThread");
+  });
 });
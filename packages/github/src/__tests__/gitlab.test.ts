@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ReviewResult } from "@diffprism/core";
+import { parseDiff } from "@diffprism/git";
+import {
+  createGitLabClient,
+  fetchMergeRequest,
+  fetchMergeRequestDiff,
+  isMrRef,
+  parseGitLabRemote,
+  parseMrRef,
+  submitGitLabReview,
+} from "../gitlab.js";
+import type { GitLabClient } from "../gitlab.js";
+
+const PROJECT = encodeURIComponent("platform/tools/app");
+const MR_PATH = `/api/v4/projects/${PROJECT}/merge_requests/12`;
+
+const MERGE_REQUEST = {
+  iid: 12,
+  title: "Speed up builds",
+  description: "Caches the dependency step.",
+  web_url: "https://gitlab.example.com/platform/tools/app/-/merge_requests/12",
+  author: { username: "gitlab-dev" },
+  source_branch: "faster-builds",
+  target_branch: "main",
+  sha: "c0ffee0000000000000000000000000000000000",
+  diff_refs: { base_sha: "base", start_sha: "start", head_sha: "c0ffee0000000000000000000000000000000000" },
+};
+
+const DIFF_PAGES = [
+  [
+    {
+      old_path: "src/build.ts",
+      new_path: "src/build.ts",
+      a_mode: "100644",
+      b_mode: "100644",
+      diff: "@@ -1,2 +1,3 @@\n import { run } from \"./run\";\n+import { cache } from \"./cache\";\n run();\n",
+      new_file: false,
+      renamed_file: false,
+      deleted_file: false,
+    },
+  ],
+  [
+    {
+      old_path: "src/cache.ts",
+      new_path: "src/cache.ts",
+      a_mode: "0",
+      b_mode: "100644",
+      diff: "@@ -0,0 +1 @@\n+export const cache = new Map();\n",
+      new_file: true,
+      renamed_file: false,
+      deleted_file: false,
+    },
+    {
+      old_path: "docs/old.md",
+      new_path: "docs/new.md",
+      a_mode: "100644",
+      b_mode: "100644",
+      diff: "",
+      new_file: false,
+      renamed_file: true,
+      deleted_file: false,
+    },
+  ],
+];
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  token: string | undefined;
+  body: Record<string, unknown> | null;
+}
+
+// A local stand-in for the parts of GitLab's REST API DiffPrism uses
+let server: http.Server;
+let client: GitLabClient;
+let requests: RecordedRequest[];
+
+beforeEach(async () => {
+  requests = [];
+  server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const url = req.url ?? "";
+      requests.push({
+        method: req.method ?? "GET",
+        url,
+        token: req.headers["private-token"] as string | undefined,
+        body: raw ? JSON.parse(raw) : null,
+      });
+
+      const send = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+        res.writeHead(status, { "Content-Type": "application/json", ...headers });
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.headers["private-token"] !== "glpat-test") {
+        send(401, { message: "401 Unauthorized" });
+      } else if (req.method === "GET" && url === MR_PATH) {
+        send(200, MERGE_REQUEST);
+      } else if (req.method === "GET" && url.startsWith(`${MR_PATH}/diffs?`)) {
+        const page = Number(new URL(url, "http://localhost").searchParams.get("page"));
+        send(200, DIFF_PAGES[page - 1], { "x-next-page": page < DIFF_PAGES.length ? String(page + 1) : "" });
+      } else if (req.method === "POST" && url === `${MR_PATH}/discussions`) {
+        send(201, { id: "discussion-1" });
+      } else if (req.method === "POST" && url === `${MR_PATH}/notes`) {
+        send(201, { id: 501 });
+      } else if (req.method === "POST" && url === `${MR_PATH}/approve`) {
+        send(201, { approved: true });
+      } else {
+        send(404, { message: "404 Not Found" });
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  client = createGitLabClient(`http://127.0.0.1:${port}/`, "glpat-test");
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("fetchMergeRequest", () => {
+  it("maps the MR onto PR metadata", async () => {
+    const pr = await fetchMergeRequest(client, "platform/tools", "app", 12);
+
+    expect(pr).toEqual({
+      provider: "gitlab",
+      owner: "platform/tools",
+      repo: "app",
+      number: 12,
+      title: "Speed up builds",
+      author: "gitlab-dev",
+      url: MERGE_REQUEST.web_url,
+      baseBranch: "main",
+      headBranch: "faster-builds",
+      headSha: MERGE_REQUEST.sha,
+      body: "Caches the dependency step.",
+    });
+    expect(requests[0].token).toBe("glpat-test");
+  });
+
+  it("surfaces GitLab's error message", async () => {
+    const unauthorized = createGitLabClient(client.baseUrl, "wrong");
+
+    await expect(fetchMergeRequest(unauthorized, "platform/tools", "app", 12)).rejects.toThrow(
+      "failed (401): 401 Unauthorized",
+    );
+  });
+});
+
+describe("fetchMergeRequestDiff", () => {
+  it("pages through the MR's files and rebuilds a git diff", async () => {
+    const rawDiff = await fetchMergeRequestDiff(client, "platform/tools", "app", 12);
+    const diffSet = parseDiff(rawDiff, "main", "faster-builds");
+
+    expect(requests).toHaveLength(2);
+    expect(diffSet.files.map((f) => [f.path, f.status])).toEqual([
+      ["src/build.ts", "modified"],
+      ["src/cache.ts", "added"],
+      ["docs/new.md", "renamed"],
+    ]);
+    expect(diffSet.files[0].additions).toBe(1);
+    expect(diffSet.files[1].additions).toBe(1);
+  });
+});
+
+describe("submitGitLabReview", () => {
+  const result: ReviewResult = {
+    decision: "approved",
+    summary: "Looks good",
+    comments: [
+      { file: "src/build.ts", line: 2, body: "Nice", type: "nitpick" },
+      { file: "src/build.ts", line: 1, body: "Was run()", type: "question", side: "LEFT" },
+      {
+        file: "src/cache.ts",
+        line: 3,
+        startLine: 1,
+        body: "Bound the cache",
+        type: "suggestion",
+        suggestion: "export const cache = new LRU(100);",
+      },
+    ],
+  };
+
+  it("opens a discussion per inline comment, posts the summary, and approves", async () => {
+    const posted = await submitGitLabReview(client, "platform/tools", "app", 12, result);
+
+    expect(posted).toEqual({ reviewId: 501 });
+    const discussions = requests.filter((r) => r.url.endsWith("/discussions"));
+    expect(discussions).toHaveLength(3);
+    expect(discussions[0].body).toEqual({
+      body: "**Nitpick:** Nice",
+      position: {
+        position_type: "text",
+        base_sha: "base",
+        start_sha: "start",
+        head_sha: MERGE_REQUEST.sha,
+        old_path: "src/build.ts",
+        new_path: "src/build.ts",
+        new_line: 2,
+      },
+    });
+    expect(discussions[1].body?.position).toMatchObject({ old_line: 1 });
+    expect(discussions[2].body?.body).toContain("```suggestion:-2+0\nexport const cache = new LRU(100);\n```");
+
+    const note = requests.find((r) => r.url.endsWith("/notes"));
+    expect(note?.body?.body).toContain("Looks good");
+    const approve = requests.find((r) => r.url.endsWith("/approve"));
+    expect(approve?.body).toEqual({ sha: MERGE_REQUEST.sha });
+  });
+
+  it("flags requested changes in the note without approving", async () => {
+    await submitGitLabReview(client, "platform/tools", "app", 12, {
+      decision: "changes_requested",
+      comments: [],
+    });
+
+    const note = requests.find((r) => r.url.endsWith("/notes"));
+    expect(note?.body?.body).toMatch(/^\*\*Changes requested\*\*/);
+    expect(requests.some((r) => r.url.endsWith("/approve"))).toBe(false);
+  });
+
+  it("posts nothing for dismissed reviews", async () => {
+    const posted = await submitGitLabReview(client, "platform/tools", "app", 12, {
+      decision: "dismissed",
+      comments: [],
+    });
+
+    expect(posted).toBeNull();
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe("merge request references", () => {
+  const url = "https://gitlab.example.com/platform/tools/app/-/merge_requests/12";
+
+  it("recognizes MR URLs on any host", () => {
+    expect(isMrRef(url)).toBe(true);
+    expect(isMrRef("https://gitlab.com/group/project/-/merge_requests/3/diffs")).toBe(true);
+    expect(isMrRef("https://github.com/owner/repo/pull/1")).toBe(false);
+    expect(isMrRef("owner/repo#1")).toBe(false);
+  });
+
+  it("parses the instance, namespace, project and IID", () => {
+    expect(parseMrRef(url)).toEqual({
+      baseUrl: "https://gitlab.example.com",
+      owner: "platform/tools",
+      repo: "app",
+      number: 12,
+    });
+    expect(() => parseMrRef("main..feature")).toThrow("Invalid merge request reference");
+  });
+
+  it("parses remotes on the MR's host only", () => {
+    const expected = { owner: "platform/tools", repo: "app" };
+    expect(parseGitLabRemote("git@gitlab.example.com:platform/tools/app.git", "gitlab.example.com")).toEqual(expected);
+    expect(parseGitLabRemote("https://gitlab.example.com/platform/tools/app", "gitlab.example.com")).toEqual(expected);
+    expect(parseGitLabRemote("ssh://git@gitlab.example.com:2222/platform/tools/app.git", "gitlab.example.com")).toEqual(
+      expected,
+    );
+    expect(parseGitLabRemote("git@github.com:platform/app.git", "gitlab.example.com")).toBeNull();
+  });
+});
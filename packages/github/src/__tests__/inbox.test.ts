@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from "vitest";
+import { fetchInbox } from "../inbox.js";
+
+function prNode(number: number, overrides: Record<string, unknown> = {}) {
+  return {
+    number,
+    title: `PR ${number}`,
+    url: `https://github.com/owner/repo/pull/${number}`,
+    isDraft: false,
+    additions: 10,
+    deletions: 2,
+    changedFiles: 3,
+    createdAt: "2026-10-01T00:00:00Z",
+    updatedAt: "2026-10-10T00:00:00Z",
+    author: { login: "octocat" },
+    repository: { name: "repo", owner: { login: "owner" } },
+    commits: { nodes: [{ commit: { statusCheckRollup: { state: "SUCCESS" } } }] },
+    ...overrides,
+  };
+}
+
+function createMockClient(results: Record<string, unknown[]>) {
+  return {
+    graphql: vi.fn(async (_query: string, { query }: { query: string }) => {
+      const key = Object.keys(results).find((k) => query.includes(k));
+      return { search: { nodes: key ? results[key] : [] } };
+    }),
+  };
+}
+
+describe("fetchInbox", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  it("searches review requests, recently active own PRs and local repos", async () => {
+    const client = createMockClient({});
+
+    await fetchInbox(client as never, { now, repos: [{ owner: "owner", repo: "repo" }] });
+
+    const queries = client.graphql.mock.calls.map(([, vars]) => (vars as { query: string }).query);
+    expect(queries).toEqual([
+      "is:pr is:open archived:false review-requested:@me",
+      "is:pr is:open archived:false author:@me updated:>=2026-10-12",
+      "is:pr is:open archived:false repo:owner/repo",
+    ]);
+  });
+
+  it("batches local repos across searches", async () => {
+    const client = createMockClient({});
+    const repos = Array.from({ length: 7 }, (_, i) => ({ owner: "owner", repo: `repo${i}` }));
+
+    await fetchInbox(client as never, { now, repos });
+
+    expect(client.graphql).toHaveBeenCalledTimes(4);
+  });
+
+  it("lists a PR once with every reason it matched", async () => {
+    const client = createMockClient({
+      "review-requested": [prNode(1)],
+      "repo:": [prNode(1), prNode(2)],
+    });
+
+    const entries = await fetchInbox(client as never, { now, repos: [{ owner: "owner", repo: "repo" }] });
+
+    expect(entries.map((e) => [e.number, e.reasons])).toEqual([
+      [1, ["review_requested", "local_repo"]],
+      [2, ["local_repo"]],
+    ]);
+  });
+
+  it("maps size, age and CI status", async () => {
+    const client = createMockClient({
+      "review-requested": [
+        prNode(1),
+        prNode(2, { commits: { nodes: [{ commit: { statusCheckRollup: { state: "ERROR" } } }] } }),
+        prNode(3, { commits: { nodes: [{ commit: { statusCheckRollup: { state: "PENDING" } } }] } }),
+        prNode(4, { commits: { nodes: [{ commit: { statusCheckRollup: null } }] }, author: null }),
+        {},
+      ],
+    });
+
+    const entries = await fetchInbox(client as never, { now, host: "github.example.com" });
+
+    expect(entries.map((e) => e.ci)).toEqual(["success", "failure", "pending", "none"]);
+    expect(entries[3].author).toBe("unknown");
+    expect(entries[0]).toEqual({
+      host: "github.example.com",
+      owner: "owner",
+      repo: "repo",
+      number: 1,
+      title: "PR 1",
+      author: "octocat",
+      url: "https://github.com/owner/repo/pull/1",
+      draft: false,
+      reasons: ["review_requested"],
+      ci: "success",
+      additions: 10,
+      deletions: 2,
+      changedFiles: 3,
+      createdAt: "2026-10-01T00:00:00Z",
+      updatedAt: "2026-10-10T00:00:00Z",
+    });
+  });
+});
@@ -25,6 +25,7 @@ const FIXTURE_PR: PrMetadata = {
   url: "https://github.com/anthropics/diffprism/pull/42",
   baseBranch: "main",
   headBranch: "feature/type-annotation",
+  headSha: "0123456789abcdef0123456789abcdef01234567",
   body: "This PR adds type annotations and logging.",
 };
 
@@ -60,6 +61,7 @@ describe("normalizePr", () => {
       url: "https://github.com/anthropics/diffprism/pull/42",
       baseBranch: "main",
       headBranch: "feature/type-annotation",
+      headSha: "0123456789abcdef0123456789abcdef01234567",
     });
   });
 
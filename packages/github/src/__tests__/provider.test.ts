@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fs from "node:fs";
+import { findProvider, githubProvider, gitlabProvider } from "../provider.js";
+
+describe("findProvider", () => {
+  it("picks GitHub for PR URLs and shorthand", () => {
+    expect(findProvider("https://github.com/owner/repo/pull/7")).toBe(githubProvider);
+    expect(findProvider("owner/repo#7")).toBe(githubProvider);
+  });
+
+  it("picks GitLab for merge request URLs", () => {
+    expect(findProvider("https://gitlab.example.com/group/project/-/merge_requests/4")).toBe(gitlabProvider);
+  });
+
+  it("returns null for git refs", () => {
+    expect(findProvider("HEAD~3..HEAD")).toBeNull();
+    expect(findProvider("staged")).toBeNull();
+  });
+});
+
+describe("provider references", () => {
+  it("resolves refs to their host", () => {
+    expect(githubProvider.parseRef("owner/repo#7")).toEqual({
+      provider: "github",
+      baseUrl: "https://github.com",
+      owner: "owner",
+      repo: "repo",
+      number: 7,
+    });
+    expect(gitlabProvider.parseRef("http://localhost:8080/group/project/-/merge_requests/4")).toEqual({
+      provider: "gitlab",
+      baseUrl: "http://localhost:8080",
+      owner: "group",
+      repo: "project",
+      number: 4,
+    });
+  });
+
+  it("formats refs the way each host writes them", () => {
+    const ref = { owner: "group", repo: "project", number: 4 };
+    expect(githubProvider.formatRef(ref)).toBe("group/project#4");
+    expect(gitlabProvider.formatRef(ref)).toBe("group/project!4");
+  });
+
+  it("matches remotes of the same repository, ignoring case", () => {
+    const github = githubProvider.parseRef("Owner/Repo#7");
+    expect(githubProvider.matchesRemote("git@github.com:owner/repo.git", github)).toBe(true);
+    expect(githubProvider.matchesRemote("https://github.com/owner/other.git", github)).toBe(false);
+
+    const gitlab = gitlabProvider.parseRef("https://gitlab.example.com/group/sub/project/-/merge_requests/4");
+    expect(gitlabProvider.matchesRemote("git@gitlab.example.com:group/sub/project.git", gitlab)).toBe(true);
+    expect(gitlabProvider.matchesRemote("git@gitlab.com:group/sub/project.git", gitlab)).toBe(false);
+  });
+});
+
+describe("GitHub Enterprise hosts", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("recognizes PR URLs and remotes on hosts from the config file", () => {
+    vi.spyOn(fs, "existsSync").mockReturnValue(true);
+    vi.spyOn(fs, "readFileSync").mockReturnValue(
+      JSON.stringify({ github: { hosts: { "github.example.com": { token: "ghp_host" } } } }),
+    );
+
+    const url = "https://github.example.com/owner/repo/pull/9";
+    expect(findProvider(url)).toBe(githubProvider);
+
+    const ref = githubProvider.parseRef(url);
+    expect(ref).toMatchObject({ provider: "github", baseUrl: "https://github.example.com", host: "github.example.com" });
+    expect(githubProvider.matchesRemote("git@github.example.com:owner/repo.git", ref)).toBe(true);
+    expect(githubProvider.matchesRemote("git@github.com:owner/repo.git", ref)).toBe(false);
+  });
+
+  it("ignores unconfigured hosts", () => {
+    vi.spyOn(fs, "existsSync").mockReturnValue(false);
+    expect(findProvider("https://github.example.com/owner/repo/pull/9")).toBeNull();
+  });
+});
+
+describe("gitSource", () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+    vi.restoreAllMocks();
+  });
+
+  it("points git at the ref each host publishes the PR head under", () => {
+    process.env = { ...originalEnv, GITHUB_TOKEN: "ghp_env", GITLAB_TOKEN: "glpat-env" };
+
+    expect(githubProvider.gitSource(githubProvider.parseRef("owner/repo#7"))).toEqual({
+      url: "https://github.com/owner/repo.git",
+      headRef: "refs/pull/7/head",
+      credentials: { username: "x-access-token", token: "ghp_env" },
+    });
+    expect(
+      gitlabProvider.gitSource(gitlabProvider.parseRef("https://gitlab.example.com/group/project/-/merge_requests/4")),
+    ).toEqual({
+      url: "https://gitlab.example.com/group/project.git",
+      headRef: "refs/merge-requests/4/head",
+      credentials: { username: "oauth2", token: "glpat-env" },
+    });
+  });
+
+  it("leaves out credentials when no token is configured", () => {
+    process.env = { ...originalEnv };
+    delete process.env.GITLAB_TOKEN;
+    vi.spyOn(fs, "existsSync").mockReturnValue(false);
+
+    const ref = gitlabProvider.parseRef("https://gitlab.example.com/group/project/-/merge_requests/4");
+    expect(gitlabProvider.gitSource(ref)).not.toHaveProperty("credentials");
+  });
+});
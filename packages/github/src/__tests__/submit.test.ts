@@ -160,4 +160,68 @@ describe("submitGitHubReview", () => {
     expect(call.comments).toHaveLength(1);
     expect(call.comments[0].line).toBe(5);
   });
+
+  it("maps line ranges and sides to multi-line comments", async () => {
+    const client = createMockClient();
+    const result: ReviewResult = {
+      decision: "approved_with_comments",
+      comments: [
+        { file: "src/index.ts", startLine: 4, line: 8, body: "Extract this", type: "suggestion" },
+        { file: "src/old.ts", line: 12, side: "LEFT", body: "Why remove?", type: "question" },
+      ],
+    };
+
+    await submitGitHubReview(client as never, "owner", "repo", 42, result);
+
+    const call = client.pulls.createReview.mock.calls[0][0];
+    expect(call.comments[0]).toEqual({
+      path: "src/index.ts",
+      line: 8,
+      start_line: 4,
+      start_side: "RIGHT",
+      body: "**Suggestion:** Extract this",
+    });
+    expect(call.comments[1]).toEqual({
+      path: "src/old.ts",
+      line: 12,
+      side: "LEFT",
+      body: "**Question:** Why remove?",
+    });
+  });
+
+  it("appends suggested replacements as suggestion blocks", async () => {
+    const client = createMockClient();
+    const result: ReviewResult = {
+      decision: "changes_requested",
+      comments: [
+        {
+          file: "src/index.ts",
+          startLine: 3,
+          line: 4,
+          body: "Use const",
+          type: "must_fix",
+          suggestion: "const a = 1;\nconst b = 2;",
+        },
+        { file: "src/index.ts", line: 9, body: "Drop this line", type: "nitpick", suggestion: "" },
+        {
+          file: "README.md",
+          line: 2,
+          body: "Fix the example",
+          type: "suggestion",
+          suggestion: "```ts\nrun();\n```",
+        },
+      ],
+    };
+
+    await submitGitHubReview(client as never, "owner", "repo", 42, result);
+
+    const call = client.pulls.createReview.mock.calls[0][0];
+    expect(call.comments[0].body).toBe(
+      "**Must Fix:** Use const\n\n```suggestion\nconst a = 1;\nconst b = 2;\n```",
+    );
+    expect(call.comments[1].body).toBe("**Nitpick:** Drop this line\n\n```suggestion\n```");
+    expect(call.comments[2].body).toBe(
+      "**Suggestion:** Fix the example\n\n````suggestion\n```ts\nrun();\n```\n````",
+    );
+  });
 });
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from "vitest";
+import { fetchReviewThreads } from "../threads.js";
+
+function threadNode(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    path: "src/index.ts",
+    line: 12,
+    originalLine: 10,
+    startLine: null,
+    diffSide: "RIGHT",
+    isResolved: false,
+    isOutdated: false,
+    comments: {
+      nodes: [
+        {
+          id: `${id}-c1`,
+          databaseId: 101,
+          author: { login: "octocat" },
+          body: "Why is this needed?",
+          createdAt: "2026-01-02T03:04:05Z",
+          url: `https://github.com/owner/repo/pull/1#discussion_r101`,
+          viewerDidAuthor: false,
+        },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+function page(nodes: unknown[], endCursor: string | null) {
+  return {
+    repository: {
+      pullRequest: {
+        reviewThreads: {
+          pageInfo: { hasNextPage: endCursor !== null, endCursor },
+          nodes,
+        },
+      },
+    },
+  };
+}
+
+describe("fetchReviewThreads", () => {
+  it("maps review threads with their comments", async () => {
+    const client = { graphql: vi.fn().mockResolvedValue(page([threadNode("t1")], null)) };
+
+    const threads = await fetchReviewThreads(client as never, "owner", "repo", 1);
+
+    expect(threads).toEqual([
+      {
+        id: "t1",
+        path: "src/index.ts",
+        line: 12,
+        originalLine: 10,
+        startLine: null,
+        side: "RIGHT",
+        isResolved: false,
+        isOutdated: false,
+        comments: [
+          {
+            id: "t1-c1",
+            databaseId: 101,
+            author: "octocat",
+            body: "Why is this needed?",
+            createdAt: Date.parse("2026-01-02T03:04:05Z"),
+            url: "https://github.com/owner/repo/pull/1#discussion_r101",
+            viewerDidAuthor: false,
+          },
+        ],
+      },
+    ]);
+    expect(client.graphql).toHaveBeenCalledWith(expect.any(String), {
+      owner: "owner",
+      repo: "repo",
+      number: 1,
+      cursor: null,
+    });
+  });
+
+  it("follows pagination cursors", async () => {
+    const client = {
+      graphql: vi
+        .fn()
+        .mockResolvedValueOnce(page([threadNode("t1")], "cursor-1"))
+        .mockResolvedValueOnce(page([threadNode("t2", { isResolved: true, line: null, isOutdated: true })], null)),
+    };
+
+    const threads = await fetchReviewThreads(client as never, "owner", "repo", 1);
+
+    expect(threads.map((t) => t.id)).toEqual(["t1", "t2"]);
+    expect(threads[1]).toMatchObject({ isResolved: true, isOutdated: true, line: null });
+    expect(client.graphql).toHaveBeenLastCalledWith(
+      expect.any(String),
+      expect.objectContaining({ cursor: "cursor-1" }),
+    );
+  });
+
+  it("uses a placeholder author for deleted accounts", async () => {
+    const node = threadNode("t1");
+    node.comments.nodes[0].author = null as never;
+    const client = { graphql: vi.fn().mockResolvedValue(page([node], null)) };
+
+    const threads = await fetchReviewThreads(client as never, "owner", "repo", 1);
+
+    expect(threads[0].comments[0].author).toBe("ghost");
+  });
+});
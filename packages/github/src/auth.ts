@@ -1,18 +1,27 @@
-import { execSync } from "node:child_process";
-import fs from "node:fs";
-import path from "node:path";
-import os from "node:os";
+import { execFileSync } from "node:child_process";
+import { GITHUB_HOST, getGitHubHosts, readConfig } from "./config.js";
 
 /**
  * Resolve a GitHub token from the environment, GitHub CLI, or DiffPrism config.
  *
- * Resolution order:
+ * Resolution order for github.com:
  * 1. GITHUB_TOKEN environment variable
  * 2. `gh auth token` (GitHub CLI)
  * 3. ~/.diffprism/config.json → github.token
  * 4. Throw with instructions
+ *
+ * For a GitHub Enterprise Server host:
+ * 1. ~/.diffprism/config.json → github.hosts[host].token
+ * 2. GH_ENTERPRISE_TOKEN environment variable
+ * 3. `gh auth token --hostname <host>` (GitHub CLI)
+ * 4. Throw with instructions
  */
-export function resolveGitHubToken(): string {
+export function resolveGitHubToken(host: string = GITHUB_HOST): string {
+  const normalized = host.toLowerCase();
+  if (normalized !== GITHUB_HOST) {
+    return resolveEnterpriseToken(normalized);
+  }
+
   // 1. Environment variable
   const envToken = process.env.GITHUB_TOKEN;
   if (envToken) {
@@ -20,31 +29,15 @@ export function resolveGitHubToken(): string {
   }
 
   // 2. GitHub CLI
-  try {
-    const token = execSync("gh auth token", {
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-    }).trim();
-    if (token) {
-      return token;
-    }
-  } catch {
-    // gh not installed or not authenticated — continue
+  const cliToken = ghAuthToken(["auth", "token"]);
+  if (cliToken) {
+    return cliToken;
   }
 
   // 3. DiffPrism config file
-  const configPath = path.join(os.homedir(), ".diffprism", "config.json");
-  try {
-    if (fs.existsSync(configPath)) {
-      const raw = fs.readFileSync(configPath, "utf-8");
-      const config = JSON.parse(raw) as Record<string, unknown>;
-      const github = config.github as Record<string, unknown> | undefined;
-      if (github?.token && typeof github.token === "string") {
-        return github.token;
-      }
-    }
-  } catch {
-    // Malformed config — continue
+  const github = readConfig().github as Record<string, unknown> | undefined;
+  if (github?.token && typeof github.token === "string") {
+    return github.token;
   }
 
   // 4. No token found
@@ -55,3 +48,73 @@ export function resolveGitHubToken(): string {
       `  3. ~/.diffprism/config.json → { "github": { "token": "..." } }`,
   );
 }
+
+function resolveEnterpriseToken(host: string): string {
+  // 1. Per-host token in the DiffPrism config file
+  const hostToken = getGitHubHosts()[host]?.token;
+  if (hostToken) {
+    return hostToken;
+  }
+
+  // 2. Environment variable (the one GitHub CLI uses for Enterprise hosts)
+  const envToken = process.env.GH_ENTERPRISE_TOKEN;
+  if (envToken) {
+    return envToken;
+  }
+
+  // 3. GitHub CLI
+  const cliToken = ghAuthToken(["auth", "token", "--hostname", host]);
+  if (cliToken) {
+    return cliToken;
+  }
+
+  // 4. No token found
+  throw new Error(
+    `GitHub token for ${host} not found. Provide one via:\n` +
+      `  1. ~/.diffprism/config.json → { "github": { "hosts": { "${host}": { "token": "..." } } } }\n` +
+      `  2. GH_ENTERPRISE_TOKEN environment variable\n` +
+      `  3. gh auth login --hostname ${host} (GitHub CLI)`,
+  );
+}
+
+function ghAuthToken(args: string[]): string | null {
+  try {
+    const token = execFileSync("gh", args, {
+      encoding: "utf-8",
+      stdio: ["pipe", "pipe", "pipe"],
+    }).trim();
+    return token || null;
+  } catch {
+    // gh not installed or not authenticated — continue
+    return null;
+  }
+}
+
+/**
+ * Resolve a GitLab token from the environment or DiffPrism config.
+ *
+ * Resolution order:
+ * 1. GITLAB_TOKEN environment variable
+ * 2. ~/.diffprism/config.json → gitlab.token
+ * 3. Throw with instructions
+ */
+export function resolveGitLabToken(): string {
+  // 1. Environment variable
+  const envToken = process.env.GITLAB_TOKEN;
+  if (envToken) {
+    return envToken;
+  }
+
+  // 2. DiffPrism config file
+  const gitlab = readConfig().gitlab as Record<string, unknown> | undefined;
+  if (gitlab?.token && typeof gitlab.token === "string") {
+    return gitlab.token;
+  }
+
+  // 3. No token found
+  throw new Error(
+    `GitLab token not found. Provide one via:\n` +
+      `  1. GITLAB_TOKEN environment variable\n` +
+      `  2. ~/.diffprism/config.json → { "gitlab": { "token": "..." } }`,
+  );
+}
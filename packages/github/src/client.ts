@@ -1,6 +1,10 @@
 import { Octokit } from "@octokit/rest";
+import type { GitHubThreadComment, PrProvider } from "@diffprism/core";
+import { GITHUB_HOST } from "./config.js";
 
 export interface PrMetadata {
+  provider?: PrProvider; // absent for GitHub
+  host?: string; // GitHub Enterprise Server host, absent for github.com
   owner: string;
   repo: string;
   number: number;
@@ -9,20 +13,31 @@ export interface PrMetadata {
   url: string;
   baseBranch: string;
   headBranch: string;
+  headSha: string;
   body: string | null;
 }
 
+/**
+ * Result of a conditional PR request: unmodified when GitHub answered 304
+ * Not Modified for the ETag sent.
+ */
+export type PrCheck =
+  | { modified: false }
+  | { modified: true; etag: string | null; pr: PrMetadata };
+
 export interface PrRef {
+  host?: string; // GitHub Enterprise Server host, absent for github.com
   owner: string;
   repo: string;
   number: number;
 }
 
 /**
- * Create an authenticated Octokit client.
+ * Create an authenticated Octokit client. Pass the REST API base URL to talk
+ * to a GitHub Enterprise Server host (see resolveGitHubApiUrl).
  */
-export function createGitHubClient(token: string): Octokit {
-  return new Octokit({ auth: token });
+export function createGitHubClient(token: string, baseUrl?: string): Octokit {
+  return new Octokit({ auth: token, ...(baseUrl && { baseUrl }) });
 }
 
 /**
@@ -35,7 +50,38 @@ export async function fetchPullRequest(
   number: number,
 ): Promise<PrMetadata> {
   const { data } = await client.pulls.get({ owner, repo, pull_number: number });
+  return toPrMetadata(owner, repo, number, data);
+}
 
+/**
+ * Fetch PR metadata only if it changed since the response `etag` came
+ * from. Unmodified responses do not count against the rate limit, so this
+ * is cheap enough to poll.
+ */
+export async function checkPullRequest(
+  client: Octokit,
+  owner: string,
+  repo: string,
+  number: number,
+  etag: string | null,
+): Promise<PrCheck> {
+  try {
+    const { data, headers } = await client.pulls.get({
+      owner,
+      repo,
+      pull_number: number,
+      headers: etag ? { "if-none-match": etag } : undefined,
+    });
+    return { modified: true, etag: headers.etag ?? null, pr: toPrMetadata(owner, repo, number, data) };
+  } catch (err) {
+    if ((err as { status?: number }).status === 304) return { modified: false };
+    throw err;
+  }
+}
+
+type PullRequestData = Awaited<ReturnType<Octokit["pulls"]["get"]>>["data"];
+
+function toPrMetadata(owner: string, repo: string, number: number, data: PullRequestData): PrMetadata {
   return {
     owner,
     repo,
@@ -45,6 +91,7 @@ export async function fetchPullRequest(
     url: data.html_url,
     baseBranch: data.base.ref,
     headBranch: data.head.ref,
+    headSha: data.head.sha,
     body: data.body,
   };
 }
@@ -69,13 +116,168 @@ export async function fetchPullRequestDiff(
   return data as unknown as string;
 }
 
+/**
+ * Fetch the unified diff between two commits of a repository, as GitHub's
+ * compare view shows it (changes on `head` since its merge base with `base`).
+ */
+export async function fetchCompareDiff(
+  client: Octokit,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+): Promise<string> {
+  const { data } = await client.repos.compareCommitsWithBasehead({
+    owner,
+    repo,
+    basehead: `${base}...${head}`,
+    mediaType: { format: "diff" },
+  });
+
+  // With mediaType diff, data is the raw diff string
+  return data as unknown as string;
+}
+
+/**
+ * Open a pull request from `head` into `base`. When `base` is omitted the
+ * repository's default branch is used.
+ */
+export async function createPullRequest(
+  client: Octokit,
+  owner: string,
+  repo: string,
+  options: { title: string; body: string; head: string; base?: string },
+): Promise<{ number: number; url: string }> {
+  let base = options.base;
+  if (!base) {
+    const { data: repoData } = await client.repos.get({ owner, repo });
+    base = repoData.default_branch;
+  }
+
+  if (base === options.head) {
+    throw new Error(`Cannot open a pull request from ${options.head} into itself`);
+  }
+
+  const { data } = await client.pulls.create({
+    owner,
+    repo,
+    title: options.title,
+    body: options.body,
+    head: options.head,
+    base,
+  });
+
+  return { number: data.number, url: data.html_url };
+}
+
+/**
+ * Reply to an existing review thread. GitHub threads replies under the
+ * thread's first comment, so pass that comment's REST ID.
+ */
+export async function replyToReviewComment(
+  client: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  commentId: number,
+  body: string,
+): Promise<GitHubThreadComment> {
+  const { data } = await client.pulls.createReplyForReviewComment({
+    owner,
+    repo,
+    pull_number: prNumber,
+    comment_id: commentId,
+    body,
+  });
+
+  return {
+    id: data.node_id,
+    databaseId: data.id,
+    author: data.user?.login ?? "ghost",
+    body: data.body,
+    createdAt: Date.parse(data.created_at),
+    url: data.html_url,
+    viewerDidAuthor: true,
+  };
+}
+
+/**
+ * Edit the body of a review comment. Only the comment's author may do this.
+ */
+export async function updateReviewComment(
+  client: Octokit,
+  owner: string,
+  repo: string,
+  commentId: number,
+  body: string,
+): Promise<void> {
+  await client.pulls.updateReviewComment({ owner, repo, comment_id: commentId, body });
+}
+
+/**
+ * Delete a review comment. Only the comment's author may do this.
+ */
+export async function deleteReviewComment(
+  client: Octokit,
+  owner: string,
+  repo: string,
+  commentId: number,
+): Promise<void> {
+  await client.pulls.deleteReviewComment({ owner, repo, comment_id: commentId });
+}
+
+/**
+ * Resolve or unresolve a review thread (GraphQL-only).
+ *
+ * @param threadId - The thread's GraphQL node ID.
+ * @returns The thread's resolved state after the change.
+ */
+export async function setReviewThreadResolved(
+  client: Octokit,
+  threadId: string,
+  resolved: boolean,
+): Promise<boolean> {
+  const mutation = resolved ? "resolveReviewThread" : "unresolveReviewThread";
+  const data: Record<string, { thread: { isResolved: boolean } }> = await client.graphql(
+    `mutation ($threadId: ID!) {
+      ${mutation}(input: { threadId: $threadId }) {
+        thread {
+          isResolved
+        }
+      }
+    }`,
+    { threadId },
+  );
+  return data[mutation].thread.isResolved;
+}
+
+function hostPattern(hosts: string[]): string {
+  return `(${hosts.map((host) => host.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`;
+}
+
+/**
+ * Extract owner/repo from a GitHub remote URL (HTTPS or SSH).
+ * Returns null for remotes that do not point at one of `hosts`; `host` is
+ * set when the remote is on a GitHub Enterprise host.
+ */
+export function parseGitHubRemote(
+  url: string,
+  hosts: string[] = [GITHUB_HOST],
+): { host?: string; owner: string; repo: string } | null {
+  const match = url
+    .trim()
+    .match(new RegExp(`${hostPattern(hosts)}(?::\\d+)?[:/]([^/]+)/([^/]+?)(?:\\.git)?/?$`, "i"));
+  if (!match) return null;
+  return withHost(match[1], { owner: match[2], repo: match[3] });
+}
+
 /**
  * Check if a string looks like a GitHub PR reference.
- * Returns true for "owner/repo#123" or GitHub PR URLs.
+ * Returns true for "owner/repo#123" or PR URLs on one of `hosts`.
  * Git refs can't contain '#', so there's zero ambiguity.
  */
-export function isPrRef(input: string): boolean {
-  if (/github\.com\/[^/]+\/[^/]+\/pull\/\d+/.test(input)) return true;
+export function isPrRef(input: string, hosts: string[] = [GITHUB_HOST]): boolean {
+  if (new RegExp(`${hostPattern(hosts)}/[^/]+/[^/]+/pull/\\d+`, "i").test(input)) return true;
   if (/^[^/]+\/[^#]+#\d+$/.test(input)) return true;
   return false;
 }
@@ -84,20 +286,20 @@ export function isPrRef(input: string): boolean {
  * Parse a PR reference string into owner/repo/number.
  *
  * Accepts:
- *   - owner/repo#123
- *   - https://github.com/owner/repo/pull/123
+ *   - owner/repo#123 (on github.com)
+ *   - https://github.com/owner/repo/pull/123, or the same URL on one of `hosts`
  */
-export function parsePrRef(input: string): PrRef {
-  // Try URL format: https://github.com/owner/repo/pull/123
+export function parsePrRef(input: string, hosts: string[] = [GITHUB_HOST]): PrRef {
+  // Try URL format: https://<host>/owner/repo/pull/123
   const urlMatch = input.match(
-    /github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/,
+    new RegExp(`${hostPattern(hosts)}/([^/]+)/([^/]+)/pull/(\\d+)`, "i"),
   );
   if (urlMatch) {
-    return {
-      owner: urlMatch[1],
-      repo: urlMatch[2],
-      number: parseInt(urlMatch[3], 10),
-    };
+    return withHost(urlMatch[1], {
+      owner: urlMatch[2],
+      repo: urlMatch[3],
+      number: parseInt(urlMatch[4], 10),
+    });
   }
 
   // Try shorthand: owner/repo#123
@@ -115,3 +317,8 @@ export function parsePrRef(input: string): PrRef {
       `Expected "owner/repo#123" or "https://github.com/owner/repo/pull/123"`,
   );
 }
+
+function withHost<T extends object>(host: string, ref: T): T & { host?: string } {
+  const normalized = host.toLowerCase();
+  return normalized === GITHUB_HOST ? ref : { host: normalized, ...ref };
+}
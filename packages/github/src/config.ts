@@ -0,0 +1,68 @@
+import fs from "node:fs";
+import path from "node:path";
+import os from "node:os";
+
+export const GITHUB_HOST = "github.com";
+
+/**
+ * A GitHub Enterprise Server host from ~/.diffprism/config.json:
+ *
+ *   { "github": { "hosts": { "github.example.com": { "apiUrl": "...", "token": "..." } } } }
+ */
+export interface GitHubHostConfig {
+  apiUrl?: string; // REST API base, defaults to https://<host>/api/v3
+  token?: string;
+}
+
+/**
+ * Read ~/.diffprism/config.json. Missing or malformed config reads as empty.
+ */
+export function readConfig(): Record<string, unknown> {
+  const configPath = path.join(os.homedir(), ".diffprism", "config.json");
+  try {
+    if (fs.existsSync(configPath)) {
+      const config = JSON.parse(fs.readFileSync(configPath, "utf-8")) as unknown;
+      if (config && typeof config === "object") return config as Record<string, unknown>;
+    }
+  } catch {
+    // Malformed config — treat as empty
+  }
+  return {};
+}
+
+/**
+ * GitHub Enterprise Server hosts configured under `github.hosts`, keyed by
+ * hostname.
+ */
+export function getGitHubHosts(): Record<string, GitHubHostConfig> {
+  const github = readConfig().github as Record<string, unknown> | undefined;
+  const hosts = github?.hosts;
+  if (!hosts || typeof hosts !== "object") return {};
+
+  const result: Record<string, GitHubHostConfig> = {};
+  for (const [host, value] of Object.entries(hosts as Record<string, unknown>)) {
+    const entry = (value ?? {}) as Record<string, unknown>;
+    result[host.toLowerCase()] = {
+      apiUrl: typeof entry.apiUrl === "string" ? entry.apiUrl : undefined,
+      token: typeof entry.token === "string" ? entry.token : undefined,
+    };
+  }
+  return result;
+}
+
+/**
+ * github.com plus every configured Enterprise host.
+ */
+export function knownGitHubHosts(): string[] {
+  return [GITHUB_HOST, ...Object.keys(getGitHubHosts()).filter((host) => host !== GITHUB_HOST)];
+}
+
+/**
+ * REST API base URL for a GitHub host, or undefined for github.com (Octokit's
+ * default).
+ */
+export function resolveGitHubApiUrl(host: string = GITHUB_HOST): string | undefined {
+  const normalized = host.toLowerCase();
+  if (normalized === GITHUB_HOST) return undefined;
+  return getGitHubHosts()[normalized]?.apiUrl ?? `https://${normalized}/api/v3`;
+}
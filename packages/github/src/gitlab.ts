@@ -0,0 +1,278 @@
+import type { ReviewComment, ReviewResult } from "@diffprism/core";
+import type { PrMetadata, PrRef } from "./client.js";
+import { buildReviewBody, formatSuggestionBlock, getCommentTypePrefix } from "./submit.js";
+
+/**
+ * A GitLab instance's REST API (v4), authenticated with a personal,
+ * project or group access token.
+ */
+export interface GitLabClient {
+  baseUrl: string; // web origin of the instance, e.g. "https://gitlab.com"
+  token: string;
+}
+
+/**
+ * A merge request reference. `owner` is the project's full namespace path,
+ * which may include subgroups; `number` is the MR's IID.
+ */
+export interface MrRef extends PrRef {
+  baseUrl: string;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  description: string | null;
+  web_url: string;
+  author: { username: string } | null;
+  source_branch: string;
+  target_branch: string;
+  sha: string;
+  diff_refs: { base_sha: string; start_sha: string; head_sha: string } | null;
+}
+
+interface GitLabDiffFile {
+  old_path: string;
+  new_path: string;
+  a_mode: string;
+  b_mode: string;
+  diff: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+}
+
+/**
+ * Create a client for the GitLab instance at `baseUrl`.
+ */
+export function createGitLabClient(baseUrl: string, token: string): GitLabClient {
+  return { baseUrl: baseUrl.replace(/\/+$/, ""), token };
+}
+
+async function gitlabRequest<T>(
+  client: GitLabClient,
+  path: string,
+  options: { method?: string; body?: unknown } = {},
+): Promise<{ data: T; headers: Headers }> {
+  const method = options.method ?? "GET";
+  const response = await fetch(`${client.baseUrl}/api/v4${path}`, {
+    method,
+    headers: {
+      "PRIVATE-TOKEN": client.token,
+      ...(options.body !== undefined && { "Content-Type": "application/json" }),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  if (!response.ok) {
+    let message = response.statusText;
+    try {
+      const body = (await response.json()) as { message?: unknown; error?: unknown };
+      const detail = body.message ?? body.error;
+      if (detail) message = typeof detail === "string" ? detail : JSON.stringify(detail);
+    } catch {
+      // Not a JSON error body — keep the status text
+    }
+    throw new Error(`GitLab API ${method} ${path} failed (${response.status}): ${message}`);
+  }
+
+  return { data: (await response.json()) as T, headers: response.headers };
+}
+
+function mergeRequestPath(owner: string, repo: string, iid: number): string {
+  return `/projects/${encodeURIComponent(`${owner}/${repo}`)}/merge_requests/${iid}`;
+}
+
+/**
+ * Fetch MR metadata, in the shape GitHub PRs use.
+ */
+export async function fetchMergeRequest(
+  client: GitLabClient,
+  owner: string,
+  repo: string,
+  iid: number,
+): Promise<PrMetadata> {
+  const { data } = await gitlabRequest<GitLabMergeRequest>(client, mergeRequestPath(owner, repo, iid));
+  return {
+    provider: "gitlab",
+    owner,
+    repo,
+    number: data.iid,
+    title: data.title,
+    author: data.author?.username ?? "unknown",
+    url: data.web_url,
+    baseBranch: data.target_branch,
+    headBranch: data.source_branch,
+    headSha: data.sha,
+    body: data.description || null,
+  };
+}
+
+/**
+ * Fetch an MR's changes as a unified git diff. GitLab serves per-file hunks
+ * without git headers, so those are rebuilt for parseDiff().
+ */
+export async function fetchMergeRequestDiff(
+  client: GitLabClient,
+  owner: string,
+  repo: string,
+  iid: number,
+): Promise<string> {
+  const files: GitLabDiffFile[] = [];
+  let page: string | null = "1";
+  while (page) {
+    const { data, headers }: { data: GitLabDiffFile[]; headers: Headers } = await gitlabRequest(
+      client,
+      `${mergeRequestPath(owner, repo, iid)}/diffs?per_page=100&page=${page}`,
+    );
+    files.push(...data);
+    page = headers.get("x-next-page") || null;
+  }
+
+  return files.map(toGitDiff).join("");
+}
+
+function toGitDiff(file: GitLabDiffFile): string {
+  const header = [`diff --git a/${file.old_path} b/${file.new_path}`];
+  if (file.new_file) {
+    header.push(`new file mode ${file.b_mode}`);
+  } else if (file.deleted_file) {
+    header.push(`deleted file mode ${file.a_mode}`);
+  } else if (file.renamed_file) {
+    header.push(`rename from ${file.old_path}`, `rename to ${file.new_path}`);
+  }
+
+  // Renames without content changes (and binary files) come without hunks
+  if (!file.diff) return `${header.join("\n")}\n`;
+
+  header.push(
+    `--- ${file.new_file ? "/dev/null" : `a/${file.old_path}`}`,
+    `+++ ${file.deleted_file ? "/dev/null" : `b/${file.new_path}`}`,
+  );
+  const hunks = file.diff.endsWith("\n") ? file.diff : `${file.diff}\n`;
+  return `${header.join("\n")}\n${hunks}`;
+}
+
+/**
+ * Post a DiffPrism ReviewResult to a merge request.
+ *
+ * GitLab has no single review object, so this mirrors submitGitHubReview()
+ * with separate calls: each inline comment opens a diff discussion, the
+ * summary becomes a note, and an "approved" decision approves the MR.
+ * Dismissed reviews post nothing.
+ */
+export async function submitGitLabReview(
+  client: GitLabClient,
+  owner: string,
+  repo: string,
+  iid: number,
+  result: ReviewResult,
+): Promise<{ reviewId: number } | null> {
+  if (
+    result.decision !== "approved" &&
+    result.decision !== "changes_requested" &&
+    result.decision !== "approved_with_comments"
+  ) {
+    return null;
+  }
+
+  const mrPath = mergeRequestPath(owner, repo, iid);
+  const { data: mr } = await gitlabRequest<GitLabMergeRequest>(client, mrPath);
+
+  const inline = result.comments.filter((c) => c.file && c.line > 0);
+  if (inline.length > 0 && !mr.diff_refs) {
+    throw new Error(`Merge request !${iid} has no diff to comment on`);
+  }
+
+  for (const comment of inline) {
+    const { base_sha, start_sha, head_sha } = mr.diff_refs!;
+    await gitlabRequest(client, `${mrPath}/discussions`, {
+      method: "POST",
+      body: {
+        body: formatDiscussionBody(comment),
+        position: {
+          position_type: "text",
+          base_sha,
+          start_sha,
+          head_sha,
+          old_path: comment.file,
+          new_path: comment.file,
+          ...(comment.side === "LEFT" ? { old_line: comment.line } : { new_line: comment.line }),
+        },
+      },
+    });
+  }
+
+  const body =
+    result.decision === "changes_requested"
+      ? `**Changes requested**\n\n${buildReviewBody(result)}`
+      : buildReviewBody(result);
+  const { data: note } = await gitlabRequest<{ id: number }>(client, `${mrPath}/notes`, {
+    method: "POST",
+    body: { body },
+  });
+
+  if (result.decision === "approved") {
+    // Pinning the SHA keeps the approval from covering commits nobody reviewed
+    await gitlabRequest(client, `${mrPath}/approve`, { method: "POST", body: { sha: mr.sha } });
+  }
+
+  return { reviewId: note.id };
+}
+
+/**
+ * Format a ReviewComment as a discussion body. GitLab suggestions carry
+ * their line range in the fence, relative to the commented line.
+ */
+function formatDiscussionBody(comment: ReviewComment): string {
+  let body = `${getCommentTypePrefix(comment.type)}${comment.body}`;
+
+  if (comment.suggestion !== undefined && comment.side !== "LEFT") {
+    const above = comment.startLine && comment.startLine < comment.line ? comment.line - comment.startLine : 0;
+    body += `\n\n${formatSuggestionBlock(comment.suggestion, `suggestion:-${above}+0`)}`;
+  }
+
+  return body;
+}
+
+/**
+ * Extract the project's namespace and name from a git remote URL (HTTPS or
+ * SSH) pointing at `host`. Returns null for remotes on other hosts.
+ */
+export function parseGitLabRemote(url: string, host: string): { owner: string; repo: string } | null {
+  const escapedHost = host.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = url
+    .trim()
+    .match(new RegExp(`${escapedHost}(?::\\d+)?[:/](.+)/([^/]+?)(?:\\.git)?/?$`));
+  if (!match) return null;
+  return { owner: match[1], repo: match[2] };
+}
+
+/**
+ * Check if a string is a GitLab merge request URL. Any host is accepted —
+ * the `/-/merge_requests/` path is GitLab's own.
+ */
+export function isMrRef(input: string): boolean {
+  return /^https?:\/\/[^/]+\/.+\/[^/]+\/-\/merge_requests\/\d+/.test(input);
+}
+
+/**
+ * Parse a merge request URL such as
+ * https://gitlab.example.com/group/subgroup/project/-/merge_requests/12.
+ */
+export function parseMrRef(input: string): MrRef {
+  const match = input.match(/^(https?:\/\/[^/]+)\/(.+)\/([^/]+)\/-\/merge_requests\/(\d+)/);
+  if (!match) {
+    throw new Error(
+      `Invalid merge request reference: "${input}". ` +
+        `Expected "https://gitlab.example.com/group/project/-/merge_requests/123"`,
+    );
+  }
+
+  return {
+    baseUrl: match[1],
+    owner: match[2],
+    repo: match[3],
+    number: parseInt(match[4], 10),
+  };
+}
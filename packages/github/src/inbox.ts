@@ -0,0 +1,234 @@
+import type { Octokit } from "@octokit/rest";
+import { runGit } from "@diffprism/git";
+import type { CiStatus, InboxEntry, InboxPayload, InboxReason } from "@diffprism/core";
+import { resolveGitHubToken } from "./auth.js";
+import { GITHUB_HOST, knownGitHubHosts, resolveGitHubApiUrl } from "./config.js";
+import { createGitHubClient, parseGitHubRemote } from "./client.js";
+
+// One search covers a whole inbox section, with size and CI status inline
+const INBOX_SEARCH_QUERY = `
+  query ($query: String!) {
+    search(query: $query, type: ISSUE, first: 50) {
+      nodes {
+        ... on PullRequest {
+          number
+          title
+          url
+          isDraft
+          additions
+          deletions
+          changedFiles
+          createdAt
+          updatedAt
+          author {
+            login
+          }
+          repository {
+            name
+            owner {
+              login
+            }
+          }
+          commits(last: 1) {
+            nodes {
+              commit {
+                statusCheckRollup {
+                  state
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface SearchPullRequest {
+  number: number;
+  title: string;
+  url: string;
+  isDraft: boolean;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  createdAt: string;
+  updatedAt: string;
+  author: { login: string } | null;
+  repository: { name: string; owner: { login: string } };
+  commits: { nodes: Array<{ commit: { statusCheckRollup: { state: string } | null } }> };
+}
+
+interface InboxSearchResponse {
+  // Non-PR nodes come back as empty objects
+  search: { nodes: Array<SearchPullRequest | Record<string, never>> };
+}
+
+// GitHub search caps query length and operator count, so repos go in batches
+const REPOS_PER_SEARCH = 5;
+
+/** How far back activity on the viewer's own PRs counts as new. */
+const DEFAULT_ACTIVITY_DAYS = 7;
+
+export interface InboxRepo {
+  host?: string; // GitHub Enterprise Server host, absent for github.com
+  owner: string;
+  repo: string;
+}
+
+export interface InboxOptions {
+  /** Repositories with a local clone; their open PRs are listed too. */
+  repos?: InboxRepo[];
+  /** Days of activity that make one of the viewer's own PRs show up. Defaults to 7. */
+  activityDays?: number;
+  now?: Date;
+}
+
+function toCiStatus(state: string | undefined): CiStatus {
+  switch (state) {
+    case "SUCCESS":
+      return "success";
+    case "FAILURE":
+    case "ERROR":
+      return "failure";
+    case "PENDING":
+    case "EXPECTED":
+      return "pending";
+    default:
+      return "none";
+  }
+}
+
+function toInboxEntry(node: SearchPullRequest, host: string, reason: InboxReason): InboxEntry {
+  return {
+    ...(host !== GITHUB_HOST && { host }),
+    owner: node.repository.owner.login,
+    repo: node.repository.name,
+    number: node.number,
+    title: node.title,
+    author: node.author?.login ?? "unknown",
+    url: node.url,
+    draft: node.isDraft,
+    reasons: [reason],
+    ci: toCiStatus(node.commits.nodes[0]?.commit.statusCheckRollup?.state),
+    additions: node.additions,
+    deletions: node.deletions,
+    changedFiles: node.changedFiles,
+    createdAt: node.createdAt,
+    updatedAt: node.updatedAt,
+  };
+}
+
+async function searchPullRequests(
+  client: Octokit,
+  host: string,
+  query: string,
+  reason: InboxReason,
+): Promise<InboxEntry[]> {
+  const data: InboxSearchResponse = await client.graphql(INBOX_SEARCH_QUERY, {
+    query: `is:pr is:open archived:false ${query}`,
+  });
+  return data.search.nodes
+    .filter((node): node is SearchPullRequest => "number" in node)
+    .map((node) => toInboxEntry(node, host, reason));
+}
+
+/**
+ * Fetch the inbox for one GitHub host: PRs awaiting the viewer's review, the
+ * viewer's own PRs with recent activity, and open PRs in `repos`. A PR
+ * matching several of those is listed once with every reason.
+ */
+export async function fetchInbox(
+  client: Octokit,
+  options: InboxOptions & { host?: string } = {},
+): Promise<InboxEntry[]> {
+  const host = options.host ?? GITHUB_HOST;
+  const now = options.now ?? new Date();
+  const activityDays = options.activityDays ?? DEFAULT_ACTIVITY_DAYS;
+  const since = new Date(now.getTime() - activityDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const repoQualifiers = (options.repos ?? []).map(({ owner, repo }) => `repo:${owner}/${repo}`);
+  const searches = [
+    searchPullRequests(client, host, "review-requested:@me", "review_requested"),
+    searchPullRequests(client, host, `author:@me updated:>=${since}`, "authored"),
+  ];
+  for (let i = 0; i < repoQualifiers.length; i += REPOS_PER_SEARCH) {
+    const qualifiers = repoQualifiers.slice(i, i + REPOS_PER_SEARCH).join(" ");
+    searches.push(searchPullRequests(client, host, qualifiers, "local_repo"));
+  }
+
+  const byUrl = new Map<string, InboxEntry>();
+  for (const entry of (await Promise.all(searches)).flat()) {
+    const existing = byUrl.get(entry.url);
+    if (!existing) {
+      byUrl.set(entry.url, entry);
+    } else if (!existing.reasons.includes(entry.reasons[0])) {
+      existing.reasons.push(entry.reasons[0]);
+    }
+  }
+  return [...byUrl.values()];
+}
+
+/**
+ * Sort order for the inbox: review requests first, then most recently
+ * updated.
+ */
+function compareEntries(a: InboxEntry, b: InboxEntry): number {
+  const aRequested = a.reasons.includes("review_requested");
+  const bRequested = b.reasons.includes("review_requested");
+  if (aRequested !== bRequested) return aRequested ? -1 : 1;
+  return b.updatedAt.localeCompare(a.updatedAt);
+}
+
+/**
+ * Load the inbox from github.com and every configured GitHub Enterprise
+ * Server host. A host that fails (no token, unreachable) is reported in
+ * `errors` without hiding the others.
+ */
+export async function loadReviewInbox(options: InboxOptions = {}): Promise<InboxPayload> {
+  const results = await Promise.all(
+    knownGitHubHosts().map(async (host) => {
+      try {
+        const client = createGitHubClient(resolveGitHubToken(host), resolveGitHubApiUrl(host));
+        const repos = (options.repos ?? []).filter((repo) => (repo.host ?? GITHUB_HOST) === host);
+        return { entries: await fetchInbox(client, { ...options, host, repos }) };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return { entries: [], error: host === GITHUB_HOST ? message : `${host}: ${message}` };
+      }
+    }),
+  );
+
+  return {
+    entries: results.flatMap((result) => result.entries).sort(compareEntries),
+    errors: results.flatMap((result) => (result.error ? [result.error] : [])),
+  };
+}
+
+/**
+ * GitHub repositories the git checkouts at `dirs` have remotes for.
+ * Directories that are not git repositories are skipped.
+ */
+export function findLocalRepos(dirs: string[]): InboxRepo[] {
+  const hosts = knownGitHubHosts();
+  const repos = new Map<string, InboxRepo>();
+
+  for (const cwd of dirs) {
+    let output: string;
+    try {
+      output = runGit(["remote", "-v"], { cwd });
+    } catch {
+      continue;
+    }
+
+    for (const line of output.split("\n")) {
+      const remoteUrl = line.split(/\s+/)[1];
+      const remote = remoteUrl ? parseGitHubRemote(remoteUrl, hosts) : null;
+      if (!remote) continue;
+      const key = `${remote.host ?? GITHUB_HOST}/${remote.owner}/${remote.repo}`.toLowerCase();
+      if (!repos.has(key)) repos.set(key, remote);
+    }
+  }
+
+  return [...repos.values()];
+}
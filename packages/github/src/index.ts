@@ -1,12 +1,37 @@
-export { resolveGitHubToken } from "./auth.js";
+export { resolveGitHubToken, resolveGitLabToken } from "./auth.js";
+export { getGitHubHosts, knownGitHubHosts, resolveGitHubApiUrl } from "./config.js";
+export type { GitHubHostConfig } from "./config.js";
 export {
+  checkPullRequest,
   createGitHubClient,
+  createPullRequest,
+  deleteReviewComment,
+  fetchCompareDiff,
   fetchPullRequest,
   fetchPullRequestDiff,
   isPrRef,
   parsePrRef,
+  parseGitHubRemote,
+  replyToReviewComment,
+  setReviewThreadResolved,
+  updateReviewComment,
 } from "./client.js";
-export type { PrMetadata, PrRef } from "./client.js";
+export type { PrCheck, PrMetadata, PrRef } from "./client.js";
 export { normalizePr } from "./normalize.js";
 export type { NormalizedPr } from "./normalize.js";
 export { submitGitHubReview } from "./submit.js";
+export { fetchReviewThreads } from "./threads.js";
+export { fetchInbox, findLocalRepos, loadReviewInbox } from "./inbox.js";
+export type { InboxOptions, InboxRepo } from "./inbox.js";
+export {
+  createGitLabClient,
+  fetchMergeRequest,
+  fetchMergeRequestDiff,
+  isMrRef,
+  parseGitLabRemote,
+  parseMrRef,
+  submitGitLabReview,
+} from "./gitlab.js";
+export type { GitLabClient, MrRef } from "./gitlab.js";
+export { findProvider, githubProvider, gitlabProvider, isLocalClone } from "./provider.js";
+export type { ProviderConnection, ProviderGitSource, ProviderRef, ReviewProvider } from "./provider.js";
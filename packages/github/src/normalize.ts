@@ -32,6 +32,8 @@ export function normalizePr(
   const briefing = analyze(diffSet);
 
   const githubPr: GitHubPrMetadata = {
+    provider: prMetadata.provider,
+    host: prMetadata.host,
     owner: prMetadata.owner,
     repo: prMetadata.repo,
     number: prMetadata.number,
@@ -40,6 +42,7 @@ export function normalizePr(
     url: prMetadata.url,
     baseBranch: prMetadata.baseBranch,
     headBranch: prMetadata.headBranch,
+    headSha: prMetadata.headSha,
   };
 
   const metadata: ReviewMetadata = {
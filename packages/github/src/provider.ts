@@ -0,0 +1,179 @@
+import { runGit } from "@diffprism/git";
+import type { GitHubReviewThread, PrProvider, ReviewResult } from "@diffprism/core";
+import { resolveGitHubToken, resolveGitLabToken } from "./auth.js";
+import { knownGitHubHosts, resolveGitHubApiUrl } from "./config.js";
+import {
+  createGitHubClient,
+  fetchPullRequest,
+  fetchPullRequestDiff,
+  isPrRef,
+  parseGitHubRemote,
+  parsePrRef,
+} from "./client.js";
+import type { PrMetadata, PrRef } from "./client.js";
+import {
+  createGitLabClient,
+  fetchMergeRequest,
+  fetchMergeRequestDiff,
+  isMrRef,
+  parseGitLabRemote,
+  parseMrRef,
+  submitGitLabReview,
+} from "./gitlab.js";
+import { submitGitHubReview } from "./submit.js";
+import { fetchReviewThreads } from "./threads.js";
+
+/**
+ * A PR reference resolved to the code host it lives on.
+ */
+export interface ProviderRef extends PrRef {
+  provider: PrProvider;
+  baseUrl: string; // web origin of the host, e.g. "https://github.com"
+}
+
+/**
+ * An authenticated connection to one PR on its code host.
+ */
+export interface ProviderConnection {
+  fetchPullRequest: () => Promise<PrMetadata>;
+  fetchDiff: () => Promise<string>;
+  submitReview: (result: ReviewResult) => Promise<{ reviewId: number } | null>;
+  /** Existing review discussion, on hosts DiffPrism can show it for. */
+  fetchReviewThreads?: () => Promise<GitHubReviewThread[]>;
+}
+
+/**
+ * Where git can fetch a PR's head from.
+ */
+export interface ProviderGitSource {
+  url: string; // clone URL of the repository
+  headRef: string; // ref the host publishes the PR head under
+  credentials?: { username: string; token: string }; // absent when no token is configured
+}
+
+/**
+ * A code host DiffPrism can open PRs from. findProvider() picks the one that
+ * understands a user-supplied reference.
+ */
+export interface ReviewProvider {
+  kind: PrProvider;
+  name: string;
+  isRef: (input: string) => boolean;
+  parseRef: (input: string) => ProviderRef;
+  /** Display form of a reference, e.g. "owner/repo#123" or "group/project!12". */
+  formatRef: (ref: PrRef) => string;
+  /** Whether a git remote URL points at the reference's repository. */
+  matchesRemote: (remoteUrl: string, ref: ProviderRef) => boolean;
+  /** Authenticate against the host. Throws with setup instructions when no token is configured. */
+  connect: (ref: ProviderRef) => ProviderConnection;
+  gitSource: (ref: ProviderRef) => ProviderGitSource;
+}
+
+// Public repositories can be fetched without a token
+function optionalToken(resolve: () => string): string | null {
+  try {
+    return resolve();
+  } catch {
+    return null;
+  }
+}
+
+function sameRepo(remote: { owner: string; repo: string }, ref: PrRef): boolean {
+  return (
+    remote.owner.toLowerCase() === ref.owner.toLowerCase() &&
+    remote.repo.toLowerCase() === ref.repo.toLowerCase()
+  );
+}
+
+// github.com, plus GitHub Enterprise Server hosts from ~/.diffprism/config.json
+export const githubProvider: ReviewProvider = {
+  kind: "github",
+  name: "GitHub",
+  isRef: (input) => isPrRef(input, knownGitHubHosts()),
+  parseRef(input) {
+    const ref = parsePrRef(input, knownGitHubHosts());
+    return { provider: "github", baseUrl: `https://${ref.host ?? "github.com"}`, ...ref };
+  },
+  formatRef: ({ owner, repo, number }) => `${owner}/${repo}#${number}`,
+  matchesRemote(remoteUrl, ref) {
+    const remote = parseGitHubRemote(remoteUrl, [new URL(ref.baseUrl).hostname]);
+    return remote !== null && sameRepo(remote, ref);
+  },
+  connect({ host, owner, repo, number }) {
+    const client = createGitHubClient(resolveGitHubToken(host), resolveGitHubApiUrl(host));
+    return {
+      fetchPullRequest: async () => ({ ...(await fetchPullRequest(client, owner, repo, number)), host }),
+      fetchDiff: () => fetchPullRequestDiff(client, owner, repo, number),
+      submitReview: (result) => submitGitHubReview(client, owner, repo, number, result),
+      fetchReviewThreads: () => fetchReviewThreads(client, owner, repo, number),
+    };
+  },
+  gitSource({ baseUrl, host, owner, repo, number }) {
+    const token = optionalToken(() => resolveGitHubToken(host));
+    return {
+      url: `${baseUrl}/${owner}/${repo}.git`,
+      headRef: `refs/pull/${number}/head`,
+      ...(token && { credentials: { username: "x-access-token", token } }),
+    };
+  },
+};
+
+export const gitlabProvider: ReviewProvider = {
+  kind: "gitlab",
+  name: "GitLab",
+  isRef: isMrRef,
+  parseRef: (input) => ({ provider: "gitlab", ...parseMrRef(input) }),
+  formatRef: ({ owner, repo, number }) => `${owner}/${repo}!${number}`,
+  matchesRemote(remoteUrl, ref) {
+    const remote = parseGitLabRemote(remoteUrl, new URL(ref.baseUrl).hostname);
+    return remote !== null && sameRepo(remote, ref);
+  },
+  connect({ baseUrl, owner, repo, number }) {
+    const client = createGitLabClient(baseUrl, resolveGitLabToken());
+    return {
+      fetchPullRequest: () => fetchMergeRequest(client, owner, repo, number),
+      fetchDiff: () => fetchMergeRequestDiff(client, owner, repo, number),
+      submitReview: (result) => submitGitLabReview(client, owner, repo, number, result),
+    };
+  },
+  gitSource({ baseUrl, owner, repo, number }) {
+    const token = optionalToken(resolveGitLabToken);
+    return {
+      url: `${baseUrl}/${owner}/${repo}.git`,
+      headRef: `refs/merge-requests/${number}/head`,
+      ...(token && { credentials: { username: "oauth2", token } }),
+    };
+  },
+};
+
+const PROVIDERS: ReviewProvider[] = [githubProvider, gitlabProvider];
+
+/**
+ * Find the provider for a PR reference (a GitHub PR URL or owner/repo#123,
+ * or a GitLab merge request URL). Returns null for anything else, such as
+ * git refs.
+ */
+export function findProvider(input: string): ReviewProvider | null {
+  return PROVIDERS.find((provider) => provider.isRef(input)) ?? null;
+}
+
+/**
+ * Whether the git repository at `cwd` has a remote pointing at the PR's
+ * repository, so it can serve as the PR's local clone.
+ */
+export function isLocalClone(provider: ReviewProvider, ref: ProviderRef, cwd: string): boolean {
+  let output: string;
+  try {
+    output = runGit(["remote", "-v"], { cwd });
+  } catch {
+    // Not in a git repo or git not available
+    return false;
+  }
+
+  return output
+    .split("\n")
+    .some((line) => {
+      const remoteUrl = line.split(/\s+/)[1];
+      return !!remoteUrl && provider.matchesRemote(remoteUrl, ref);
+    });
+}
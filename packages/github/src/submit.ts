@@ -56,23 +56,60 @@ export async function submitGitHubReview(
   return { reviewId: data.id };
 }
 
-/**
- * Format a DiffPrism ReviewComment as a GitHub review comment.
- */
-function formatReviewComment(comment: ReviewComment): {
+interface GitHubReviewCommentInput {
   path: string;
   line: number;
+  side?: "LEFT" | "RIGHT";
+  start_line?: number;
+  start_side?: "LEFT" | "RIGHT";
   body: string;
-} {
+}
+
+/**
+ * Format a DiffPrism ReviewComment as a GitHub review comment.
+ *
+ * A `startLine` before `line` becomes a multi-line comment, and a
+ * `suggestion` is appended as a ```suggestion block the PR author can
+ * commit from GitHub.
+ */
+function formatReviewComment(comment: ReviewComment): GitHubReviewCommentInput {
   const typePrefix = getCommentTypePrefix(comment.type);
-  return {
+  const formatted: GitHubReviewCommentInput = {
     path: comment.file,
     line: comment.line,
     body: `${typePrefix}${comment.body}`,
   };
+
+  if (comment.side) {
+    formatted.side = comment.side;
+  }
+
+  if (comment.startLine && comment.startLine < comment.line) {
+    formatted.start_line = comment.startLine;
+    formatted.start_side = comment.side ?? "RIGHT";
+  }
+
+  // GitHub only applies suggestions to lines of the new file
+  if (comment.suggestion !== undefined && comment.side !== "LEFT") {
+    formatted.body += `\n\n${formatSuggestionBlock(comment.suggestion)}`;
+  }
+
+  return formatted;
+}
+
+/**
+ * Wrap replacement text in a suggestion block, lengthening the fence when
+ * the replacement itself contains backtick fences. `info` is the fence's
+ * info string (GitLab adds the line range, e.g. "suggestion:-2+0").
+ */
+export function formatSuggestionBlock(suggestion: string, info = "suggestion"): string {
+  const longestRun = Math.max(0, ...(suggestion.match(/`{3,}/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  const content = suggestion.endsWith("\n") || suggestion === "" ? suggestion : `${suggestion}\n`;
+  return `${fence}${info}\n${content}${fence}`;
 }
 
-function getCommentTypePrefix(
+export function getCommentTypePrefix(
   type: ReviewComment["type"],
 ): string {
   switch (type) {
@@ -92,7 +129,7 @@ function getCommentTypePrefix(
 /**
  * Build the review body from the ReviewResult summary and inline comment count.
  */
-function buildReviewBody(result: ReviewResult): string {
+export function buildReviewBody(result: ReviewResult): string {
   const parts: string[] = [];
 
   if (result.summary) {
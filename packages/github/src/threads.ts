@@ -0,0 +1,126 @@
+import type { Octokit } from "@octokit/rest";
+import type { GitHubReviewThread } from "@diffprism/core";
+
+// Review threads (and their resolved state) are only exposed over GraphQL
+const REVIEW_THREADS_QUERY = `
+  query ($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100, after: $cursor) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            id
+            path
+            line
+            originalLine
+            startLine
+            diffSide
+            isResolved
+            isOutdated
+            comments(first: 100) {
+              nodes {
+                id
+                databaseId
+                author {
+                  login
+                }
+                body
+                createdAt
+                url
+                viewerDidAuthor
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface ReviewThreadNode {
+  id: string;
+  path: string;
+  line: number | null;
+  originalLine: number | null;
+  startLine: number | null;
+  diffSide: "LEFT" | "RIGHT";
+  isResolved: boolean;
+  isOutdated: boolean;
+  comments: {
+    nodes: Array<{
+      id: string;
+      databaseId: number;
+      author: { login: string } | null;
+      body: string;
+      createdAt: string;
+      url: string;
+      viewerDidAuthor: boolean;
+    }>;
+  };
+}
+
+interface ReviewThreadsResponse {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        nodes: ReviewThreadNode[];
+      };
+    } | null;
+  } | null;
+}
+
+function toReviewThread(node: ReviewThreadNode): GitHubReviewThread {
+  return {
+    id: node.id,
+    path: node.path,
+    line: node.line,
+    originalLine: node.originalLine,
+    startLine: node.startLine,
+    side: node.diffSide,
+    isResolved: node.isResolved,
+    isOutdated: node.isOutdated,
+    comments: node.comments.nodes.map((c) => ({
+      id: c.id,
+      databaseId: c.databaseId,
+      author: c.author?.login ?? "ghost",
+      body: c.body,
+      createdAt: Date.parse(c.createdAt),
+      url: c.url,
+      viewerDidAuthor: c.viewerDidAuthor,
+    })),
+  };
+}
+
+/**
+ * Fetch every review thread on a PR, including resolved and outdated ones.
+ */
+export async function fetchReviewThreads(
+  client: Octokit,
+  owner: string,
+  repo: string,
+  number: number,
+): Promise<GitHubReviewThread[]> {
+  const threads: GitHubReviewThread[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const data: ReviewThreadsResponse = await client.graphql(REVIEW_THREADS_QUERY, {
+      owner,
+      repo,
+      number,
+      cursor,
+    });
+
+    const reviewThreads = data.repository?.pullRequest?.reviewThreads;
+    if (!reviewThreads) break;
+
+    threads.push(...reviewThreads.nodes.map(toReviewThread));
+    cursor = reviewThreads.pageInfo.hasNextPage ? reviewThreads.pageInfo.endCursor : null;
+  } while (cursor);
+
+  return threads;
+}
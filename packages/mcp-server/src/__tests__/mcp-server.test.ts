@@ -9,11 +9,13 @@ vi.mock("@diffprism/core", () => ({
   ensureServer: (...args: unknown[]) => mockEnsureServer(...args),
   submitReviewToServer: (...args: unknown[]) => mockSubmitReviewToServer(...args),
   isServerAlive: (...args: unknown[]) => mockIsServerAlive(...args),
+  serverFetch: (...args: Parameters<typeof fetch>) => fetch(...args),
 }));
 
 const mockGetDiff = vi.fn();
 vi.mock("@diffprism/git", () => ({
   getDiff: (...args: unknown[]) => mockGetDiff(...args),
+  createSourceReader: vi.fn().mockReturnValue(() => null),
 }));
 
 const mockAnalyze = vi.fn();
@@ -21,11 +23,15 @@ vi.mock("@diffprism/analysis", () => ({
   analyze: (...args: unknown[]) => mockAnalyze(...args),
 }));
 
-const mockIsPrRef = vi.fn();
-const mockParsePrRef = vi.fn();
+const mockFindProvider = vi.fn();
+const mockParseRef = vi.fn();
+const mockProvider = {
+  parseRef: (...args: unknown[]) => mockParseRef(...args),
+  formatRef: ({ owner, repo, number }: { owner: string; repo: string; number: number }) =>
+    `${owner}/${repo}#${number}`,
+};
 vi.mock("@diffprism/github", () => ({
-  isPrRef: (...args: unknown[]) => mockIsPrRef(...args),
-  parsePrRef: (...args: unknown[]) => mockParsePrRef(...args),
+  findProvider: (...args: unknown[]) => mockFindProvider(...args),
 }));
 
 const mockToolFn = vi.fn();
@@ -58,14 +64,14 @@ describe("mcp-server", () => {
     // Default: no server alive (for tools that check directly)
     mockIsServerAlive.mockResolvedValue(null);
     // Default: not a PR ref
-    mockIsPrRef.mockReturnValue(false);
+    mockFindProvider.mockReturnValue(null);
   });
 
   it("registers tools", async () => {
     const { startMcpServer } = await import("../index.js");
     await startMcpServer();
 
-    expect(mockToolFn).toHaveBeenCalledTimes(14);
+    expect(mockToolFn).toHaveBeenCalledTimes(23);
     expect(mockToolFn.mock.calls[0][0]).toBe("open_review");
     expect(mockToolFn.mock.calls[1][0]).toBe("update_review_context");
     expect(mockToolFn.mock.calls[2][0]).toBe("get_review_result");
@@ -81,6 +87,15 @@ describe("mcp-server", () => {
     expect(mockToolFn.mock.calls[11][0]).toBe("add_review_comment");
     expect(mockToolFn.mock.calls[12][0]).toBe("get_review_comments");
     expect(mockToolFn.mock.calls[13][0]).toBe("get_user_focus");
+    expect(mockToolFn.mock.calls[14][0]).toBe("run_verification");
+    expect(mockToolFn.mock.calls[15][0]).toBe("reply_to_comment");
+    expect(mockToolFn.mock.calls[16][0]).toBe("get_replies");
+    expect(mockToolFn.mock.calls[17][0]).toBe("suggest_change");
+    expect(mockToolFn.mock.calls[18][0]).toBe("reply_to_github_thread");
+    expect(mockToolFn.mock.calls[19][0]).toBe("resolve_github_thread");
+    expect(mockToolFn.mock.calls[20][0]).toBe("edit_github_comment");
+    expect(mockToolFn.mock.calls[21][0]).toBe("delete_github_comment");
+    expect(mockToolFn.mock.calls[22][0]).toBe("get_review_rounds");
   });
 
   it("connects the stdio transport", async () => {
@@ -241,8 +256,8 @@ describe("mcp-server", () => {
     });
 
     it("routes to PR flow when diff_ref is a PR reference", async () => {
-      mockIsPrRef.mockReturnValue(true);
-      mockParsePrRef.mockReturnValue({ owner: "acme", repo: "app", number: 99 });
+      mockFindProvider.mockReturnValue(mockProvider);
+      mockParseRef.mockReturnValue({ owner: "acme", repo: "app", number: 99 });
 
       // Mock fetch for /api/pr/open
       const mockFetch = vi.fn().mockResolvedValue({
@@ -259,7 +274,7 @@ describe("mcp-server", () => {
       const handler = await getToolHandler();
       const result = await handler({ diff_ref: "acme/app#99" });
 
-      expect(mockIsPrRef).toHaveBeenCalledWith("acme/app#99");
+      expect(mockFindProvider).toHaveBeenCalledWith("acme/app#99");
       expect(mockEnsureServer).toHaveBeenCalledWith({ silent: true });
       expect(mockFetch).toHaveBeenCalledWith(
         `http://localhost:${defaultServerInfo.httpPort}/api/pr/open`,
@@ -273,8 +288,215 @@ describe("mcp-server", () => {
       expect(parsed.status).toBe("session_created");
       expect(parsed.sessionId).toBe("session-pr-99");
       expect(parsed.localRepoConnected).toBe(true);
+      expect(parsed.pr).toBe("acme/app#99");
+
+      vi.unstubAllGlobals();
+    });
+  });
+
+  describe("run_verification tool handler", () => {
+    async function getToolHandler(): Promise<
+      (args: Record<string, unknown>) => Promise<{
+        content: Array<{ type: string; text: string }>;
+        isError?: boolean;
+      }>
+    > {
+      const { startMcpServer } = await import("../index.js");
+      await startMcpServer();
+      const call = mockToolFn.mock.calls.find((c) => c[0] === "run_verification");
+      return call![3];
+    }
+
+    it("starts a run and returns the completed results", async () => {
+      mockIsServerAlive.mockResolvedValue(defaultServerInfo);
+      const completed = {
+        id: "run-1",
+        status: "completed",
+        startedAt: 1,
+        checks: [{ name: "test", status: "passed", exitCode: 0 }],
+      };
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ verification: { status: "running" } }) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ verification: completed }) });
+      vi.stubGlobal("fetch", mockFetch);
+
+      const handler = await getToolHandler();
+      const result = await handler({ session_id: "session-1", checks: ["test"] });
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        `http://localhost:${defaultServerInfo.httpPort}/api/reviews/session-1/verify`,
+        expect.objectContaining({ method: "POST", body: JSON.stringify({ checks: ["test"] }) }),
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        `http://localhost:${defaultServerInfo.httpPort}/api/reviews/session-1/verification`,
+      );
+      expect(result.isError).toBeUndefined();
+      expect(JSON.parse(result.content[0].text)).toEqual({ sessionId: "session-1", verification: completed });
 
       vi.unstubAllGlobals();
     });
+
+    it("reads the latest results without starting a run when rerun is false", async () => {
+      mockIsServerAlive.mockResolvedValue(defaultServerInfo);
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ verification: null }),
+      });
+      vi.stubGlobal("fetch", mockFetch);
+
+      const handler = await getToolHandler();
+      const result = await handler({ session_id: "session-1", rerun: false });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.content[0].text).toContain("No verification has run");
+
+      vi.unstubAllGlobals();
+    });
+  });
+
+  describe("get_replies tool handler", () => {
+    async function getToolHandler(): Promise<
+      (args: Record<string, unknown>) => Promise<{
+        content: Array<{ type: string; text: string }>;
+        isError?: boolean;
+      }>
+    > {
+      const { startMcpServer } = await import("../index.js");
+      await startMcpServer();
+      const call = mockToolFn.mock.calls.find((c) => c[0] === "get_replies");
+      return call![3];
+    }
+
+    it("returns reviewer replies newer than the agent's last reply", async () => {
+      mockIsServerAlive.mockResolvedValue(defaultServerInfo);
+      const humanReply = {
+        id: "r2",
+        targetId: "c1",
+        author: { kind: "human", name: "reviewer" },
+        body: "Makes sense",
+        createdAt: 200,
+      };
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ replies: [{ id: "r1", createdAt: 100 }] }),
+        })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ replies: [humanReply] }) });
+      vi.stubGlobal("fetch", mockFetch);
+
+      const handler = await getToolHandler();
+      const result = await handler({ session_id: "session-1", target_id: "c1" });
+
+      const base = `http://localhost:${defaultServerInfo.httpPort}/api/reviews/session-1/replies`;
+      expect(mockFetch).toHaveBeenNthCalledWith(1, `${base}?author=agent&targetId=c1`);
+      expect(mockFetch).toHaveBeenNthCalledWith(2, `${base}?author=human&since=100&targetId=c1`);
+      expect(JSON.parse(result.content[0].text)).toEqual({ sessionId: "session-1", replies: [humanReply] });
+
+      vi.unstubAllGlobals();
+    });
+
+    it("reports when there are no new replies", async () => {
+      mockIsServerAlive.mockResolvedValue(defaultServerInfo);
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ replies: [] }),
+      });
+      vi.stubGlobal("fetch", mockFetch);
+
+      const handler = await getToolHandler();
+      const result = await handler({ session_id: "session-1", since: 0 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.content[0].text).toContain("No new replies");
+
+      vi.unstubAllGlobals();
+    });
+  });
+
+  describe("suggest_change tool handler", () => {
+    it("posts a suggestion annotation carrying the replacement range", async () => {
+      mockIsServerAlive.mockResolvedValue(defaultServerInfo);
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ annotationId: "ann-1" }),
+      });
+      vi.stubGlobal("fetch", mockFetch);
+
+      const { startMcpServer } = await import("../index.js");
+      await startMcpServer();
+      const call = mockToolFn.mock.calls.find((c) => c[0] === "suggest_change");
+      const handler = call![3];
+
+      const result = await handler({
+        session_id: "session-1",
+        file: "src/a.ts",
+        start_line: 4,
+        replacement: "const x = 1;",
+        body: "Prefer const",
+      });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe(`http://localhost:${defaultServerInfo.httpPort}/api/reviews/session-1/annotations`);
+      expect(JSON.parse(init.body)).toMatchObject({
+        file: "src/a.ts",
+        line: 4,
+        type: "suggestion",
+        suggestedChange: { startLine: 4, endLine: 4, replacement: "const x = 1;" },
+      });
+      expect(JSON.parse(result.content[0].text)).toEqual({ annotationId: "ann-1", sessionId: "session-1" });
+
+      vi.unstubAllGlobals();
+    });
+  });
+
+  describe("GitHub thread tool handlers", () => {
+    async function getHandler(name: string) {
+      const { startMcpServer } = await import("../index.js");
+      await startMcpServer();
+      return mockToolFn.mock.calls.find((c) => c[0] === name)![3];
+    }
+
+    it("resolves a thread through the session's GitHub route", async () => {
+      mockIsServerAlive.mockResolvedValue(defaultServerInfo);
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ isResolved: true }),
+      });
+      vi.stubGlobal("fetch", mockFetch);
+
+      const handler = await getHandler("resolve_github_thread");
+      const result = await handler({ session_id: "session-1", thread_id: "PRRT_1" });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe(
+        `http://localhost:${defaultServerInfo.httpPort}/api/reviews/session-1/github/threads/PRRT_1/resolve`,
+      );
+      expect(JSON.parse(init.body)).toEqual({ resolved: true });
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        threadId: "PRRT_1",
+        isResolved: true,
+        sessionId: "session-1",
+      });
+    });
+
+    it("surfaces server errors when deleting someone else's comment", async () => {
+      mockIsServerAlive.mockResolvedValue(defaultServerInfo);
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue({
+          ok: false,
+          status: 403,
+          json: () => Promise.resolve({ error: "Only your own comments can be deleted" }),
+        }),
+      );
+
+      const handler = await getHandler("delete_github_comment");
+      const result = await handler({ session_id: "session-1", comment_id: "PRRC_1" });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe("Error: Only your own comments can be deleted");
+    });
   });
 });
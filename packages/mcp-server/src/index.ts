@@ -5,18 +5,18 @@ import {
   ensureServer,
   submitReviewToServer,
   isServerAlive,
+  serverFetch,
 } from "@diffprism/core";
 import type {
   ContextUpdatePayload,
   GlobalServerInfo,
+  PostReviewActionRun,
   ReviewResult,
 } from "@diffprism/core";
-import { getDiff } from "@diffprism/git";
+import { getDiff, createSourceReader, runGit, verifyRef } from "@diffprism/git";
 import { analyze } from "@diffprism/analysis";
-import {
-  isPrRef,
-  parsePrRef,
-} from "@diffprism/github";
+import { findProvider } from "@diffprism/github";
+import type { ReviewProvider } from "@diffprism/github";
 
 declare const DIFFPRISM_VERSION: string;
 
@@ -38,6 +38,19 @@ interface SessionSummary {
   createdAt: number;
 }
 
+/**
+ * Serialize a review result for the agent. When the server is executing the
+ * postReviewAction itself, its progress is attached so the agent does not
+ * commit a second time.
+ */
+function formatReviewResult(
+  result: ReviewResult,
+  postReviewAction?: PostReviewActionRun | null,
+): string {
+  const output = postReviewAction ? { ...result, postReviewActionRun: postReviewAction } : result;
+  return JSON.stringify(output, null, 2);
+}
+
 /**
  * Resolve a session ID for the super review tools.
  * Priority: explicit session_id > lastGlobalSessionId > most recent session from server.
@@ -52,7 +65,7 @@ async function resolveSessionId(
 
   // Query server for the most recent session
   try {
-    const response = await fetch(
+    const response = await serverFetch(
       `http://localhost:${serverInfo.httpPort}/api/reviews`,
     );
     if (response.ok) {
@@ -89,7 +102,7 @@ async function handleLocalReview(
 ): Promise<{ mcpResult: McpToolResult; sessionId: string; serverInfo: GlobalServerInfo }> {
   const serverInfo = await ensureServer({ silent: true });
 
-  const { result, sessionId } = await submitReviewToServer(
+  const { result, sessionId, postReviewAction } = await submitReviewToServer(
     serverInfo,
     diffRef,
     {
@@ -106,7 +119,7 @@ async function handleLocalReview(
   if (result) {
     return {
       mcpResult: {
-        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+        content: [{ type: "text" as const, text: formatReviewResult(result, postReviewAction) }],
       },
       sessionId,
       serverInfo,
@@ -130,25 +143,27 @@ async function handleLocalReview(
 }
 
 async function handlePrReview(
+  provider: ReviewProvider,
   pr: string,
   options: {
     title?: string;
     reasoning?: string;
     post_to_github?: boolean;
+    since_last_review?: boolean;
     timeoutMs?: number;
   },
 ): Promise<{ mcpResult: McpToolResult; sessionId: string; serverInfo: GlobalServerInfo }> {
-  const { owner, repo, number } = parsePrRef(pr);
+  const ref = provider.parseRef(pr);
 
   // Auto-start server, then use /api/pr/open for local repo auto-detection
   const serverInfo = await ensureServer({ silent: true });
 
-  const response = await fetch(
+  const response = await serverFetch(
     `http://localhost:${serverInfo.httpPort}/api/pr/open`,
     {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ prUrl: pr }),
+      body: JSON.stringify({ prUrl: pr, sinceLastReview: options.since_last_review }),
     },
   );
 
@@ -156,7 +171,8 @@ async function handlePrReview(
     sessionId?: string;
     fileCount?: number;
     localRepoPath?: string | null;
-    pr?: { title: string; author: string; url: string };
+    pr?: { title: string; author: string; url: string; lastReviewedSha?: string | null };
+    diffMode?: string;
     error?: string;
   };
 
@@ -177,7 +193,7 @@ async function handlePrReview(
   if (options.timeoutMs && options.timeoutMs > 0) {
     const start = Date.now();
     while (Date.now() - start < options.timeoutMs) {
-      const resultResponse = await fetch(
+      const resultResponse = await serverFetch(
         `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/result`,
       );
       if (resultResponse.ok) {
@@ -207,10 +223,12 @@ async function handlePrReview(
         text: JSON.stringify({
           status: "session_created",
           sessionId,
-          pr: `${owner}/${repo}#${number}`,
+          pr: provider.formatRef(ref),
           fileCount: data.fileCount,
           localRepoConnected: !!data.localRepoPath,
           localRepoPath: data.localRepoPath,
+          diffMode: data.diffMode,
+          lastReviewedSha: data.pr?.lastReviewedSha ?? null,
           message: "PR review session opened in DiffPrism. Use get_pr_context, get_file_diff, get_file_context to explore the changes. Use add_review_comment to post findings.",
         }, null, 2),
       }],
@@ -228,12 +246,12 @@ export async function startMcpServer(): Promise<void> {
 
   server.tool(
     "open_review",
-    "Open a review session in the DiffPrism dashboard for local git changes or a GitHub pull request. Returns immediately with the session ID after registering the session. Use `get_review_result` with `wait: true` when you need the reviewer's decision before proceeding.",
+    "Open a review session in the DiffPrism dashboard for local git changes, a GitHub pull request or a GitLab merge request. Returns immediately with the session ID after registering the session. Use `get_review_result` with `wait: true` when you need the reviewer's decision before proceeding.",
     {
       diff_ref: z
         .string()
         .describe(
-          'Git diff reference: "staged", "unstaged", "working-copy" (staged+unstaged grouped), a ref range like "HEAD~3..HEAD", or a GitHub PR ref like "owner/repo#123" or a GitHub PR URL',
+          'Git diff reference: "staged", "unstaged", "working-copy" (staged+unstaged grouped), a ref range like "HEAD~3..HEAD", a GitHub PR ref like "owner/repo#123" or a GitHub PR URL, or a GitLab merge request URL',
         ),
       title: z.string().optional().describe("Title for the review"),
       description: z
@@ -248,6 +266,10 @@ export async function startMcpServer(): Promise<void> {
         .boolean()
         .optional()
         .describe("Post the review back to GitHub after submission (only for PR refs, default: false)"),
+      since_last_review: z
+        .boolean()
+        .optional()
+        .describe("For a PR reviewed before: show only the commits pushed since that review instead of the full PR diff. The reviewer can switch back to the full diff in the UI (only for PR refs, default: false)"),
       timeout_ms: z
         .number()
         .optional()
@@ -289,17 +311,19 @@ export async function startMcpServer(): Promise<void> {
         .optional()
         .describe("Initial annotations to attach to the review"),
     },
-    async ({ diff_ref, title, description, reasoning, post_to_github, timeout_ms, annotations }) => {
+    async ({ diff_ref, title, description, reasoning, post_to_github, since_last_review, timeout_ms, annotations }) => {
       try {
         let mcpResult: McpToolResult;
         let sessionId: string;
         let serverInfo: GlobalServerInfo;
 
-        if (isPrRef(diff_ref)) {
-          ({ mcpResult, sessionId, serverInfo } = await handlePrReview(diff_ref, {
+        const provider = findProvider(diff_ref);
+        if (provider) {
+          ({ mcpResult, sessionId, serverInfo } = await handlePrReview(provider, diff_ref, {
             title,
             reasoning,
             post_to_github,
+            since_last_review,
             timeoutMs: timeout_ms,
           }));
         } else {
@@ -367,7 +391,7 @@ export async function startMcpServer(): Promise<void> {
           };
         }
 
-        const response = await fetch(
+        const response = await serverFetch(
           `http://localhost:${serverInfo.httpPort}/api/reviews/${lastGlobalSessionId}/context`,
           {
             method: "POST",
@@ -436,20 +460,21 @@ export async function startMcpServer(): Promise<void> {
         if (wait) {
           const start = Date.now();
           while (Date.now() - start < maxWaitMs) {
-            const response = await fetch(
+            const response = await serverFetch(
               `http://localhost:${serverInfo.httpPort}/api/reviews/${lastGlobalSessionId}/result`,
             );
             if (response.ok) {
               const data = (await response.json()) as {
                 result: ReviewResult | null;
                 status: string;
+                postReviewAction?: PostReviewActionRun | null;
               };
               if (data.result) {
                 return {
                   content: [
                     {
                       type: "text" as const,
-                      text: JSON.stringify(data.result, null, 2),
+                      text: formatReviewResult(data.result, data.postReviewAction),
                     },
                   ],
                 };
@@ -468,20 +493,21 @@ export async function startMcpServer(): Promise<void> {
         }
 
         // Non-blocking check
-        const response = await fetch(
+        const response = await serverFetch(
           `http://localhost:${serverInfo.httpPort}/api/reviews/${lastGlobalSessionId}/result`,
         );
         if (response.ok) {
           const data = (await response.json()) as {
             result: ReviewResult | null;
             status: string;
+            postReviewAction?: PostReviewActionRun | null;
           };
           if (data.result) {
             return {
               content: [
                 {
                   type: "text" as const,
-                  text: JSON.stringify(data.result, null, 2),
+                  text: formatReviewResult(data.result, data.postReviewAction),
                 },
               ],
             };
@@ -586,7 +612,9 @@ export async function startMcpServer(): Promise<void> {
           };
         }
 
-        const briefing = analyze(diffSet);
+        const briefing = analyze(diffSet, {
+          readSource: createSourceReader(diff_ref, { cwd }),
+        });
 
         return {
           content: [
@@ -674,7 +702,7 @@ export async function startMcpServer(): Promise<void> {
           };
         }
 
-        const response = await fetch(
+        const response = await serverFetch(
           `http://localhost:${serverInfo.httpPort}/api/reviews/${session_id}/annotations`,
           {
             method: "POST",
@@ -740,7 +768,7 @@ export async function startMcpServer(): Promise<void> {
 
   server.tool(
     "get_review_state",
-    "Get the current state of a review session including session summary and annotations. Returns session metadata, status, and any agent annotations. Use this to check on a review's progress or read agent findings.",
+    "Get the current state of a review session including session summary, annotations and the reviewer's in-progress state. Returns session metadata, status, any agent annotations, and the human's file statuses, comments and unsaved draft so far. Use this to check on a review's progress, read agent findings, or act on partial human feedback before the review is submitted.",
     {
       session_id: z
         .string()
@@ -777,13 +805,16 @@ export async function startMcpServer(): Promise<void> {
           };
         }
 
-        const [sessionResponse, annotationsResponse] = await Promise.all([
-          fetch(
+        const [sessionResponse, annotationsResponse, stateResponse] = await Promise.all([
+          serverFetch(
             `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}`,
           ),
-          fetch(
+          serverFetch(
             `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/annotations`,
           ),
+          serverFetch(
+            `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/state`,
+          ),
         ]);
 
         if (!sessionResponse.ok) {
@@ -802,6 +833,8 @@ export async function startMcpServer(): Promise<void> {
         const annotations = annotationsResponse.ok
           ? await annotationsResponse.json()
           : { annotations: [] };
+        // Older servers don't hold reviewer state
+        const reviewerState = stateResponse.ok ? await stateResponse.json() : null;
 
         return {
           content: [
@@ -812,6 +845,7 @@ export async function startMcpServer(): Promise<void> {
                   session,
                   annotations: (annotations as { annotations: unknown[] })
                     .annotations,
+                  reviewerState,
                 },
                 null,
                 2,
@@ -893,7 +927,7 @@ export async function startMcpServer(): Promise<void> {
 
         let flagged = 0;
         for (const file of files) {
-          const response = await fetch(
+          const response = await serverFetch(
             `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/annotations`,
             {
               method: "POST",
@@ -970,7 +1004,7 @@ export async function startMcpServer(): Promise<void> {
           };
         }
 
-        const response = await fetch(
+        const response = await serverFetch(
           `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/payload`,
         );
         if (!response.ok) {
@@ -981,7 +1015,7 @@ export async function startMcpServer(): Promise<void> {
         }
 
         const data = await response.json() as {
-          payload: { diffSet: { files: Array<{ path: string; status: string; additions: number; deletions: number; language: string }> }; briefing: { summary: string; triage: unknown }; metadata: { title?: string; description?: string; githubPr?: { owner: string; repo: string; number: number; title: string; author: string; url: string; baseBranch: string; headBranch: string } } };
+          payload: { diffSet: { files: Array<{ path: string; status: string; additions: number; deletions: number; language: string }> }; briefing: { summary: string; triage: unknown }; metadata: { title?: string; description?: string; githubPr?: { provider?: string; owner: string; repo: string; number: number; title: string; author: string; url: string; baseBranch: string; headBranch: string } }; githubThreads?: Array<{ isResolved: boolean }> };
           projectPath: string;
         };
 
@@ -989,7 +1023,7 @@ export async function startMcpServer(): Promise<void> {
         const result = {
           sessionId,
           projectPath,
-          localRepoConnected: !projectPath.startsWith("github:"),
+          localRepoConnected: !/^(github|gitlab):/.test(projectPath),
           pr: payload.metadata.githubPr ?? null,
           title: payload.metadata.title,
           description: payload.metadata.description,
@@ -1003,6 +1037,10 @@ export async function startMcpServer(): Promise<void> {
             language: f.language,
           })),
           totalFiles: payload.diffSet.files.length,
+          githubThreads: {
+            total: payload.githubThreads?.length ?? 0,
+            unresolved: payload.githubThreads?.filter((t) => !t.isResolved).length ?? 0,
+          },
         };
 
         return {
@@ -1046,7 +1084,7 @@ export async function startMcpServer(): Promise<void> {
           };
         }
 
-        const response = await fetch(
+        const response = await serverFetch(
           `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/payload`,
         );
         if (!response.ok) {
@@ -1132,7 +1170,7 @@ export async function startMcpServer(): Promise<void> {
           };
         }
 
-        const response = await fetch(
+        const response = await serverFetch(
           `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/payload`,
         );
         if (!response.ok) {
@@ -1147,7 +1185,7 @@ export async function startMcpServer(): Promise<void> {
           payload: { metadata: { githubPr?: { headBranch: string } } };
         };
 
-        if (data.projectPath.startsWith("github:")) {
+        if (/^(github|gitlab):/.test(data.projectPath)) {
           return {
             content: [{ type: "text" as const, text: "No local repo connected. Run the server from within a local clone of the repository to enable file context." }],
             isError: true,
@@ -1159,14 +1197,11 @@ export async function startMcpServer(): Promise<void> {
           ? `origin/${data.payload.metadata.githubPr.headBranch}`
           : "HEAD");
 
-        const { execSync } = await import("node:child_process");
-
         let content: string;
         try {
-          content = execSync(`git show ${gitRef}:${file}`, {
+          verifyRef(gitRef, { cwd: data.projectPath });
+          content = runGit(["show", `${gitRef}:${file}`], {
             cwd: data.projectPath,
-            encoding: "utf-8",
-            stdio: ["pipe", "pipe", "pipe"],
             maxBuffer: 10 * 1024 * 1024, // 10MB
           });
         } catch {
@@ -1240,7 +1275,7 @@ export async function startMcpServer(): Promise<void> {
         // Map comment type to annotation type
         const annotationType = type === "concern" ? "warning" : type === "suggestion" ? "suggestion" : "finding";
 
-        const response = await fetch(
+        const response = await serverFetch(
           `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/annotations`,
           {
             method: "POST",
@@ -1284,7 +1319,7 @@ export async function startMcpServer(): Promise<void> {
 
   server.tool(
     "get_review_comments",
-    "Get all comments and annotations on the active review session. Returns findings from agents and inline comments from human reviewers. Use this to see what has already been noted before adding your own comments.",
+    "Get all comments and annotations on the active review session. Returns findings from agents and inline comments from human reviewers, each with its thread of replies, plus for GitHub PRs the review threads already on the PR (with author, anchored line and resolved state). Use this to see what has already been noted before adding your own comments.",
     {
       session_id: z
         .string()
@@ -1309,19 +1344,28 @@ export async function startMcpServer(): Promise<void> {
           };
         }
 
-        const response = await fetch(
-          `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/annotations`,
-        );
-        if (!response.ok) {
+        const baseUrl = `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}`;
+        const [annotationsResponse, commentsResponse] = await Promise.all([
+          serverFetch(`${baseUrl}/annotations`),
+          serverFetch(`${baseUrl}/comments`),
+        ]);
+        if (!annotationsResponse.ok || !commentsResponse.ok) {
           return {
             content: [{ type: "text" as const, text: `Session not found: ${sessionId}` }],
             isError: true,
           };
         }
 
-        const data = (await response.json()) as { annotations: unknown[] };
+        const { annotations } = (await annotationsResponse.json()) as { annotations: unknown[] };
+        const { comments, githubThreads } = (await commentsResponse.json()) as {
+          comments: unknown[];
+          githubThreads: unknown[];
+        };
         return {
-          content: [{ type: "text" as const, text: JSON.stringify({ sessionId, annotations: data.annotations }, null, 2) }],
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({ sessionId, annotations, comments, githubThreads }, null, 2),
+          }],
         };
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
@@ -1360,7 +1404,7 @@ export async function startMcpServer(): Promise<void> {
           };
         }
 
-        const response = await fetch(
+        const response = await serverFetch(
           `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/focus`,
         );
         if (!response.ok) {
@@ -1384,6 +1428,678 @@ export async function startMcpServer(): Promise<void> {
     },
   );
 
+  server.tool(
+    "run_verification",
+    "Run the project's test, typecheck and lint commands for a review session and report exit status, duration and output for each. Results appear in the review UI's briefing. Use this to prove your changes pass before asking for human review. Commands come from .diffprism/config.json (`verification`) or matching package.json scripts, so PRs checked out into a DiffPrism worktree cannot be verified. Set rerun=false to read the latest results without starting a new run.",
+    {
+      session_id: z
+        .string()
+        .optional()
+        .describe("Review session ID. If omitted, uses the most recently created session."),
+      checks: z
+        .array(z.enum(["test", "typecheck", "lint"]))
+        .optional()
+        .describe("Subset of checks to run (default: all configured checks)"),
+      rerun: z
+        .boolean()
+        .optional()
+        .describe("Start a new run (default: true). If false, only return the latest results."),
+      wait: z
+        .boolean()
+        .optional()
+        .describe("Block until the run completes (default: true)"),
+      timeout: z
+        .number()
+        .optional()
+        .describe("Max wait time in seconds when wait=true (default: 600, max: 1800)"),
+    },
+    async ({ session_id, checks, rerun, wait, timeout }) => {
+      try {
+        const serverInfo = await isServerAlive();
+        if (!serverInfo) {
+          return {
+            content: [{ type: "text" as const, text: "No global server running. Start one with `diffprism server`." }],
+            isError: true,
+          };
+        }
+
+        const sessionId = await resolveSessionId(session_id, serverInfo);
+        if (!sessionId) {
+          return {
+            content: [{ type: "text" as const, text: "No review session found. Use `open_review` to start a review first." }],
+            isError: true,
+          };
+        }
+
+        const baseUrl = `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}`;
+
+        if (rerun !== false) {
+          const response = await serverFetch(`${baseUrl}/verify`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ checks }),
+          });
+          if (!response.ok) {
+            const data = (await response.json()) as { error?: string };
+            return {
+              content: [{ type: "text" as const, text: `Error starting verification: ${data.error ?? response.status}` }],
+              isError: true,
+            };
+          }
+        }
+
+        const maxWaitMs = Math.min(timeout ?? 600, 1800) * 1000;
+        const pollIntervalMs = 1000;
+        const start = Date.now();
+
+        let verification: { status: string } | null = null;
+        while (true) {
+          const response = await serverFetch(`${baseUrl}/verification`);
+          if (!response.ok) {
+            return {
+              content: [{ type: "text" as const, text: `Session not found: ${sessionId}` }],
+              isError: true,
+            };
+          }
+          ({ verification } = (await response.json()) as { verification: { status: string } | null });
+
+          if (!verification || verification.status !== "running" || wait === false) break;
+          if (Date.now() - start >= maxWaitMs) break;
+          await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+        }
+
+        if (!verification) {
+          return {
+            content: [{ type: "text" as const, text: "No verification has run for this session yet." }],
+          };
+        }
+
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ sessionId, verification }, null, 2) }],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [{ type: "text" as const, text: `Error running verification: ${message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "reply_to_comment",
+    "Reply to an annotation or a human reviewer's inline comment. The reply appears in the comment's thread in the DiffPrism UI in real-time. Use this to answer a reviewer's question or explain a change, then call `get_replies` with wait=true to wait for their response. Thread IDs come from `get_review_comments` or `get_replies`.",
+    {
+      target_id: z.string().describe("ID of the annotation or comment to reply to"),
+      body: z.string().describe("The reply text"),
+      agent: z
+        .string()
+        .optional()
+        .describe("Name shown as the reply's author (default: 'ai-reviewer')"),
+      session_id: z
+        .string()
+        .optional()
+        .describe("Review session ID. If omitted, uses the most recently created session."),
+    },
+    async ({ target_id, body, agent, session_id }) => {
+      try {
+        const serverInfo = await isServerAlive();
+        if (!serverInfo) {
+          return {
+            content: [{ type: "text" as const, text: "No global server running. Start one with `diffprism server`." }],
+            isError: true,
+          };
+        }
+
+        const sessionId = await resolveSessionId(session_id, serverInfo);
+        if (!sessionId) {
+          return {
+            content: [{ type: "text" as const, text: "No review session found. Use `open_review` to start a review first." }],
+            isError: true,
+          };
+        }
+
+        const response = await serverFetch(
+          `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/threads/${encodeURIComponent(target_id)}/replies`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              body,
+              author: { kind: "agent", name: agent ?? "ai-reviewer" },
+            }),
+          },
+        );
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          return {
+            content: [{ type: "text" as const, text: `Error: ${(errorData as Record<string, string>).error ?? `Server returned ${response.status}`}` }],
+            isError: true,
+          };
+        }
+
+        const data = (await response.json()) as { reply: { id: string; createdAt: number } };
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ replyId: data.reply.id, createdAt: data.reply.createdAt, sessionId }, null, 2) }],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "get_replies",
+    "Get replies from the human reviewer on annotation and comment threads. By default returns replies the reviewer posted after the agent's last reply in the same scope, i.e. replies still awaiting an answer. Use wait=true to block until the reviewer replies — the conversational counterpart to `get_review_result` with wait=true.",
+    {
+      target_id: z
+        .string()
+        .optional()
+        .describe("Only return replies in this annotation or comment thread (default: all threads)"),
+      since: z
+        .number()
+        .optional()
+        .describe("Only return replies created after this Unix timestamp in ms (default: the agent's latest reply)"),
+      wait: z
+        .boolean()
+        .optional()
+        .describe("If true, poll until a reviewer reply is available (blocks up to timeout)"),
+      timeout: z
+        .number()
+        .optional()
+        .describe("Max wait time in seconds when wait=true (default: 300, max: 600)"),
+      session_id: z
+        .string()
+        .optional()
+        .describe("Review session ID. If omitted, uses the most recently created session."),
+    },
+    async ({ target_id, since, wait, timeout, session_id }) => {
+      try {
+        const serverInfo = await isServerAlive();
+        if (!serverInfo) {
+          return {
+            content: [{ type: "text" as const, text: "No global server running. Start one with `diffprism server`." }],
+            isError: true,
+          };
+        }
+
+        const sessionId = await resolveSessionId(session_id, serverInfo);
+        if (!sessionId) {
+          return {
+            content: [{ type: "text" as const, text: "No review session found. Use `open_review` to start a review first." }],
+            isError: true,
+          };
+        }
+
+        type Reply = { id: string; targetId: string; author: { kind: string; name: string }; body: string; createdAt: number };
+        const fetchReplies = async (params: Record<string, string>): Promise<Reply[] | null> => {
+          const query = new URLSearchParams(params);
+          if (target_id) query.set("targetId", target_id);
+          const response = await serverFetch(
+            `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/replies?${query}`,
+          );
+          if (!response.ok) return null;
+          return ((await response.json()) as { replies: Reply[] }).replies;
+        };
+
+        let after = since;
+        if (after === undefined) {
+          const agentReplies = await fetchReplies({ author: "agent" });
+          if (!agentReplies) {
+            return {
+              content: [{ type: "text" as const, text: `Session not found: ${sessionId}` }],
+              isError: true,
+            };
+          }
+          after = agentReplies.length > 0 ? agentReplies[agentReplies.length - 1].createdAt : 0;
+        }
+
+        const maxWaitMs = Math.min(timeout ?? 300, 600) * 1000;
+        const pollIntervalMs = 2000;
+        const start = Date.now();
+
+        let replies: Reply[] = [];
+        while (true) {
+          const result = await fetchReplies({ author: "human", since: String(after) });
+          if (!result) {
+            return {
+              content: [{ type: "text" as const, text: `Session not found: ${sessionId}` }],
+              isError: true,
+            };
+          }
+          replies = result;
+
+          if (replies.length > 0 || !wait) break;
+          if (Date.now() - start >= maxWaitMs) break;
+          await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+        }
+
+        if (replies.length === 0) {
+          return {
+            content: [{ type: "text" as const, text: wait ? "No reviewer reply received within timeout." : "No new replies from the reviewer." }],
+          };
+        }
+
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ sessionId, replies }, null, 2) }],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "suggest_change",
+    "Suggest a concrete code change for a line range in a local review session. The reviewer sees a before/after preview inline on the diff and can apply it to the working tree with one click. Line numbers refer to the current working-tree file. Use this instead of describing an edit in prose.",
+    {
+      file: z.string().describe("File path within the diff"),
+      start_line: z.number().int().min(1).describe("First line to replace (1-based)"),
+      end_line: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Last line to replace, inclusive (default: start_line)"),
+      replacement: z
+        .string()
+        .describe("New content for the line range. Use an empty string to delete the lines."),
+      body: z.string().describe("Why the change is suggested"),
+      category: z
+        .enum([
+          "security",
+          "performance",
+          "convention",
+          "correctness",
+          "complexity",
+          "test-coverage",
+          "documentation",
+          "other",
+        ])
+        .optional()
+        .describe("Category of the suggestion (defaults to 'other')"),
+      source_agent: z
+        .string()
+        .optional()
+        .describe("Agent identifier (default: 'ai-reviewer')"),
+      session_id: z
+        .string()
+        .optional()
+        .describe("Review session ID. If omitted, uses the most recently created session."),
+    },
+    async ({ file, start_line, end_line, replacement, body, category, source_agent, session_id }) => {
+      try {
+        const serverInfo = await isServerAlive();
+        if (!serverInfo) {
+          return {
+            content: [{ type: "text" as const, text: "No global server running. Start one with `diffprism server`." }],
+            isError: true,
+          };
+        }
+
+        const sessionId = await resolveSessionId(session_id, serverInfo);
+        if (!sessionId) {
+          return {
+            content: [{ type: "text" as const, text: "No review session found. Use `open_review` to start a review first." }],
+            isError: true,
+          };
+        }
+
+        const response = await serverFetch(
+          `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/annotations`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              file,
+              line: start_line,
+              body,
+              type: "suggestion",
+              confidence: 1,
+              category: category ?? "other",
+              source: {
+                agent: source_agent ?? "ai-reviewer",
+                tool: "suggest_change",
+              },
+              suggestedChange: {
+                startLine: start_line,
+                endLine: end_line ?? start_line,
+                replacement,
+              },
+            }),
+          },
+        );
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          return {
+            content: [{ type: "text" as const, text: `Error: ${(errorData as Record<string, string>).error ?? `Server returned ${response.status}`}` }],
+            isError: true,
+          };
+        }
+
+        const data = (await response.json()) as { annotationId: string };
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ annotationId: data.annotationId, sessionId }, null, 2) }],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "reply_to_github_thread",
+    "Reply to an existing review thread on the GitHub PR. The reply is posted to GitHub as you (the authenticated user) and shows up in the DiffPrism UI. Thread IDs come from `githubThreads` in `get_review_comments`.",
+    {
+      thread_id: z.string().describe("GitHub review thread ID (from `githubThreads` in `get_review_comments`)"),
+      body: z.string().describe("The reply text (GitHub markdown)"),
+      session_id: z
+        .string()
+        .optional()
+        .describe("Review session ID. If omitted, uses the most recently created session."),
+    },
+    async ({ thread_id, body, session_id }) => {
+      try {
+        const serverInfo = await isServerAlive();
+        if (!serverInfo) {
+          return {
+            content: [{ type: "text" as const, text: "No global server running. Start one with `diffprism server`." }],
+            isError: true,
+          };
+        }
+
+        const sessionId = await resolveSessionId(session_id, serverInfo);
+        if (!sessionId) {
+          return {
+            content: [{ type: "text" as const, text: "No review session found. Open a PR review first with `diffprism review <PR URL>`." }],
+            isError: true,
+          };
+        }
+
+        const response = await serverFetch(
+          `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/github/threads/${encodeURIComponent(thread_id)}/replies`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ body }),
+          },
+        );
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          return {
+            content: [{ type: "text" as const, text: `Error: ${(errorData as Record<string, string>).error ?? `Server returned ${response.status}`}` }],
+            isError: true,
+          };
+        }
+
+        const data = (await response.json()) as { comment: { id: string; url: string } };
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ commentId: data.comment.id, url: data.comment.url, sessionId }, null, 2) }],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "resolve_github_thread",
+    "Resolve or unresolve a review thread on the GitHub PR, e.g. after addressing the feedback in it.",
+    {
+      thread_id: z.string().describe("GitHub review thread ID (from `githubThreads` in `get_review_comments`)"),
+      resolved: z
+        .boolean()
+        .optional()
+        .describe("true to resolve (default), false to unresolve"),
+      session_id: z
+        .string()
+        .optional()
+        .describe("Review session ID. If omitted, uses the most recently created session."),
+    },
+    async ({ thread_id, resolved, session_id }) => {
+      try {
+        const serverInfo = await isServerAlive();
+        if (!serverInfo) {
+          return {
+            content: [{ type: "text" as const, text: "No global server running. Start one with `diffprism server`." }],
+            isError: true,
+          };
+        }
+
+        const sessionId = await resolveSessionId(session_id, serverInfo);
+        if (!sessionId) {
+          return {
+            content: [{ type: "text" as const, text: "No review session found. Open a PR review first with `diffprism review <PR URL>`." }],
+            isError: true,
+          };
+        }
+
+        const response = await serverFetch(
+          `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/github/threads/${encodeURIComponent(thread_id)}/resolve`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ resolved: resolved ?? true }),
+          },
+        );
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          return {
+            content: [{ type: "text" as const, text: `Error: ${(errorData as Record<string, string>).error ?? `Server returned ${response.status}`}` }],
+            isError: true,
+          };
+        }
+
+        const data = (await response.json()) as { isResolved: boolean };
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ threadId: thread_id, isResolved: data.isResolved, sessionId }, null, 2) }],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "edit_github_comment",
+    "Edit one of your own review comments on the GitHub PR. Only comments with `viewerDidAuthor: true` can be edited.",
+    {
+      comment_id: z.string().describe("GitHub review comment ID (from `githubThreads[].comments` in `get_review_comments`)"),
+      body: z.string().describe("The new comment text (GitHub markdown)"),
+      session_id: z
+        .string()
+        .optional()
+        .describe("Review session ID. If omitted, uses the most recently created session."),
+    },
+    async ({ comment_id, body, session_id }) => {
+      try {
+        const serverInfo = await isServerAlive();
+        if (!serverInfo) {
+          return {
+            content: [{ type: "text" as const, text: "No global server running. Start one with `diffprism server`." }],
+            isError: true,
+          };
+        }
+
+        const sessionId = await resolveSessionId(session_id, serverInfo);
+        if (!sessionId) {
+          return {
+            content: [{ type: "text" as const, text: "No review session found. Open a PR review first with `diffprism review <PR URL>`." }],
+            isError: true,
+          };
+        }
+
+        const response = await serverFetch(
+          `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/github/comments/${encodeURIComponent(comment_id)}`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ body }),
+          },
+        );
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          return {
+            content: [{ type: "text" as const, text: `Error: ${(errorData as Record<string, string>).error ?? `Server returned ${response.status}`}` }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ commentId: comment_id, edited: true, sessionId }, null, 2) }],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "delete_github_comment",
+    "Delete one of your own review comments on the GitHub PR. Only comments with `viewerDidAuthor: true` can be deleted; deleting the last comment removes the thread.",
+    {
+      comment_id: z.string().describe("GitHub review comment ID (from `githubThreads[].comments` in `get_review_comments`)"),
+      session_id: z
+        .string()
+        .optional()
+        .describe("Review session ID. If omitted, uses the most recently created session."),
+    },
+    async ({ comment_id, session_id }) => {
+      try {
+        const serverInfo = await isServerAlive();
+        if (!serverInfo) {
+          return {
+            content: [{ type: "text" as const, text: "No global server running. Start one with `diffprism server`." }],
+            isError: true,
+          };
+        }
+
+        const sessionId = await resolveSessionId(session_id, serverInfo);
+        if (!sessionId) {
+          return {
+            content: [{ type: "text" as const, text: "No review session found. Open a PR review first with `diffprism review <PR URL>`." }],
+            isError: true,
+          };
+        }
+
+        const response = await serverFetch(
+          `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/github/comments/${encodeURIComponent(comment_id)}`,
+          {
+            method: "DELETE",
+          },
+        );
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          return {
+            content: [{ type: "text" as const, text: `Error: ${(errorData as Record<string, string>).error ?? `Server returned ${response.status}`}` }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ commentId: comment_id, deleted: true, sessionId }, null, 2) }],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "get_review_rounds",
+    "Get the review rounds of a session. Each time the human requests changes, the diff and comments are recorded as a numbered round. Pass `round` to see what changed since that round (an interdiff) and which of its comments are addressed or still outstanding — use this after revising your work to check nothing was missed.",
+    {
+      session_id: z
+        .string()
+        .optional()
+        .describe("Review session ID. If omitted, uses the most recently created session."),
+      round: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Round number to compare the current diff against. If omitted, only the round list is returned."),
+    },
+    async ({ session_id, round }) => {
+      try {
+        const serverInfo = await isServerAlive();
+        if (!serverInfo) {
+          return {
+            content: [{ type: "text" as const, text: "No global server running. Start one with `diffprism server`." }],
+            isError: true,
+          };
+        }
+
+        const sessionId = await resolveSessionId(session_id, serverInfo);
+        if (!sessionId) {
+          return {
+            content: [{ type: "text" as const, text: "No review session found. Use `open_review` to start a review first." }],
+            isError: true,
+          };
+        }
+
+        const path = round === undefined ? "rounds" : `rounds/${round}/interdiff`;
+        const response = await serverFetch(
+          `http://localhost:${serverInfo.httpPort}/api/reviews/${sessionId}/${path}`,
+        );
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          return {
+            content: [{ type: "text" as const, text: `Error: ${(errorData as Record<string, string>).error ?? `Server returned ${response.status}`}` }],
+            isError: true,
+          };
+        }
+
+        const data = await response.json();
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ sessionId, ...(data as object) }, null, 2) }],
+        };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          content: [{ type: "text" as const, text: `Error: ${message}` }],
+          isError: true,
+        };
+      }
+    },
+  );
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
@@ -1,7 +1,18 @@
 // @vitest-environment jsdom
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { useReviewStore } from "../store/review.js";
-import type { ReviewInitPayload, ReviewComment, SessionSummary } from "../types.js";
+import type {
+  Annotation,
+  DiffDeltaPayload,
+  DiffFile,
+  Interdiff,
+  ReviewInitPayload,
+  ReviewComment,
+  SessionSummary,
+  ThreadReply,
+  VerificationRun,
+  VerificationUpdatePayload,
+} from "../types.js";
 
 function makeInitPayload(fileCount = 2): ReviewInitPayload {
   return {
@@ -55,6 +66,7 @@ describe("review store", () => {
       reviewId: null,
       diffSet: null,
       rawDiff: null,
+      diffSeq: null,
       briefing: null,
       metadata: null,
       selectedFile: null,
@@ -62,6 +74,8 @@ describe("review store", () => {
       viewMode: "unified",
       fileStatuses: {},
       comments: [],
+      annotations: [],
+      githubThreads: [],
       activeCommentKey: null,
       theme: "dark",
       isWatchMode: false,
@@ -74,6 +88,9 @@ describe("review store", () => {
       isServerMode: false,
       sessions: [],
       activeSessionId: null,
+      verification: null,
+      rounds: [],
+      interdiff: null,
     });
   });
 
@@ -90,6 +107,42 @@ describe("review store", () => {
       expect(state.metadata).toBe(payload.metadata);
     });
 
+    it("loads GitHub review threads from the payload", () => {
+      const thread = {
+        id: "PRRT_1",
+        path: "src/file0.ts",
+        line: 1,
+        originalLine: 1,
+        startLine: null,
+        side: "RIGHT" as const,
+        isResolved: false,
+        isOutdated: false,
+        comments: [],
+      };
+      useReviewStore.getState().initReview({ ...makeInitPayload(), githubThreads: [thread] });
+      expect(useReviewStore.getState().githubThreads).toEqual([thread]);
+
+      useReviewStore.getState().initReview(makeInitPayload());
+      expect(useReviewStore.getState().githubThreads).toEqual([]);
+    });
+
+    it("replaces GitHub review threads pushed by the server", () => {
+      useReviewStore.getState().initReview(makeInitPayload());
+      const thread = {
+        id: "PRRT_1",
+        path: "src/file0.ts",
+        line: 1,
+        originalLine: 1,
+        startLine: null,
+        side: "RIGHT" as const,
+        isResolved: true,
+        isOutdated: false,
+        comments: [],
+      };
+      useReviewStore.getState().setGitHubThreads([thread]);
+      expect(useReviewStore.getState().githubThreads).toEqual([thread]);
+    });
+
     it("selects the first file automatically", () => {
       useReviewStore.getState().initReview(makeInitPayload());
       expect(useReviewStore.getState().selectedFile).toBe("src/file0.ts");
@@ -226,6 +279,101 @@ describe("review store", () => {
       expect(comments[0].body).toBe("A");
       expect(comments[1].body).toBe("C");
     });
+
+    it("saveDraftComment keeps the draft's line range and suggestion", () => {
+      useReviewStore.getState().setDraftComment({
+        body: " Use the helper ",
+        type: "suggestion",
+        file: "src/file0.ts",
+        line: 12,
+        startLine: 10,
+        suggestion: "return helper();",
+      });
+
+      useReviewStore.getState().saveDraftComment();
+
+      const [comment] = useReviewStore.getState().comments;
+      expect(comment).toMatchObject({
+        file: "src/file0.ts",
+        line: 12,
+        startLine: 10,
+        suggestion: "return helper();",
+        body: "Use the helper",
+      });
+      expect(useReviewStore.getState().draftComment).toBeNull();
+    });
+  });
+
+  describe("threads", () => {
+    function makeReply(overrides: Partial<ThreadReply> = {}): ThreadReply {
+      return {
+        id: "reply-1",
+        targetId: "ann-1",
+        author: { kind: "agent", name: "claude" },
+        body: "Fixed in the next commit",
+        createdAt: 1,
+        ...overrides,
+      };
+    }
+
+    it("assigns IDs to new comments and keeps them across edits", () => {
+      useReviewStore.getState().addComment(makeComment({ body: "Original" }));
+      const id = useReviewStore.getState().comments[0].id;
+      expect(id).toBeTruthy();
+
+      useReviewStore.getState().addReply(makeReply({ targetId: id! }));
+      useReviewStore.getState().updateComment(0, makeComment({ body: "Edited" }));
+
+      const [comment] = useReviewStore.getState().comments;
+      expect(comment.id).toBe(id);
+      expect(comment.body).toBe("Edited");
+      expect(comment.replies).toHaveLength(1);
+    });
+
+    it("appends replies to annotations once", () => {
+      const annotation: Annotation = {
+        id: "ann-1",
+        sessionId: "review-123",
+        file: "src/file0.ts",
+        line: 3,
+        body: "Possible null dereference",
+        type: "finding",
+        confidence: 0.8,
+        category: "correctness",
+        source: { agent: "reviewer-agent" },
+        createdAt: 0,
+      };
+      useReviewStore.getState().addAnnotation(annotation);
+
+      useReviewStore.getState().addReply(makeReply());
+      useReviewStore.getState().addReply(makeReply());
+
+      expect(useReviewStore.getState().annotations[0].replies).toEqual([makeReply()]);
+    });
+
+    it("replaces an annotation when the server reports an update", () => {
+      const annotation: Annotation = {
+        id: "ann-2",
+        sessionId: "review-123",
+        file: "src/file0.ts",
+        line: 5,
+        body: "Use const",
+        type: "suggestion",
+        confidence: 1,
+        category: "convention",
+        source: { agent: "style-agent" },
+        createdAt: 0,
+        suggestedChange: { startLine: 5, endLine: 5, replacement: "const x = 1;", original: "let x = 1;" },
+      };
+      useReviewStore.getState().addAnnotation(annotation);
+
+      useReviewStore.getState().updateAnnotation({
+        ...annotation,
+        suggestedChange: { ...annotation.suggestedChange!, appliedAt: 42 },
+      });
+
+      expect(useReviewStore.getState().annotations[0].suggestedChange?.appliedAt).toBe(42);
+    });
   });
 
   describe("setActiveCommentKey", () => {
@@ -519,4 +667,347 @@ describe("review store", () => {
       expect(useReviewStore.getState().sessions[0].id).toBe("s1");
     });
   });
+
+  describe("verification", () => {
+    function makeRun(overrides: Partial<VerificationRun> = {}): VerificationRun {
+      const check = { command: "pnpm test", exitCode: 0, durationMs: 10, output: "", truncated: false };
+      return {
+        id: "run-1",
+        status: "completed",
+        startedAt: 1,
+        checks: [
+          { ...check, name: "test", status: "passed" },
+          { ...check, name: "typecheck", status: "failed", exitCode: 1 },
+        ],
+        ...overrides,
+      };
+    }
+
+    function makeUpdate(sessionId = "review-123"): VerificationUpdatePayload {
+      return {
+        sessionId,
+        run: makeRun(),
+        briefingVerification: { testsPass: true, typeCheck: false, lintClean: null },
+      };
+    }
+
+    it("stores the run and the briefing verification the server derived", () => {
+      useReviewStore.getState().initReview(makeInitPayload());
+      useReviewStore.getState().updateVerification(makeUpdate());
+
+      const state = useReviewStore.getState();
+      expect(state.verification?.id).toBe("run-1");
+      expect(state.briefing?.verification).toEqual({
+        testsPass: true,
+        typeCheck: false,
+        lintClean: null,
+      });
+    });
+
+    it("ignores updates for other sessions", () => {
+      useReviewStore.getState().initReview(makeInitPayload());
+      useReviewStore.getState().updateVerification(makeUpdate("other"));
+
+      expect(useReviewStore.getState().verification).toBeNull();
+    });
+
+    it("asks the server to run verification for the review", async () => {
+      window.history.replaceState(null, "", "/?httpPort=24680");
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ verification: makeRun() })));
+      vi.stubGlobal("fetch", fetchMock);
+      try {
+        useReviewStore.getState().initReview(makeInitPayload());
+        useReviewStore.getState().runVerification();
+
+        await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+        const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+        expect(url).toBe("http://localhost:24680/api/reviews/review-123/verify");
+        expect(init.method).toBe("POST");
+      } finally {
+        vi.unstubAllGlobals();
+        window.history.replaceState(null, "", "/");
+      }
+    });
+
+    it("resets on a new review", () => {
+      useReviewStore.getState().initReview(makeInitPayload());
+      useReviewStore.getState().updateVerification(makeUpdate());
+      useReviewStore.getState().initReview(makeInitPayload());
+
+      expect(useReviewStore.getState().verification).toBeNull();
+    });
+  });
+
+  describe("reviewer state", () => {
+    it("restores progress saved on the server", () => {
+      const payload = makeInitPayload(3);
+      payload.reviewerState = {
+        fileStatuses: { "src/file1.ts": "approved", "src/gone.ts": "reviewed" },
+        selectedFile: "src/file2.ts",
+        draftComment: { body: "Hmm", type: "question", file: "src/file2.ts", line: 4 },
+        comments: [makeComment({ id: "c1" })],
+        updatedAt: 1,
+      };
+      useReviewStore.getState().initReview(payload);
+
+      const state = useReviewStore.getState();
+      expect(state.fileStatuses).toEqual({
+        "src/file0.ts": "unreviewed",
+        "src/file1.ts": "approved",
+        "src/file2.ts": "unreviewed",
+      });
+      expect(state.selectedFile).toBe("src/file2.ts");
+      expect(state.draftComment?.body).toBe("Hmm");
+      expect(state.comments.map((c) => c.id)).toEqual(["c1"]);
+    });
+
+    it("falls back to the first file when the saved selection left the diff", () => {
+      const payload = makeInitPayload();
+      payload.reviewerState = {
+        fileStatuses: {},
+        selectedFile: "src/gone.ts",
+        draftComment: null,
+        comments: [],
+        updatedAt: 1,
+      };
+      useReviewStore.getState().initReview(payload);
+
+      expect(useReviewStore.getState().selectedFile).toBe("src/file0.ts");
+    });
+
+    it("applies statuses and comments from other tabs but keeps the selection", () => {
+      useReviewStore.getState().initReview(makeInitPayload());
+      useReviewStore.getState().selectFile("src/file1.ts");
+
+      useReviewStore.getState().applyReviewerState({
+        sessionId: "review-123",
+        state: {
+          fileStatuses: { "src/file0.ts": "needs_changes" },
+          selectedFile: "src/file0.ts",
+          draftComment: null,
+          comments: [makeComment({ id: "c2" })],
+          updatedAt: 2,
+        },
+        origin: "another-tab",
+      });
+
+      const state = useReviewStore.getState();
+      expect(state.fileStatuses["src/file0.ts"]).toBe("needs_changes");
+      expect(state.comments.map((c) => c.id)).toEqual(["c2"]);
+      expect(state.selectedFile).toBe("src/file1.ts");
+    });
+
+    it("ignores state for other sessions", () => {
+      useReviewStore.getState().initReview(makeInitPayload());
+
+      useReviewStore.getState().applyReviewerState({
+        sessionId: "other",
+        state: { fileStatuses: { "src/file0.ts": "approved" }, selectedFile: null, draftComment: null, comments: [], updatedAt: 2 },
+      });
+
+      expect(useReviewStore.getState().fileStatuses["src/file0.ts"]).toBe("unreviewed");
+    });
+  });
+
+  describe("diff deltas", () => {
+    function section(path: string, line: string): string {
+      return `diff --git a/${path} b/${path}\n--- a/${path}\n+++ b/${path}\n@@ -1 +1 @@\n+${line}\n`;
+    }
+
+    function file(path: string, additions = 1): DiffFile {
+      return {
+        path,
+        status: "modified",
+        hunks: [],
+        language: "typescript",
+        binary: false,
+        additions,
+        deletions: 0,
+      };
+    }
+
+    function initWithSeq(seq: number): void {
+      const payload = makeInitPayload(0);
+      payload.diffSet.files = [file("src/file0.ts"), file("src/file1.ts")];
+      payload.rawDiff = section("src/file0.ts", "a") + section("src/file1.ts", "b");
+      payload.diffSeq = seq;
+      useReviewStore.getState().initReview(payload);
+    }
+
+    function makeDelta(overrides: Partial<DiffDeltaPayload> = {}): DiffDeltaPayload {
+      return {
+        seq: 4,
+        baseRef: "HEAD",
+        headRef: "staged",
+        operations: [
+          { op: "replace", key: "src/file1.ts", file: file("src/file1.ts", 2), rawDiff: section("src/file1.ts", "c") },
+          { op: "add", key: "src/file2.ts", file: file("src/file2.ts"), rawDiff: section("src/file2.ts", "d") },
+        ],
+        fileOrder: ["src/file0.ts", "src/file1.ts", "src/file2.ts"],
+        briefing: makeInitPayload().briefing,
+        changedFiles: ["src/file1.ts", "src/file2.ts"],
+        timestamp: 1,
+        ...overrides,
+      };
+    }
+
+    it("applies per-file operations and keeps untouched files as they were", () => {
+      initWithSeq(3);
+      const untouched = useReviewStore.getState().diffSet!.files[0];
+      useReviewStore.getState().setFileStatus("src/file0.ts", "approved");
+      useReviewStore.getState().setFileStatus("src/file1.ts", "approved");
+      useReviewStore.getState().setHunkCount(2);
+
+      expect(useReviewStore.getState().applyDiffDelta(makeDelta())).toBe(true);
+
+      const state = useReviewStore.getState();
+      expect(state.diffSeq).toBe(4);
+      expect(state.diffSet!.files.map((f) => f.path)).toEqual(["src/file0.ts", "src/file1.ts", "src/file2.ts"]);
+      expect(state.diffSet!.files[0]).toBe(untouched);
+      expect(state.diffSet!.files[1].additions).toBe(2);
+      expect(state.rawDiff).toBe(
+        section("src/file0.ts", "a") + section("src/file1.ts", "c") + section("src/file2.ts", "d"),
+      );
+      expect(state.fileStatuses).toEqual({
+        "src/file0.ts": "approved",
+        "src/file1.ts": "unreviewed",
+        "src/file2.ts": "unreviewed",
+      });
+      // The selected file was untouched, so navigation within it is kept
+      expect(state.selectedFile).toBe("src/file0.ts");
+      expect(state.hunkCount).toBe(2);
+    });
+
+    it("moves the selection off a removed file", () => {
+      initWithSeq(3);
+
+      useReviewStore.getState().applyDiffDelta(
+        makeDelta({ operations: [{ op: "remove", key: "src/file0.ts" }], fileOrder: ["src/file1.ts"] }),
+      );
+
+      const state = useReviewStore.getState();
+      expect(state.diffSet!.files.map((f) => f.path)).toEqual(["src/file1.ts"]);
+      expect(state.rawDiff).toBe(section("src/file1.ts", "b"));
+      expect(state.selectedFile).toBe("src/file1.ts");
+    });
+
+    it("rejects a delta that skips a sequence number", () => {
+      initWithSeq(3);
+
+      expect(useReviewStore.getState().applyDiffDelta(makeDelta({ seq: 5 }))).toBe(false);
+      expect(useReviewStore.getState().diffSeq).toBe(3);
+      expect(useReviewStore.getState().diffSet!.files).toHaveLength(2);
+    });
+
+    it("rejects a delta that references unknown files", () => {
+      initWithSeq(3);
+
+      const delta = makeDelta({ operations: [], fileOrder: ["src/missing.ts"] });
+      expect(useReviewStore.getState().applyDiffDelta(delta)).toBe(false);
+    });
+  });
+
+  describe("review rounds", () => {
+    const summary = { number: 1, submittedAt: 1, fileCount: 2, commentCount: 1 };
+
+    function makeInterdiff(): Interdiff {
+      return {
+        round: 1,
+        exact: true,
+        diffSet: {
+          baseRef: "round 1",
+          headRef: "current",
+          files: [{ path: "src/file1.ts", status: "modified", hunks: [], language: "typescript", binary: false, additions: 1, deletions: 0 }],
+        },
+        rawDiff: "diff --git a/src/file1.ts b/src/file1.ts\n",
+        comments: [{ ...makeComment({ file: "src/file1.ts" }), round: 1, state: "addressed" }],
+      };
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      window.history.replaceState(null, "", "/");
+    });
+
+    it("picks up earlier rounds from the init payload", () => {
+      const payload = makeInitPayload();
+      payload.rounds = [summary];
+      useReviewStore.getState().initReview(payload);
+
+      expect(useReviewStore.getState().rounds).toEqual([summary]);
+      expect(useReviewStore.getState().interdiff).toBeNull();
+    });
+
+    it("ignores rounds for other sessions", () => {
+      useReviewStore.getState().initReview(makeInitPayload());
+
+      useReviewStore.getState().setRounds({ sessionId: "other", rounds: [summary] });
+      expect(useReviewStore.getState().rounds).toEqual([]);
+
+      useReviewStore.getState().setRounds({ sessionId: "review-123", rounds: [summary] });
+      expect(useReviewStore.getState().rounds).toEqual([summary]);
+    });
+
+    it("reports an error when not connected to a server", async () => {
+      useReviewStore.getState().initReview(makeInitPayload());
+
+      const error = await useReviewStore.getState().showInterdiff(1);
+
+      expect(error).toBe("Not connected to the DiffPrism server");
+      expect(useReviewStore.getState().interdiff).toBeNull();
+    });
+
+    it("switches to an interdiff and back, keeping the selected file when it can", async () => {
+      window.history.replaceState(null, "", "/?httpPort=24680");
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(makeInterdiff())));
+      vi.stubGlobal("fetch", fetchMock);
+      useReviewStore.getState().initReview(makeInitPayload());
+      useReviewStore.setState({ selectedFile: "src/file1.ts" });
+
+      expect(await useReviewStore.getState().showInterdiff(1)).toBeNull();
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        "http://localhost:24680/api/reviews/review-123/rounds/1/interdiff",
+      );
+      expect(useReviewStore.getState().interdiff?.round).toBe(1);
+      expect(useReviewStore.getState().selectedFile).toBe("src/file1.ts");
+
+      expect(await useReviewStore.getState().showInterdiff(null)).toBeNull();
+      expect(useReviewStore.getState().interdiff).toBeNull();
+      expect(useReviewStore.getState().selectedFile).toBe("src/file1.ts");
+    });
+  });
+
+  describe("PR diff modes", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      window.history.replaceState(null, "", "/");
+    });
+
+    it("asks the server to switch the PR diff", async () => {
+      window.history.replaceState(null, "", "/?httpPort=24680");
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ diffMode: "since_last_review" })));
+      vi.stubGlobal("fetch", fetchMock);
+      useReviewStore.getState().initReview(makeInitPayload());
+
+      expect(await useReviewStore.getState().setPrDiffMode("since_last_review")).toBeNull();
+      const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe("http://localhost:24680/api/reviews/review-123/pr-diff");
+      expect(JSON.parse(init.body as string)).toEqual({ mode: "since_last_review" });
+    });
+
+    it("surfaces the server's error", async () => {
+      window.history.replaceState(null, "", "/?httpPort=24680");
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(
+          new Response(JSON.stringify({ error: "This PR has no earlier review to compare against" }), { status: 400 }),
+        ),
+      );
+      useReviewStore.getState().initReview(makeInitPayload());
+
+      expect(await useReviewStore.getState().setPrDiffMode("since_last_review")).toBe(
+        "This PR has no earlier review to compare against",
+      );
+    });
+  });
 });
@@ -1,6 +1,6 @@
 import { useState } from "react";
-import { Check, X, XCircle, MessageSquare, GitPullRequest, AlertTriangle } from "lucide-react";
-import type { ReviewResult, ReviewDecision } from "../../types";
+import { Check, X, XCircle, MessageSquare, GitPullRequest, GitCommitHorizontal, AlertTriangle } from "lucide-react";
+import type { ReviewResult, ReviewDecision, PostReviewAction } from "../../types";
 import { useReviewStore } from "../../store/review";
 import { ACTION_BUTTON_STYLES } from "../../lib/semantic-colors";
 
@@ -15,9 +15,12 @@ interface ActionBarProps {
 export function ActionBar({ onSubmit, onDismiss, isWatchMode, watchSubmitted, hasUnreviewedChanges }: ActionBarProps) {
   const [summary, setSummary] = useState("");
   const [postToGithub, setPostToGithub] = useState(false);
+  const [postReviewAction, setPostReviewAction] = useState<PostReviewAction | "">("");
   const [pendingDecision, setPendingDecision] = useState<ReviewDecision | null>(null);
   const { diffSet, fileStatuses, comments, metadata, draftComment, saveDraftComment, setActiveCommentKey, setDraftComment } = useReviewStore();
-  const isGitHubPr = !!metadata?.githubPr;
+  const isPrReview = !!metadata?.githubPr;
+  // Reviews are only posted back to GitHub so far
+  const canPostToGithub = isPrReview && metadata?.githubPr?.provider !== "gitlab";
 
   const totalAdditions =
     diffSet?.files.reduce((sum, f) => sum + f.additions, 0) ?? 0;
@@ -36,7 +39,11 @@ export function ActionBar({ onSubmit, onDismiss, isWatchMode, watchSubmitted, ha
       comments: useReviewStore.getState().comments,
       fileStatuses: hasStatuses ? fileStatuses : undefined,
       summary: summary.trim() || undefined,
-      postToGithub: isGitHubPr && postToGithub ? true : undefined,
+      postToGithub: canPostToGithub && postToGithub ? true : undefined,
+      postReviewAction:
+        !isPrReview && postReviewAction && decision.startsWith("approved")
+          ? postReviewAction
+          : undefined,
     });
   }
 
@@ -197,7 +204,26 @@ export function ActionBar({ onSubmit, onDismiss, isWatchMode, watchSubmitted, ha
           </>
         )}
 
-        {isGitHubPr && (
+        {!isPrReview && (
+          <>
+            <div className="w-px h-6 bg-border" />
+            <label className="flex items-center gap-2 text-sm text-text-secondary select-none">
+              <GitCommitHorizontal className="w-3.5 h-3.5 text-accent" />
+              On approve
+              <select
+                value={postReviewAction}
+                onChange={(e) => setPostReviewAction(e.target.value as PostReviewAction | "")}
+                className="bg-background border border-border rounded px-2 py-1 text-xs text-text-primary focus:outline-none focus:ring-1 focus:ring-accent cursor-pointer"
+              >
+                <option value="">Do nothing</option>
+                <option value="commit">Commit</option>
+                <option value="commit_and_pr">Commit &amp; open PR</option>
+              </select>
+            </label>
+          </>
+        )}
+
+        {canPostToGithub && (
           <>
             <div className="w-px h-6 bg-border" />
             <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer select-none">
@@ -145,6 +145,14 @@ export function AnnotationPanel({
                       >
                         {annotation.category}
                       </span>
+                      {annotation.outdated && (
+                        <span
+                          className="text-[10px] px-1.5 py-0.5 rounded border border-border text-text-secondary"
+                          title="The line this was left on changed in a later push"
+                        >
+                          Outdated
+                        </span>
+                      )}
                     </div>
                     <AnnotationBody body={annotation.body} />
                   </div>
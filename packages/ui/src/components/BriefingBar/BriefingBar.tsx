@@ -12,14 +12,19 @@ import {
   Search,
   GitPullRequest,
   ExternalLink,
+  Play,
+  Loader2,
+  HardDriveDownload,
 } from "lucide-react";
 import { useReviewStore } from "../../store/review";
 import { RefSelector } from "../RefSelector";
-import { BRIEFING_BADGE_STYLES, BRIEFING_SECTION_COLORS, SEVERITY_BADGE_STYLES, SEVERITY_COLORS } from "../../lib/semantic-colors";
+import type { GitHubPrMetadata, PrDiffMode, VerificationCheckResult, VerificationRun } from "../../types";
+import { BRIEFING_BADGE_STYLES, BRIEFING_SECTION_COLORS, SEVERITY_BADGE_STYLES, SEVERITY_COLORS, VERIFICATION_STATUS_COLORS } from "../../lib/semantic-colors";
 
 export function BriefingBar() {
   const [expanded, setExpanded] = useState(false);
-  const { briefing, metadata, isServerMode, clearReview } = useReviewStore();
+  const { briefing, metadata, isServerMode, clearReview, verification: verificationRun, runVerification } =
+    useReviewStore();
 
   if (!briefing) return null;
   
@@ -32,6 +37,10 @@ export function BriefingBar() {
   const securityFlags = patterns?.filter((p) => p.severity) ?? [];
   const nonSecurityPatterns = patterns?.filter((p) => !p.severity) ?? [];
   const patternCount = nonSecurityPatterns.length;
+  const verifying = verificationRun?.status === "running";
+  const failingChecks = verificationRun && !verificationRun.stale
+    ? verificationRun.checks.filter((c) => c.status === "failed")
+    : [];
 
   return (
     <div className="bg-surface border-b border-border flex-shrink-0">
@@ -105,6 +114,20 @@ export function BriefingBar() {
             </span>
           )}
 
+          {verifying && (
+            <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${BRIEFING_BADGE_STYLES.verification}`}>
+              <Loader2 className="w-3 h-3 animate-spin" />
+              verifying
+            </span>
+          )}
+
+          {!verifying && failingChecks.length > 0 && (
+            <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${BRIEFING_BADGE_STYLES.verificationFailed}`}>
+              <FlaskConical className="w-3 h-3" />
+              {failingChecks.length} check{failingChecks.length !== 1 ? "s" : ""} failing
+            </span>
+          )}
+
           {expanded ? (
             <ChevronUp className="w-4 h-4 text-text-secondary" />
           ) : (
@@ -117,24 +140,30 @@ export function BriefingBar() {
       </div>
       </div>
 
-      {/* GitHub PR context */}
+      {/* PR / merge request context */}
       {metadata?.githubPr && (
         <div className="px-4 py-2 border-t border-border/50 flex items-center gap-3 text-xs">
           <GitPullRequest className="w-3.5 h-3.5 text-accent flex-shrink-0" />
           <span className="text-text-primary font-medium truncate">
-            {metadata.githubPr.owner}/{metadata.githubPr.repo}#{metadata.githubPr.number}
+            {metadata.githubPr.owner}/{metadata.githubPr.repo}
+            {metadata.githubPr.provider === "gitlab" ? "!" : "#"}
+            {metadata.githubPr.number}
           </span>
           <span className="text-text-secondary">by {metadata.githubPr.author}</span>
           <span className="text-text-secondary font-mono">
             {metadata.githubPr.baseBranch} ← {metadata.githubPr.headBranch}
           </span>
+          {isServerMode && metadata.githubPr.lastReviewedSha && (
+            <PrDiffModeToggle pr={metadata.githubPr} />
+          )}
+          {isServerMode && <PrCheckoutButton />}
           <a
             href={metadata.githubPr.url}
             target="_blank"
             rel="noopener noreferrer"
             className="ml-auto flex items-center gap-1 text-accent hover:text-accent/80 transition-colors flex-shrink-0"
           >
-            View on GitHub
+            View on {metadata.githubPr.provider === "gitlab" ? "GitLab" : "GitHub"}
             <ExternalLink className="w-3 h-3" />
           </a>
         </div>
@@ -328,10 +357,29 @@ export function BriefingBar() {
           )}
 
           {/* Verification */}
-          <div>
+          <div className={verificationRun ? "col-span-2" : undefined}>
             <h4 className="text-text-secondary text-xs font-medium uppercase tracking-wide mb-1 flex items-center gap-1.5">
               <FlaskConical className="w-3.5 h-3.5" />
               Verification
+              {verificationRun?.stale && (
+                <span className="normal-case tracking-normal text-warning">
+                  (stale — the diff changed since this run)
+                </span>
+              )}
+              {isServerMode && !metadata?.githubPr && (
+                <button
+                  onClick={runVerification}
+                  disabled={verifying}
+                  className="ml-auto inline-flex items-center gap-1 normal-case tracking-normal text-accent hover:text-accent/80 disabled:opacity-50 disabled:cursor-default transition-colors cursor-pointer"
+                >
+                  {verifying ? (
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                  ) : (
+                    <Play className="w-3 h-3" />
+                  )}
+                  {verifying ? "Running…" : verificationRun ? "Re-run" : "Run checks"}
+                </button>
+              )}
             </h4>
             <div className="flex items-center gap-3">
               <VerificationBadge label="Tests" value={verification.testsPass} />
@@ -341,6 +389,7 @@ export function BriefingBar() {
               />
               <VerificationBadge label="Lint" value={verification.lintClean} />
             </div>
+            {verificationRun && <VerificationChecks run={verificationRun} />}
           </div>
         </div>
       )}
@@ -371,3 +420,133 @@ function VerificationBadge({
     </span>
   );
 }
+
+const CHECK_LABELS: Record<VerificationCheckResult["name"], string> = {
+  test: "Tests",
+  typecheck: "Types",
+  lint: "Lint",
+};
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function VerificationChecks({ run }: { run: VerificationRun }) {
+  const [openCheck, setOpenCheck] = useState<string | null>(null);
+
+  return (
+    <ul className="mt-2 space-y-1">
+      {run.checks.map((check) => {
+        const isOpen = openCheck === check.name;
+        const hasOutput = check.output.length > 0;
+        return (
+          <li key={check.name} className="text-xs">
+            <button
+              onClick={() => setOpenCheck(isOpen ? null : check.name)}
+              disabled={!hasOutput}
+              className="w-full flex items-center gap-2 text-left cursor-pointer disabled:cursor-default"
+            >
+              <span className="w-12 text-text-secondary">{CHECK_LABELS[check.name]}</span>
+              <span className={`font-mono ${VERIFICATION_STATUS_COLORS[check.status]}`}>
+                {check.timedOut ? "timed out" : check.status}
+              </span>
+              {check.command && (
+                <span className="font-mono text-text-secondary truncate">{check.command}</span>
+              )}
+              {check.exitCode !== null && check.exitCode !== 0 && (
+                <span className="text-text-secondary">exit {check.exitCode}</span>
+              )}
+              {check.durationMs !== null && (
+                <span className="ml-auto text-text-secondary flex-shrink-0">
+                  {formatDuration(check.durationMs)}
+                </span>
+              )}
+            </button>
+            {isOpen && (
+              <pre className="mt-1 max-h-64 overflow-auto rounded bg-background border border-border p-2 font-mono text-[11px] text-text-primary whitespace-pre-wrap">
+                {check.truncated && (
+                  <span className="text-text-secondary">… output truncated …{"\n"}</span>
+                )}
+                {check.output}
+              </pre>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function PrCheckoutButton() {
+  const checkoutPr = useReviewStore((s) => s.checkoutPr);
+  const isRemote = useReviewStore((s) =>
+    s.sessions.some((session) => session.id === s.reviewId && /^(github|gitlab):/.test(session.projectPath)),
+  );
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Sessions backed by a local clone or worktree already have file context
+  if (!isRemote) return null;
+
+  async function checkout() {
+    setPending(true);
+    setError(await checkoutPr());
+    setPending(false);
+  }
+
+  return (
+    <div className="flex items-center gap-2 flex-shrink-0">
+      <button
+        onClick={checkout}
+        disabled={pending}
+        title="Check the PR out into a worktree under ~/.diffprism/worktrees"
+        className="flex items-center gap-1 px-2 py-0.5 rounded border border-border text-text-secondary hover:text-text-primary cursor-pointer disabled:cursor-default"
+      >
+        {pending ? <Loader2 className="w-3 h-3 animate-spin" /> : <HardDriveDownload className="w-3 h-3" />}
+        Check out locally
+      </button>
+      {error && <span className="text-danger">{error}</span>}
+    </div>
+  );
+}
+
+const PR_DIFF_MODE_LABELS: Record<PrDiffMode, string> = {
+  full: "Full PR",
+  since_last_review: "Since last review",
+};
+
+function PrDiffModeToggle({ pr }: { pr: GitHubPrMetadata }) {
+  const setPrDiffMode = useReviewStore((s) => s.setPrDiffMode);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const current = pr.diffMode ?? "full";
+
+  async function select(mode: PrDiffMode) {
+    if (mode === current || pending) return;
+    setPending(true);
+    setError(await setPrDiffMode(mode));
+    setPending(false);
+  }
+
+  return (
+    <div className="flex items-center gap-2 flex-shrink-0">
+      <div className="flex items-center rounded border border-border overflow-hidden">
+        {(Object.keys(PR_DIFF_MODE_LABELS) as PrDiffMode[]).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => select(mode)}
+            disabled={pending}
+            title={mode === "since_last_review" ? `Changes since ${pr.lastReviewedSha!.slice(0, 7)}` : undefined}
+            className={`px-2 py-0.5 cursor-pointer disabled:cursor-default ${
+              mode === current ? "bg-accent/15 text-accent" : "text-text-secondary hover:text-text-primary"
+            }`}
+          >
+            {PR_DIFF_MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+      {pending && <Loader2 className="w-3 h-3 animate-spin text-text-secondary" />}
+      {error && <span className="text-danger">{error}</span>}
+    </div>
+  );
+}
@@ -2,10 +2,13 @@ import { SessionSidebar } from "../SessionSidebar";
 import { ReviewView } from "../ReviewView";
 import { NotificationToggle } from "../NotificationToggle";
 import { PrInput } from "../PrInput";
+import { ReviewInbox } from "../ReviewInbox";
+import { LocalRepos } from "../LocalRepos";
 import type { NotificationPermission } from "../../hooks/useNotifications";
 import type { ReviewResult, SessionSummary } from "../../types";
-import { FileCode, Terminal, Settings, FolderOpen, Folder, ChevronUp, GitBranch, GitPullRequest } from "lucide-react";
+import { FileCode, Terminal, Settings, FolderOpen, Folder, ChevronUp, GitBranch, GitPullRequest, Inbox, HardDrive } from "lucide-react";
 import { useState, useEffect, useCallback } from "react";
+import { serverFetch } from "../../lib/server-api";
 
 const DIFF_REF_OPTIONS = [
   { value: "working-copy", label: "Working Copy" },
@@ -54,7 +57,7 @@ function useDirListing(initialPath?: string) {
     setLoadingDir(true);
     try {
       const query = dirPath ? `?path=${encodeURIComponent(dirPath)}` : "";
-      const res = await fetch(`http://localhost:${httpPort}/api/fs/list${query}`);
+      const res = await serverFetch(`http://localhost:${httpPort}/api/fs/list${query}`);
       if (res.ok) {
         const data = await res.json() as DirListing;
         setListing(data);
@@ -89,7 +92,7 @@ function OpenProjectForm({ onSuccess }: OpenProjectFormProps) {
     const httpPort = getHttpPort();
     if (!httpPort) return;
 
-    fetch(`http://localhost:${httpPort}/api/status`)
+    serverFetch(`http://localhost:${httpPort}/api/status`)
       .then((res) => res.json())
       .then((data) => {
         const status = data as { cwd?: string };
@@ -106,7 +109,7 @@ function OpenProjectForm({ onSuccess }: OpenProjectFormProps) {
     setError(null);
 
     try {
-      const res = await fetch(`http://localhost:${httpPort}/api/projects/open`, {
+      const res = await serverFetch(`http://localhost:${httpPort}/api/projects/open`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ projectPath, diffRef }),
@@ -213,7 +216,7 @@ function OpenProjectForm({ onSuccess }: OpenProjectFormProps) {
   );
 }
 
-type DetailPaneView = "none" | "open-project" | "review-pr";
+type DetailPaneView = "none" | "open-project" | "review-pr" | "inbox" | "repos";
 
 export function Dashboard({
   sessions,
@@ -240,6 +243,8 @@ export function Dashboard({
           onClose={onCloseSession}
           onOpenProject={() => setDetailView("open-project")}
           onReviewPr={() => setDetailView("review-pr")}
+          onOpenInbox={() => setDetailView("inbox")}
+          onOpenRepos={() => setDetailView("repos")}
         />
         {/* Notification toggle at bottom of sidebar */}
         {onToggleNotifications && notificationPermission && (
@@ -299,11 +304,48 @@ export function Dashboard({
               </button>
             </div>
           </div>
+        ) : detailView === "inbox" ? (
+          <div className="flex flex-col items-center justify-center h-full px-8">
+            <div className="max-w-lg w-full">
+              <div className="flex items-center gap-2 mb-4">
+                <Inbox className="w-5 h-5 text-accent" />
+                <h2 className="text-text-primary text-lg font-semibold">Review Inbox</h2>
+              </div>
+              <div className="bg-surface border border-border rounded-lg p-5">
+                <ReviewInbox onOpened={() => setDetailView("none")} />
+              </div>
+              <button
+                onClick={() => setDetailView("none")}
+                className="mt-3 text-text-secondary text-xs hover:text-text-primary transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : detailView === "repos" ? (
+          <div className="flex flex-col items-center justify-center h-full px-8">
+            <div className="max-w-lg w-full">
+              <div className="flex items-center gap-2 mb-4">
+                <HardDrive className="w-5 h-5 text-accent" />
+                <h2 className="text-text-primary text-lg font-semibold">Local Repositories</h2>
+              </div>
+              <div className="bg-surface border border-border rounded-lg p-5">
+                <LocalRepos />
+              </div>
+              <button
+                onClick={() => setDetailView("none")}
+                className="mt-3 text-text-secondary text-xs hover:text-text-primary transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          </div>
         ) : (
           <EmptyDetailPane
             hasAnySessions={sessions.length > 0}
             onOpenProject={() => setDetailView("open-project")}
             onReviewPr={() => setDetailView("review-pr")}
+            onOpenInbox={() => setDetailView("inbox")}
           />
         )}
       </div>
@@ -311,7 +353,7 @@ export function Dashboard({
   );
 }
 
-function EmptyDetailPane({ hasAnySessions, onOpenProject, onReviewPr }: { hasAnySessions: boolean; onOpenProject: () => void; onReviewPr: () => void }) {
+function EmptyDetailPane({ hasAnySessions, onOpenProject, onReviewPr, onOpenInbox }: { hasAnySessions: boolean; onOpenProject: () => void; onReviewPr: () => void; onOpenInbox: () => void }) {
   if (hasAnySessions) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-center px-8">
@@ -332,6 +374,13 @@ function EmptyDetailPane({ hasAnySessions, onOpenProject, onReviewPr }: { hasAny
             <GitPullRequest className="w-3.5 h-3.5" />
             Review PR
           </button>
+          <button
+            onClick={onOpenInbox}
+            className="flex items-center gap-1.5 text-text-secondary text-xs font-medium hover:text-text-primary transition-colors"
+          >
+            <Inbox className="w-3.5 h-3.5" />
+            Inbox
+          </button>
           <button
             onClick={onOpenProject}
             className="flex items-center gap-1.5 text-text-secondary text-xs font-medium hover:text-text-primary transition-colors"
@@ -357,7 +406,7 @@ function OnboardingPane({ onOpenProject, onReviewPr }: { onOpenProject: () => vo
     const httpPort = getHttpPort();
     if (!httpPort) return;
 
-    fetch(`http://localhost:${httpPort}/api/status`)
+    serverFetch(`http://localhost:${httpPort}/api/status`)
       .then((res) => res.json())
       .then((data) => {
         const status = data as { pid: number; uptime: number };
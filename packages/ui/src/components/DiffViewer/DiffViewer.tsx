@@ -1,7 +1,8 @@
-import { useMemo, useCallback, useEffect, useRef, type ReactNode } from "react";
+import { useMemo, useCallback, useEffect, useRef, useState, type ReactNode } from "react";
 import {
   parseDiff,
   Diff,
+  Decoration,
   Hunk as DiffHunk,
   tokenize,
   getChangeKey,
@@ -12,11 +13,18 @@ import {
 import type { ChangeData, HunkData, GutterOptions, ChangeEventArgs, EventMap } from "react-diff-view";
 import { refractor } from "refractor";
 import { useReviewStore } from "../../store/review";
-import { FileCode, Columns2, Rows2, HelpCircle, Lightbulb } from "lucide-react";
-import { InlineCommentForm, InlineCommentThread, InlineAnnotationThread } from "../InlineComment";
+import type { DraftComment, HunkAction } from "../../store/review";
+import { FileCode, Columns2, Rows2, HelpCircle, Lightbulb, Plus, Minus, Undo2 } from "lucide-react";
+import {
+  InlineCommentForm,
+  InlineCommentThread,
+  InlineAnnotationThread,
+  GitHubReviewThreads,
+} from "../InlineComment";
 import { ThemeToggle } from "../ThemeToggle";
 import { getFileKey, getDisplayPath } from "../../lib/file-key";
 import { STAGE_BADGE_STYLES } from "../../lib/semantic-colors";
+import type { GitHubReviewThread } from "../../types";
 
 /**
  * Adapter for refractor v4 to work with react-diff-view's tokenize function.
@@ -101,6 +109,26 @@ function getLineFromChange(change: ChangeData): number {
   return 0;
 }
 
+/**
+ * Find the change a GitHub review thread is anchored to. RIGHT-side threads
+ * use new line numbers, LEFT-side threads old ones.
+ */
+function findThreadChangeKey(hunks: HunkData[], thread: GitHubReviewThread): string | null {
+  if (thread.line === null) return null;
+  for (const hunk of hunks) {
+    for (const change of hunk.changes) {
+      const matches =
+        thread.side === "RIGHT"
+          ? (isInsert(change) && change.lineNumber === thread.line) ||
+            (isNormal(change) && change.newLineNumber === thread.line)
+          : (isDelete(change) && change.lineNumber === thread.line) ||
+            (isNormal(change) && change.oldLineNumber === thread.line);
+      if (matches) return getChangeKey(change);
+    }
+  }
+  return null;
+}
+
 /**
  * Build a mapping from "file:line" to change keys for widget placement.
  */
@@ -163,8 +191,9 @@ function extractFileDiff(rawDiff: string, filePath: string, occurrence = 0): str
 
 export function DiffViewer() {
   const {
-    diffSet,
-    rawDiff,
+    diffSet: fullDiffSet,
+    rawDiff: fullRawDiff,
+    interdiff,
     selectedFile,
     viewMode,
     setViewMode,
@@ -179,17 +208,46 @@ export function DiffViewer() {
     focusedHunkIndex,
     setHunkCount,
     annotations,
+    githubThreads,
     dismissAnnotation,
+    replyToThread,
+    applySuggestion,
+    applyHunkAction,
+    replyToGitHubThread,
+    resolveGitHubThread,
+    editGitHubComment,
+    deleteGitHubComment,
+    isServerMode,
     metadata,
+    reviewId,
+    draftComment,
   } = useReviewStore();
 
   const isPrReview = !!metadata?.githubPr;
+  // An interdiff is a comparison against an earlier round: read-only, like a PR
+  const isReadOnly = isPrReview || interdiff !== null;
+  const diffSet = interdiff?.diffSet ?? fullDiffSet;
+  const rawDiff = interdiff?.rawDiff ?? fullRawDiff;
+
+  // A draft comment restored from the server, prefilled into its form once
+  const [restoredDraft, setRestoredDraft] = useState<DraftComment | null>(null);
+  const draftRestoredFor = useRef<string | null>(null);
 
   const selectedDiffFile = useMemo(() => {
     if (!diffSet || !selectedFile) return null;
     return diffSet.files.find((f) => getFileKey(f) === selectedFile) ?? null;
   }, [diffSet, selectedFile]);
 
+  // Which side of the index the selected file's hunks are on — null when
+  // the diff isn't of the index or working tree and hunks can't be staged
+  const hunkStage = useMemo((): "staged" | "unstaged" | null => {
+    if (!isServerMode || isReadOnly || !diffSet || !selectedDiffFile) return null;
+    if (selectedDiffFile.stage) return selectedDiffFile.stage;
+    if (diffSet.headRef === "staged") return "staged";
+    if (diffSet.baseRef === "staged") return "unstaged";
+    return null;
+  }, [isServerMode, isReadOnly, diffSet, selectedDiffFile]);
+
   const fileDiffText = useMemo(() => {
     if (!rawDiff || !selectedFile || !diffSet) return null;
     const displayPath = getDisplayPath(selectedFile);
@@ -285,16 +343,31 @@ export function DiffViewer() {
     return map;
   }, [fileAnnotations]);
 
-  // Gutter click handler — toggle comment form for the clicked line (disabled for PR reviews)
+  // Existing GitHub review threads for the selected file, keyed by the change they anchor to
+  const githubThreadsByKey = useMemo(() => {
+    const map = new Map<string, GitHubReviewThread[]>();
+    if (!selectedFile || parsedFiles.length === 0) return map;
+    const displayPath = getDisplayPath(selectedFile);
+    for (const thread of githubThreads) {
+      if (thread.path !== displayPath) continue;
+      const key = findThreadChangeKey(parsedFiles[0].hunks, thread);
+      if (!key) continue;
+      if (!map.has(key)) map.set(key, []);
+      map.get(key)!.push(thread);
+    }
+    return map;
+  }, [githubThreads, selectedFile, parsedFiles]);
+
+  // Gutter click handler — toggle comment form for the clicked line (disabled when read-only)
   const gutterEvents: EventMap = useMemo(
-    () => isPrReview ? {} : ({
+    () => isReadOnly ? {} : ({
       onClick({ change }: ChangeEventArgs) {
         if (!change) return;
         const key = getChangeKey(change);
         setActiveCommentKey(activeCommentKey === key ? null : key);
       },
     }),
-    [activeCommentKey, setActiveCommentKey, isPrReview],
+    [activeCommentKey, setActiveCommentKey, isReadOnly],
   );
 
   // Custom gutter renderer — show "+" on hover, indicators for comments/annotations
@@ -302,11 +375,12 @@ export function DiffViewer() {
     ({ change, inHoverState, renderDefault }: GutterOptions) => {
       const line = getLineFromChange(change);
       const hasComments =
-        !isPrReview && selectedFile &&
+        !isReadOnly && selectedFile &&
         fileComments.some((c) => c.comment.line === line);
       const hasAnnotations = annotationsByLine.has(line);
+      const hasGitHubThreads = githubThreadsByKey.has(getChangeKey(change));
 
-      if (inHoverState && !isPrReview) {
+      if (inHoverState && !isReadOnly) {
         return (
           <>
             <span className="diff-gutter-add-comment">+</span>
@@ -315,7 +389,7 @@ export function DiffViewer() {
         );
       }
 
-      if (hasComments) {
+      if (hasComments || hasGitHubThreads) {
         return (
           <>
             <span className="diff-comment-indicator" />
@@ -335,17 +409,17 @@ export function DiffViewer() {
 
       return renderDefault();
     },
-    [selectedFile, fileComments, annotationsByLine, isPrReview],
+    [selectedFile, fileComments, annotationsByLine, githubThreadsByKey, isReadOnly],
   );
 
-  // Build widgets — inline annotation threads (+ comment threads for non-PR reviews)
+  // Build widgets — inline annotation threads (+ comment threads for editable views)
   const widgets = useMemo(() => {
     if (!selectedFile) return {};
     const w: Record<string, ReactNode> = {};
 
-    // Group file comments by line (skip for PR reviews)
+    // Group file comments by line (skip when read-only)
     const commentsByLine = new Map<number, { comment: typeof comments[0]; index: number }[]>();
-    if (!isPrReview) {
+    if (!isReadOnly) {
       for (const fc of fileComments) {
         const line = fc.comment.line;
         if (!commentsByLine.has(line)) commentsByLine.set(line, []);
@@ -373,21 +447,24 @@ export function DiffViewer() {
             <InlineAnnotationThread
               annotations={lineAnnotations}
               onDismiss={dismissAnnotation}
+              onReply={isServerMode ? replyToThread : undefined}
+              onApplySuggestion={isServerMode && !isReadOnly ? applySuggestion : undefined}
             />
           )}
-          {!isPrReview && lineComments && lineComments.length > 0 && (
+          {!isReadOnly && lineComments && lineComments.length > 0 && (
             <InlineCommentThread
               comments={lineComments}
               isFormOpen={activeCommentKey === changeKey}
               file={selectedFile}
               line={line}
-              onAdd={(body, type) => {
-                addComment({ file: selectedFile, line, body, type });
+              onAdd={(body, type, range) => {
+                addComment({ file: selectedFile, line, ...range, body, type });
               }}
-              onUpdate={(index, body, type) => {
-                updateComment(index, { file: selectedFile, line, body, type });
+              onUpdate={(index, body, type, range) => {
+                updateComment(index, { file: selectedFile, line, ...range, body, type });
               }}
               onDelete={deleteComment}
+              onReply={isServerMode ? replyToThread : undefined}
               onOpenForm={() => setActiveCommentKey(changeKey)}
               onCloseForm={() => setActiveCommentKey(null)}
             />
@@ -396,17 +473,38 @@ export function DiffViewer() {
       );
     }
 
-    // Render standalone form for active key with no existing content (skip for PR reviews)
-    if (!isPrReview && activeCommentKey && !w[activeCommentKey]) {
+    // Existing PR discussion goes above DiffPrism's own threads
+    for (const [changeKey, threads] of githubThreadsByKey) {
+      w[changeKey] = (
+        <>
+          <GitHubReviewThreads
+            threads={threads}
+            onReply={isServerMode ? replyToGitHubThread : undefined}
+            onResolve={isServerMode ? resolveGitHubThread : undefined}
+            onEditComment={isServerMode ? editGitHubComment : undefined}
+            onDeleteComment={isServerMode ? deleteGitHubComment : undefined}
+          />
+          {w[changeKey]}
+        </>
+      );
+    }
+
+    // Render standalone form for active key with no existing content (skip when read-only)
+    if (!isReadOnly && activeCommentKey && !w[activeCommentKey]) {
       const line = keyToLineMap[activeCommentKey];
       if (line !== undefined) {
+        const draft = restoredDraft?.file === selectedFile && restoredDraft.line === line ? restoredDraft : null;
         w[activeCommentKey] = (
           <div className="border-t border-border bg-surface">
             <InlineCommentForm
               file={selectedFile}
               line={line}
-              onSave={(body, type) => {
-                addComment({ file: selectedFile, line, body, type });
+              initialBody={draft?.body}
+              initialType={draft?.type}
+              initialStartLine={draft?.startLine}
+              initialSuggestion={draft?.suggestion}
+              onSave={(body, type, range) => {
+                addComment({ file: selectedFile, line, ...range, body, type });
                 setActiveCommentKey(null);
               }}
               onCancel={() => setActiveCommentKey(null)}
@@ -422,6 +520,7 @@ export function DiffViewer() {
     fileComments,
     fileAnnotations,
     annotationsByLine,
+    githubThreadsByKey,
     activeCommentKey,
     lineToKeyMap,
     keyToLineMap,
@@ -429,8 +528,16 @@ export function DiffViewer() {
     updateComment,
     deleteComment,
     dismissAnnotation,
+    replyToThread,
+    applySuggestion,
+    replyToGitHubThread,
+    resolveGitHubThread,
+    editGitHubComment,
+    deleteGitHubComment,
     setActiveCommentKey,
-    isPrReview,
+    isReadOnly,
+    isServerMode,
+    restoredDraft,
   ]);
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -440,6 +547,18 @@ export function DiffViewer() {
     setHunkCount(parsedFiles[0]?.hunks.length ?? 0);
   }, [parsedFiles, setHunkCount]);
 
+  // After a reload, reopen the comment the reviewer was writing
+  useEffect(() => {
+    if (!reviewId || draftRestoredFor.current === reviewId || parsedFiles.length === 0) return;
+    draftRestoredFor.current = reviewId;
+    if (isReadOnly || !draftComment || draftComment.file !== selectedFile) return;
+
+    const key = lineToKeyMap[`${selectedFile}:${draftComment.line}`];
+    if (!key) return;
+    setRestoredDraft(draftComment);
+    setActiveCommentKey(key);
+  }, [reviewId, parsedFiles, isReadOnly, draftComment, selectedFile, lineToKeyMap, setActiveCommentKey]);
+
   // Scroll to focused hunk and apply visual highlight
   useEffect(() => {
     const container = scrollContainerRef.current;
@@ -543,9 +662,28 @@ export function DiffViewer() {
           renderGutter={renderGutter}
         >
           {(hunks) =>
-            hunks.map((hunk) => (
-              <DiffHunk key={hunk.content} hunk={hunk} />
-            ))
+            hunks.flatMap((hunk) => {
+              const elements = [<DiffHunk key={hunk.content} hunk={hunk} />];
+              if (hunkStage) {
+                elements.unshift(
+                  <Decoration key={`actions-${hunk.content}`}>
+                    <HunkActionBar
+                      header={hunk.content}
+                      stage={hunkStage}
+                      onAction={(action) =>
+                        applyHunkAction(action, {
+                          file: displayPath,
+                          stage: hunkStage,
+                          oldStart: hunk.oldStart,
+                          newStart: hunk.newStart,
+                        })
+                      }
+                    />
+                  </Decoration>,
+                );
+              }
+              return elements;
+            })
           }
         </Diff>
       </div>
@@ -553,6 +691,72 @@ export function DiffViewer() {
   );
 }
 
+function HunkActionBar({
+  header,
+  stage,
+  onAction,
+}: {
+  header: string;
+  stage: "staged" | "unstaged";
+  onAction: (action: HunkAction) => Promise<string | null>;
+}) {
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(action: HunkAction) {
+    if (action === "discard" && !window.confirm("Discard this hunk? The change will be lost.")) {
+      return;
+    }
+    setPending(true);
+    setError(null);
+    setError(await onAction(action));
+    setPending(false);
+  }
+
+  const buttonClass =
+    "flex items-center gap-1 px-1.5 py-0.5 rounded text-text-secondary hover:bg-text-primary/10 disabled:opacity-40 disabled:cursor-not-allowed transition-colors cursor-pointer";
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-1 text-xs font-mono">
+      <span className="text-text-secondary truncate">{header}</span>
+      <div className="flex-1" />
+      {error && <span className="text-danger font-sans truncate">{error}</span>}
+      {stage === "unstaged" ? (
+        <>
+          <button
+            onClick={() => run("stage")}
+            disabled={pending}
+            className={`${buttonClass} hover:text-text-primary`}
+            title="Stage hunk"
+          >
+            <Plus className="w-3 h-3" />
+            Stage
+          </button>
+          <button
+            onClick={() => run("discard")}
+            disabled={pending}
+            className={`${buttonClass} hover:text-danger`}
+            title="Discard hunk"
+          >
+            <Undo2 className="w-3 h-3" />
+            Discard
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={() => run("unstage")}
+          disabled={pending}
+          className={`${buttonClass} hover:text-text-primary`}
+          title="Unstage hunk"
+        >
+          <Minus className="w-3 h-3" />
+          Unstage
+        </button>
+      )}
+    </div>
+  );
+}
+
 function FileHeader({
   path,
   stage,
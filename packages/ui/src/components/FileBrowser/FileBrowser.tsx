@@ -72,8 +72,10 @@ interface FileBrowserProps {
 }
 
 export function FileBrowser({ onSubmit }: FileBrowserProps) {
-  const { diffSet, selectedFile, selectFile, fileStatuses, cycleFileStatus, toggleHotkeyGuide, comments, navigateHunk, setFileStatus, briefing } =
+  const { diffSet: fullDiffSet, interdiff, selectedFile, selectFile, fileStatuses, cycleFileStatus, toggleHotkeyGuide, comments, navigateHunk, setFileStatus, briefing } =
     useReviewStore();
+  // While comparing against an earlier round, list the files that changed since
+  const diffSet = interdiff?.diffSet ?? fullDiffSet;
 
   const [collapsedSections, setCollapsedSections] = useState<Record<string, boolean>>({});
   const [menuOpen, setMenuOpen] = useState(false);
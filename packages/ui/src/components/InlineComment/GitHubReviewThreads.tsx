@@ -0,0 +1,274 @@
+import { useState } from "react";
+import {
+  CheckCircle2,
+  ChevronRight,
+  ExternalLink,
+  GitPullRequest,
+  Pencil,
+  Reply,
+  Trash2,
+} from "lucide-react";
+import type { GitHubReviewThread, GitHubThreadComment } from "../../types";
+
+// Each action resolves to an error message, or null on success
+type GitHubThreadAction<Args extends unknown[]> = (...args: Args) => Promise<string | null>;
+
+interface GitHubThreadActions {
+  onReply?: GitHubThreadAction<[threadId: string, body: string]>;
+  onResolve?: GitHubThreadAction<[threadId: string, resolved: boolean]>;
+  onEditComment?: GitHubThreadAction<[commentId: string, body: string]>;
+  onDeleteComment?: GitHubThreadAction<[commentId: string]>;
+}
+
+interface GitHubReviewThreadsProps extends GitHubThreadActions {
+  threads: GitHubReviewThread[];
+}
+
+interface BodyEditorProps {
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => void;
+  onCancel: () => void;
+}
+
+function BodyEditor({ initialBody = "", placeholder, submitLabel, onSubmit, onCancel }: BodyEditorProps) {
+  const [body, setBody] = useState(initialBody);
+
+  function handleSubmit() {
+    if (!body.trim()) return;
+    onSubmit(body.trim());
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onCancel();
+    }
+  }
+
+  return (
+    <div className="space-y-1.5" onKeyDown={handleKeyDown}>
+      <textarea
+        autoFocus
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={2}
+        className="w-full bg-background border border-border rounded px-3 py-2 text-text-primary text-sm placeholder:text-text-secondary/50 resize-none focus:outline-none focus:ring-1 focus:ring-accent focus:border-accent"
+      />
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 text-xs text-text-secondary hover:text-text-primary transition-colors cursor-pointer"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={!body.trim()}
+          className="px-3 py-1 text-xs font-medium rounded bg-accent/20 text-accent border border-accent/30 hover:bg-accent/30 disabled:opacity-40 disabled:cursor-not-allowed transition-colors cursor-pointer"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface GitHubCommentProps {
+  comment: GitHubThreadComment;
+  run: (action: () => Promise<string | null>) => Promise<boolean>;
+  onEditComment?: GitHubThreadActions["onEditComment"];
+  onDeleteComment?: GitHubThreadActions["onDeleteComment"];
+}
+
+function GitHubComment({ comment, run, onEditComment, onDeleteComment }: GitHubCommentProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  // GitHub only lets the author edit or delete their own comments
+  const canModify = comment.viewerDidAuthor;
+
+  return (
+    <div className="border-l-2 border-border pl-2 group">
+      <div className="flex items-center gap-1.5">
+        <span className="text-text-secondary text-[10px] font-semibold">{comment.author}</span>
+        <span className="text-text-secondary/70 text-[10px]">
+          {new Date(comment.createdAt).toLocaleString()}
+        </span>
+        <a
+          href={comment.url}
+          target="_blank"
+          rel="noreferrer"
+          className="text-text-secondary hover:text-accent transition-colors"
+          title="Open on GitHub"
+        >
+          <ExternalLink className="w-2.5 h-2.5" />
+        </a>
+        {canModify && !isEditing && (
+          <div className="ml-auto flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            {onEditComment && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="p-0.5 text-text-secondary hover:text-accent transition-colors cursor-pointer"
+                title="Edit on GitHub"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+            )}
+            {onDeleteComment && (
+              <button
+                onClick={() => run(() => onDeleteComment(comment.id))}
+                className="p-0.5 text-text-secondary hover:text-danger transition-colors cursor-pointer"
+                title="Delete on GitHub"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {isEditing && onEditComment ? (
+        <div className="mt-1">
+          <BodyEditor
+            initialBody={comment.body}
+            placeholder="Edit comment..."
+            submitLabel="Save"
+            onSubmit={async (body) => {
+              if (await run(() => onEditComment(comment.id, body))) {
+                setIsEditing(false);
+              }
+            }}
+            onCancel={() => setIsEditing(false)}
+          />
+        </div>
+      ) : (
+        <p className="text-text-primary text-sm whitespace-pre-wrap">{comment.body}</p>
+      )}
+    </div>
+  );
+}
+
+function GitHubThread({
+  thread,
+  onReply,
+  onResolve,
+  onEditComment,
+  onDeleteComment,
+}: { thread: GitHubReviewThread } & GitHubThreadActions) {
+  // Resolved discussions start collapsed, like on GitHub
+  const [expanded, setExpanded] = useState(!thread.isResolved);
+  const [isReplying, setIsReplying] = useState(false);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [first] = thread.comments;
+
+  async function run(action: () => Promise<string | null>): Promise<boolean> {
+    setPending(true);
+    setError(null);
+    const failure = await action();
+    setPending(false);
+    setError(failure);
+    return failure === null;
+  }
+
+  return (
+    <div className="px-3 py-2 border-b border-border/50">
+      <div className="flex items-center gap-1.5">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-1.5 flex-1 min-w-0 text-left cursor-pointer"
+        >
+          <ChevronRight
+            className={`w-3 h-3 text-text-secondary transition-transform ${expanded ? "rotate-90" : ""}`}
+          />
+          <span className="text-text-primary text-xs font-semibold">{first?.author ?? "unknown"}</span>
+          {thread.comments.length > 1 && (
+            <span className="text-text-secondary text-[10px]">
+              +{thread.comments.length - 1} repl{thread.comments.length === 2 ? "y" : "ies"}
+            </span>
+          )}
+          {thread.isResolved && (
+            <span className="flex items-center gap-0.5 text-[10px] text-success">
+              <CheckCircle2 className="w-3 h-3" />
+              Resolved
+            </span>
+          )}
+          {thread.isOutdated && (
+            <span className="text-[10px] px-1.5 py-0.5 rounded border border-border text-text-secondary">
+              Outdated
+            </span>
+          )}
+        </button>
+        {onResolve && (
+          <button
+            onClick={() => run(() => onResolve(thread.id, !thread.isResolved))}
+            disabled={pending}
+            className="text-[10px] px-1.5 py-0.5 rounded border border-border text-text-secondary hover:text-text-primary hover:border-text-secondary disabled:opacity-40 disabled:cursor-not-allowed transition-colors cursor-pointer"
+          >
+            {thread.isResolved ? "Unresolve" : "Resolve"}
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-1.5 ml-4 space-y-2">
+          {thread.comments.map((comment) => (
+            <GitHubComment
+              key={comment.id}
+              comment={comment}
+              run={run}
+              onEditComment={onEditComment}
+              onDeleteComment={onDeleteComment}
+            />
+          ))}
+
+          {onReply && !isReplying && (
+            <button
+              onClick={() => setIsReplying(true)}
+              className="flex items-center gap-1 text-xs text-text-secondary hover:text-accent transition-colors cursor-pointer"
+            >
+              <Reply className="w-3 h-3" />
+              Reply on GitHub
+            </button>
+          )}
+
+          {onReply && isReplying && (
+            <BodyEditor
+              placeholder="Write a reply..."
+              submitLabel="Reply"
+              onSubmit={async (body) => {
+                if (await run(() => onReply(thread.id, body))) {
+                  setIsReplying(false);
+                }
+              }}
+              onCancel={() => setIsReplying(false)}
+            />
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-1 ml-4 text-xs text-danger">{error}</p>}
+    </div>
+  );
+}
+
+export function GitHubReviewThreads({ threads, ...actions }: GitHubReviewThreadsProps) {
+  if (threads.length === 0) return null;
+
+  return (
+    <div className="border-t border-border bg-surface">
+      <div className="px-3 py-1.5 flex items-center gap-1.5 border-b border-border/50">
+        <GitPullRequest className="w-3 h-3 text-text-secondary" />
+        <span className="text-[10px] font-semibold text-text-secondary uppercase tracking-wide">
+          GitHub {threads.length === 1 ? "Thread" : `Threads (${threads.length})`}
+        </span>
+      </div>
+      {threads.map((thread) => (
+        <GitHubThread key={thread.id} thread={thread} {...actions} />
+      ))}
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import {
 } from "lucide-react";
 import type { Annotation } from "../../types";
 import { CATEGORY_COLORS, CATEGORY_BADGE_STYLES } from "../../lib/semantic-colors";
+import { ThreadReplies } from "./ThreadReplies";
+import { SuggestedChangePreview } from "./SuggestedChangePreview";
 
 const TYPE_ICONS: Record<string, typeof AlertTriangle> = {
   finding: AlertCircle,
@@ -19,11 +21,15 @@ const TYPE_ICONS: Record<string, typeof AlertTriangle> = {
 interface InlineAnnotationThreadProps {
   annotations: Annotation[];
   onDismiss: (annotationId: string) => void;
+  onReply?: (annotationId: string, body: string) => void;
+  onApplySuggestion?: (annotationId: string) => Promise<string | null>;
 }
 
 export function InlineAnnotationThread({
   annotations,
   onDismiss,
+  onReply,
+  onApplySuggestion,
 }: InlineAnnotationThreadProps) {
   if (annotations.length === 0) return null;
 
@@ -70,6 +76,16 @@ export function InlineAnnotationThread({
             <p className="text-text-primary text-sm whitespace-pre-wrap">
               {annotation.body}
             </p>
+            {annotation.suggestedChange && (
+              <SuggestedChangePreview
+                change={annotation.suggestedChange}
+                onApply={onApplySuggestion ? () => onApplySuggestion(annotation.id) : undefined}
+              />
+            )}
+            <ThreadReplies
+              replies={annotation.replies ?? []}
+              onReply={onReply ? (body) => onReply(annotation.id, body) : undefined}
+            />
           </div>
         );
       })}
@@ -4,6 +4,9 @@ import { useReviewStore } from "../../store/review";
 
 type CommentType = ReviewComment["type"];
 
+/** Line range and suggested replacement a comment can carry. */
+export type CommentRange = Pick<ReviewComment, "startLine" | "suggestion">;
+
 const COMMENT_TYPES: { value: CommentType; label: string }[] = [
   { value: "suggestion", label: "Suggestion" },
   { value: "must_fix", label: "Must Fix" },
@@ -12,10 +15,12 @@ const COMMENT_TYPES: { value: CommentType; label: string }[] = [
 ];
 
 interface InlineCommentFormProps {
-  onSave: (body: string, type: CommentType) => void;
+  onSave: (body: string, type: CommentType, range: CommentRange) => void;
   onCancel: () => void;
   initialBody?: string;
   initialType?: CommentType;
+  initialStartLine?: number;
+  initialSuggestion?: string;
   file?: string;
   line?: number;
 }
@@ -25,11 +30,16 @@ export function InlineCommentForm({
   onCancel,
   initialBody = "",
   initialType = "suggestion",
+  initialStartLine,
+  initialSuggestion,
   file,
   line,
 }: InlineCommentFormProps) {
   const [body, setBody] = useState(initialBody);
   const [type, setType] = useState<CommentType>(initialType);
+  const [startLine, setStartLine] = useState(initialStartLine?.toString() ?? "");
+  const [suggesting, setSuggesting] = useState(initialSuggestion !== undefined);
+  const [suggestion, setSuggestion] = useState(initialSuggestion ?? "");
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const setDraftComment = useReviewStore((s) => s.setDraftComment);
 
@@ -37,21 +47,37 @@ export function InlineCommentForm({
     textareaRef.current?.focus();
   }, []);
 
+  // A start line is only kept when it opens a range ending at this line
+  const parsedStart = Number.parseInt(startLine, 10);
+  const rangeStart =
+    line !== undefined && parsedStart >= 1 && parsedStart < line ? parsedStart : undefined;
+  const range: CommentRange = {
+    ...(rangeStart !== undefined && { startLine: rangeStart }),
+    ...(suggesting && { suggestion }),
+  };
+
   // Sync draft state to store so ActionBar can detect unsaved comments
   useEffect(() => {
     if (file !== undefined && line !== undefined) {
       if (body.trim()) {
-        setDraftComment({ body, type, file, line });
+        setDraftComment({
+          body,
+          type,
+          file,
+          line,
+          ...(rangeStart !== undefined && { startLine: rangeStart }),
+          ...(suggesting && { suggestion }),
+        });
       } else {
         setDraftComment(null);
       }
     }
-  }, [body, type, file, line, setDraftComment]);
+  }, [body, type, file, line, rangeStart, suggesting, suggestion, setDraftComment]);
 
   function handleSave() {
     if (body.trim()) {
       setDraftComment(null);
-      onSave(body.trim(), type);
+      onSave(body.trim(), type, range);
     }
   }
 
@@ -80,6 +106,15 @@ export function InlineCommentForm({
         rows={3}
         className="w-full bg-background border border-border rounded px-3 py-2 text-text-primary text-sm placeholder:text-text-secondary/50 resize-none focus:outline-none focus:ring-1 focus:ring-accent focus:border-accent"
       />
+      {suggesting && (
+        <textarea
+          value={suggestion}
+          onChange={(e) => setSuggestion(e.target.value)}
+          placeholder="Replacement for the commented lines (leave empty to delete them)"
+          rows={3}
+          className="w-full bg-background border border-border rounded px-3 py-2 text-text-primary text-xs font-mono placeholder:text-text-secondary/50 resize-none focus:outline-none focus:ring-1 focus:ring-accent focus:border-accent"
+        />
+      )}
       <div className="flex items-center gap-2">
         <select
           value={type}
@@ -92,6 +127,29 @@ export function InlineCommentForm({
             </option>
           ))}
         </select>
+        {line !== undefined && (
+          <label className="flex items-center gap-1 text-xs text-text-secondary">
+            From line
+            <input
+              type="number"
+              min={1}
+              max={line - 1}
+              value={startLine}
+              onChange={(e) => setStartLine(e.target.value)}
+              placeholder={String(line)}
+              className="w-16 bg-background border border-border rounded px-2 py-1 text-text-primary text-xs font-mono placeholder:text-text-secondary/50 focus:outline-none focus:ring-1 focus:ring-accent"
+            />
+          </label>
+        )}
+        <label className="flex items-center gap-1 text-xs text-text-secondary cursor-pointer">
+          <input
+            type="checkbox"
+            checked={suggesting}
+            onChange={(e) => setSuggesting(e.target.checked)}
+            className="rounded border-border accent-accent"
+          />
+          Suggest change
+        </label>
         <div className="flex-1" />
         <button
           onClick={handleCancel}
@@ -2,7 +2,9 @@ import { useState } from "react";
 import { Pencil, Trash2, Plus } from "lucide-react";
 import type { ReviewComment } from "../../types";
 import { InlineCommentForm } from "./InlineCommentForm";
+import type { CommentRange } from "./InlineCommentForm";
 import { COMMENT_TYPE_STYLES } from "../../lib/semantic-colors";
+import { ThreadReplies } from "./ThreadReplies";
 
 const TYPE_LABELS: Record<ReviewComment["type"], string> = {
   must_fix: "Must Fix",
@@ -16,9 +18,10 @@ interface InlineCommentThreadProps {
   isFormOpen: boolean;
   file: string;
   line: number;
-  onAdd: (body: string, type: ReviewComment["type"]) => void;
-  onUpdate: (index: number, body: string, type: ReviewComment["type"]) => void;
+  onAdd: (body: string, type: ReviewComment["type"], range: CommentRange) => void;
+  onUpdate: (index: number, body: string, type: ReviewComment["type"], range: CommentRange) => void;
   onDelete: (index: number) => void;
+  onReply?: (commentId: string, body: string) => void;
   onOpenForm: () => void;
   onCloseForm: () => void;
 }
@@ -31,6 +34,7 @@ export function InlineCommentThread({
   onAdd,
   onUpdate,
   onDelete,
+  onReply,
   onOpenForm,
   onCloseForm,
 }: InlineCommentThreadProps) {
@@ -45,10 +49,12 @@ export function InlineCommentThread({
               key={index}
               initialBody={comment.body}
               initialType={comment.type}
+              initialStartLine={comment.startLine}
+              initialSuggestion={comment.suggestion}
               file={file}
               line={line}
-              onSave={(body, type) => {
-                onUpdate(index, body, type);
+              onSave={(body, type, range) => {
+                onUpdate(index, body, type, range);
                 setEditingIndex(null);
               }}
               onCancel={() => setEditingIndex(null)}
@@ -56,6 +62,7 @@ export function InlineCommentThread({
           );
         }
 
+        const commentId = comment.id;
         return (
           <div
             key={index}
@@ -68,7 +75,7 @@ export function InlineCommentThread({
                 {TYPE_LABELS[comment.type]}
               </span>
               <span className="text-text-secondary text-[10px] font-mono">
-                {file}:{line}
+                {file}:{comment.startLine !== undefined ? `${comment.startLine}-${line}` : line}
               </span>
               <div className="flex-1" />
               <button
@@ -89,6 +96,15 @@ export function InlineCommentThread({
             <p className="text-text-primary text-sm whitespace-pre-wrap">
               {comment.body}
             </p>
+            {comment.suggestion !== undefined && (
+              <pre className="mt-2 px-2 py-1 rounded border border-border bg-background text-xs font-mono overflow-x-auto">
+                {comment.suggestion || "(delete these lines)"}
+              </pre>
+            )}
+            <ThreadReplies
+              replies={comment.replies ?? []}
+              onReply={onReply && commentId ? (body) => onReply(commentId, body) : undefined}
+            />
           </div>
         );
       })}
@@ -97,8 +113,8 @@ export function InlineCommentThread({
         <InlineCommentForm
           file={file}
           line={line}
-          onSave={(body, type) => {
-            onAdd(body, type);
+          onSave={(body, type, range) => {
+            onAdd(body, type, range);
             onCloseForm();
           }}
           onCancel={onCloseForm}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Check, Wand2 } from "lucide-react";
+import type { SuggestedChange } from "../../types";
+import { SUGGESTION_LINE_STYLES } from "../../lib/semantic-colors";
+
+interface SuggestedChangePreviewProps {
+  change: SuggestedChange;
+  onApply?: () => Promise<string | null>;
+}
+
+function toLines(text: string): string[] {
+  if (text === "") return [];
+  return text.replace(/\r?\n$/, "").split(/\r?\n/);
+}
+
+export function SuggestedChangePreview({ change, onApply }: SuggestedChangePreviewProps) {
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const range =
+    change.startLine === change.endLine
+      ? `Line ${change.startLine}`
+      : `Lines ${change.startLine}-${change.endLine}`;
+
+  async function handleApply() {
+    if (!onApply) return;
+    setApplying(true);
+    setError(null);
+    setError(await onApply());
+    setApplying(false);
+  }
+
+  return (
+    <div className="mt-2 rounded border border-border overflow-hidden">
+      <div className="flex items-center gap-2 px-2 py-1 bg-background border-b border-border">
+        <span className="text-[10px] font-semibold text-text-secondary uppercase tracking-wide">
+          Suggested change · {range}
+        </span>
+        <div className="flex-1" />
+        {change.appliedAt ? (
+          <span className="flex items-center gap-1 text-xs text-success">
+            <Check className="w-3 h-3" />
+            Applied
+          </span>
+        ) : (
+          onApply && (
+            <button
+              onClick={handleApply}
+              disabled={applying}
+              className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded bg-accent/20 text-accent border border-accent/30 hover:bg-accent/30 disabled:opacity-40 disabled:cursor-not-allowed transition-colors cursor-pointer"
+            >
+              <Wand2 className="w-3 h-3" />
+              {applying ? "Applying..." : "Apply"}
+            </button>
+          )
+        )}
+      </div>
+      <pre className="text-xs font-mono overflow-x-auto">
+        {change.original !== null &&
+          toLines(change.original).map((line, i) => (
+            <div key={`before-${i}`} className={`px-2 ${SUGGESTION_LINE_STYLES.before}`}>
+              - {line}
+            </div>
+          ))}
+        {toLines(change.replacement).map((line, i) => (
+          <div key={`after-${i}`} className={`px-2 ${SUGGESTION_LINE_STYLES.after}`}>
+            + {line}
+          </div>
+        ))}
+      </pre>
+      {error && <p className="px-2 py-1 text-xs text-danger border-t border-border">{error}</p>}
+    </div>
+  );
+}
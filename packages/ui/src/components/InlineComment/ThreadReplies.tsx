@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Bot, User, Reply } from "lucide-react";
+import type { ThreadReply } from "../../types";
+
+interface ThreadRepliesProps {
+  replies: ThreadReply[];
+  onReply?: (body: string) => void;
+}
+
+export function ThreadReplies({ replies, onReply }: ThreadRepliesProps) {
+  const [isReplying, setIsReplying] = useState(false);
+  const [body, setBody] = useState("");
+
+  function handleSend() {
+    if (!body.trim() || !onReply) return;
+    onReply(body.trim());
+    setBody("");
+    setIsReplying(false);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if ((e.metaKey || e.ctrlKey) && e.key === "Enter") {
+      e.preventDefault();
+      handleSend();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setIsReplying(false);
+    }
+  }
+
+  if (replies.length === 0 && !onReply) return null;
+
+  return (
+    <div className="mt-2 ml-5 space-y-1.5">
+      {replies.map((reply) => {
+        const Icon = reply.author.kind === "agent" ? Bot : User;
+        return (
+          <div key={reply.id} className="border-l-2 border-border pl-2">
+            <div className="flex items-center gap-1.5">
+              <Icon className="w-3 h-3 text-text-secondary" />
+              <span className="text-text-secondary text-[10px] font-semibold">
+                {reply.author.name}
+              </span>
+            </div>
+            <p className="text-text-primary text-sm whitespace-pre-wrap">{reply.body}</p>
+          </div>
+        );
+      })}
+
+      {onReply && !isReplying && (
+        <button
+          onClick={() => setIsReplying(true)}
+          className="flex items-center gap-1 text-xs text-text-secondary hover:text-accent transition-colors cursor-pointer"
+        >
+          <Reply className="w-3 h-3" />
+          Reply
+        </button>
+      )}
+
+      {onReply && isReplying && (
+        <div className="space-y-1.5" onKeyDown={handleKeyDown}>
+          <textarea
+            autoFocus
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Write a reply..."
+            rows={2}
+            className="w-full bg-background border border-border rounded px-3 py-2 text-text-primary text-sm placeholder:text-text-secondary/50 resize-none focus:outline-none focus:ring-1 focus:ring-accent focus:border-accent"
+          />
+          <div className="flex items-center justify-end gap-2">
+            <button
+              onClick={() => setIsReplying(false)}
+              className="px-3 py-1 text-xs text-text-secondary hover:text-text-primary transition-colors cursor-pointer"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSend}
+              disabled={!body.trim()}
+              className="px-3 py-1 text-xs font-medium rounded bg-accent/20 text-accent border border-accent/30 hover:bg-accent/30 disabled:opacity-40 disabled:cursor-not-allowed transition-colors cursor-pointer"
+            >
+              Reply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,6 @@
 export { InlineCommentForm } from "./InlineCommentForm";
 export { InlineCommentThread } from "./InlineCommentThread";
 export { InlineAnnotationThread } from "./InlineAnnotationThread";
+export { ThreadReplies } from "./ThreadReplies";
+export { SuggestedChangePreview } from "./SuggestedChangePreview";
+export { GitHubReviewThreads } from "./GitHubReviewThreads";
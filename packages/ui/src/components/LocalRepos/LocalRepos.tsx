@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, Plus, X } from "lucide-react";
+import { serverFetch } from "../../lib/server-api";
+
+interface RegisteredRepo {
+  path: string;
+  exists: boolean;
+}
+
+function getHttpPort(): string | null {
+  return new URLSearchParams(window.location.search).get("httpPort");
+}
+
+export function LocalRepos() {
+  const [repos, setRepos] = useState<RegisteredRepo[] | null>(null);
+  const [newPath, setNewPath] = useState("");
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRepos = useCallback(async () => {
+    const httpPort = getHttpPort();
+    if (!httpPort) return;
+
+    try {
+      const res = await serverFetch(`http://localhost:${httpPort}/api/repos`);
+      const data = await res.json() as { repos: RegisteredRepo[] };
+      setRepos(data.repos);
+    } catch {
+      setError("Could not connect to server");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRepos();
+  }, [fetchRepos]);
+
+  const handleAdd = useCallback(async () => {
+    const httpPort = getHttpPort();
+    if (!httpPort || !newPath.trim()) return;
+
+    setPending(true);
+    setError(null);
+    try {
+      const res = await serverFetch(`http://localhost:${httpPort}/api/repos`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ path: newPath.trim() }),
+      });
+      const data = await res.json() as { error?: string };
+      if (!res.ok) {
+        setError(data.error ?? "Failed to add repository");
+      } else {
+        setNewPath("");
+        await fetchRepos();
+      }
+    } catch {
+      setError("Could not connect to server");
+    } finally {
+      setPending(false);
+    }
+  }, [newPath, fetchRepos]);
+
+  const handleRemove = useCallback(async (repoPath: string) => {
+    const httpPort = getHttpPort();
+    if (!httpPort) return;
+
+    setError(null);
+    try {
+      const res = await serverFetch(
+        `http://localhost:${httpPort}/api/repos?path=${encodeURIComponent(repoPath)}`,
+        { method: "DELETE" },
+      );
+      if (!res.ok) {
+        const data = await res.json() as { error?: string };
+        setError(data.error ?? "Failed to remove repository");
+      }
+      await fetchRepos();
+    } catch {
+      setError("Could not connect to server");
+    }
+  }, [fetchRepos]);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-text-secondary text-xs">
+        PRs are matched against these clones' remotes so reviews get full file context.
+        Projects you open or review are added automatically.
+      </p>
+
+      <div className="border border-border rounded max-h-[300px] overflow-y-auto">
+        {!repos ? (
+          <div className="px-3 py-4 text-text-secondary text-xs text-center">Loading...</div>
+        ) : repos.length === 0 ? (
+          <div className="px-3 py-4 text-text-secondary text-xs text-center">No repositories registered</div>
+        ) : (
+          repos.map((repo) => (
+            <div
+              key={repo.path}
+              className="flex items-center gap-2 px-3 py-1.5 border-b border-border last:border-b-0"
+            >
+              <span className="text-text-primary text-xs font-mono truncate flex-1" title={repo.path}>
+                {repo.path}
+              </span>
+              {!repo.exists && (
+                <span className="text-[10px] px-1.5 py-px rounded border bg-warning/15 text-warning border-warning/30">
+                  Missing
+                </span>
+              )}
+              <button
+                onClick={() => handleRemove(repo.path)}
+                className="p-0.5 rounded hover:bg-border/50 text-text-secondary hover:text-danger transition-colors flex-shrink-0"
+                title="Remove"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newPath}
+          onChange={(e) => setNewPath(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") handleAdd(); }}
+          placeholder="/path/to/clone"
+          className="flex-1 bg-background border border-border rounded px-3 py-1.5 text-text-primary text-xs font-mono placeholder:text-text-secondary/50 focus:outline-none focus:border-accent"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={pending || !newPath.trim()}
+          className="flex items-center gap-1 bg-accent/15 text-accent text-xs font-medium rounded px-3 py-1.5 hover:bg-accent/25 disabled:opacity-50 transition-colors"
+        >
+          {pending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Plus className="w-3.5 h-3.5" />}
+          Add
+        </button>
+      </div>
+
+      {error && <p className="text-danger text-xs">{error}</p>}
+    </div>
+  );
+}
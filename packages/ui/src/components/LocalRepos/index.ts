@@ -0,0 +1 @@
+export { LocalRepos } from "./LocalRepos.js";
@@ -1,5 +1,6 @@
 import { useState, useCallback } from "react";
 import { GitPullRequest, Loader2, ExternalLink } from "lucide-react";
+import { serverFetch } from "../../lib/server-api";
 
 interface PrInputProps {
   onSuccess?: () => void;
@@ -35,7 +36,7 @@ export function PrInput({ onSuccess }: PrInputProps) {
     setError(null);
 
     try {
-      const res = await fetch(`http://localhost:${httpPort}/api/pr/open`, {
+      const res = await serverFetch(`http://localhost:${httpPort}/api/pr/open`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ prUrl: prUrl.trim() }),
@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback } from "react";
+import { CheckCircle2, XCircle, CircleDot, Circle, Loader2, RefreshCw } from "lucide-react";
+import { serverFetch } from "../../lib/server-api";
+import type { CiStatus, InboxEntry, InboxPayload, InboxReason } from "../../types";
+
+interface ReviewInboxProps {
+  onOpened?: () => void;
+}
+
+function getHttpPort(): string | null {
+  return new URLSearchParams(window.location.search).get("httpPort");
+}
+
+const REASON_LABELS: Record<InboxReason, string> = {
+  review_requested: "Review requested",
+  authored: "Your PR",
+  local_repo: "Local clone",
+};
+
+const REASON_STYLES: Record<InboxReason, string> = {
+  review_requested: "bg-accent/15 text-accent border-accent/30",
+  authored: "bg-info/15 text-info border-info/30",
+  local_repo: "bg-neutral/15 text-neutral border-neutral/30",
+};
+
+const CI_ICONS: Record<CiStatus, { icon: typeof Circle; className: string; label: string }> = {
+  success: { icon: CheckCircle2, className: "text-success", label: "CI passing" },
+  failure: { icon: XCircle, className: "text-danger", label: "CI failing" },
+  pending: { icon: CircleDot, className: "text-warning", label: "CI running" },
+  none: { icon: Circle, className: "text-text-secondary", label: "No CI" },
+};
+
+function formatAge(iso: string): string {
+  const diffHrs = Math.floor((Date.now() - new Date(iso).getTime()) / 3_600_000);
+  if (diffHrs < 1) return "just now";
+  if (diffHrs < 24) return `${diffHrs}h`;
+  return `${Math.floor(diffHrs / 24)}d`;
+}
+
+export function ReviewInbox({ onOpened }: ReviewInboxProps) {
+  const [inbox, setInbox] = useState<InboxPayload | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [openingUrl, setOpeningUrl] = useState<string | null>(null);
+
+  const fetchInbox = useCallback(async () => {
+    const httpPort = getHttpPort();
+    if (!httpPort) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await serverFetch(`http://localhost:${httpPort}/api/inbox`);
+      const data = await res.json() as InboxPayload & { error?: string };
+      if (!res.ok) {
+        setError(data.error ?? "Failed to load inbox");
+      } else {
+        setInbox(data);
+      }
+    } catch {
+      setError("Could not connect to server");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchInbox();
+  }, [fetchInbox]);
+
+  // Same flow as pasting the URL into the Review PR form
+  const handleOpen = useCallback(async (entry: InboxEntry) => {
+    const httpPort = getHttpPort();
+    if (!httpPort) return;
+
+    setOpeningUrl(entry.url);
+    setError(null);
+    try {
+      const res = await serverFetch(`http://localhost:${httpPort}/api/pr/open`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prUrl: entry.url }),
+      });
+      const data = await res.json() as { error?: string };
+      if (!res.ok) {
+        setError(data.error ?? "Failed to open PR");
+      } else {
+        onOpened?.();
+      }
+    } catch {
+      setError("Could not connect to server");
+    } finally {
+      setOpeningUrl(null);
+    }
+  }, [onOpened]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-text-secondary text-xs">
+          {inbox ? `${inbox.entries.length} pull request${inbox.entries.length !== 1 ? "s" : ""}` : "Loading..."}
+        </span>
+        <button
+          onClick={fetchInbox}
+          disabled={loading}
+          className="p-1 rounded hover:bg-border/50 text-text-secondary hover:text-text-primary disabled:opacity-50 transition-colors"
+          title="Refresh inbox"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${loading ? "animate-spin" : ""}`} />
+        </button>
+      </div>
+
+      {inbox?.errors.map((message) => (
+        <p key={message} className="text-warning text-[11px] whitespace-pre-wrap">{message}</p>
+      ))}
+
+      <div className="border border-border rounded max-h-[420px] overflow-y-auto">
+        {!inbox && loading ? (
+          <div className="px-3 py-4 text-text-secondary text-xs text-center">Loading...</div>
+        ) : inbox?.entries.length === 0 ? (
+          <div className="px-3 py-4 text-text-secondary text-xs text-center">No PRs waiting on you</div>
+        ) : (
+          inbox?.entries.map((entry) => {
+            const ci = CI_ICONS[entry.ci];
+            const CiIcon = ci.icon;
+            return (
+              <button
+                key={entry.url}
+                onClick={() => handleOpen(entry)}
+                disabled={openingUrl !== null}
+                className="w-full px-3 py-2 text-left border-b border-border last:border-b-0 hover:bg-border/30 disabled:cursor-wait transition-colors"
+              >
+                <div className="flex items-center gap-2">
+                  <span title={ci.label} className="flex-shrink-0">
+                    <CiIcon className={`w-3.5 h-3.5 ${ci.className}`} />
+                  </span>
+                  <span className="text-text-primary text-xs font-medium truncate flex-1">
+                    {entry.draft && <span className="text-text-secondary">[Draft] </span>}
+                    {entry.title}
+                  </span>
+                  {openingUrl === entry.url && (
+                    <Loader2 className="w-3.5 h-3.5 animate-spin text-accent flex-shrink-0" />
+                  )}
+                </div>
+                <div className="flex items-center gap-2 mt-1 pl-[22px] text-[10px] text-text-secondary">
+                  <span className="font-mono truncate">
+                    {entry.owner}/{entry.repo}#{entry.number}
+                  </span>
+                  <span>{entry.author}</span>
+                  <span>
+                    <span className="text-success">+{entry.additions}</span>{" "}
+                    <span className="text-danger">-{entry.deletions}</span>{" "}
+                    in {entry.changedFiles} file{entry.changedFiles !== 1 ? "s" : ""}
+                  </span>
+                  <span title={`Opened ${new Date(entry.createdAt).toLocaleString()}`}>{formatAge(entry.createdAt)}</span>
+                </div>
+                <div className="flex flex-wrap gap-1 mt-1 pl-[22px]">
+                  {entry.reasons.map((reason) => (
+                    <span key={reason} className={`text-[10px] px-1.5 py-px rounded border ${REASON_STYLES[reason]}`}>
+                      {REASON_LABELS[reason]}
+                    </span>
+                  ))}
+                </div>
+              </button>
+            );
+          })
+        )}
+      </div>
+
+      {error && <p className="text-danger text-xs">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { ReviewInbox } from "./ReviewInbox.js";
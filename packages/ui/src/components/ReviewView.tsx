@@ -6,6 +6,7 @@ import { ActionBar } from "./ActionBar";
 import { HotkeyGuide } from "./HotkeyGuide";
 import { WorkflowTips } from "./WorkflowTips";
 import { AnnotationPanel } from "./AnnotationPanel";
+import { RoundPanel } from "./RoundPanel";
 import { useReviewStore } from "../store/review";
 import type { ReviewResult } from "../types";
 import { getFileKey } from "../lib/file-key";
@@ -19,7 +20,9 @@ interface ReviewViewProps {
 }
 
 export function ReviewView({ onSubmit, onDismiss, isWatchMode, watchSubmitted, hasUnreviewedChanges }: ReviewViewProps) {
-  const { annotations, dismissAnnotation, selectFile, diffSet, metadata } = useReviewStore();
+  const { annotations, dismissAnnotation, selectFile, diffSet: fullDiffSet, metadata, rounds, interdiff, showInterdiff } =
+    useReviewStore();
+  const diffSet = interdiff?.diffSet ?? fullDiffSet;
   const isPrReview = !!metadata?.githubPr;
 
   // Resolve raw file paths (from annotations) to file keys (which may have stage prefixes)
@@ -43,11 +46,17 @@ export function ReviewView({ onSubmit, onDismiss, isWatchMode, watchSubmitted, h
       <BriefingBar />
       <ReasoningPanel />
       <div className="flex flex-1 min-h-0">
-        {/* Left sidebar — File Browser + Annotations */}
+        {/* Left sidebar — File Browser + Rounds + Annotations */}
         <div className="w-[280px] flex-shrink-0 flex flex-col overflow-hidden">
           <div className="flex-1 min-h-0">
             <FileBrowser onSubmit={onSubmit} />
           </div>
+          <RoundPanel
+            rounds={rounds}
+            interdiff={interdiff}
+            onShowInterdiff={showInterdiff}
+            onNavigate={navigateToFile}
+          />
           <AnnotationPanel
             annotations={annotations}
             onDismiss={dismissAnnotation}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { History, CheckCircle2, CircleDot } from "lucide-react";
+import type { Interdiff, ReviewRoundSummary } from "../../types";
+import { getDisplayPath } from "../../lib/file-key";
+
+interface RoundPanelProps {
+  rounds: ReviewRoundSummary[];
+  interdiff: Interdiff | null;
+  onShowInterdiff: (round: number | null) => Promise<string | null>;
+  onNavigate: (file: string) => void;
+}
+
+export function RoundPanel({
+  rounds,
+  interdiff,
+  onShowInterdiff,
+  onNavigate,
+}: RoundPanelProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (rounds.length === 0) return null;
+
+  const latest = rounds[rounds.length - 1];
+
+  const toggle = async () => {
+    setLoading(true);
+    setError(null);
+    const message = await onShowInterdiff(interdiff ? null : latest.number);
+    setLoading(false);
+    setError(message);
+  };
+
+  const outstanding = interdiff
+    ? interdiff.comments.filter((c) => c.state === "outstanding").length
+    : 0;
+
+  return (
+    <div className="border-t border-border flex-shrink-0 max-h-[40%] overflow-hidden flex flex-col">
+      <div className="px-4 py-2 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-text-secondary" />
+          <span className="text-xs font-semibold text-text-secondary uppercase tracking-wide">
+            Round {latest.number + 1}
+          </span>
+        </div>
+        <button
+          onClick={toggle}
+          disabled={loading}
+          className="text-xs text-accent hover:underline cursor-pointer disabled:opacity-50 disabled:cursor-default"
+        >
+          {interdiff ? "Full diff" : `Changes since round ${latest.number}`}
+        </button>
+      </div>
+
+      {error && (
+        <p className="px-4 pb-2 text-xs text-danger">{error}</p>
+      )}
+
+      {interdiff && (
+        <div className="flex-1 min-h-0 overflow-y-auto border-t border-border/50">
+          <div className="px-4 py-1.5 text-xs text-text-secondary">
+            {interdiff.exact ? "Line-level" : "File-level"} changes ·{" "}
+            {outstanding} of {interdiff.comments.length} comment
+            {interdiff.comments.length !== 1 ? "s" : ""} outstanding
+          </div>
+          {interdiff.comments.map((comment, i) => {
+            const addressed = comment.state === "addressed";
+            const Icon = addressed ? CheckCircle2 : CircleDot;
+            const path = getDisplayPath(comment.file);
+
+            return (
+              <div
+                key={comment.id ?? i}
+                className="px-4 py-2 flex items-start gap-2 hover:bg-text-primary/5 cursor-pointer"
+                onClick={() => onNavigate(path)}
+              >
+                <Icon
+                  className={`w-3.5 h-3.5 mt-0.5 flex-shrink-0 ${addressed ? "text-success" : "text-warning"}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-0.5">
+                    <span className="text-xs text-text-secondary font-mono truncate">
+                      {path}:{comment.line}
+                    </span>
+                    <span
+                      className={`text-[10px] font-semibold uppercase ${addressed ? "text-success" : "text-warning"}`}
+                    >
+                      {comment.state}
+                    </span>
+                  </div>
+                  <p className="text-xs text-text-primary truncate">{comment.body}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { RoundPanel } from "./RoundPanel.js";
@@ -1,5 +1,5 @@
-import { GitBranch, GitPullRequest, Clock, X, AlertCircle, FolderOpen, Plus } from "lucide-react";
-import type { SessionSummary } from "../../types";
+import { GitBranch, GitPullRequest, GitCommitHorizontal, Clock, X, AlertCircle, FolderOpen, Plus, Inbox, HardDrive } from "lucide-react";
+import type { PostReviewActionRun, PrReviewPostRun, SessionSummary } from "../../types";
 import { STATUS_BADGE_STYLES } from "../../lib/semantic-colors";
 
 interface SessionSidebarProps {
@@ -9,6 +9,8 @@ interface SessionSidebarProps {
   onClose: (sessionId: string) => void;
   onOpenProject?: () => void;
   onReviewPr?: () => void;
+  onOpenInbox?: () => void;
+  onOpenRepos?: () => void;
 }
 
 function formatRelativeTime(timestamp: number): string {
@@ -25,9 +27,11 @@ function formatRelativeTime(timestamp: number): string {
 }
 
 function getProjectName(projectPath: string): string {
-  // GitHub PR sessions: "github:owner/repo#123" → "owner/repo#123"
-  if (projectPath.startsWith("github:")) {
-    return projectPath.slice(7);
+  // PR sessions: "github:owner/repo#123" → "owner/repo#123",
+  // "gitlab:group/project#12" → "group/project!12"
+  const remote = projectPath.match(/^(github|gitlab):(.*)$/);
+  if (remote) {
+    return remote[1] === "gitlab" ? remote[2].replace(/#(\d+)$/, "!$1") : remote[2];
   }
   const parts = projectPath.split("/");
   return parts[parts.length - 1] || projectPath;
@@ -56,7 +60,64 @@ function statusBadge(session: SessionSummary) {
   );
 }
 
-export function SessionSidebar({ sessions, activeSessionId, onSelect, onClose, onOpenProject, onReviewPr }: SessionSidebarProps) {
+function PostReviewActionStatus({ run }: { run: PostReviewActionRun }) {
+  if (run.status === "failed") {
+    return (
+      <p className="mt-1 text-[10px] text-danger truncate" title={run.error}>
+        {run.action === "commit" ? "Commit" : "Commit & PR"} failed: {run.error}
+      </p>
+    );
+  }
+
+  if (run.status === "running") {
+    return (
+      <p className="mt-1 text-[10px] text-text-secondary">
+        {run.action === "commit" ? "Committing..." : "Committing and opening PR..."}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 mt-1 text-[10px] text-success">
+      {run.commitSha && (
+        <span className="flex items-center gap-0.5 font-mono">
+          <GitCommitHorizontal className="w-2.5 h-2.5" />
+          {run.commitSha.slice(0, 7)}
+        </span>
+      )}
+      {run.pullRequest && (
+        <a
+          href={run.pullRequest.url}
+          target="_blank"
+          rel="noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          className="flex items-center gap-0.5 hover:underline"
+        >
+          <GitPullRequest className="w-2.5 h-2.5" />
+          PR #{run.pullRequest.number}
+        </a>
+      )}
+    </div>
+  );
+}
+
+function PrReviewPostStatus({ run }: { run: PrReviewPostRun }) {
+  if (run.status === "failed") {
+    return (
+      <p className="mt-1 text-[10px] text-danger truncate" title={run.error}>
+        Posting review failed: {run.error}
+      </p>
+    );
+  }
+
+  return (
+    <p className={`mt-1 text-[10px] ${run.status === "running" ? "text-text-secondary" : "text-success"}`}>
+      {run.status === "running" ? "Posting review to PR..." : "Review posted to PR"}
+    </p>
+  );
+}
+
+export function SessionSidebar({ sessions, activeSessionId, onSelect, onClose, onOpenProject, onReviewPr, onOpenInbox, onOpenRepos }: SessionSidebarProps) {
   return (
     <div className="flex flex-col h-full bg-surface border-r border-border">
       {/* Header */}
@@ -70,6 +131,24 @@ export function SessionSidebar({ sessions, activeSessionId, onSelect, onClose, o
           </span>
         </div>
         <div className="flex items-center gap-1">
+          {onOpenRepos && (
+            <button
+              onClick={onOpenRepos}
+              className="p-1 rounded hover:bg-border/50 text-text-secondary hover:text-accent transition-colors"
+              title="Local repositories"
+            >
+              <HardDrive className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {onOpenInbox && (
+            <button
+              onClick={onOpenInbox}
+              className="p-1 rounded hover:bg-border/50 text-text-secondary hover:text-accent transition-colors"
+              title="Review inbox"
+            >
+              <Inbox className="w-3.5 h-3.5" />
+            </button>
+          )}
           {onReviewPr && (
             <button
               onClick={onReviewPr}
@@ -104,7 +183,7 @@ export function SessionSidebar({ sessions, activeSessionId, onSelect, onClose, o
             {sessions.map((session) => {
               const isActive = session.id === activeSessionId;
               const isManual = session.source === "manual";
-              const isGitHubPr = session.projectPath.startsWith("github:");
+              const isRemotePr = /^(github|gitlab):/.test(session.projectPath);
 
               return (
                 <div
@@ -142,7 +221,7 @@ export function SessionSidebar({ sessions, activeSessionId, onSelect, onClose, o
                       {session.needsAttention && (
                         <AlertCircle className="w-3.5 h-3.5 text-warning flex-shrink-0 animate-pulse" />
                       )}
-                      {isGitHubPr ? (
+                      {isRemotePr ? (
                         <GitPullRequest className="w-3.5 h-3.5 text-accent flex-shrink-0" />
                       ) : isManual ? (
                         <FolderOpen className="w-3.5 h-3.5 text-text-secondary flex-shrink-0" />
@@ -189,6 +268,16 @@ export function SessionSidebar({ sessions, activeSessionId, onSelect, onClose, o
                       <span className="text-danger font-mono">-{session.deletions}</span>
                     )}
                   </div>
+
+                  {/* Row 5: Server-side commit / PR outcome */}
+                  {session.postReviewAction && (
+                    <PostReviewActionStatus run={session.postReviewAction} />
+                  )}
+
+                  {/* Row 6: Review posted back to the PR */}
+                  {session.prReviewPost && (
+                    <PrReviewPostStatus run={session.prReviewPost} />
+                  )}
                 </div>
               );
             })}
@@ -1,5 +1,6 @@
 import { useEffect, useRef } from "react";
 import { useReviewStore } from "../store/review";
+import { serverFetch } from "../lib/server-api";
 
 /**
  * Reports the user's current file focus to the server via HTTP.
@@ -24,7 +25,7 @@ export function useFocusReporter() {
     if (key === lastReportedRef.current) return;
     lastReportedRef.current = key;
 
-    fetch(`http://localhost:${httpPort}/api/reviews/${sessionId}/focus`, {
+    serverFetch(`http://localhost:${httpPort}/api/reviews/${sessionId}/focus`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ file: selectedFile }),
@@ -1,5 +1,6 @@
 import { useCallback, useMemo } from "react";
 import type { GitRefsPayload } from "../types";
+import { serverFetch } from "../lib/server-api";
 
 export interface CompareResult {
   ok: boolean;
@@ -18,7 +19,7 @@ export function useHttpApi() {
     async (sessionId: string): Promise<GitRefsPayload | null> => {
       if (!httpPort) return null;
       try {
-        const response = await fetch(
+        const response = await serverFetch(
           `http://localhost:${httpPort}/api/reviews/${sessionId}/refs`,
         );
         if (!response.ok) return null;
@@ -34,7 +35,7 @@ export function useHttpApi() {
     async (sessionId: string, ref: string): Promise<CompareResult> => {
       if (!httpPort) return { ok: false, error: "Not connected to server" };
       try {
-        const response = await fetch(
+        const response = await serverFetch(
           `http://localhost:${httpPort}/api/reviews/${sessionId}/compare`,
           {
             method: "POST",
@@ -1,6 +1,7 @@
 import { useEffect, useRef, useCallback } from "react";
 import { useReviewStore } from "../store/review";
 import type { ReviewResult, ServerMessage, ClientMessage, SessionSummary, DiffUpdatePayload, Annotation } from "../types";
+import { getServerToken } from "../lib/server-api";
 
 interface UseWebSocketOptions {
   onSessionAdded?: (session: SessionSummary) => void;
@@ -25,6 +26,9 @@ export function useWebSocket(options?: UseWebSocketOptions) {
     setConnectionStatus,
     initReview,
     updateDiff,
+    applyDiffDelta,
+    applyReviewerState,
+    setRounds,
     updateContext,
     setServerMode,
     setSessions,
@@ -33,6 +37,10 @@ export function useWebSocket(options?: UseWebSocketOptions) {
     removeSession,
     addAnnotation,
     dismissAnnotation,
+    updateAnnotation,
+    updateVerification,
+    addReply,
+    setGitHubThreads,
   } = useReviewStore();
 
   useEffect(() => {
@@ -53,9 +61,13 @@ export function useWebSocket(options?: UseWebSocketOptions) {
 
     // In server mode without a specific session, connect without sessionId
     // so the server sends the session list
-    const wsUrl = sessionId
-      ? `ws://localhost:${wsPort}?sessionId=${sessionId}`
-      : `ws://localhost:${wsPort}`;
+    const wsParams = new URLSearchParams();
+    if (sessionId) wsParams.set("sessionId", sessionId);
+    // Browsers can't set headers on the handshake, so the token rides in the URL
+    const token = getServerToken();
+    if (token) wsParams.set("token", token);
+    const query = wsParams.toString();
+    const wsUrl = query ? `ws://localhost:${wsPort}?${query}` : `ws://localhost:${wsPort}`;
 
     const ws = new WebSocket(wsUrl);
     wsRef.current = ws;
@@ -74,6 +86,14 @@ export function useWebSocket(options?: UseWebSocketOptions) {
           updateDiff(message.payload);
           const payload = message.payload as DiffUpdatePayload;
           onDiffUpdatedRef.current?.(payload.diffSet.files.length);
+        } else if (message.type === "diff:delta") {
+          if (applyDiffDelta(message.payload)) {
+            onDiffUpdatedRef.current?.(message.payload.fileOrder.length);
+          } else {
+            // Missed an update (or the delta doesn't fit): ask for the full diff
+            const resync: ClientMessage = { type: "diff:resync" };
+            ws.send(JSON.stringify(resync));
+          }
         } else if (message.type === "diff:error") {
           console.error("Diff error:", message.payload.error);
         } else if (message.type === "context:update") {
@@ -94,6 +114,18 @@ export function useWebSocket(options?: UseWebSocketOptions) {
           onAnnotationAddedRef.current?.(message.payload as Annotation);
         } else if (message.type === "annotation:dismissed") {
           dismissAnnotation(message.payload.annotationId);
+        } else if (message.type === "annotation:updated") {
+          updateAnnotation(message.payload);
+        } else if (message.type === "verification:update") {
+          updateVerification(message.payload);
+        } else if (message.type === "reviewer:state") {
+          applyReviewerState(message.payload);
+        } else if (message.type === "review:rounds") {
+          setRounds(message.payload);
+        } else if (message.type === "thread:reply") {
+          addReply(message.payload);
+        } else if (message.type === "github:threads") {
+          setGitHubThreads(message.payload);
         }
       } catch (err) {
         console.error("Failed to parse WebSocket message:", err);
@@ -112,7 +144,7 @@ export function useWebSocket(options?: UseWebSocketOptions) {
       ws.close();
       wsRef.current = null;
     };
-  }, [setConnectionStatus, initReview, updateDiff, updateContext, setServerMode, setSessions, addSession, updateSession, removeSession, addAnnotation, dismissAnnotation]);
+  }, [setConnectionStatus, initReview, updateDiff, applyDiffDelta, applyReviewerState, setRounds, updateContext, setServerMode, setSessions, addSession, updateSession, removeSession, addAnnotation, dismissAnnotation, updateAnnotation, updateVerification, addReply, setGitHubThreads]);
 
   const sendResult = useCallback((result: ReviewResult) => {
     const ws = wsRef.current;
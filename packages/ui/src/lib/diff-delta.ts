@@ -0,0 +1,64 @@
+import type { DiffDeltaPayload, DiffFile, DiffSet } from "../types";
+import { getFileKey } from "./file-key";
+
+/**
+ * Split a raw unified diff into one section per file, keyed by file key.
+ * Sections appear in the same order as the parsed files. Returns null if
+ * they cannot be paired.
+ */
+function splitRawDiff(rawDiff: string, files: DiffFile[]): Map<string, string> | null {
+  const starts: number[] = [];
+  const pattern = /^diff --git /gm;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(rawDiff)) !== null) {
+    starts.push(match.index);
+  }
+  if (starts.length !== files.length) return null;
+
+  const sections = new Map<string, string>();
+  files.forEach((file, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1] : rawDiff.length;
+    sections.set(getFileKey(file), rawDiff.slice(starts[i], end));
+  });
+  return sections.size === files.length ? sections : null;
+}
+
+/**
+ * Apply a diff:delta to the current diff. Untouched files keep their
+ * existing objects so components rendering them do not re-render.
+ * Returns null if the delta does not fit, and the client should resync.
+ */
+export function applyDiffDelta(
+  diffSet: DiffSet,
+  rawDiff: string,
+  delta: DiffDeltaPayload,
+): { diffSet: DiffSet; rawDiff: string } | null {
+  const sections = splitRawDiff(rawDiff, diffSet.files);
+  if (!sections) return null;
+
+  const files = new Map(diffSet.files.map((f) => [getFileKey(f), f]));
+  for (const operation of delta.operations) {
+    if (operation.op === "remove") {
+      files.delete(operation.key);
+      sections.delete(operation.key);
+    } else {
+      files.set(operation.key, operation.file);
+      sections.set(operation.key, operation.rawDiff);
+    }
+  }
+
+  const nextFiles: DiffFile[] = [];
+  const nextSections: string[] = [];
+  for (const key of delta.fileOrder) {
+    const file = files.get(key);
+    const section = sections.get(key);
+    if (!file || section === undefined) return null;
+    nextFiles.push(file);
+    nextSections.push(section);
+  }
+
+  return {
+    diffSet: { baseRef: delta.baseRef, headRef: delta.headRef, files: nextFiles },
+    rawDiff: nextSections.join(""),
+  };
+}
@@ -98,6 +98,8 @@ export const BRIEFING_BADGE_STYLES: Record<string, string> = {
   complexity: "bg-perf/15 text-perf border border-perf/30",
   coverage: "bg-warning/15 text-warning border border-warning/30",
   patterns: "bg-accent/15 text-accent border border-accent/30",
+  verification: "bg-info/15 text-info border border-info/30",
+  verificationFailed: "bg-danger/15 text-danger border border-danger/30",
 };
 
 export const BRIEFING_SECTION_COLORS: Record<string, string> = {
@@ -109,6 +111,23 @@ export const BRIEFING_SECTION_COLORS: Record<string, string> = {
   patterns: "text-accent",
 };
 
+/* ── Verification check status (BriefingBar) ── */
+
+export const VERIFICATION_STATUS_COLORS: Record<string, string> = {
+  pending: "text-text-secondary",
+  running: "text-info",
+  passed: "text-success",
+  failed: "text-danger",
+  skipped: "text-text-secondary",
+};
+
+/* ── Suggested change preview (InlineAnnotationThread) ── */
+
+export const SUGGESTION_LINE_STYLES: Record<string, string> = {
+  before: "bg-danger/10 text-danger",
+  after: "bg-success/10 text-success",
+};
+
 /* ── Stage badges (DiffViewer file header) ── */
 
 export const STAGE_BADGE_STYLES: Record<string, string> = {
@@ -0,0 +1,19 @@
+/**
+ * The global server hands the UI its API token in the page URL; every HTTP
+ * request and the WebSocket handshake must present it.
+ */
+export function getServerToken(): string | null {
+  return new URLSearchParams(window.location.search).get("token");
+}
+
+/**
+ * fetch() against the global server API with the auth token attached.
+ */
+export function serverFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const token = getServerToken();
+  if (!token) return fetch(url, init);
+
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${token}`);
+  return fetch(url, { ...init, headers });
+}
@@ -5,13 +5,138 @@ import type {
   ReviewBriefing,
   ReviewComment,
   ReviewInitPayload,
+  ReviewerStatePayload,
+  ReviewerStateUpdate,
+  DraftReviewComment,
   ReviewMetadata,
+  PrDiffMode,
   DiffUpdatePayload,
+  DiffDeltaPayload,
   ContextUpdatePayload,
+  Interdiff,
+  ReviewRoundSummary,
+  ReviewRoundsPayload,
   SessionSummary,
   Annotation,
+  GitHubReviewThread,
+  ThreadReply,
+  VerificationRun,
+  VerificationUpdatePayload,
 } from "../types";
-import { getFileKey } from "../lib/file-key";
+import { getDisplayPath, getFileKey } from "../lib/file-key";
+import { applyDiffDelta } from "../lib/diff-delta";
+import { serverFetch } from "../lib/server-api";
+
+/**
+ * Build a global-server API URL for a review session, or null when the UI
+ * isn't connected to a server.
+ */
+function reviewApiUrl(reviewId: string | null, path: string): string | null {
+  const httpPort = new URLSearchParams(window.location.search).get("httpPort");
+  if (!httpPort || !reviewId) return null;
+  return `http://localhost:${httpPort}/api/reviews/${reviewId}${path}`;
+}
+
+function createCommentId(): string {
+  return `comment-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Identifies this tab, so it can skip the echo of its own reviewer:state updates
+const clientId = `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Mirror a comment to the server so agents can read and reply to it
+ * (fire-and-forget — local state is authoritative for the comment itself).
+ */
+function syncComment(reviewId: string | null, comment: ReviewComment): void {
+  const url = reviewApiUrl(reviewId, "/comments");
+  if (!url) return;
+  serverFetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...comment, clientId }),
+  }).catch(() => {
+    // Ignore network errors — the comment is still submitted with the review
+  });
+}
+
+// Drafts change on every keystroke, so they are sent once typing pauses
+const DRAFT_SYNC_DELAY_MS = 500;
+let draftSyncTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Save in-progress review state on the server so a reload or another tab
+ * picks it up (fire-and-forget, like syncComment).
+ */
+function syncReviewerState(reviewId: string | null, update: ReviewerStateUpdate): void {
+  const url = reviewApiUrl(reviewId, "/state");
+  if (!url) return;
+  serverFetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...update, clientId }),
+  }).catch(() => {
+    // Ignore network errors — local state still drives this tab
+  });
+}
+
+function syncDraftComment(reviewId: string | null, draftComment: DraftComment | null): void {
+  if (draftSyncTimer) clearTimeout(draftSyncTimer);
+  draftSyncTimer = setTimeout(() => {
+    draftSyncTimer = null;
+    syncReviewerState(reviewId, { draftComment });
+  }, DRAFT_SYNC_DELAY_MS);
+}
+
+type ReviewRequestResult<T> = { error: null; data: T } | { error: string; data?: undefined };
+
+/**
+ * Send a request to the server's API for a review session. Resolves to the
+ * response body, or to an error message — it never rejects.
+ */
+async function sendReviewRequest<T = unknown>(
+  reviewId: string | null,
+  path: string,
+  init: RequestInit = {},
+): Promise<ReviewRequestResult<T>> {
+  const url = reviewApiUrl(reviewId, path);
+  if (!url) return { error: "Not connected to the DiffPrism server" };
+
+  try {
+    const res = await serverFetch(url, {
+      ...init,
+      headers: init.body ? { "Content-Type": "application/json" } : undefined,
+    });
+    const data = (await res.json().catch(() => ({}))) as T & { error?: string };
+    if (res.ok) return { error: null, data };
+    return { error: data.error ?? `Server returned ${res.status}` };
+  } catch {
+    return { error: "Could not reach the DiffPrism server" };
+  }
+}
+
+/**
+ * Send a GitHub thread action through the server. Resolves to an error
+ * message, or null on success — updated threads arrive as github:threads.
+ */
+async function sendGitHubRequest(
+  reviewId: string | null,
+  path: string,
+  init: RequestInit,
+): Promise<string | null> {
+  return (await sendReviewRequest(reviewId, `/github${path}`, init)).error;
+}
+
+/**
+ * The file to show after switching between the full diff and an interdiff:
+ * the same file if it is in both, else the first one.
+ */
+function matchSelectedFile(selectedFile: string | null, diffSet: DiffSet): string | null {
+  const keys = diffSet.files.map(getFileKey);
+  if (selectedFile && keys.includes(selectedFile)) return selectedFile;
+  const path = selectedFile ? getDisplayPath(selectedFile) : null;
+  return keys.find((key) => getDisplayPath(key) === path) ?? keys[0] ?? null;
+}
 
 const FILE_STATUS_CYCLE: FileReviewStatus[] = [
   "unreviewed",
@@ -22,17 +147,23 @@ const FILE_STATUS_CYCLE: FileReviewStatus[] = [
 
 export type Theme = "dark" | "light";
 
-export interface DraftComment {
-  body: string;
-  type: ReviewComment["type"];
+export type DraftComment = DraftReviewComment;
+
+export type HunkAction = "stage" | "unstage" | "discard";
+
+export interface HunkTarget {
   file: string;
-  line: number;
+  stage: "staged" | "unstaged";
+  oldStart: number;
+  newStart: number;
 }
 
 export interface ReviewState {
   reviewId: string | null;
   diffSet: DiffSet | null;
   rawDiff: string | null;
+  // Sequence number of the last diff update applied; deltas must follow it
+  diffSeq: number | null;
   briefing: ReviewBriefing | null;
   metadata: ReviewMetadata | null;
   selectedFile: string | null;
@@ -57,6 +188,16 @@ export interface ReviewState {
   // Annotations
   annotations: Annotation[];
 
+  // Review threads already on the GitHub PR (read-only)
+  githubThreads: GitHubReviewThread[];
+
+  // Verification (test/typecheck/lint run by the server)
+  verification: VerificationRun | null;
+
+  // Earlier changes_requested rounds, and the interdiff being shown (if any)
+  rounds: ReviewRoundSummary[];
+  interdiff: Interdiff | null;
+
   // Server mode (multi-session)
   showHotkeyGuide: boolean;
   showWorkflowTips: boolean;
@@ -81,6 +222,9 @@ export interface ReviewState {
   saveDraftComment: () => void;
   toggleTheme: () => void;
   updateDiff: (payload: DiffUpdatePayload) => void;
+  /** Apply a per-file delta. Returns false if it does not follow the current diff. */
+  applyDiffDelta: (payload: DiffDeltaPayload) => boolean;
+  applyReviewerState: (payload: ReviewerStatePayload) => void;
   updateContext: (payload: ContextUpdatePayload) => void;
   setWatchSubmitted: (submitted: boolean) => void;
   setServerMode: (isServerMode: boolean) => void;
@@ -94,6 +238,22 @@ export interface ReviewState {
   setCompareRef: (ref: string | null) => void;
   addAnnotation: (annotation: Annotation) => void;
   dismissAnnotation: (annotationId: string) => void;
+  updateAnnotation: (annotation: Annotation) => void;
+  applySuggestion: (annotationId: string) => Promise<string | null>;
+  applyHunkAction: (action: HunkAction, target: HunkTarget) => Promise<string | null>;
+  addReply: (reply: ThreadReply) => void;
+  replyToThread: (targetId: string, body: string) => void;
+  setGitHubThreads: (threads: GitHubReviewThread[]) => void;
+  replyToGitHubThread: (threadId: string, body: string) => Promise<string | null>;
+  resolveGitHubThread: (threadId: string, resolved: boolean) => Promise<string | null>;
+  editGitHubComment: (commentId: string, body: string) => Promise<string | null>;
+  deleteGitHubComment: (commentId: string) => Promise<string | null>;
+  setPrDiffMode: (mode: PrDiffMode) => Promise<string | null>;
+  checkoutPr: () => Promise<string | null>;
+  updateVerification: (payload: VerificationUpdatePayload) => void;
+  runVerification: () => void;
+  setRounds: (payload: ReviewRoundsPayload) => void;
+  showInterdiff: (round: number | null) => Promise<string | null>;
   clearSessionAttention: (sessionId: string) => void;
   selectSession: (sessionId: string) => void;
   clearReview: () => void;
@@ -103,6 +263,7 @@ export const useReviewStore = create<ReviewState>((set, get) => ({
   reviewId: null,
   diffSet: null,
   rawDiff: null,
+  diffSeq: null,
   briefing: null,
   metadata: null,
   selectedFile: null,
@@ -120,6 +281,10 @@ export const useReviewStore = create<ReviewState>((set, get) => ({
   hunkCount: 0,
   compareRef: null,
   annotations: [],
+  githubThreads: [],
+  verification: null,
+  rounds: [],
+  interdiff: null,
   showHotkeyGuide: false,
   showWorkflowTips: false,
   isServerMode: false,
@@ -127,28 +292,36 @@ export const useReviewStore = create<ReviewState>((set, get) => ({
   activeSessionId: null,
 
   initReview: (payload: ReviewInitPayload) => {
-    const firstFile =
-      payload.diffSet.files.length > 0
-        ? getFileKey(payload.diffSet.files[0])
-        : null;
+    const fileKeys = payload.diffSet.files.map(getFileKey);
+    // Pick up where the reviewer left off (another tab, or before a reload)
+    const saved = payload.reviewerState;
+    const selectedFile =
+      saved?.selectedFile && fileKeys.includes(saved.selectedFile)
+        ? saved.selectedFile
+        : fileKeys[0] ?? null;
 
     const fileStatuses: Record<string, FileReviewStatus> = {};
-    for (const file of payload.diffSet.files) {
-      fileStatuses[getFileKey(file)] = "unreviewed";
+    for (const key of fileKeys) {
+      fileStatuses[key] = saved?.fileStatuses[key] ?? "unreviewed";
     }
 
     set({
       reviewId: payload.reviewId,
       diffSet: payload.diffSet,
       rawDiff: payload.rawDiff,
+      diffSeq: payload.diffSeq ?? null,
       briefing: payload.briefing,
       metadata: payload.metadata,
-      selectedFile: firstFile,
+      selectedFile,
       fileStatuses,
-      comments: [],
+      comments: saved?.comments ?? [],
       annotations: [],
+      githubThreads: payload.githubThreads ?? [],
+      verification: null,
+      rounds: payload.rounds ?? [],
+      interdiff: null,
       activeCommentKey: null,
-      draftComment: null,
+      draftComment: saved?.draftComment ?? null,
       focusedHunkIndex: null,
       hunkCount: 0,
       compareRef: null,
@@ -161,6 +334,7 @@ export const useReviewStore = create<ReviewState>((set, get) => ({
 
   selectFile: (path: string) => {
     set({ selectedFile: path, focusedHunkIndex: null, hunkCount: 0 });
+    syncReviewerState(get().reviewId, { selectedFile: path });
   },
 
   setConnectionStatus: (status: ReviewState["connectionStatus"]) => {
@@ -175,61 +349,77 @@ export const useReviewStore = create<ReviewState>((set, get) => ({
     set((state) => ({
       fileStatuses: { ...state.fileStatuses, [path]: status },
     }));
+    syncReviewerState(get().reviewId, { fileStatuses: { [path]: status } });
   },
 
   cycleFileStatus: (path: string) => {
     const current = get().fileStatuses[path] ?? "unreviewed";
     const currentIndex = FILE_STATUS_CYCLE.indexOf(current);
     const nextIndex = (currentIndex + 1) % FILE_STATUS_CYCLE.length;
-    set((state) => ({
-      fileStatuses: {
-        ...state.fileStatuses,
-        [path]: FILE_STATUS_CYCLE[nextIndex],
-      },
-    }));
+    get().setFileStatus(path, FILE_STATUS_CYCLE[nextIndex]);
   },
 
   addComment: (comment: ReviewComment) => {
-    set((state) => ({ comments: [...state.comments, comment] }));
+    const withId = comment.id ? comment : { ...comment, id: createCommentId() };
+    set((state) => ({ comments: [...state.comments, withId] }));
+    syncComment(get().reviewId, withId);
   },
 
   updateComment: (index: number, comment: ReviewComment) => {
+    const existing = get().comments[index];
+    if (!existing) return;
+    // Edits keep the thread: same ID, replies stay attached
+    const updated: ReviewComment = {
+      ...comment,
+      id: existing.id ?? comment.id ?? createCommentId(),
+      replies: existing.replies,
+    };
     set((state) => ({
-      comments: state.comments.map((c, i) => (i === index ? comment : c)),
+      comments: state.comments.map((c, i) => (i === index ? updated : c)),
     }));
+    syncComment(get().reviewId, updated);
   },
 
   deleteComment: (index: number) => {
+    const removed = get().comments[index];
     set((state) => ({
       comments: state.comments.filter((_, i) => i !== index),
     }));
+
+    const url = removed?.id ? reviewApiUrl(get().reviewId, `/comments/${removed.id}`) : null;
+    if (url) {
+      serverFetch(url, { method: "DELETE" }).catch(() => {
+        // Ignore network errors — local state is already updated
+      });
+    }
   },
 
   setActiveCommentKey: (key: string | null) => {
     set({ activeCommentKey: key });
     // Clear draft when closing the form
-    if (key === null) {
-      set({ draftComment: null });
+    if (key === null && get().draftComment) {
+      get().setDraftComment(null);
     }
   },
 
   setDraftComment: (draft: DraftComment | null) => {
     set({ draftComment: draft });
+    syncDraftComment(get().reviewId, draft);
   },
 
   saveDraftComment: () => {
     const { draftComment } = get();
     if (draftComment && draftComment.body.trim()) {
-      set((state) => ({
-        comments: [...state.comments, {
-          file: draftComment.file,
-          line: draftComment.line,
-          body: draftComment.body.trim(),
-          type: draftComment.type,
-        }],
-        draftComment: null,
-        activeCommentKey: null,
-      }));
+      get().addComment({
+        file: draftComment.file,
+        line: draftComment.line,
+        startLine: draftComment.startLine,
+        suggestion: draftComment.suggestion,
+        body: draftComment.body.trim(),
+        type: draftComment.type,
+      });
+      set({ activeCommentKey: null });
+      get().setDraftComment(null);
     }
   },
 
@@ -274,6 +464,7 @@ export const useReviewStore = create<ReviewState>((set, get) => ({
     set({
       diffSet: payload.diffSet,
       rawDiff: payload.rawDiff,
+      diffSeq: payload.seq ?? null,
       briefing: payload.briefing,
       fileStatuses,
       selectedFile,
@@ -281,6 +472,61 @@ export const useReviewStore = create<ReviewState>((set, get) => ({
       hunkCount: 0,
       hasUnreviewedChanges: true,
     });
+    if (state.interdiff) void get().showInterdiff(state.interdiff.round);
+  },
+
+  applyDiffDelta: (payload: DiffDeltaPayload) => {
+    const state = get();
+    if (!state.diffSet || state.rawDiff === null) return false;
+    if (state.diffSeq === null || payload.seq !== state.diffSeq + 1) return false;
+
+    const next = applyDiffDelta(state.diffSet, state.rawDiff, payload);
+    if (!next) return false;
+
+    // Untouched files keep their status; added and replaced files start over
+    const touched = new Set(payload.operations.map((op) => op.key));
+    const fileStatuses: Record<string, FileReviewStatus> = {};
+    for (const key of payload.fileOrder) {
+      fileStatuses[key] = touched.has(key)
+        ? "unreviewed"
+        : state.fileStatuses[key] ?? "unreviewed";
+    }
+
+    // Keep the reader's place unless the file they are looking at changed
+    let { selectedFile, focusedHunkIndex, hunkCount } = state;
+    if (!selectedFile || touched.has(selectedFile)) {
+      focusedHunkIndex = null;
+      hunkCount = 0;
+      if (selectedFile && !payload.fileOrder.includes(selectedFile)) {
+        selectedFile = payload.fileOrder[0] ?? null;
+      }
+    }
+
+    set({
+      diffSet: next.diffSet,
+      rawDiff: next.rawDiff,
+      diffSeq: payload.seq,
+      briefing: payload.briefing,
+      fileStatuses,
+      selectedFile,
+      focusedHunkIndex,
+      hunkCount,
+      hasUnreviewedChanges: true,
+    });
+    if (state.interdiff) void get().showInterdiff(state.interdiff.round);
+    return true;
+  },
+
+  applyReviewerState: (payload: ReviewerStatePayload) => {
+    const state = get();
+    if (payload.sessionId !== state.reviewId || payload.origin === clientId) return;
+
+    // Statuses and comments follow other tabs; selection and drafts stay per tab
+    const fileStatuses: Record<string, FileReviewStatus> = {};
+    for (const key of Object.keys(state.fileStatuses)) {
+      fileStatuses[key] = payload.state.fileStatuses[key] ?? "unreviewed";
+    }
+    set({ fileStatuses, comments: payload.state.comments });
   },
 
   updateContext: (payload: ContextUpdatePayload) => {
@@ -340,11 +586,16 @@ export const useReviewStore = create<ReviewState>((set, get) => ({
           reviewId: null,
           diffSet: null,
           rawDiff: null,
+          diffSeq: null,
           briefing: null,
           metadata: null,
           selectedFile: null,
           fileStatuses: {},
           comments: [],
+          githubThreads: [],
+          verification: null,
+          rounds: [],
+          interdiff: null,
           activeCommentKey: null,
           draftComment: null,
           focusedHunkIndex: null,
@@ -411,18 +662,162 @@ export const useReviewStore = create<ReviewState>((set, get) => ({
       ),
     }));
 
-    // Persist dismissal to server (fire-and-forget)
-    const params = new URLSearchParams(window.location.search);
-    const httpPort = params.get("httpPort");
-    const sessionId = get().reviewId;
-    if (httpPort && sessionId) {
-      fetch(
-        `http://localhost:${httpPort}/api/reviews/${sessionId}/annotations/${annotationId}/dismiss`,
-        { method: "POST" },
-      ).catch(() => {
-        // Ignore network errors — local state is already updated
+    // Persist dismissal to server (fire-and-forget — local state is already updated)
+    void sendReviewRequest(get().reviewId, `/annotations/${annotationId}/dismiss`, { method: "POST" });
+  },
+
+  updateAnnotation: (annotation: Annotation) => {
+    set((state) => ({
+      annotations: state.annotations.map((a) => (a.id === annotation.id ? annotation : a)),
+    }));
+  },
+
+  applySuggestion: async (annotationId: string) => {
+    // On success the server broadcasts annotation:updated and a fresh diff
+    const result = await sendReviewRequest<{ annotation: Annotation }>(
+      get().reviewId,
+      `/annotations/${annotationId}/apply`,
+      { method: "POST" },
+    );
+    if (result.error !== null) return result.error;
+    get().updateAnnotation(result.data.annotation);
+    return null;
+  },
+
+  applyHunkAction: async (action: HunkAction, target: HunkTarget) => {
+    // The updated diff arrives over the WebSocket as diff:update
+    const result = await sendReviewRequest(get().reviewId, `/hunks/${action}`, {
+      method: "POST",
+      body: JSON.stringify(target),
+    });
+    return result.error;
+  },
+
+  addReply: (reply: ThreadReply) => {
+    const append = <T extends { id?: string; replies?: ThreadReply[] }>(target: T): T => {
+      if (target.id !== reply.targetId) return target;
+      const replies = target.replies ?? [];
+      // The sender also receives its own reply over the WebSocket
+      if (replies.some((r) => r.id === reply.id)) return target;
+      return { ...target, replies: [...replies, reply] };
+    };
+
+    set((state) => ({
+      annotations: state.annotations.map(append),
+      comments: state.comments.map(append),
+    }));
+  },
+
+  setGitHubThreads: (threads: GitHubReviewThread[]) => {
+    set({ githubThreads: threads });
+  },
+
+  replyToGitHubThread: (threadId: string, body: string) =>
+    sendGitHubRequest(get().reviewId, `/threads/${encodeURIComponent(threadId)}/replies`, {
+      method: "POST",
+      body: JSON.stringify({ body }),
+    }),
+
+  resolveGitHubThread: (threadId: string, resolved: boolean) =>
+    sendGitHubRequest(get().reviewId, `/threads/${encodeURIComponent(threadId)}/resolve`, {
+      method: "POST",
+      body: JSON.stringify({ resolved }),
+    }),
+
+  editGitHubComment: (commentId: string, body: string) =>
+    sendGitHubRequest(get().reviewId, `/comments/${encodeURIComponent(commentId)}`, {
+      method: "POST",
+      body: JSON.stringify({ body }),
+    }),
+
+  deleteGitHubComment: (commentId: string) =>
+    sendGitHubRequest(get().reviewId, `/comments/${encodeURIComponent(commentId)}`, {
+      method: "DELETE",
+    }),
+
+  setPrDiffMode: async (mode: PrDiffMode) => {
+    // The new diff arrives over the WebSocket as review:init
+    const result = await sendReviewRequest(get().reviewId, "/pr-diff", {
+      method: "POST",
+      body: JSON.stringify({ mode }),
+    });
+    return result.error;
+  },
+
+  checkoutPr: async () => {
+    // The new project path arrives over the WebSocket as session:updated
+    const result = await sendReviewRequest(get().reviewId, "/checkout", { method: "POST" });
+    return result.error;
+  },
+
+  replyToThread: (targetId: string, body: string) => {
+    const url = reviewApiUrl(get().reviewId, `/threads/${targetId}/replies`);
+    if (!url || !body.trim()) return;
+
+    serverFetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ body: body.trim(), author: { kind: "human", name: "reviewer" } }),
+    })
+      .then(async (res) => {
+        if (res.ok) {
+          const { reply } = (await res.json()) as { reply: ThreadReply };
+          get().addReply(reply);
+        }
+      })
+      .catch(() => {
+        // Ignore network errors — the reply just never shows up in the thread
+      });
+  },
+
+  updateVerification: (payload: VerificationUpdatePayload) => {
+    const state = get();
+    if (payload.sessionId !== state.reviewId) return;
+
+    // The server sends the briefing outcomes it derived from the run, so
+    // badges match what agents read
+    set({
+      verification: payload.run,
+      briefing: state.briefing ? { ...state.briefing, verification: payload.briefingVerification } : null,
+    });
+  },
+
+  runVerification: () => {
+    // Results stream back over the WebSocket as verification:update; on
+    // failure the UI keeps showing the previous results
+    void sendReviewRequest(get().reviewId, "/verify", { method: "POST" });
+  },
+
+  setRounds: (payload: ReviewRoundsPayload) => {
+    if (payload.sessionId !== get().reviewId) return;
+    set({ rounds: payload.rounds });
+  },
+
+  showInterdiff: async (round: number | null) => {
+    const { reviewId, diffSet, selectedFile } = get();
+    if (round === null) {
+      set({
+        interdiff: null,
+        selectedFile: diffSet ? matchSelectedFile(selectedFile, diffSet) : null,
+        focusedHunkIndex: null,
+        hunkCount: 0,
       });
+      return null;
     }
+
+    const result = await sendReviewRequest<Interdiff>(reviewId, `/rounds/${round}/interdiff`);
+    if (result.error !== null) return result.error;
+
+    // Ignore a response that arrives after the reader moved on
+    if (get().reviewId !== reviewId) return null;
+    const interdiff = result.data;
+    set({
+      interdiff,
+      selectedFile: matchSelectedFile(get().selectedFile, interdiff.diffSet),
+      focusedHunkIndex: null,
+      hunkCount: 0,
+    });
+    return null;
   },
 
   clearSessionAttention: (sessionId: string) => {
@@ -444,12 +839,17 @@ export const useReviewStore = create<ReviewState>((set, get) => ({
       reviewId: null,
       diffSet: null,
       rawDiff: null,
+      diffSeq: null,
       briefing: null,
       metadata: null,
       selectedFile: null,
       fileStatuses: {},
       comments: [],
       annotations: [],
+      githubThreads: [],
+      verification: null,
+      rounds: [],
+      interdiff: null,
       activeCommentKey: null,
       draftComment: null,
       focusedHunkIndex: null,
@@ -5,6 +5,7 @@ export interface Change {
   type: "add" | "delete" | "context";
   lineNumber: number;
   content: string;
+  noNewline?: boolean; // last line of the file, without a trailing newline
 }
 
 export interface Hunk {
@@ -19,6 +20,7 @@ export interface DiffFile {
   path: string;
   status: "added" | "modified" | "deleted" | "renamed";
   oldPath?: string;
+  mode?: string; // file mode of an added or deleted file, e.g. "100755"
   hunks: Hunk[];
   language: string;
   binary: boolean;
@@ -48,10 +50,28 @@ export type FileReviewStatus =
   | "needs_changes";
 
 export interface ReviewComment {
+  id?: string; // set for comments mirrored to the server so they can be replied to
   file: string;
-  line: number;
+  line: number; // last line of the range
+  startLine?: number; // first line, for comments spanning several lines
+  side?: "LEFT" | "RIGHT"; // LEFT = old file, RIGHT = new file (default)
+  suggestion?: string; // replacement for the line range; empty string deletes it
   body: string;
   type: "must_fix" | "suggestion" | "question" | "nitpick";
+  replies?: ThreadReply[];
+}
+
+export interface ThreadAuthor {
+  kind: "human" | "agent";
+  name: string; // agent identifier, or "reviewer" for the human
+}
+
+export interface ThreadReply {
+  id: string;
+  targetId: string; // annotation or comment ID this reply belongs to
+  author: ThreadAuthor;
+  body: string;
+  createdAt: number; // Unix timestamp ms
 }
 
 export type PostReviewAction = "commit" | "commit_and_pr";
@@ -65,6 +85,83 @@ export interface ReviewResult {
   postToGithub?: boolean;
 }
 
+export interface DraftReviewComment {
+  body: string;
+  type: ReviewComment["type"];
+  file: string;
+  line: number;
+  startLine?: number;
+  suggestion?: string;
+}
+
+/**
+ * What a reviewer has done on a session before submitting. The global server
+ * holds it so a reload or a second tab picks up where the reviewer left off.
+ */
+export interface ReviewerProgress {
+  fileStatuses: Record<string, FileReviewStatus>; // files not listed are unreviewed
+  selectedFile: string | null;
+  draftComment: DraftReviewComment | null;
+  updatedAt: number; // Unix timestamp ms
+}
+
+export interface ReviewerState extends ReviewerProgress {
+  comments: ReviewComment[];
+}
+
+/** Partial update of a reviewer's progress; fileStatuses entries are merged. */
+export interface ReviewerStateUpdate {
+  fileStatuses?: Record<string, FileReviewStatus>;
+  selectedFile?: string | null;
+  draftComment?: DraftReviewComment | null;
+  clientId?: string; // the tab that sent the update, echoed back as `origin`
+}
+
+export interface ReviewRoundSummary {
+  number: number;
+  submittedAt: number;
+  fileCount: number;
+  commentCount: number;
+  summary?: string;
+}
+
+/** A comment from an earlier round, checked against what changed since. */
+export interface CarriedComment extends ReviewComment {
+  round: number;
+  state: "addressed" | "outstanding";
+}
+
+/**
+ * What changed since a round. `exact` interdiffs compare snapshots line by
+ * line; otherwise the diff holds each changed file's current diff.
+ */
+export interface Interdiff {
+  round: number;
+  exact: boolean;
+  diffSet: DiffSet;
+  rawDiff: string;
+  comments: CarriedComment[];
+}
+
+export interface PostReviewActionRun {
+  action: PostReviewAction;
+  status: "running" | "succeeded" | "failed";
+  startedAt: number;
+  finishedAt?: number;
+  commitSha?: string;
+  branch?: string;
+  pullRequest?: { number: number; url: string };
+  error?: string;
+}
+
+export interface PrReviewPostRun {
+  status: "running" | "succeeded" | "failed";
+  startedAt: number;
+  finishedAt?: number;
+  reviewId?: number;
+  error?: string;
+}
+
 // ─── Annotation Types ───
 
 export type AnnotationType = "finding" | "suggestion" | "question" | "warning";
@@ -84,6 +181,18 @@ export interface AnnotationSource {
   tool?: string; // MCP tool that created it (e.g., "add_annotation")
 }
 
+/**
+ * Replacement for lines startLine..endLine (1-based, inclusive) of the
+ * annotated file in the working tree.
+ */
+export interface SuggestedChange {
+  startLine: number;
+  endLine: number;
+  replacement: string;
+  original: string | null; // lines being replaced when suggested, null if unknown
+  appliedAt?: number; // Unix timestamp ms
+}
+
 export interface Annotation {
   id: string;
   sessionId: string;
@@ -96,6 +205,9 @@ export interface Annotation {
   source: AnnotationSource;
   createdAt: number; // Unix timestamp ms
   dismissed?: boolean;
+  outdated?: boolean;
+  replies?: ThreadReply[];
+  suggestedChange?: SuggestedChange;
 }
 
 export interface SessionState {
@@ -183,6 +295,55 @@ export interface ReviewBriefing {
   patterns?: PatternFlag[];
 }
 
+// ─── Verification Types ───
+
+export type VerificationCheckName = "test" | "typecheck" | "lint";
+
+export type VerificationCheckStatus =
+  | "pending"
+  | "running"
+  | "passed"
+  | "failed"
+  | "skipped";
+
+export interface VerificationCheckResult {
+  name: VerificationCheckName;
+  command: string | null;
+  status: VerificationCheckStatus;
+  exitCode: number | null;
+  durationMs: number | null;
+  output: string;
+  truncated: boolean;
+  timedOut?: boolean;
+}
+
+export interface VerificationRun {
+  id: string;
+  status: "running" | "completed" | "cancelled";
+  startedAt: number;
+  finishedAt?: number;
+  checks: VerificationCheckResult[];
+  stale?: boolean;
+}
+
+export interface VerificationUpdatePayload {
+  sessionId: string;
+  run: VerificationRun;
+  /** The briefing's verification outcomes with this run applied. */
+  briefingVerification: ReviewBriefing["verification"];
+}
+
+export interface ReviewRoundsPayload {
+  sessionId: string;
+  rounds: ReviewRoundSummary[];
+}
+
+export interface ReviewerStatePayload {
+  sessionId: string;
+  state: ReviewerState;
+  origin?: string; // clientId of the update that caused this, if any
+}
+
 // ─── WebSocket Protocol ───
 
 export interface ReviewInitPayload {
@@ -192,6 +353,10 @@ export interface ReviewInitPayload {
   briefing: ReviewBriefing;
   metadata: ReviewMetadata;
   watchMode?: boolean;
+  githubThreads?: GitHubReviewThread[]; // existing review threads on a GitHub PR
+  diffSeq?: number; // sequence number of this diff; diff:delta messages continue from it
+  reviewerState?: ReviewerState; // in-progress review held by the global server
+  rounds?: ReviewRoundSummary[]; // earlier changes_requested rounds, oldest first
 }
 
 export interface WorktreeMetadata {
@@ -201,6 +366,8 @@ export interface WorktreeMetadata {
 }
 
 export interface GitHubPrMetadata {
+  provider?: PrProvider;
+  host?: string;
   owner: string;
   repo: string;
   number: number;
@@ -209,6 +376,39 @@ export interface GitHubPrMetadata {
   url: string;
   baseBranch: string;
   headBranch: string;
+  headSha?: string;
+  lastReviewedSha?: string;
+  diffMode?: PrDiffMode;
+}
+
+export type PrDiffMode = "full" | "since_last_review";
+
+export type PrProvider = "github" | "gitlab";
+
+export interface GitHubThreadComment {
+  id: string; // GraphQL node ID
+  databaseId: number; // REST ID, used to reply
+  author: string;
+  body: string;
+  createdAt: number; // Unix timestamp ms
+  url: string;
+  viewerDidAuthor: boolean; // written by the authenticated user, so it can be edited or deleted
+}
+
+/**
+ * A review thread left on a GitHub PR, anchored to a line of the diff.
+ * `line` is null when the thread is outdated and no longer maps onto the diff.
+ */
+export interface GitHubReviewThread {
+  id: string; // GraphQL node ID
+  path: string;
+  line: number | null;
+  originalLine: number | null;
+  startLine: number | null;
+  side: "LEFT" | "RIGHT"; // LEFT anchors to old line numbers, RIGHT to new ones
+  isResolved: boolean;
+  isOutdated: boolean;
+  comments: GitHubThreadComment[];
 }
 
 export interface ReviewMetadata {
@@ -226,6 +426,23 @@ export interface DiffUpdatePayload {
   briefing: ReviewBriefing;
   changedFiles: string[];
   timestamp: number;
+  seq?: number;
+}
+
+export type DiffFileOperation =
+  | { op: "add"; key: string; file: DiffFile; rawDiff: string }
+  | { op: "replace"; key: string; file: DiffFile; rawDiff: string }
+  | { op: "remove"; key: string };
+
+export interface DiffDeltaPayload {
+  seq: number;
+  baseRef: string;
+  headRef: string;
+  operations: DiffFileOperation[];
+  fileOrder: string[];
+  briefing: ReviewBriefing;
+  changedFiles: string[];
+  timestamp: number;
 }
 
 export interface ContextUpdatePayload {
@@ -255,6 +472,33 @@ export interface GitRefsPayload {
   currentBranch: string;
 }
 
+export type InboxReason = "review_requested" | "authored" | "local_repo";
+
+export type CiStatus = "success" | "failure" | "pending" | "none";
+
+export interface InboxEntry {
+  host?: string;
+  owner: string;
+  repo: string;
+  number: number;
+  title: string;
+  author: string;
+  url: string;
+  draft: boolean;
+  reasons: InboxReason[];
+  ci: CiStatus;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InboxPayload {
+  entries: InboxEntry[];
+  errors: string[];
+}
+
 export type GlobalSessionStatus = "pending" | "in_review" | "submitted";
 
 export type SessionSource = "manual" | "agent";
@@ -274,6 +518,8 @@ export interface SessionSummary {
   hasNewChanges?: boolean;
   needsAttention?: boolean;
   source?: SessionSource;
+  postReviewAction?: PostReviewActionRun;
+  prReviewPost?: PrReviewPostRun;
 }
 
 export interface DiffErrorPayload {
@@ -283,6 +529,7 @@ export interface DiffErrorPayload {
 export type ServerMessage =
   | { type: "review:init"; payload: ReviewInitPayload }
   | { type: "diff:update"; payload: DiffUpdatePayload }
+  | { type: "diff:delta"; payload: DiffDeltaPayload }
   | { type: "diff:error"; payload: DiffErrorPayload }
   | { type: "context:update"; payload: ContextUpdatePayload }
   | { type: "session:list"; payload: SessionSummary[] }
@@ -290,10 +537,17 @@ export type ServerMessage =
   | { type: "session:updated"; payload: SessionSummary }
   | { type: "session:removed"; payload: { sessionId: string } }
   | { type: "annotation:added"; payload: Annotation }
-  | { type: "annotation:dismissed"; payload: { annotationId: string } };
+  | { type: "annotation:dismissed"; payload: { annotationId: string } }
+  | { type: "annotation:updated"; payload: Annotation }
+  | { type: "verification:update"; payload: VerificationUpdatePayload }
+  | { type: "reviewer:state"; payload: ReviewerStatePayload }
+  | { type: "review:rounds"; payload: ReviewRoundsPayload }
+  | { type: "thread:reply"; payload: ThreadReply }
+  | { type: "github:threads"; payload: GitHubReviewThread[] };
 
 export type ClientMessage =
   | { type: "review:submit"; payload: ReviewResult }
   | { type: "diff:change_ref"; payload: { diffRef: string } }
+  | { type: "diff:resync" }
   | { type: "session:select"; payload: { sessionId: string } }
   | { type: "session:close"; payload: { sessionId: string } };
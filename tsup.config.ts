@@ -7,6 +7,8 @@ export default defineConfig({
   entry: {
     bin: "cli/src/index.ts",
     "mcp-server": "packages/mcp-server/src/index.ts",
+    // Loaded by the diff pipeline as a sibling file for --analysis-worker
+    "diff-worker": "packages/core/src/diff-worker.ts",
   },
   format: "esm",
   target: "node20",